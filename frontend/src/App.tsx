@@ -5,7 +5,7 @@ import { SessionControls } from './components/SessionControls';
 import { NewSessionDialog } from './components/NewSessionDialog';
 import { TerminalModal } from './components/TerminalModal';
 import { Login } from './components/Login';
-import { Session } from './types/Session';
+import { Session, WorktreeCleanup } from './types/Session';
 import { Workspace } from './types/Workspace';
 import { groupSessionsByWorkspace } from './types/Project';
 import { getToken, isAuthenticated, checkAuthEnabled, logout } from './services/AuthService';
@@ -20,6 +20,13 @@ import { HostManagement } from './components/HostManagement';
 import { BacklogButton } from './components/BacklogButton';
 import { BacklogPanel } from './components/BacklogPanel';
 import { TodoPanel } from './components/TodoPanel';
+import { SearchPalette } from './components/SearchPalette';
+import { NotificationSettingsDialog } from './components/NotificationSettingsDialog';
+import { showBrowserNotification } from './services/NotificationService';
+import { ShareViewer } from './components/ShareViewer';
+import { SearchResult } from './types/Search';
+import { UsageReport } from './types/Usage';
+import { fetchUsage } from './services/UsageService';
 
 function ConnectionStatus({ status }: { status: string }) {
   const statusConfig = {
@@ -57,6 +64,7 @@ function SessionManagerApp() {
     showHistory,
     setShowHistory,
     sessionHistory,
+    latestNotification,
   } = useSessionContext();
 
   const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
@@ -81,6 +89,9 @@ function SessionManagerApp() {
   const [expandedPreviews, setExpandedPreviews] = useState<Set<string>>(new Set());
   const [showHostManagement, setShowHostManagement] = useState(false);
   const [showBacklog, setShowBacklog] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false);
+  const [modalHighlight, setModalHighlight] = useState<string | undefined>(undefined);
   const [showHiddenWorkspaces, setShowHiddenWorkspaces] = useState(false);
   const [showTodoPanel, setShowTodoPanel] = useState(false);
   const [selectedWorkspaceForTodo, setSelectedWorkspaceForTodo] = useState<string | null>(null);
@@ -88,6 +99,7 @@ function SessionManagerApp() {
   // Hosts and todo stats for workspace info
   const [hosts, setHosts] = useState<Array<{ id: string; name: string; type: string; hostname?: string }>>([]);
   const [todoStats] = useState<Record<string, { pending: number; completed: number }>>({});
+  const [usage, setUsage] = useState<UsageReport | null>(null);
 
   // Drag and drop state
   const {
@@ -159,6 +171,18 @@ function SessionManagerApp() {
     fetchHosts();
   }, [fetchWorkspaces, fetchHosts]);
 
+  // Token usage totals change slowly; the server caches them for 30s too
+  useEffect(() => {
+    const loadUsage = () => {
+      fetchUsage()
+        .then(setUsage)
+        .catch(error => console.error('Failed to fetch usage:', error));
+    };
+    loadUsage();
+    const timer = setInterval(loadUsage, 60000);
+    return () => clearInterval(timer);
+  }, []);
+
   const handleSelectSession = useCallback((session: Session) => {
     setSelectedSessionId(session.id);
   }, []);
@@ -188,7 +212,7 @@ function SessionManagerApp() {
     }
   }, [registerTerminal, subscribeToSession, unsubscribeFromSession]);
 
-  const handleCreateSession = useCallback(async (workingDirectory: string, sessionName?: string, hostId?: string, workspaceId?: string | null) => {
+  const handleCreateSession = useCallback(async (workingDirectory: string, sessionName?: string, hostId?: string, workspaceId?: string | null, initialPrompt?: string, worktree?: { branch?: string }) => {
     setActionError(null);
     const token = getToken();
     const headers: HeadersInit = { 'Content-Type': 'application/json' };
@@ -202,6 +226,8 @@ function SessionManagerApp() {
         hostId: hostId || 'local',
         sessionName,
         workspaceId: workspaceId || undefined,
+        initialPrompt,
+        worktree,
       }),
     });
 
@@ -326,6 +352,7 @@ function SessionManagerApp() {
   }, []);
 
   const openModal = useCallback((session: Session) => {
+    setModalHighlight(undefined);
     setModalSession(session);
     PersistenceService.setLastViewedSessionId(session.id);
   }, []);
@@ -341,16 +368,53 @@ function SessionManagerApp() {
       });
     }
     setModalSession(null);
+    setModalHighlight(undefined);
     PersistenceService.setLastViewedSessionId(null);
   }, [modalSession, unsubscribeFromSession, unregisterTerminal]);
 
-  const handleCloseSession = useCallback(async (sessionId: string) => {
+  const handleSearchSelect = useCallback((result: SearchResult) => {
+    const session = sessions.find(s => s.id === result.sessionId);
+    if (!session) {
+      setActionError(`Session ${result.sessionName} is no longer available`);
+      return;
+    }
+
+    setShowSearch(false);
+    if (modalSession && modalSession.id !== session.id) {
+      closeModal();
+    }
+    setModalSession(session);
+    setModalHighlight(result.line);
+    PersistenceService.setLastViewedSessionId(session.id);
+  }, [sessions, modalSession, closeModal]);
+
+  // Clicking a notification opens its session; kept in a ref so the
+  // notification effect below only runs once per notification
+  const openNotifiedSessionRef = useRef<(sessionId: string) => void>(() => {});
+  openNotifiedSessionRef.current = (sessionId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) return;
+    if (modalSession && modalSession.id !== session.id) {
+      closeModal();
+    }
+    openModal(session);
+  };
+
+  useEffect(() => {
+    if (!latestNotification) return;
+    showBrowserNotification(latestNotification, () => {
+      openNotifiedSessionRef.current(latestNotification.sessionId);
+    });
+  }, [latestNotification]);
+
+  const handleCloseSession = useCallback(async (sessionId: string, worktree?: WorktreeCleanup) => {
     setActionError(null);
     const token = getToken();
     const headers: HeadersInit = {};
     if (token) headers['Authorization'] = `Bearer ${token}`;
 
-    const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}`, {
+    const query = worktree ? `?worktree=${worktree}` : '';
+    const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}${query}`, {
       method: 'DELETE',
       headers,
     });
@@ -404,12 +468,15 @@ function SessionManagerApp() {
     return () => document.removeEventListener('dragend', handleDragEnd);
   }, [handleDragEnd]);
 
-  // Keyboard shortcut for backlog (Ctrl+B)
+  // Keyboard shortcuts for backlog (Ctrl+B) and output search (Ctrl+Shift+F)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.ctrlKey && e.key === 'b') {
         e.preventDefault();
         setShowBacklog(prev => !prev);
+      } else if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setShowSearch(prev => !prev);
       }
     };
     document.addEventListener('keydown', handleKeyDown);
@@ -480,6 +547,22 @@ function SessionManagerApp() {
               </span>
             </label>
           )}
+          <button
+            onClick={() => setShowSearch(true)}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded transition-colors flex items-center gap-2"
+            title="Search output (Ctrl+Shift+F)"
+          >
+            <span>🔍</span>
+            <span className="hidden sm:inline">Search</span>
+          </button>
+          <button
+            onClick={() => setShowNotificationSettings(true)}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded transition-colors flex items-center gap-2"
+            title="Notification settings"
+          >
+            <span>🔔</span>
+            <span className="hidden sm:inline">Notifications</span>
+          </button>
           <BacklogButton onClick={() => setShowBacklog(true)} />
           <ConnectionStatus status={connectionStatus} />
           <button
@@ -513,6 +596,7 @@ function SessionManagerApp() {
             onSessionDrop={handleSessionDrop}
             dragOverWorkspaceId={dragOverWorkspaceId}
             todoStats={todoStats}
+            workspaceUsage={usage?.workspaces}
             hosts={hosts}
             showHiddenWorkspaces={showHiddenWorkspaces}
             onOpenTodo={handleOpenTodo}
@@ -530,6 +614,7 @@ function SessionManagerApp() {
                 onTogglePreviewCollapse={handleTogglePreviewCollapse}
                 onDragStart={() => handleDragStart(session.id)}
                 isDragging={draggingSessionId === session.id}
+                usage={usage?.sessions[session.id]}
               >
                 {renderTerminal(session)}
               </SessionTile>
@@ -569,6 +654,19 @@ function SessionManagerApp() {
         onInput={handleInput}
         onResize={handleResize}
         onReady={handleTerminalReady}
+        highlightText={modalHighlight}
+      />
+
+      <SearchPalette
+        isOpen={showSearch}
+        onClose={() => setShowSearch(false)}
+        onSelect={handleSearchSelect}
+      />
+
+      <NotificationSettingsDialog
+        isOpen={showNotificationSettings}
+        onClose={() => setShowNotificationSettings(false)}
+        workspaces={workspaces}
       />
 
       <HostManagement
@@ -593,7 +691,22 @@ function SessionManagerApp() {
   );
 }
 
+// Share links open a standalone read-only viewer at /share/<token>
+const SHARE_PATH_PREFIX = '/share/';
+
 function App() {
+  const shareToken = window.location.pathname.startsWith(SHARE_PATH_PREFIX)
+    ? decodeURIComponent(window.location.pathname.slice(SHARE_PATH_PREFIX.length))
+    : null;
+
+  if (shareToken) {
+    return <ShareViewer shareToken={shareToken} />;
+  }
+
+  return <AuthenticatedApp />;
+}
+
+function AuthenticatedApp() {
   const [authRequired, setAuthRequired] = useState<boolean | null>(null);
   const [authenticated, setAuthenticated] = useState(false);
 
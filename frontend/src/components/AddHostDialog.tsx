@@ -1,4 +1,6 @@
 import { useState } from 'react';
+import { JumpHostChainEditor, EMPTY_JUMP_HOST } from './JumpHostChainEditor';
+import { JumpHostConfig, fromJumpChain } from '../types/Host';
 
 interface AddHostDialogProps {
   isOpen: boolean;
@@ -17,13 +19,7 @@ interface HostFormData {
   useAgent: boolean;
   passphraseEnvVar: string;
   useJumpHost: boolean;
-  jumpHost: {
-    hostname: string;
-    port: number;
-    username: string;
-    privateKeyPath?: string;
-    password?: string;
-  };
+  jumpHosts: JumpHostConfig[];
 }
 
 export function AddHostDialog({ isOpen, onClose, onSuccess }: AddHostDialogProps) {
@@ -38,20 +34,13 @@ export function AddHostDialog({ isOpen, onClose, onSuccess }: AddHostDialogProps
     useAgent: false,
     passphraseEnvVar: '',
     useJumpHost: false,
-    jumpHost: {
-      hostname: '',
-      port: 22,
-      username: '',
-      privateKeyPath: '~/.ssh/id_rsa',
-      password: '',
-    },
+    jumpHosts: [{ ...EMPTY_JUMP_HOST }],
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
   const [testing, setTesting] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
-  const [showJumpHostPassword, setShowJumpHostPassword] = useState(false);
 
   if (!isOpen) return null;
 
@@ -85,8 +74,8 @@ export function AddHostDialog({ isOpen, onClose, onSuccess }: AddHostDialogProps
         payload.passphraseEnvVar = formData.passphraseEnvVar;
       }
 
-      if (formData.useJumpHost && formData.jumpHost.hostname) {
-        payload.jumpHost = formData.jumpHost;
+      if (formData.useJumpHost) {
+        payload.jumpHost = fromJumpChain(formData.jumpHosts);
       }
 
       const response = await fetch('/api/hosts', {
@@ -135,8 +124,8 @@ export function AddHostDialog({ isOpen, onClose, onSuccess }: AddHostDialogProps
         payload.passphraseEnvVar = formData.passphraseEnvVar;
       }
 
-      if (formData.useJumpHost && formData.jumpHost.hostname) {
-        payload.jumpHost = formData.jumpHost;
+      if (formData.useJumpHost) {
+        payload.jumpHost = fromJumpChain(formData.jumpHosts);
       }
 
       const response = await fetch('/api/hosts/test', {
@@ -173,13 +162,7 @@ export function AddHostDialog({ isOpen, onClose, onSuccess }: AddHostDialogProps
       useAgent: false,
       passphraseEnvVar: '',
       useJumpHost: false,
-      jumpHost: {
-        hostname: '',
-        port: 22,
-        username: '',
-        privateKeyPath: '~/.ssh/id_rsa',
-        password: '',
-      },
+      jumpHosts: [{ ...EMPTY_JUMP_HOST }],
     });
     setError(null);
     setTestResult(null);
@@ -378,113 +361,15 @@ export function AddHostDialog({ isOpen, onClose, onSuccess }: AddHostDialogProps
                   onChange={(e) => setFormData({ ...formData, useJumpHost: e.target.checked })}
                   className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
                 />
-                <span className="text-sm font-medium text-gray-300">Use Jump Host (Bastion)</span>
+                <span className="text-sm font-medium text-gray-300">Use Jump Hosts (Bastions)</span>
               </label>
 
               {formData.useJumpHost && (
-                <div className="ml-6 space-y-4 pl-4 border-l-2 border-gray-700">
-                  <div className="grid grid-cols-4 gap-4">
-                    <div className="col-span-3">
-                      <label className="block text-sm font-medium text-gray-300 mb-1">
-                        Jump Host Hostname
-                      </label>
-                      <input
-                        type="text"
-                        value={formData.jumpHost.hostname}
-                        onChange={(e) => setFormData({
-                          ...formData,
-                          jumpHost: { ...formData.jumpHost, hostname: e.target.value }
-                        })}
-                        placeholder="bastion.example.com"
-                        className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
-                      />
-                    </div>
-
-                    <div>
-                      <label className="block text-sm font-medium text-gray-300 mb-1">
-                        Port
-                      </label>
-                      <input
-                        type="number"
-                        value={formData.jumpHost.port}
-                        onChange={(e) => setFormData({
-                          ...formData,
-                          jumpHost: { ...formData.jumpHost, port: parseInt(e.target.value) || 22 }
-                        })}
-                        min="1"
-                        max="65535"
-                        className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white focus:outline-none focus:border-blue-500"
-                      />
-                    </div>
-                  </div>
-
-                  <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-1">
-                      Jump Host Username
-                    </label>
-                    <input
-                      type="text"
-                      value={formData.jumpHost.username}
-                      onChange={(e) => setFormData({
-                        ...formData,
-                        jumpHost: { ...formData.jumpHost, username: e.target.value }
-                      })}
-                      placeholder="ubuntu"
-                      className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
-                    />
-                  </div>
-
-                  <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-1">
-                      Jump Host Password (optional)
-                    </label>
-                    <div className="relative">
-                      <input
-                        type={showJumpHostPassword ? "text" : "password"}
-                        value={formData.jumpHost.password}
-                        onChange={(e) => setFormData({
-                          ...formData,
-                          jumpHost: { ...formData.jumpHost, password: e.target.value }
-                        })}
-                        placeholder="Leave empty for key-based auth"
-                        className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-blue-500 pr-10"
-                      />
-                      {formData.jumpHost.password && (
-                        <button
-                          type="button"
-                          onClick={() => setShowJumpHostPassword(!showJumpHostPassword)}
-                          className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-white transition-colors"
-                        >
-                          {showJumpHostPassword ? (
-                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
-                            </svg>
-                          ) : (
-                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                            </svg>
-                          )}
-                        </button>
-                      )}
-                    </div>
-                  </div>
-
-                  <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-1">
-                      Jump Host Private Key Path (optional)
-                    </label>
-                    <input
-                      type="text"
-                      value={formData.jumpHost.privateKeyPath}
-                      onChange={(e) => setFormData({
-                        ...formData,
-                        jumpHost: { ...formData.jumpHost, privateKeyPath: e.target.value }
-                      })}
-                      placeholder="~/.ssh/id_rsa"
-                      className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
-                    />
-                  </div>
+                <div className="ml-6">
+                  <JumpHostChainEditor
+                    hops={formData.jumpHosts}
+                    onChange={(jumpHosts) => setFormData({ ...formData, jumpHosts })}
+                  />
                 </div>
               )}
             </div>
@@ -0,0 +1,207 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DiffFile, DiffFileStatus, SessionDiff } from '../types/Diff';
+import { fetchSessionDiff } from '../services/DiffService';
+
+interface DiffPanelProps {
+  sessionId: string;
+}
+
+// Files start expanded only when there are few enough to scan
+const EXPAND_FILES_UP_TO = 5;
+
+const STATUS_LABELS: Record<DiffFileStatus, { label: string; className: string }> = {
+  added: { label: 'A', className: 'text-green-400' },
+  deleted: { label: 'D', className: 'text-red-400' },
+  modified: { label: 'M', className: 'text-yellow-400' },
+  renamed: { label: 'R', className: 'text-blue-400' },
+};
+
+function lineClassName(line: string): string {
+  if (line.startsWith('+')) return 'bg-green-900/40 text-green-200';
+  if (line.startsWith('-')) return 'bg-red-900/40 text-red-200';
+  if (line.startsWith('\\')) return 'text-gray-500 italic';
+  return 'text-gray-300';
+}
+
+interface DiffFileViewProps {
+  file: DiffFile;
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+function DiffFileView({ file, expanded, onToggle }: DiffFileViewProps) {
+  const [collapsedHunks, setCollapsedHunks] = useState<Set<number>>(new Set());
+  const status = STATUS_LABELS[file.status];
+
+  const toggleHunk = (index: number) => {
+    setCollapsedHunks(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="rounded border border-gray-700 bg-gray-800/60">
+      <button
+        onClick={onToggle}
+        className="w-full flex items-center gap-2 px-2 py-1 text-left text-xs hover:bg-gray-700/50"
+        title={file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+      >
+        <span className="text-gray-500">{expanded ? '▾' : '▸'}</span>
+        <span className={`font-mono font-bold ${status.className}`}>{status.label}</span>
+        <span className="truncate font-mono text-gray-200">
+          {file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+        </span>
+        <span className="ml-auto flex-shrink-0 font-mono">
+          <span className="text-green-400">+{file.additions}</span>{' '}
+          <span className="text-red-400">-{file.deletions}</span>
+        </span>
+      </button>
+      {expanded && (
+        <div className="border-t border-gray-700">
+          {file.binary ? (
+            <div className="px-2 py-1 text-xs text-gray-500">Binary file</div>
+          ) : file.hunks.length === 0 ? (
+            <div className="px-2 py-1 text-xs text-gray-500">No content changes</div>
+          ) : (
+            file.hunks.map((hunk, index) => (
+              <div key={index}>
+                <button
+                  onClick={() => toggleHunk(index)}
+                  className="w-full px-2 py-0.5 text-left text-xs font-mono text-cyan-400 bg-gray-900/60 hover:bg-gray-700/50 truncate"
+                >
+                  {collapsedHunks.has(index) ? '▸ ' : '▾ '}{hunk.header}
+                </button>
+                {!collapsedHunks.has(index) && (
+                  <pre className="text-xs font-mono overflow-x-auto">
+                    {hunk.lines.map((line, lineIndex) => (
+                      <div key={lineIndex} className={`px-2 whitespace-pre ${lineClassName(line)}`}>
+                        {line || ' '}
+                      </div>
+                    ))}
+                  </pre>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Changes in a session's working directory: uncommitted changes, or
+ * everything since the session was created, with collapsible files and hunks
+ */
+export function DiffPanel({ sessionId }: DiffPanelProps) {
+  const [diff, setDiff] = useState<SessionDiff | null>(null);
+  const [sinceCreated, setSinceCreated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchSessionDiff(sessionId, { sinceCreated });
+      setDiff(result);
+      setExpanded(result.files.length <= EXPAND_FILES_UP_TO ? new Set(result.files.map(f => f.path)) : new Set());
+    } catch (err) {
+      setDiff(null);
+      setError(err instanceof Error ? err.message : 'Failed to load diff');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, sinceCreated]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggle = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const additions = diff?.files.reduce((sum, f) => sum + f.additions, 0) ?? 0;
+  const deletions = diff?.files.reduce((sum, f) => sum + f.deletions, 0) ?? 0;
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex items-center gap-2 p-2 border-b border-gray-700">
+        <select
+          value={sinceCreated ? 'created' : 'working'}
+          onChange={(e) => setSinceCreated(e.target.value === 'created')}
+          className="flex-1 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+        >
+          <option value="working">Uncommitted changes</option>
+          <option value="created">Since session started</option>
+        </select>
+        <button
+          onClick={() => setExpanded(new Set(diff?.files.map(f => f.path) ?? []))}
+          className="px-2 py-1 text-xs text-gray-400 hover:text-white"
+        >
+          Expand all
+        </button>
+        <button
+          onClick={() => setExpanded(new Set())}
+          className="px-2 py-1 text-xs text-gray-400 hover:text-white"
+        >
+          Collapse all
+        </button>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-2">
+        {error ? (
+          <div className="text-sm text-gray-400 text-center py-4">{error}</div>
+        ) : loading && !diff ? (
+          <div className="text-sm text-gray-500 text-center py-4">Loading...</div>
+        ) : diff && diff.files.length === 0 ? (
+          <div className="text-sm text-gray-500 text-center py-4">No changes.</div>
+        ) : (
+          diff?.files.map(file => (
+            <DiffFileView
+              key={file.path}
+              file={file}
+              expanded={expanded.has(file.path)}
+              onToggle={() => toggle(file.path)}
+            />
+          ))
+        )}
+        {diff?.truncated && (
+          <div className="text-xs text-gray-500 text-center">The diff was cut off at the size limit.</div>
+        )}
+      </div>
+
+      {diff && diff.files.length > 0 && (
+        <div className="px-2 py-1 border-t border-gray-700 text-xs text-gray-500 font-mono">
+          {diff.files.length} file{diff.files.length === 1 ? '' : 's'} ·{' '}
+          <span className="text-green-400">+{additions}</span>{' '}
+          <span className="text-red-400">-{deletions}</span>
+          {' '}vs {diff.base.slice(0, 10)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect, useRef } from 'react';
+import { DirectorySuggestion, DirectorySuggestionSource } from '../types/Host';
+import { fetchDirectorySuggestions } from '../services/HostService';
+
+// Remote listings go over SSH, so wait for a pause in typing
+const SUGGEST_DEBOUNCE_MS = 250;
+
+const SOURCE_LABELS: Record<DirectorySuggestionSource, string | null> = {
+  session: 'Session',
+  claude: 'Claude',
+  filesystem: null,
+};
+
+interface DirectoryAutocompleteProps {
+  hostId: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Working directory input completing from the selected host. Enter or a
+ * click picks a suggestion; Tab descends into it to keep completing.
+ */
+export function DirectoryAutocomplete({
+  hostId,
+  value,
+  onChange,
+  placeholder,
+  disabled,
+  className,
+}: DirectoryAutocompleteProps) {
+  const [suggestions, setSuggestions] = useState<DirectorySuggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open || disabled) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await fetchDirectorySuggestions(hostId, value.trim());
+        if (cancelled) return;
+        setSuggestions(result);
+        setActiveIndex(0);
+      } catch {
+        // Suggestions are optional; the directory is still checked on submit
+        if (!cancelled) setSuggestions([]);
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [hostId, value, open, disabled]);
+
+  // Keep the active suggestion visible while navigating with the keyboard
+  useEffect(() => {
+    const item = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    item?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const pick = (path: string, descend: boolean) => {
+    onChange(descend ? `${path}/` : path);
+    setOpen(descend);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const active = suggestions[activeIndex];
+    if (!open || suggestions.length === 0) return;
+
+    if (e.key === 'Escape') {
+      // Close the suggestions, not the dialog
+      e.preventDefault();
+      e.stopPropagation();
+      setOpen(false);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && active) {
+      e.preventDefault();
+      pick(active.path, false);
+    } else if (e.key === 'Tab' && active && !e.shiftKey) {
+      e.preventDefault();
+      pick(active.path, true);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        disabled={disabled}
+        autoComplete="off"
+        className={className}
+      />
+      {open && !disabled && suggestions.length > 0 && (
+        <div
+          ref={listRef}
+          className="absolute z-10 mt-1 w-full max-h-56 overflow-y-auto bg-gray-800 border border-gray-700 rounded-md shadow-lg"
+        >
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.path}
+              type="button"
+              // Pick before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(suggestion.path, false);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm font-mono ${
+                index === activeIndex ? 'bg-gray-700 text-white' : 'text-gray-300'
+              }`}
+            >
+              <span className="truncate">{suggestion.path}</span>
+              {SOURCE_LABELS[suggestion.source] && (
+                <span className="ml-auto flex-shrink-0 px-1.5 py-0.5 bg-gray-900 text-gray-400 text-xs rounded font-sans">
+                  {SOURCE_LABELS[suggestion.source]}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ConfirmDialog } from './ConfirmDialog';
+import { FileContent, FileEntry } from '../types/File';
+import {
+  fetchDirectory,
+  fetchFileContent,
+  downloadFile,
+  uploadSessionFile,
+  FileExistsError,
+} from '../services/FileService';
+
+interface FileBrowserPanelProps {
+  sessionId: string;
+  workingDirectory: string;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function parentOf(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+/**
+ * Files under a session's working directory: a lazily loaded tree with a
+ * preview of the selected file, downloads, and uploads into the selected folder
+ */
+export function FileBrowserPanel({ sessionId, workingDirectory }: FileBrowserPanelProps) {
+  // Directory contents by path relative to the working directory; '' is the root
+  const [directories, setDirectories] = useState<Record<string, FileEntry[]>>({});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<FileEntry | null>(null);
+  const [preview, setPreview] = useState<FileContent | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [pendingOverwrite, setPendingOverwrite] = useState<{ path: string; file: File } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadDirectory = useCallback(async (path: string) => {
+    const listing = await fetchDirectory(sessionId, path);
+    setDirectories(prev => ({ ...prev, [path]: listing.entries }));
+  }, [sessionId]);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    setDirectories({});
+    setExpanded(new Set());
+    try {
+      await loadDirectory('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list directory');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadDirectory]);
+
+  useEffect(() => {
+    setSelected(null);
+    setPreview(null);
+    refresh();
+  }, [refresh]);
+
+  const toggleDirectory = async (entry: FileEntry) => {
+    setSelected(entry);
+    setPreview(null);
+    if (expanded.has(entry.path)) {
+      setExpanded(prev => {
+        const next = new Set(prev);
+        next.delete(entry.path);
+        return next;
+      });
+      return;
+    }
+
+    setError(null);
+    try {
+      await loadDirectory(entry.path);
+      setExpanded(prev => new Set(prev).add(entry.path));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list directory');
+    }
+  };
+
+  const selectFile = async (entry: FileEntry) => {
+    setSelected(entry);
+    setPreview(null);
+    setError(null);
+    try {
+      setPreview(await fetchFileContent(sessionId, entry.path));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!selected) return;
+    setError(null);
+    try {
+      await downloadFile(sessionId, selected.path);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download file');
+    }
+  };
+
+  // Uploads go into the selected folder, or next to the selected file
+  const uploadDirectory = !selected ? '' : selected.type === 'directory' ? selected.path : parentOf(selected.path);
+
+  const upload = async (path: string, file: File, overwrite: boolean) => {
+    setUploading(true);
+    setError(null);
+    try {
+      await uploadSessionFile(sessionId, path, file, overwrite);
+      await loadDirectory(parentOf(path));
+      if (parentOf(path)) {
+        setExpanded(prev => new Set(prev).add(parentOf(path)));
+      }
+    } catch (err) {
+      if (err instanceof FileExistsError) {
+        setPendingOverwrite({ path, file });
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to upload file');
+      }
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleFileChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    upload(uploadDirectory ? `${uploadDirectory}/${file.name}` : file.name, file, false);
+  };
+
+  const renderEntries = (path: string, depth: number) =>
+    (directories[path] ?? []).map(entry => (
+      <div key={entry.path}>
+        <button
+          onClick={() => (entry.type === 'directory' ? toggleDirectory(entry) : selectFile(entry))}
+          className={`w-full flex items-center gap-1 py-0.5 pr-2 text-left text-xs font-mono hover:bg-gray-700/50 ${
+            selected?.path === entry.path ? 'bg-gray-700/70' : ''
+          }`}
+          style={{ paddingLeft: `${0.5 + depth}rem` }}
+          title={entry.path}
+        >
+          <span className="w-3 text-gray-500 flex-shrink-0">
+            {entry.type === 'directory' ? (expanded.has(entry.path) ? '▾' : '▸') : ''}
+          </span>
+          <span className={`truncate ${entry.type === 'directory' ? 'text-blue-300' : 'text-gray-200'}`}>
+            {entry.name}
+            {entry.symlink && <span className="text-gray-500"> →</span>}
+          </span>
+          {entry.type === 'file' && (
+            <span className="ml-auto flex-shrink-0 text-gray-500">{formatSize(entry.size)}</span>
+          )}
+        </button>
+        {entry.type === 'directory' && expanded.has(entry.path) && renderEntries(entry.path, depth + 1)}
+      </div>
+    ));
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex items-center gap-2 p-2 border-b border-gray-700">
+        <span className="flex-1 truncate text-xs font-mono text-gray-400" title={workingDirectory}>
+          {workingDirectory}
+        </span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-50"
+          title={`Upload into ${uploadDirectory || 'the working directory'}`}
+        >
+          {uploading ? 'Uploading...' : 'Upload'}
+        </button>
+        <button
+          onClick={refresh}
+          disabled={loading}
+          className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-50"
+        >
+          Refresh
+        </button>
+        <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileChosen} />
+      </div>
+
+      {error && (
+        <div className="px-2 py-1 text-xs text-red-300 bg-red-900/40 border-b border-red-800">{error}</div>
+      )}
+
+      <div className={`overflow-y-auto py-1 ${selected?.type === 'file' ? 'h-1/2' : 'flex-1'}`}>
+        {loading && !directories[''] ? (
+          <div className="text-sm text-gray-500 text-center py-4">Loading...</div>
+        ) : directories['']?.length === 0 ? (
+          <div className="text-sm text-gray-500 text-center py-4">Empty directory.</div>
+        ) : (
+          renderEntries('', 0)
+        )}
+      </div>
+
+      {selected?.type === 'file' && (
+        <div className="flex-1 min-h-0 flex flex-col border-t border-gray-700">
+          <div className="flex items-center gap-2 px-2 py-1 border-b border-gray-700">
+            <span className="flex-1 truncate text-xs font-mono text-gray-300">{selected.path}</span>
+            <button
+              onClick={handleDownload}
+              className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+            >
+              Download
+            </button>
+          </div>
+          <div className="flex-1 overflow-auto">
+            {!preview ? (
+              <div className="text-sm text-gray-500 text-center py-4">{error ? '' : 'Loading...'}</div>
+            ) : preview.binary ? (
+              <div className="text-sm text-gray-500 text-center py-4">Binary file ({formatSize(preview.size)})</div>
+            ) : (
+              <pre className="p-2 text-xs font-mono text-gray-200 whitespace-pre">{preview.content}</pre>
+            )}
+            {preview?.truncated && (
+              <div className="text-xs text-gray-500 text-center pb-2">
+                Showing the start of a {formatSize(preview.size)} file; download it to see the rest.
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!pendingOverwrite}
+        title="Replace File"
+        message={`${pendingOverwrite?.path ?? ''} already exists. Replace it?`}
+        confirmText="Replace"
+        danger
+        onConfirm={() => {
+          if (pendingOverwrite) {
+            upload(pendingOverwrite.path, pendingOverwrite.file, true);
+          }
+          setPendingOverwrite(null);
+        }}
+        onCancel={() => setPendingOverwrite(null)}
+      />
+    </div>
+  );
+}
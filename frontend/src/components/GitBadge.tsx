@@ -0,0 +1,47 @@
+import { GitStatus } from '../types/Session';
+
+interface GitBadgeProps {
+  git?: GitStatus;
+  /** Also show the last commit subject */
+  showCommit?: boolean;
+  className?: string;
+}
+
+function formatAge(date: string): string {
+  const seconds = Math.max(0, (Date.now() - new Date(date).getTime()) / 1000);
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
+/**
+ * Branch with ahead/behind and dirty counts, details on hover
+ */
+export function GitBadge({ git, showCommit = false, className = '' }: GitBadgeProps) {
+  if (!git) return null;
+
+  const branch = git.branch ?? 'detached';
+  const title = [
+    `Branch: ${branch}${git.upstream ? ` → ${git.upstream}` : ''}`,
+    git.upstream ? `Ahead ${git.ahead}, behind ${git.behind}` : 'No upstream',
+    `${git.dirtyFiles} changed file${git.dirtyFiles === 1 ? '' : 's'}`,
+    git.lastCommit ? `Last commit: ${git.lastCommit.hash} ${git.lastCommit.subject} (${formatAge(git.lastCommit.date)})` : 'No commits',
+  ].join('\n');
+
+  return (
+    <span className={`flex items-center gap-1.5 min-w-0 text-[10px] font-mono ${className}`} title={title}>
+      <span className="px-1 py-0.5 bg-emerald-500/15 text-emerald-300 rounded truncate max-w-[10rem]">
+        ⎇ {branch}
+      </span>
+      {git.ahead > 0 && <span className="text-sky-300 flex-shrink-0">↑{git.ahead}</span>}
+      {git.behind > 0 && <span className="text-orange-300 flex-shrink-0">↓{git.behind}</span>}
+      {git.dirtyFiles > 0 && <span className="text-yellow-300 flex-shrink-0">●{git.dirtyFiles}</span>}
+      {showCommit && git.lastCommit && (
+        <span className="text-gray-500 truncate">
+          {git.lastCommit.hash} {git.lastCommit.subject} · {formatAge(git.lastCommit.date)}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,55 @@
+import { HostHealth } from '../types/Host';
+
+interface HostHealthBadgeProps {
+  health?: HostHealth;
+}
+
+// Round trips above these read as slow and very slow
+const SLOW_LATENCY_MS = 150;
+const VERY_SLOW_LATENCY_MS = 500;
+
+/**
+ * Latency and channel usage of an SSH host, with errors and reconnects on hover
+ */
+export function HostHealthBadge({ health }: HostHealthBadgeProps) {
+  if (!health) return null;
+
+  const title = [
+    health.connected ? 'Connected' : 'Disconnected',
+    health.latencyMs !== null ? `Latency: ${health.latencyMs}ms` : 'Latency: unknown',
+    `Channels: ${health.openChannels}/${health.maxChannels}`,
+    `Queued commands: ${health.queuedCommands}`,
+    `Reconnect attempts: ${health.reconnectAttempts}`,
+    health.lastDisconnectAt ? `Last disconnect: ${new Date(health.lastDisconnectAt).toLocaleString()}` : '',
+    health.lastError ? `Last error: ${health.lastError}` : '',
+  ].filter(Boolean).join('\n');
+
+  const latencyColor = health.latencyMs === null
+    ? 'bg-red-500/15 text-red-300'
+    : health.latencyMs >= VERY_SLOW_LATENCY_MS
+    ? 'bg-orange-500/15 text-orange-300'
+    : health.latencyMs >= SLOW_LATENCY_MS
+    ? 'bg-yellow-500/15 text-yellow-300'
+    : 'bg-green-500/15 text-green-300';
+
+  return (
+    <span className="flex items-center gap-1.5 text-xs font-mono shrink-0" title={title}>
+      <span className={`px-1.5 py-0.5 rounded ${latencyColor}`}>
+        {health.latencyMs !== null ? `${health.latencyMs}ms` : 'unreachable'}
+      </span>
+      <span className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-300">
+        {health.openChannels}/{health.maxChannels} ch
+      </span>
+      {health.queuedCommands > 0 && (
+        <span className="px-1.5 py-0.5 rounded bg-yellow-500/15 text-yellow-300">
+          {health.queuedCommands} queued
+        </span>
+      )}
+      {health.reconnectAttempts > 0 && (
+        <span className="px-1.5 py-0.5 rounded bg-orange-500/15 text-orange-300">
+          ↻{health.reconnectAttempts}
+        </span>
+      )}
+    </span>
+  );
+}
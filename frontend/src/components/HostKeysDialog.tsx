@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ConfirmDialog } from './ConfirmDialog';
+import { fetchHostKeys, acceptHostKey, rotateHostKey } from '../services/HostService';
+import { HostKeyEndpoint } from '../types/Host';
+
+interface HostKeysDialogProps {
+  isOpen: boolean;
+  hostId: string;
+  hostName: string;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  'first-use': 'Trusted on first use',
+  known_hosts: 'Imported from known_hosts',
+  accepted: 'Accepted after change',
+};
+
+function formatEndpoint(endpoint: { hostname: string; port: number }): string {
+  return endpoint.port === 22 ? endpoint.hostname : `${endpoint.hostname}:${endpoint.port}`;
+}
+
+export function HostKeysDialog({ isOpen, hostId, hostName, onClose }: HostKeysDialogProps) {
+  const [endpoints, setEndpoints] = useState<HostKeyEndpoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [rotating, setRotating] = useState<HostKeyEndpoint | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setEndpoints(await fetchHostKeys(hostId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch host keys');
+    } finally {
+      setLoading(false);
+    }
+  }, [hostId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadKeys();
+    }
+  }, [isOpen, loadKeys]);
+
+  const handleAccept = async (endpoint: HostKeyEndpoint) => {
+    setBusy(formatEndpoint(endpoint));
+    setError(null);
+    try {
+      await acceptHostKey(hostId, endpoint.hostname, endpoint.port);
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept host key');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!rotating) return;
+    const endpoint = rotating;
+    setRotating(null);
+    setBusy(formatEndpoint(endpoint));
+    setError(null);
+    try {
+      await rotateHostKey(hostId, endpoint.hostname, endpoint.port);
+      await loadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rotate host key');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+        <div className="bg-gray-800 rounded-lg w-full max-w-2xl max-h-[90vh] flex flex-col border border-gray-700">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+            <h2 className="text-lg font-semibold">Host Keys: {hostName}</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-auto p-6">
+            {error && (
+              <div className="mb-4 p-3 bg-red-900/50 border border-red-700 rounded-md text-red-300 text-sm">
+                {error}
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="text-gray-400">Loading host keys...</div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {endpoints.map(endpoint => {
+                  const { record } = endpoint;
+                  const label = formatEndpoint(endpoint);
+
+                  return (
+                    <div
+                      key={`${endpoint.hostname}:${endpoint.port}`}
+                      className={`bg-gray-900 border rounded-lg p-3 ${
+                        record?.mismatch ? 'border-red-700' : 'border-gray-700'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className="font-medium truncate">{label}</span>
+                          <span className="px-2 py-0.5 bg-gray-700 text-gray-300 text-xs rounded shrink-0">
+                            {endpoint.role === 'jump' ? 'Jump host' : 'Host'}
+                          </span>
+                        </div>
+                        {record && (
+                          <button
+                            onClick={() => setRotating(endpoint)}
+                            disabled={busy === label}
+                            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-md transition-colors disabled:opacity-50 shrink-0"
+                          >
+                            Rotate
+                          </button>
+                        )}
+                      </div>
+
+                      {record ? (
+                        <div className="mt-2 space-y-1">
+                          {record.keys.map(key => (
+                            <div key={key.key} className="text-xs text-gray-300 font-mono truncate">
+                              {key.keyType} {key.fingerprint}
+                            </div>
+                          ))}
+                          <div className="text-xs text-gray-500">
+                            {SOURCE_LABELS[record.source] ?? record.source} · {new Date(record.updatedAt).toLocaleString()}
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="mt-2 text-xs text-gray-500">
+                          No key recorded yet; the key presented on the next connection will be trusted.
+                        </div>
+                      )}
+
+                      {record?.mismatch && (
+                        <div className="mt-3 p-2 bg-red-900/40 border border-red-800 rounded-md">
+                          <div className="text-sm text-red-300">
+                            Host key changed on {new Date(record.mismatch.seenAt).toLocaleString()}; connections are refused.
+                          </div>
+                          {record.mismatch.fingerprint && (
+                            <div className="text-xs text-red-200 font-mono truncate mt-1">
+                              Presented: {record.mismatch.keyType ?? ''} {record.mismatch.fingerprint}
+                            </div>
+                          )}
+                          <button
+                            onClick={() => handleAccept(endpoint)}
+                            disabled={busy === label}
+                            className="mt-2 px-3 py-1 bg-red-600 hover:bg-red-700 text-white text-sm rounded-md transition-colors disabled:opacity-50"
+                          >
+                            {busy === label ? 'Accepting...' : 'Accept new key'}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="px-6 py-4 border-t border-gray-700 flex justify-end">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-md transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!rotating}
+        title="Rotate Host Key"
+        message={`Forget the trusted keys of ${rotating ? formatEndpoint(rotating) : ''}? The key presented on the next connection will be trusted.`}
+        confirmText="Rotate"
+        danger
+        onConfirm={handleRotate}
+        onCancel={() => setRotating(null)}
+      />
+    </>
+  );
+}
@@ -2,6 +2,14 @@ import { useState, useEffect, useCallback } from 'react';
 import { AddHostDialog } from './AddHostDialog';
 import { EditHostDialog } from './EditHostDialog';
 import { ConfirmDialog } from './ConfirmDialog';
+import { HostHealthBadge } from './HostHealthBadge';
+import { ImportSshConfigDialog } from './ImportSshConfigDialog';
+import { HostKeysDialog } from './HostKeysDialog';
+import { fetchHostHealth, importKnownHosts } from '../services/HostService';
+import { HostHealth, JumpHostConfig, HOST_KEY_MISMATCH } from '../types/Host';
+
+// Health badges refresh this often while the dialog is open
+const HEALTH_POLL_INTERVAL_MS = 5000;
 
 interface SSHHost {
   id: string;
@@ -10,18 +18,13 @@ interface SSHHost {
   port: number;
   username: string;
   privateKeyPath?: string;
-  password?: string;
+  passwordSecretId?: string;
+  passphraseSecretId?: string;
   type: 'local' | 'ssh';
   connected?: boolean;
   useAgent?: boolean;
   passphraseEnvVar?: string;
-  jumpHost?: {
-    hostname: string;
-    port: number;
-    username: string;
-    privateKeyPath?: string;
-    password?: string;
-  };
+  jumpHost?: JumpHostConfig | JumpHostConfig[];
 }
 
 interface HostManagementProps {
@@ -34,10 +37,14 @@ export function HostManagement({ isOpen, onClose }: HostManagementProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [editingHost, setEditingHost] = useState<SSHHost | null>(null);
   const [deletingHost, setDeletingHost] = useState<SSHHost | null>(null);
   const [testingHostId, setTestingHostId] = useState<string | null>(null);
   const [testResults, setTestResults] = useState<Record<string, { success: boolean; message: string }>>({});
+  const [health, setHealth] = useState<Record<string, HostHealth>>({});
+  const [keysHost, setKeysHost] = useState<SSHHost | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
 
   const fetchHosts = useCallback(async () => {
     setLoading(true);
@@ -62,6 +69,34 @@ export function HostManagement({ isOpen, onClose }: HostManagementProps) {
     }
   }, [isOpen, fetchHosts]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    const sshHostIds = hosts.filter(h => h.type === 'ssh').map(h => h.id);
+    if (sshHostIds.length === 0) return;
+
+    let cancelled = false;
+    const refreshHealth = async () => {
+      const results = await Promise.allSettled(sshHostIds.map(id => fetchHostHealth(id)));
+      if (cancelled) return;
+      setHealth(prev => {
+        const next = { ...prev };
+        for (const result of results) {
+          if (result.status === 'fulfilled') {
+            next[result.value.hostId] = result.value;
+          }
+        }
+        return next;
+      });
+    };
+
+    refreshHealth();
+    const interval = setInterval(refreshHealth, HEALTH_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [isOpen, hosts]);
+
   const handleTestConnection = async (host: SSHHost) => {
     setTestingHostId(host.id);
     setTestResults(prev => ({ ...prev, [host.id]: { success: false, message: 'Testing...' } }));
@@ -69,6 +104,7 @@ export function HostManagement({ isOpen, onClose }: HostManagementProps) {
     try {
       // Build the full SSHHostConfig that the backend expects
       const hostConfig: Record<string, unknown> = {
+        id: host.id,
         hostname: host.hostname,
         port: host.port,
         username: host.username,
@@ -78,8 +114,11 @@ export function HostManagement({ isOpen, onClose }: HostManagementProps) {
       if (host.privateKeyPath) {
         hostConfig.privateKeyPath = host.privateKeyPath;
       }
-      if (host.password) {
-        hostConfig.password = host.password;
+      if (host.passwordSecretId) {
+        hostConfig.passwordSecretId = host.passwordSecretId;
+      }
+      if (host.passphraseSecretId) {
+        hostConfig.passphraseSecretId = host.passphraseSecretId;
       }
       if (host.useAgent) {
         hostConfig.useAgent = host.useAgent;
@@ -99,6 +138,11 @@ export function HostManagement({ isOpen, onClose }: HostManagementProps) {
 
       const data = await response.json();
 
+      // A changed host key needs review before anything else
+      if (data.code === HOST_KEY_MISMATCH) {
+        setKeysHost(host);
+      }
+
       setTestResults(prev => ({
         ...prev,
         [host.id]: {
@@ -140,6 +184,21 @@ export function HostManagement({ isOpen, onClose }: HostManagementProps) {
     }
   };
 
+  const handleImportKnownHosts = async () => {
+    setError(null);
+    setNotice(null);
+    try {
+      const imported = await importKnownHosts();
+      setNotice(
+        imported.length > 0
+          ? `Imported keys for ${imported.map(e => e.hostname).join(', ')}`
+          : 'No keys for configured hosts found in ~/.ssh/known_hosts'
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import known_hosts');
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -167,13 +226,31 @@ export function HostManagement({ isOpen, onClose }: HostManagementProps) {
               </div>
             )}
 
-            <div className="mb-4">
+            {notice && (
+              <div className="mb-4 p-3 bg-green-900/50 border border-green-700 rounded-md text-green-300 text-sm">
+                {notice}
+              </div>
+            )}
+
+            <div className="mb-4 flex gap-2">
               <button
                 onClick={() => setShowAddDialog(true)}
                 className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition-colors"
               >
                 Add Host
               </button>
+              <button
+                onClick={() => setShowImportDialog(true)}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-md transition-colors"
+              >
+                Import from ~/.ssh/config
+              </button>
+              <button
+                onClick={handleImportKnownHosts}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-md transition-colors"
+              >
+                Import known_hosts
+              </button>
             </div>
 
             {loading ? (
@@ -209,19 +286,20 @@ export function HostManagement({ isOpen, onClose }: HostManagementProps) {
                             <span className={`flex items-center gap-1 text-xs shrink-0 ${
                               testResult
                                 ? (testResult.success ? 'text-green-400' : 'text-red-400')
-                                : (host.connected ? 'text-green-400' : 'text-gray-500')
+                                : ((health[host.id]?.connected ?? host.connected) ? 'text-green-400' : 'text-gray-500')
                             }`}>
                               <div className={`w-2 h-2 rounded-full ${
                                 testResult
                                   ? (testResult.success ? 'bg-green-400' : 'bg-red-400')
-                                  : (host.connected ? 'bg-green-400' : 'bg-gray-500')
+                                  : ((health[host.id]?.connected ?? host.connected) ? 'bg-green-400' : 'bg-gray-500')
                               }`} />
                               {testResult
                                 ? (testResult.success ? 'OK' : 'Failed')
-                                : (host.connected ? 'Connected' : 'Unknown')
+                                : ((health[host.id]?.connected ?? host.connected) ? 'Connected' : 'Unknown')
                               }
                             </span>
                           )}
+                          {!isLocal && <HostHealthBadge health={health[host.id]} />}
                         </div>
 
                         {/* Right: Action buttons */}
@@ -234,6 +312,12 @@ export function HostManagement({ isOpen, onClose }: HostManagementProps) {
                             >
                               {testingHostId === host.id ? 'Testing...' : 'Test'}
                             </button>
+                            <button
+                              onClick={() => setKeysHost(host)}
+                              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-md transition-colors"
+                            >
+                              Keys
+                            </button>
                             <button
                               onClick={() => setEditingHost(host)}
                               className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-md transition-colors"
@@ -283,6 +367,21 @@ export function HostManagement({ isOpen, onClose }: HostManagementProps) {
         }}
       />
 
+      <ImportSshConfigDialog
+        isOpen={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+        onSuccess={fetchHosts}
+      />
+
+      {keysHost && (
+        <HostKeysDialog
+          isOpen={!!keysHost}
+          hostId={keysHost.id}
+          hostName={keysHost.name}
+          onClose={() => setKeysHost(null)}
+        />
+      )}
+
       {editingHost && (
         <EditHostDialog
           isOpen={!!editingHost}
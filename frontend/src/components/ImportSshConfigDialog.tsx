@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+import { previewSshConfigImport, importSshConfigHosts } from '../services/HostService';
+import { SshConfigImportEntry, SshConfigJumpHost } from '../types/Host';
+
+interface ImportSshConfigDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function formatEndpoint(host: SshConfigJumpHost): string {
+  return `${host.username}@${host.hostname}:${host.port}`;
+}
+
+export function ImportSshConfigDialog({ isOpen, onClose, onSuccess }: ImportSshConfigDialogProps) {
+  const [entries, setEntries] = useState<SshConfigImportEntry[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    previewSshConfigImport()
+      .then(result => {
+        if (cancelled) return;
+        setEntries(result);
+        // Preselect everything that is not configured yet
+        setSelected(new Set(result.filter(e => !e.exists).map(e => e.alias)));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to read SSH config');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const toggle = (alias: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(alias)) {
+        next.delete(alias);
+      } else {
+        next.add(alias);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    try {
+      const result = await importSshConfigHosts([...selected]);
+      if (result.failed.length > 0) {
+        setError(result.failed.map(f => `${f.alias}: ${f.error}`).join('; '));
+        if (result.imported.length > 0) onSuccess();
+        return;
+      }
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import hosts');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg w-full max-w-2xl max-h-[90vh] flex flex-col border border-gray-700">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold">Import from ~/.ssh/config</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6">
+          {error && (
+            <div className="mb-4 p-3 bg-red-900/50 border border-red-700 rounded-md text-red-300 text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="text-gray-400">Reading SSH config...</div>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12 text-gray-400">
+              No concrete Host entries found in the server's ~/.ssh/config.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {entries.map(entry => (
+                <label
+                  key={entry.alias}
+                  className={`flex items-start gap-3 bg-gray-900 border border-gray-700 rounded-lg p-3 ${
+                    entry.exists ? 'opacity-60' : 'cursor-pointer hover:border-gray-600'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(entry.alias)}
+                    disabled={entry.exists}
+                    onChange={() => toggle(entry.alias)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{entry.alias}</span>
+                      <span className="text-sm text-gray-400 truncate">{formatEndpoint(entry.host)}</span>
+                      {entry.exists && (
+                        <span className="px-2 py-0.5 bg-gray-700 text-gray-300 text-xs rounded shrink-0">
+                          Already added
+                        </span>
+                      )}
+                    </div>
+                    {entry.host.privateKeyPath && (
+                      <div className="text-xs text-gray-500 truncate">Key: {entry.host.privateKeyPath}</div>
+                    )}
+                    {entry.jumpChain.length > 0 && (
+                      <div className="text-xs text-gray-500 truncate">
+                        Via: {entry.jumpChain.map(formatEndpoint).join(' → ')}
+                      </div>
+                    )}
+                    {entry.warnings.map(warning => (
+                      <div key={warning} className="text-xs text-yellow-400">{warning}</div>
+                    ))}
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-700 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={importing || selected.size === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition-colors disabled:opacity-50"
+          >
+            {importing ? 'Importing...' : `Import selected (${selected.size})`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
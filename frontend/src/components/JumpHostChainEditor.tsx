@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { JumpHostConfig } from '../types/Host';
+
+interface JumpHostChainEditorProps {
+  hops: JumpHostConfig[];
+  onChange: (hops: JumpHostConfig[]) => void;
+}
+
+export const EMPTY_JUMP_HOST: JumpHostConfig = {
+  hostname: '',
+  port: 22,
+  username: '',
+  privateKeyPath: '~/.ssh/id_rsa',
+  password: '',
+};
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-blue-500';
+const hopButtonClassName = 'px-2 py-0.5 text-xs text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400 transition-colors';
+
+/**
+ * Ordered list of jump hosts; the first hop is connected to directly and
+ * each following hop is reached through the previous one
+ */
+export function JumpHostChainEditor({ hops, onChange }: JumpHostChainEditorProps) {
+  const [visiblePasswords, setVisiblePasswords] = useState<Set<number>>(new Set());
+
+  const updateHop = (index: number, updates: Partial<JumpHostConfig>) => {
+    onChange(hops.map((hop, i) => (i === index ? { ...hop, ...updates } : hop)));
+  };
+
+  const moveHop = (index: number, offset: number) => {
+    const next = [...hops];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const removeHop = (index: number) => {
+    onChange(hops.filter((_, i) => i !== index));
+    setVisiblePasswords(new Set());
+  };
+
+  const togglePassword = (index: number) => {
+    setVisiblePasswords(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {hops.map((hop, index) => (
+        <div key={index} className="space-y-3 pl-4 border-l-2 border-gray-700">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-300">
+              Hop {index + 1}
+              {hops.length > 1 && index === 0 && <span className="text-gray-500 font-normal"> (connected first)</span>}
+            </span>
+            <div className="flex items-center">
+              <button
+                type="button"
+                onClick={() => moveHop(index, -1)}
+                disabled={index === 0}
+                className={hopButtonClassName}
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveHop(index, 1)}
+                disabled={index === hops.length - 1}
+                className={hopButtonClassName}
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => removeHop(index)}
+                className="px-2 py-0.5 text-xs text-red-400 hover:text-red-300 transition-colors"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            <div className="col-span-3">
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Hostname
+              </label>
+              <input
+                type="text"
+                value={hop.hostname}
+                onChange={(e) => updateHop(index, { hostname: e.target.value })}
+                placeholder="bastion.example.com"
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Port
+              </label>
+              <input
+                type="number"
+                value={hop.port}
+                onChange={(e) => updateHop(index, { port: parseInt(e.target.value) || 22 })}
+                min="1"
+                max="65535"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              Username
+            </label>
+            <input
+              type="text"
+              value={hop.username}
+              onChange={(e) => updateHop(index, { username: e.target.value })}
+              placeholder="ubuntu"
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Password (optional)
+              </label>
+              <div className="relative">
+                <input
+                  type={visiblePasswords.has(index) ? 'text' : 'password'}
+                  value={hop.password || ''}
+                  onChange={(e) => updateHop(index, { password: e.target.value })}
+                  placeholder={hop.passwordSecretId ? 'Stored in vault, leave empty to keep' : 'Leave empty for key-based auth'}
+                  className={`${inputClassName} pr-14`}
+                />
+                {hop.password && (
+                  <button
+                    type="button"
+                    onClick={() => togglePassword(index)}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400 hover:text-white transition-colors"
+                  >
+                    {visiblePasswords.has(index) ? 'Hide' : 'Show'}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Password Env Var (optional)
+              </label>
+              <input
+                type="text"
+                value={hop.passwordEnvVar || ''}
+                onChange={(e) => updateHop(index, { passwordEnvVar: e.target.value })}
+                placeholder="BASTION_PASSWORD"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Private Key Path (optional)
+              </label>
+              <input
+                type="text"
+                value={hop.privateKeyPath || ''}
+                onChange={(e) => updateHop(index, { privateKeyPath: e.target.value })}
+                placeholder="~/.ssh/id_rsa"
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Passphrase Env Var (optional)
+              </label>
+              <input
+                type="text"
+                value={hop.passphraseEnvVar || ''}
+                onChange={(e) => updateHop(index, { passphraseEnvVar: e.target.value })}
+                placeholder="SSH_KEY_PASSPHRASE"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hop.useAgent !== false}
+              onChange={(e) => updateHop(index, { useAgent: e.target.checked ? undefined : false })}
+              className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-300">Use SSH Agent</span>
+          </label>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...hops, { ...EMPTY_JUMP_HOST }])}
+        className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-md transition-colors"
+      >
+        Add Jump Host
+      </button>
+    </div>
+  );
+}
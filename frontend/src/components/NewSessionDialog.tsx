@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react';
 import { Workspace } from '../types/Workspace';
+import { SessionTemplate } from '../types/Template';
+import { fetchTemplates, createTemplate, createSessionFromTemplate } from '../services/TemplateService';
+import { DirectoryAutocomplete } from './DirectoryAutocomplete';
 
 interface Host {
   id: string;
@@ -18,7 +21,7 @@ interface AvailableSession {
 interface NewSessionDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreate: (workingDirectory: string, sessionName?: string, hostId?: string, workspaceId?: string | null) => Promise<void>;
+  onCreate: (workingDirectory: string, sessionName?: string, hostId?: string, workspaceId?: string | null, initialPrompt?: string, worktree?: { branch?: string }) => Promise<void>;
   onAttach?: (sessionName: string, hostId: string, workspaceId?: string | null) => Promise<void>;
   defaultWorkingDirectory?: string;
   defaultHostId?: string;
@@ -41,6 +44,9 @@ export function NewSessionDialog({
   const [mode, setMode] = useState<DialogMode>('create');
   const [workingDirectory, setWorkingDirectory] = useState('');
   const [sessionName, setSessionName] = useState('');
+  const [initialPrompt, setInitialPrompt] = useState('');
+  const [useWorktree, setUseWorktree] = useState(false);
+  const [worktreeBranch, setWorktreeBranch] = useState('');
   const [selectedHostId, setSelectedHostId] = useState('local');
   const [selectedWorkspaceId, setSelectedWorkspaceId] = useState<string | null>(defaultWorkspaceId || null);
   const [selectedSessionName, setSelectedSessionName] = useState('');
@@ -50,6 +56,11 @@ export function NewSessionDialog({
   const [availableSessions, setAvailableSessions] = useState<AvailableSession[]>([]);
   const [fetchingSessionsLoading, setFetchingSessionsLoading] = useState(false);
   const [hostConnectionError, setHostConnectionError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<SessionTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [savingTemplate, setSavingTemplate] = useState(false);
+
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) || null;
 
   // Sync workspace selection when dialog reopens with different defaultWorkspaceId
   useEffect(() => {
@@ -80,6 +91,10 @@ export function NewSessionDialog({
         // Fallback to local only if API fails
         setHosts([{ id: 'local', name: 'Local', type: 'local', connected: true }]);
       });
+
+    fetchTemplates()
+      .then(setTemplates)
+      .catch(() => setTemplates([]));
   }, [isOpen, defaultWorkingDirectory, defaultHostId]);
 
   useEffect(() => {
@@ -124,14 +139,65 @@ export function NewSessionDialog({
 
   if (!isOpen) return null;
 
+  const handleTemplateChange = (templateId: string) => {
+    setSelectedTemplateId(templateId);
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+
+    // Show what the template will create; host and directory are locked to it
+    setSelectedHostId(template.hostId);
+    setWorkingDirectory(template.workingDirectory);
+    setSessionName('');
+    setInitialPrompt(template.initialPrompt || '');
+    if (template.workspaceId) {
+      setSelectedWorkspaceId(template.workspaceId);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = prompt('Template name');
+    if (!name?.trim()) return;
+
+    setSavingTemplate(true);
+    setError(null);
+    try {
+      const template = await createTemplate({
+        name: name.trim(),
+        hostId: selectedHostId,
+        workingDirectory: workingDirectory.trim() || '~',
+        sessionName: sessionName || undefined,
+        initialPrompt: initialPrompt.trim() || undefined,
+        workspaceId: selectedWorkspaceId || undefined,
+      });
+      setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedTemplateId(template.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
 
     try {
-      if (mode === 'create') {
-        await onCreate(workingDirectory, sessionName || undefined, selectedHostId, selectedWorkspaceId);
+      if (mode === 'create' && selectedTemplate) {
+        await createSessionFromTemplate(selectedTemplate.id, {
+          sessionName: sessionName || undefined,
+          workspaceId: selectedWorkspaceId || undefined,
+        });
+      } else if (mode === 'create') {
+        await onCreate(
+          workingDirectory,
+          sessionName || undefined,
+          selectedHostId,
+          selectedWorkspaceId,
+          initialPrompt.trim() || undefined,
+          useWorktree ? { branch: worktreeBranch.trim() || undefined } : undefined
+        );
       } else {
         if (!onAttach) {
           throw new Error('Attach functionality not available');
@@ -145,9 +211,11 @@ export function NewSessionDialog({
       // Reset form
       setWorkingDirectory('');
       setSessionName('');
+      setInitialPrompt('');
       setSelectedHostId('local');
       setSelectedWorkspaceId(defaultWorkspaceId || null);
       setSelectedSessionName('');
+      setSelectedTemplateId('');
       setMode('create');
       onClose();
     } catch (err) {
@@ -193,6 +261,28 @@ export function NewSessionDialog({
             </div>
           </div>
 
+          {/* Template Selection */}
+          {mode === 'create' && templates.length > 0 && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Template
+              </label>
+              <select
+                value={selectedTemplateId}
+                onChange={(e) => handleTemplateChange(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white focus:outline-none focus:border-blue-500"
+              >
+                <option value="">No template</option>
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+              {selectedTemplate?.description && (
+                <p className="text-xs text-gray-500 mt-1">{selectedTemplate.description}</p>
+              )}
+            </div>
+          )}
+
           {/* Host Selection */}
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-300 mb-1">
@@ -201,7 +291,8 @@ export function NewSessionDialog({
             <select
               value={selectedHostId}
               onChange={(e) => setSelectedHostId(e.target.value)}
-              className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white focus:outline-none focus:border-blue-500"
+              disabled={mode === 'create' && !!selectedTemplate}
+              className="w-full disabled:opacity-60 px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white focus:outline-none focus:border-blue-500"
             >
               {hosts.map(host => (
                 <option key={host.id} value={host.id}>
@@ -236,12 +327,13 @@ export function NewSessionDialog({
                 <label className="block text-sm font-medium text-gray-300 mb-1">
                   Working Directory
                 </label>
-                <input
-                  type="text"
+                <DirectoryAutocomplete
+                  hostId={selectedHostId}
                   value={workingDirectory}
-                  onChange={(e) => setWorkingDirectory(e.target.value)}
+                  onChange={setWorkingDirectory}
                   placeholder="~ (home directory)"
-                  className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+                  disabled={!!selectedTemplate}
+                  className="w-full disabled:opacity-60 px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
                 />
               </div>
 
@@ -253,7 +345,7 @@ export function NewSessionDialog({
                   type="text"
                   value={sessionName}
                   onChange={(e) => setSessionName(e.target.value)}
-                  placeholder="my-project"
+                  placeholder={selectedTemplate?.sessionName ? `${selectedTemplate.sessionName}-<generated>` : 'my-project'}
                   pattern="^[a-zA-Z0-9_-]*$"
                   className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
                 />
@@ -261,6 +353,48 @@ export function NewSessionDialog({
                   Letters, numbers, dashes, and underscores only
                 </p>
               </div>
+
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Initial Prompt (optional)
+                </label>
+                <textarea
+                  value={initialPrompt}
+                  onChange={(e) => setInitialPrompt(e.target.value)}
+                  placeholder="Sent to Claude once it is ready for input"
+                  rows={3}
+                  disabled={!!selectedTemplate}
+                  className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-blue-500 resize-y disabled:opacity-60"
+                />
+              </div>
+
+              {!selectedTemplate && (
+                <div className="mb-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={useWorktree}
+                      onChange={(e) => setUseWorktree(e.target.checked)}
+                      className="rounded bg-gray-900 border-gray-700"
+                    />
+                    Isolate in a new git worktree
+                  </label>
+                  {useWorktree && (
+                    <>
+                      <input
+                        type="text"
+                        value={worktreeBranch}
+                        onChange={(e) => setWorktreeBranch(e.target.value)}
+                        placeholder={`session/${sessionName || '<session name>'}`}
+                        className="mt-2 w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        New branch, checked out in its own directory so parallel sessions don't share files
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
             </>
           ) : (
             <>
@@ -310,6 +444,16 @@ export function NewSessionDialog({
           )}
 
           <div className="flex justify-end gap-2">
+            {mode === 'create' && !selectedTemplate && (
+              <button
+                type="button"
+                onClick={handleSaveTemplate}
+                disabled={loading || savingTemplate}
+                className="mr-auto px-3 py-2 text-sm text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+              >
+                {savingTemplate ? 'Saving...' : 'Save as template'}
+              </button>
+            )}
             <button
               type="button"
               onClick={onClose}
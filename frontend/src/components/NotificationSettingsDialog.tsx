@@ -0,0 +1,312 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Workspace } from '../types/Workspace';
+import {
+  NotificationChannel,
+  NotificationEvent,
+  NotificationRule,
+  NotificationSettings,
+} from '../types/Notification';
+import {
+  fetchNotificationSettings,
+  updateNotificationSettings,
+  setWorkspaceRule,
+  deleteWorkspaceRule,
+  sendTestNotification,
+  isBrowserNotificationSupported,
+  requestBrowserPermission,
+} from '../services/NotificationService';
+import { getRole } from '../services/AuthService';
+
+interface NotificationSettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  workspaces: Workspace[];
+}
+
+const EVENT_LABELS: Record<NotificationEvent, string> = {
+  waiting_for_input: 'Waiting for input',
+  error: 'Error',
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  browser: 'Browser',
+  webhook: 'Webhook',
+  desktop: 'Desktop (notify-send)',
+};
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+interface RuleEditorProps {
+  rule: NotificationRule;
+  disabled: boolean;
+  onChange: (rule: NotificationRule) => void;
+}
+
+function RuleEditor({ rule, disabled, onChange }: RuleEditorProps) {
+  return (
+    <div className="space-y-2 text-sm">
+      <label className="flex items-center gap-2 text-gray-300">
+        <input
+          type="checkbox"
+          checked={rule.enabled}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...rule, enabled: e.target.checked })}
+          className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+        />
+        Enabled
+      </label>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-400">
+        <span className="text-gray-500">Notify on:</span>
+        {(Object.keys(EVENT_LABELS) as NotificationEvent[]).map(event => (
+          <label key={event} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={rule.events.includes(event)}
+              disabled={disabled || !rule.enabled}
+              onChange={() => onChange({ ...rule, events: toggle(rule.events, event) })}
+              className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+            />
+            {EVENT_LABELS[event]}
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-400">
+        <span className="text-gray-500">Deliver via:</span>
+        {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+          <label key={channel} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={rule.channels.includes(channel)}
+              disabled={disabled || !rule.enabled}
+              onChange={() => onChange({ ...rule, channels: toggle(rule.channels, channel) })}
+              className="rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+            />
+            {CHANNEL_LABELS[channel]}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function NotificationSettingsDialog({ isOpen, onClose, workspaces }: NotificationSettingsDialogProps) {
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [permission, setPermission] = useState<NotificationPermission | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [testSent, setTestSent] = useState(false);
+
+  // Settings are admin-managed; auth-disabled setups have no role and full access
+  const role = getRole();
+  const canEdit = role === null || role === 'admin';
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const data = await fetchNotificationSettings();
+      setSettings(data);
+      setWebhookUrl(data.webhookUrl || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notification settings');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      setTestSent(false);
+      setPermission(isBrowserNotificationSupported() ? Notification.permission : null);
+      loadSettings();
+    }
+  }, [isOpen, loadSettings]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const run = async (action: () => Promise<NotificationSettings | void>) => {
+    setError(null);
+    try {
+      const updated = await action();
+      if (updated) {
+        setSettings(updated);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save notification settings');
+    }
+  };
+
+  const handleEnableBrowser = async () => {
+    setPermission(await requestBrowserPermission());
+  };
+
+  const handleSaveWebhook = () => {
+    run(() => updateNotificationSettings({ webhookUrl: webhookUrl.trim() || null }));
+  };
+
+  const handleWorkspaceMode = (workspaceId: string, custom: boolean) => {
+    if (!settings) return;
+    if (custom) {
+      run(() => setWorkspaceRule(workspaceId, settings.defaultRule));
+    } else {
+      run(async () => {
+        await deleteWorkspaceRule(workspaceId);
+        await loadSettings();
+      });
+    }
+  };
+
+  const handleTest = () => {
+    if (!settings) return;
+    setTestSent(false);
+    run(async () => {
+      await sendTestNotification(settings.defaultRule.channels);
+      setTestSent(true);
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75" onClick={onClose}>
+      <div
+        className="relative bg-gray-800 rounded-lg shadow-xl border border-gray-700 w-full max-w-2xl mx-4 flex flex-col max-h-[85vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">Notifications</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors text-2xl leading-none w-8 h-8 flex items-center justify-center"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5 overflow-y-auto">
+          <p className="text-sm text-gray-400">
+            Get notified when a Claude session starts waiting for input or hits an error.
+          </p>
+
+          {error && (
+            <div className="px-3 py-2 bg-red-900/50 border border-red-700 rounded text-red-300 text-sm">
+              {error}
+            </div>
+          )}
+
+          <section>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">This browser</h3>
+            {permission === null ? (
+              <div className="text-sm text-gray-500">This browser does not support notifications.</div>
+            ) : permission === 'granted' ? (
+              <div className="text-sm text-green-400">Browser notifications are enabled.</div>
+            ) : permission === 'denied' ? (
+              <div className="text-sm text-gray-500">Notifications are blocked in this browser's site settings.</div>
+            ) : (
+              <button
+                onClick={handleEnableBrowser}
+                className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded transition-colors"
+              >
+                Enable browser notifications
+              </button>
+            )}
+          </section>
+
+          {settings && (
+            <>
+              <section>
+                <h3 className="text-sm font-medium text-gray-300 mb-2">Default rule</h3>
+                <RuleEditor
+                  rule={settings.defaultRule}
+                  disabled={!canEdit}
+                  onChange={(rule) => run(() => updateNotificationSettings({ defaultRule: rule }))}
+                />
+              </section>
+
+              <section>
+                <h3 className="text-sm font-medium text-gray-300 mb-2">Webhook</h3>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="url"
+                    value={webhookUrl}
+                    onChange={(e) => setWebhookUrl(e.target.value)}
+                    placeholder="https://example.com/hooks/claude"
+                    disabled={!canEdit}
+                    className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded text-white text-sm placeholder-gray-500 focus:outline-none focus:border-blue-500 disabled:opacity-60"
+                  />
+                  <button
+                    onClick={handleSaveWebhook}
+                    disabled={!canEdit || webhookUrl.trim() === (settings.webhookUrl || '')}
+                    className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded transition-colors disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Each notification is POSTed as JSON.</p>
+              </section>
+
+              {workspaces.length > 0 && (
+                <section>
+                  <h3 className="text-sm font-medium text-gray-300 mb-2">Workspaces</h3>
+                  <div className="space-y-2">
+                    {workspaces.map(workspace => {
+                      const rule = settings.workspaceRules[workspace.id];
+                      return (
+                        <div key={workspace.id} className="px-3 py-2 bg-gray-900 rounded">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-sm text-white">{workspace.name}</span>
+                            <select
+                              value={rule ? 'custom' : 'default'}
+                              onChange={(e) => handleWorkspaceMode(workspace.id, e.target.value === 'custom')}
+                              disabled={!canEdit}
+                              className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-xs focus:outline-none focus:border-blue-500"
+                            >
+                              <option value="default">Use default rule</option>
+                              <option value="custom">Custom rule</option>
+                            </select>
+                          </div>
+                          {rule && (
+                            <div className="mt-2">
+                              <RuleEditor
+                                rule={rule}
+                                disabled={!canEdit}
+                                onChange={(updated) => run(() => setWorkspaceRule(workspace.id, updated))}
+                              />
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+
+        {settings && canEdit && (
+          <div className="px-4 py-3 border-t border-gray-700 flex items-center justify-end gap-3">
+            {testSent && <span className="text-xs text-gray-400">Test notification sent</span>}
+            <button
+              onClick={handleTest}
+              className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded transition-colors"
+            >
+              Send test
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
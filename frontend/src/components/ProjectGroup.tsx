@@ -1,5 +1,5 @@
 import { Project } from '../types/Project';
-import { Session } from '../types/Session';
+import { Session, WorktreeCleanup } from '../types/Session';
 import { ProjectHeader } from './ProjectHeader';
 import { SessionTile } from './SessionTile';
 
@@ -12,7 +12,7 @@ interface ProjectGroupProps {
   renderTerminal: (session: Session) => React.ReactNode;
   isFavorite?: (sessionId: string) => boolean;
   onToggleFavorite?: (sessionId: string) => void;
-  onCloseSession?: (sessionId: string) => void;
+  onCloseSession?: (sessionId: string, worktree?: WorktreeCleanup) => void;
   onAddSessionToProject?: (workingDirectory: string, hostId: string) => void;
 }
 
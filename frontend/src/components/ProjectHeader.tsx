@@ -1,4 +1,5 @@
 import { Project } from '../types/Project';
+import { GitBadge } from './GitBadge';
 
 interface ProjectHeaderProps {
   project: Project;
@@ -14,6 +15,8 @@ export function ProjectHeader({
   onAddSession,
 }: ProjectHeaderProps) {
   const chevronIcon = project.isCollapsed ? '▶' : '▼';
+  // Every session of a project shares its directory, so any of them has the git state
+  const git = project.sessions.find(s => s.git)?.git;
 
   const handleAddSession = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -38,6 +41,7 @@ export function ProjectHeader({
         <span className="px-2 py-0.5 text-xs bg-gray-700 text-gray-300 rounded-full flex-shrink-0">
           {sessionCount}
         </span>
+        <GitBadge git={git} showCommit className="min-w-0" />
       </div>
       <div className="flex items-center gap-3">
         {project.workingDirectory && (
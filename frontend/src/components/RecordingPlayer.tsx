@@ -0,0 +1,308 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useTerminal } from '../hooks/useTerminal';
+import { RecordingInfo, RecordingReplay } from '../types/Recording';
+import { fetchRecordings, fetchRecording, deleteRecording } from '../services/RecordingService';
+
+interface RecordingPlayerProps {
+  sessionId: string;
+  sessionName: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8, 16];
+// Pauses longer than this are shortened so idle stretches don't stall playback
+const MAX_IDLE_SECONDS = 2;
+
+function formatDuration(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function RecordingPlayer({ sessionId, sessionName, isOpen, onClose }: RecordingPlayerProps) {
+  const [recordings, setRecordings] = useState<RecordingInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [replay, setReplay] = useState<RecordingReplay | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [position, setPosition] = useState(0);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const eventIndexRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+
+  const { initTerminal, write, clear, terminalRef } = useTerminal();
+
+  const loadRecordings = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRecordings(await fetchRecordings(sessionId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recordings');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRecordings();
+    }
+  }, [isOpen, loadRecordings]);
+
+  useEffect(() => {
+    if (!isOpen || !containerRef.current) return;
+    return initTerminal(containerRef.current);
+  }, [isOpen, initTerminal]);
+
+  const stopTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  const resetPlayback = useCallback((data: RecordingReplay) => {
+    stopTimer();
+    setPlaying(false);
+    eventIndexRef.current = 0;
+    setPosition(0);
+    terminalRef.current?.reset();
+    clear();
+    terminalRef.current?.resize(data.header.width, data.header.height);
+  }, [stopTimer, clear, terminalRef]);
+
+  const scheduleNext = useCallback((data: RecordingReplay) => {
+    const index = eventIndexRef.current;
+    if (index >= data.events.length) {
+      setPlaying(false);
+      return;
+    }
+
+    const previousTime = index > 0 ? data.events[index - 1][0] : 0;
+    const gap = Math.min(data.events[index][0] - previousTime, MAX_IDLE_SECONDS);
+
+    timerRef.current = setTimeout(() => {
+      const [time, type, payload] = data.events[index];
+      if (type === 'o') {
+        write(payload);
+      } else if (type === 'r') {
+        const [cols, rows] = payload.split('x').map(n => parseInt(n, 10));
+        if (cols > 0 && rows > 0) {
+          terminalRef.current?.resize(cols, rows);
+        }
+      }
+      eventIndexRef.current = index + 1;
+      setPosition(time);
+      scheduleNext(data);
+    }, (gap * 1000) / speedRef.current);
+  }, [write, terminalRef]);
+
+  const handleSelect = async (recording: RecordingInfo) => {
+    setError(null);
+    try {
+      const data = await fetchRecording(sessionId, recording.id);
+      setReplay(data);
+      resetPlayback(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recording');
+    }
+  };
+
+  const handlePlayPause = () => {
+    if (!replay) return;
+    if (playing) {
+      stopTimer();
+      setPlaying(false);
+      return;
+    }
+    if (eventIndexRef.current >= replay.events.length) {
+      resetPlayback(replay);
+    }
+    setPlaying(true);
+    scheduleNext(replay);
+  };
+
+  const handleRestart = () => {
+    if (replay) {
+      resetPlayback(replay);
+    }
+  };
+
+  const handleDelete = async (recording: RecordingInfo) => {
+    if (!confirm('Delete this recording?')) return;
+    try {
+      await deleteRecording(sessionId, recording.id);
+      if (replay?.recording.id === recording.id) {
+        stopTimer();
+        setReplay(null);
+        clear();
+      }
+      loadRecordings();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete recording');
+    }
+  };
+
+  // Stop playback when the player closes
+  useEffect(() => {
+    if (!isOpen) {
+      stopTimer();
+      setPlaying(false);
+      setReplay(null);
+    }
+    return stopTimer;
+  }, [isOpen, stopTimer]);
+
+  // Escape closes the player only (the terminal modal stays open)
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopImmediatePropagation();
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+    >
+      <div
+        className="relative bg-gray-900 rounded-lg shadow-xl flex flex-col border border-gray-700"
+        style={{ width: '85vw', height: '85vh' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700 bg-gray-800 rounded-t-lg">
+          <h2 className="text-lg font-semibold text-white">
+            Recordings — {sessionName}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors text-2xl leading-none w-8 h-8 flex items-center justify-center"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Recording list */}
+          <div className="w-72 border-r border-gray-700 overflow-y-auto">
+            {loading ? (
+              <div className="p-4 text-sm text-gray-400">Loading recordings...</div>
+            ) : recordings.length === 0 ? (
+              <div className="p-4 text-sm text-gray-500">No recordings for this session yet.</div>
+            ) : (
+              recordings.map(recording => (
+                <div
+                  key={recording.id}
+                  onClick={() => handleSelect(recording)}
+                  className={`px-3 py-2 border-b border-gray-800 cursor-pointer group ${
+                    replay?.recording.id === recording.id ? 'bg-blue-900/30' : 'hover:bg-gray-800'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-white">
+                      {new Date(recording.startedAt).toLocaleString()}
+                    </span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(recording);
+                      }}
+                      className="text-xs text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete recording"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-gray-400 mt-0.5">
+                    <span>{formatDuration(recording.duration)}</span>
+                    <span>{formatSize(recording.size)}</span>
+                    {recording.active && (
+                      <span className="px-1 py-0.5 text-[10px] bg-red-500/20 text-red-400 rounded">
+                        REC
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Player */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="flex items-center gap-3 px-4 py-2 border-b border-gray-700 bg-gray-800">
+              <button
+                onClick={handlePlayPause}
+                disabled={!replay}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded transition-colors disabled:opacity-50"
+              >
+                {playing ? 'Pause' : 'Play'}
+              </button>
+              <button
+                onClick={handleRestart}
+                disabled={!replay}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded transition-colors disabled:opacity-50"
+              >
+                Restart
+              </button>
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                Speed
+                <select
+                  value={speed}
+                  onChange={(e) => setSpeed(parseFloat(e.target.value))}
+                  className="px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white focus:outline-none focus:border-blue-500"
+                >
+                  {SPEEDS.map(s => (
+                    <option key={s} value={s}>{s}x</option>
+                  ))}
+                </select>
+              </label>
+              {replay && (
+                <span className="text-sm text-gray-400 font-mono ml-auto">
+                  {formatDuration(position)} / {formatDuration(replay.recording.duration)}
+                </span>
+              )}
+            </div>
+            {error && (
+              <div className="px-4 py-2 bg-red-900/50 border-b border-red-700 text-red-300 text-sm">
+                {error}
+              </div>
+            )}
+            <div className="flex-1 p-4 overflow-hidden">
+              <div ref={containerRef} className="h-full w-full" />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect, useRef } from 'react';
+import { SearchResult } from '../types/Search';
+import { searchOutput } from '../services/SearchService';
+
+interface SearchPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (result: SearchResult) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+function highlightMatch(line: string, query: string) {
+  const index = line.toLowerCase().indexOf(query.toLowerCase());
+  if (index === -1 || !query) return line;
+
+  return (
+    <>
+      {line.slice(0, index)}
+      <mark className="bg-yellow-500/40 text-white rounded-sm">{line.slice(index, index + query.length)}</mark>
+      {line.slice(index + query.length)}
+    </>
+  );
+}
+
+export function SearchPalette({ isOpen, onClose, onSelect }: SearchPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    }
+  }, [isOpen]);
+
+  // Debounced search as the user types
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setTruncated(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const data = await searchOutput(trimmed);
+        if (cancelled) return;
+        setResults(data.results);
+        setTruncated(data.truncated);
+        setActiveIndex(0);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Search failed');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, isOpen]);
+
+  // Keep the active result visible while navigating with the keyboard
+  useEffect(() => {
+    const item = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    item?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      // Keep an open terminal modal from closing along with the palette
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      onSelect(results[activeIndex]);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const trimmedQuery = query.trim();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-[12vh]" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/50" />
+      <div
+        className="relative bg-gray-800 rounded-lg shadow-xl border border-gray-700 w-full max-w-3xl mx-4 flex flex-col max-h-[70vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-700">
+          <span className="text-gray-400">🔍</span>
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search terminal output across sessions..."
+            className="flex-1 bg-transparent text-white placeholder-gray-500 focus:outline-none"
+          />
+          {loading && <span className="text-xs text-gray-500">Searching...</span>}
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 bg-red-900/50 border-b border-red-700 text-red-300 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div ref={listRef} className="flex-1 overflow-y-auto">
+          {trimmedQuery && !loading && results.length === 0 && !error && (
+            <div className="px-4 py-6 text-center text-sm text-gray-500">No matches</div>
+          )}
+          {results.map((result, index) => (
+            <div
+              key={`${result.sessionId}-${index}`}
+              onClick={() => onSelect(result)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`px-4 py-2 border-b border-gray-700/50 cursor-pointer ${
+                index === activeIndex ? 'bg-blue-900/30' : ''
+              }`}
+            >
+              <div className="flex items-center gap-2 text-xs text-gray-400 mb-1">
+                <span className="text-white font-medium">{result.sessionName}</span>
+                <span>{result.host.displayName}</span>
+                <span>·</span>
+                <span>{new Date(result.timestamp).toLocaleString()}</span>
+                {result.source === 'tmux' && (
+                  <span className="px-1 py-0.5 text-[10px] bg-gray-700 text-gray-300 rounded" title="Found in tmux scrollback">
+                    history
+                  </span>
+                )}
+              </div>
+              <pre className="text-xs font-mono text-gray-500 whitespace-pre-wrap break-all">
+                {result.contextBefore.map((line, i) => (
+                  <div key={`b${i}`}>{line}</div>
+                ))}
+                <div className="text-gray-200">{highlightMatch(result.line, trimmedQuery)}</div>
+                {result.contextAfter.map((line, i) => (
+                  <div key={`a${i}`}>{line}</div>
+                ))}
+              </pre>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-4 py-2 border-t border-gray-700 text-xs text-gray-500 flex justify-between">
+          <span>↑↓ to navigate · Enter to open · Esc to close</span>
+          {truncated && <span>Showing the most recent {results.length} matches</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
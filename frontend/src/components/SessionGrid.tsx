@@ -1,5 +1,5 @@
 import { useMemo } from 'react';
-import { Session } from '../types/Session';
+import { Session, WorktreeCleanup } from '../types/Session';
 import { SessionTile } from './SessionTile';
 
 interface SessionGridProps {
@@ -10,7 +10,7 @@ interface SessionGridProps {
   renderTerminal: (session: Session) => React.ReactNode;
   isFavorite?: (sessionId: string) => boolean;
   onToggleFavorite?: (sessionId: string) => void;
-  onCloseSession?: (sessionId: string) => void;
+  onCloseSession?: (sessionId: string, worktree?: WorktreeCleanup) => void;
   onSessionDrop?: (sessionId: string, workspaceId: null) => void;
   isDragOver?: boolean;
 }
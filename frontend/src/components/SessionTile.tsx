@@ -1,6 +1,9 @@
 import { useState } from 'react';
-import { Session } from '../types/Session';
+import { Session, WorktreeCleanup } from '../types/Session';
 import { hideSession } from '../services/SessionService';
+import { UsageBadge } from './UsageBadge';
+import { GitBadge } from './GitBadge';
+import { TokenUsage } from '../types/Usage';
 
 interface SessionTileProps {
   session: Session;
@@ -9,12 +12,14 @@ interface SessionTileProps {
   onViewTerminal?: (session: Session) => void;
   isFavorite?: boolean;
   onToggleFavorite?: (sessionId: string) => void;
-  onCloseSession?: (sessionId: string) => void;
+  onCloseSession?: (sessionId: string, worktree?: WorktreeCleanup) => void;
   isPreviewCollapsed?: boolean;
   onTogglePreviewCollapse?: (sessionId: string) => void;
   children?: React.ReactNode;
   onDragStart?: () => void;
   isDragging?: boolean;
+  /** Claude token usage since the session was created */
+  usage?: TokenUsage;
 }
 
 export function SessionTile({
@@ -29,7 +34,8 @@ export function SessionTile({
   onTogglePreviewCollapse,
   children,
   onDragStart,
-  isDragging = false
+  isDragging = false,
+  usage
 }: SessionTileProps) {
   const [showCloseOptions, setShowCloseOptions] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
@@ -62,10 +68,10 @@ export function SessionTile({
     }
   };
 
-  const handleTerminateSession = async () => {
+  const handleTerminateSession = async (worktree?: WorktreeCleanup) => {
     setIsClosing(true);
     try {
-      await onCloseSession?.(session.id);
+      await onCloseSession?.(session.id, worktree);
     } finally {
       setIsClosing(false);
       setShowCloseOptions(false);
@@ -160,6 +166,8 @@ export function SessionTile({
                   {session.claudeStatus === 'idle' && 'Idle'}
                 </span>
               )}
+              <UsageBadge usage={usage} />
+              <GitBadge git={session.git} />
             </div>
             {(() => {
               // Different preview logic for Claude vs non-Claude sessions
@@ -236,14 +244,43 @@ export function SessionTile({
                   <div className="font-medium text-white">Hide from workspace</div>
                   <div className="text-xs text-gray-400 mt-1">Session keeps running in background</div>
                 </button>
-                <button
-                  onClick={handleTerminateSession}
-                  disabled={isClosing}
-                  className="w-full px-4 py-3 rounded-lg bg-red-900/50 hover:bg-red-800/50 transition-colors text-left disabled:opacity-50"
-                >
-                  <div className="font-medium text-red-400">Terminate session</div>
-                  <div className="text-xs text-gray-400 mt-1">Kill tmux session permanently</div>
-                </button>
+                {session.worktree ? (
+                  <>
+                    <button
+                      onClick={() => handleTerminateSession('keep')}
+                      disabled={isClosing}
+                      className="w-full px-4 py-3 rounded-lg bg-red-900/50 hover:bg-red-800/50 transition-colors text-left disabled:opacity-50"
+                    >
+                      <div className="font-medium text-red-400">Terminate and keep worktree</div>
+                      <div className="text-xs text-gray-400 mt-1 break-all">Branch {session.worktree.branch} stays in {session.worktree.path}</div>
+                    </button>
+                    <button
+                      onClick={() => handleTerminateSession('merge')}
+                      disabled={isClosing}
+                      className="w-full px-4 py-3 rounded-lg bg-red-900/50 hover:bg-red-800/50 transition-colors text-left disabled:opacity-50"
+                    >
+                      <div className="font-medium text-red-400">Terminate and merge</div>
+                      <div className="text-xs text-gray-400 mt-1">Merge committed work into the repository's current branch, then remove the worktree</div>
+                    </button>
+                    <button
+                      onClick={() => handleTerminateSession('remove')}
+                      disabled={isClosing}
+                      className="w-full px-4 py-3 rounded-lg bg-red-900/50 hover:bg-red-800/50 transition-colors text-left disabled:opacity-50"
+                    >
+                      <div className="font-medium text-red-400">Terminate and remove worktree</div>
+                      <div className="text-xs text-gray-400 mt-1">Delete the worktree and its branch, discarding its changes</div>
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => handleTerminateSession()}
+                    disabled={isClosing}
+                    className="w-full px-4 py-3 rounded-lg bg-red-900/50 hover:bg-red-800/50 transition-colors text-left disabled:opacity-50"
+                  >
+                    <div className="font-medium text-red-400">Terminate session</div>
+                    <div className="text-xs text-gray-400 mt-1">Kill tmux session permanently</div>
+                  </button>
+                )}
                 <button
                   onClick={() => setShowCloseOptions(false)}
                   className="w-full px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors text-gray-300"
@@ -0,0 +1,196 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ShareLink } from '../types/ShareLink';
+import { createShareLink, fetchShareLinks, revokeShareLink, getShareUrl } from '../services/ShareService';
+
+interface ShareDialogProps {
+  sessionId: string;
+  sessionName: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '1 hour', minutes: 60 },
+  { label: '8 hours', minutes: 8 * 60 },
+  { label: '24 hours', minutes: 24 * 60 },
+  { label: '7 days', minutes: 7 * 24 * 60 },
+];
+
+export function ShareDialog({ sessionId, sessionName, isOpen, onClose }: ShareDialogProps) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [expiresInMinutes, setExpiresInMinutes] = useState(EXPIRY_OPTIONS[0].minutes);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      setLinks(await fetchShareLinks(sessionId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load share links');
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setCreatedUrl(null);
+      setError(null);
+      loadLinks();
+    }
+  }, [isOpen, loadLinks]);
+
+  // Escape closes the dialog only (the terminal modal stays open)
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopImmediatePropagation();
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isOpen, onClose]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const { token } = await createShareLink(sessionId, expiresInMinutes);
+      setCreatedUrl(getShareUrl(token));
+      setCopied(false);
+      loadLinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create share link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdUrl) return;
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+      setCopied(true);
+    } catch (err) {
+      console.warn('Failed to copy to clipboard:', err);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('Revoke this link? Anyone watching through it will be disconnected.')) return;
+    try {
+      await revokeShareLink(link.id);
+      loadLinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke share link');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+    >
+      <div
+        className="relative bg-gray-800 rounded-lg shadow-xl border border-gray-700 w-full max-w-lg mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">Share — {sessionName}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors text-2xl leading-none w-8 h-8 flex items-center justify-center"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-400">
+            Anyone with the link can watch this session live. They cannot type or resize the terminal.
+          </p>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={expiresInMinutes}
+              onChange={(e) => setExpiresInMinutes(parseInt(e.target.value, 10))}
+              className="px-3 py-2 bg-gray-900 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.minutes} value={option.minutes}>Expires in {option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleCreate}
+              disabled={isCreating}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded transition-colors disabled:opacity-50"
+            >
+              {isCreating ? 'Creating...' : 'Create link'}
+            </button>
+          </div>
+
+          {createdUrl && (
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                readOnly
+                value={createdUrl}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded text-white text-xs font-mono focus:outline-none"
+              />
+              <button
+                onClick={handleCopy}
+                className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded transition-colors"
+              >
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          )}
+
+          {error && (
+            <div className="px-3 py-2 bg-red-900/50 border border-red-700 rounded text-red-300 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Active links</h3>
+            {links.length === 0 ? (
+              <div className="text-sm text-gray-500">No active links.</div>
+            ) : (
+              <div className="space-y-1">
+                {links.map(link => (
+                  <div key={link.id} className="flex items-center justify-between px-3 py-2 bg-gray-900 rounded text-sm">
+                    <div className="text-gray-300">
+                      <div>Expires {new Date(link.expiresAt).toLocaleString()}</div>
+                      <div className="text-xs text-gray-500">
+                        Created {new Date(link.createdAt).toLocaleString()}
+                        {link.createdBy && ` by ${link.createdBy}`}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRevoke(link)}
+                      className="text-xs text-red-400 hover:text-red-300"
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
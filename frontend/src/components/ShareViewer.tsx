@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { TerminalComponent } from './Terminal';
+import { useWebSocket, getWebSocketUrl } from '../hooks/useWebSocket';
+import { fetchSharedSession } from '../services/ShareService';
+import { SharedSessionInfo } from '../types/ShareLink';
+import { ServerMessage } from '../types/Session';
+
+interface ShareViewerProps {
+  shareToken: string;
+}
+
+/**
+ * Stripped-down read-only page for watching a single shared session
+ */
+export function ShareViewer({ shareToken }: ShareViewerProps) {
+  const [info, setInfo] = useState<SharedSessionInfo | null>(null);
+  const [ended, setEnded] = useState<string | null>(null);
+  const writeRef = useRef<((data: string) => void) | null>(null);
+
+  useEffect(() => {
+    fetchSharedSession(shareToken)
+      .then(setInfo)
+      .catch(err => setEnded(err instanceof Error ? err.message : 'This share link is not valid'));
+  }, [shareToken]);
+
+  const handleMessage = useCallback((data: unknown) => {
+    const message = data as ServerMessage;
+    if (message.type === 'output' && 'data' in message && typeof message.data === 'string') {
+      writeRef.current?.(message.data);
+    } else if (message.type === 'buffer' && 'data' in message && Array.isArray(message.data)) {
+      message.data.forEach(chunk => writeRef.current?.(chunk));
+    }
+  }, []);
+
+  const { status, subscribe } = useWebSocket({
+    url: `${getWebSocketUrl()}?share=${encodeURIComponent(shareToken)}`,
+    onMessage: handleMessage,
+    onUnauthorized: () => setEnded('This share link has expired or was revoked'),
+  });
+
+  useEffect(() => {
+    if (info) {
+      subscribe(info.sessionId);
+    }
+  }, [info, subscribe]);
+
+  // The server refuses input and resize from share viewers
+  const noop = useCallback(() => {}, []);
+
+  return (
+    <div className="h-screen bg-gray-900 text-white flex flex-col">
+      <header className="flex items-center justify-between px-4 py-3 border-b border-gray-700 bg-gray-800">
+        <div className="flex items-center gap-3">
+          <h1 className="text-lg font-semibold">{info?.sessionName ?? 'Shared session'}</h1>
+          <span className="px-2 py-0.5 text-xs bg-gray-700 text-gray-300 rounded">Read-only</span>
+        </div>
+        <div className="flex items-center gap-4 text-sm text-gray-400">
+          {info && <span>Link expires {new Date(info.expiresAt).toLocaleString()}</span>}
+          <span>{status === 'connected' ? 'Live' : status}</span>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 min-h-0">
+        {ended ? (
+          <div className="flex items-center justify-center h-full text-gray-400">{ended}</div>
+        ) : info ? (
+          <TerminalComponent
+            sessionId={info.sessionId}
+            onInput={noop}
+            onResize={noop}
+            onReady={(write) => {
+              writeRef.current = write;
+            }}
+          />
+        ) : (
+          <div className="flex items-center justify-center h-full text-gray-400">Loading...</div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -6,13 +6,20 @@ interface TerminalProps {
   onInput: (sessionId: string, data: string) => void;
   onResize: (sessionId: string, cols: number, rows: number) => void;
   onReady?: (write: (data: string) => void, writeln: (data: string) => void) => void;
+  /** Text to scroll to once it shows up in the terminal buffer */
+  highlightText?: string;
 }
 
+// The buffer is replayed asynchronously after subscribing, so retry for a while
+const HIGHLIGHT_RETRY_MS = 250;
+const HIGHLIGHT_MAX_ATTEMPTS = 20;
+
 export const TerminalComponent = memo(function Terminal({
   sessionId,
   onInput,
   onResize,
   onReady,
+  highlightText,
 }: TerminalProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const initializedRef = useRef(false);
@@ -32,7 +39,7 @@ export const TerminalComponent = memo(function Terminal({
     onResize(sessionId, cols, rows);
   }, [sessionId, onResize]);
 
-  const { initTerminal, write, writeln, focus, fit } = useTerminal({
+  const { initTerminal, write, writeln, focus, fit, scrollToText } = useTerminal({
     onData: handleData,
     onResize: handleResize,
   });
@@ -55,6 +62,20 @@ export const TerminalComponent = memo(function Terminal({
     }
   }, [initTerminal, write, writeln, sessionId]);
 
+  useEffect(() => {
+    if (!highlightText) return;
+
+    let attempts = 0;
+    const timer = setInterval(() => {
+      attempts++;
+      if (scrollToText(highlightText) || attempts >= HIGHLIGHT_MAX_ATTEMPTS) {
+        clearInterval(timer);
+      }
+    }, HIGHLIGHT_RETRY_MS);
+
+    return () => clearInterval(timer);
+  }, [highlightText, scrollToText, sessionId]);
+
   // Re-fit on visibility change
   useEffect(() => {
     const observer = new IntersectionObserver((entries) => {
@@ -1,5 +1,10 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { TerminalComponent } from './Terminal';
+import { RecordingPlayer } from './RecordingPlayer';
+import { ShareDialog } from './ShareDialog';
+import { TranscriptPanel } from './TranscriptPanel';
+import { DiffPanel } from './DiffPanel';
+import { FileBrowserPanel } from './FileBrowserPanel';
 import { Session } from '../types/Session';
 
 interface TerminalModalProps {
@@ -9,6 +14,8 @@ interface TerminalModalProps {
   onInput: (sessionId: string, data: string) => void;
   onResize: (sessionId: string, cols: number, rows: number) => void;
   onReady?: (sessionId: string, write: (data: string) => void, writeln: (data: string) => void) => void;
+  /** Output text to scroll to, e.g. a search hit */
+  highlightText?: string;
 }
 
 export function TerminalModal({
@@ -18,7 +25,12 @@ export function TerminalModal({
   onInput,
   onResize,
   onReady,
+  highlightText,
 }: TerminalModalProps) {
+  const [showRecordings, setShowRecordings] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [sidePanel, setSidePanel] = useState<'transcript' | 'diff' | 'files' | null>(null);
+
   // Handle ESC key to close
   useEffect(() => {
     if (!isOpen) return;
@@ -52,27 +64,111 @@ export function TerminalModal({
           <h2 className="text-lg font-semibold text-white">
             {session.name}
           </h2>
-          <button
-            onClick={onClose}
-            className="text-gray-400 hover:text-white transition-colors text-2xl leading-none w-8 h-8 flex items-center justify-center"
-            aria-label="Close"
-          >
-            ×
-          </button>
+          <div className="flex items-center gap-2">
+            {session.workingDirectory && (
+              <button
+                onClick={() => setSidePanel(prev => (prev === 'files' ? null : 'files'))}
+                className={`px-3 py-1 text-sm text-white rounded transition-colors ${
+                  sidePanel === 'files' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+                title="Browse files in the session's working directory"
+              >
+                Files
+              </button>
+            )}
+            {session.git && (
+              <button
+                onClick={() => setSidePanel(prev => (prev === 'diff' ? null : 'diff'))}
+                className={`px-3 py-1 text-sm text-white rounded transition-colors ${
+                  sidePanel === 'diff' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+                title="Review changes in the session's working directory"
+              >
+                Diff
+              </button>
+            )}
+            {session.isClaudeSession && (
+              <button
+                onClick={() => setSidePanel(prev => (prev === 'transcript' ? null : 'transcript'))}
+                className={`px-3 py-1 text-sm text-white rounded transition-colors ${
+                  sidePanel === 'transcript' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+                title="Show the Claude conversation next to the terminal"
+              >
+                Transcript
+              </button>
+            )}
+            <button
+              onClick={() => setShowShare(true)}
+              className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+              title="Share a read-only link to this session"
+            >
+              Share
+            </button>
+            <button
+              onClick={() => setShowRecordings(true)}
+              className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+              title="Replay recorded terminal output"
+            >
+              Recordings
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors text-2xl leading-none w-8 h-8 flex items-center justify-center"
+              aria-label="Close"
+            >
+              ×
+            </button>
+          </div>
         </div>
 
-        {/* Terminal Content */}
-        <div className="flex-1 p-4 overflow-hidden">
-          <div className="h-full w-full">
-            <TerminalComponent
-              sessionId={session.id}
-              onInput={onInput}
-              onResize={onResize}
-              onReady={onReady ? (write, writeln) => onReady(session.id, write, writeln) : undefined}
-            />
+        <div className="flex-1 flex min-h-0">
+          {/* Terminal Content */}
+          <div className="flex-1 min-w-0 p-4 overflow-hidden">
+            <div className="h-full w-full">
+              <TerminalComponent
+                sessionId={session.id}
+                onInput={onInput}
+                onResize={onResize}
+                onReady={onReady ? (write, writeln) => onReady(session.id, write, writeln) : undefined}
+                highlightText={highlightText}
+              />
+            </div>
           </div>
+
+          {sidePanel === 'transcript' && session.isClaudeSession && (
+            <div className="w-[28rem] max-w-[45%] border-l border-gray-700 bg-gray-900 rounded-br-lg">
+              <TranscriptPanel sessionId={session.id} />
+            </div>
+          )}
+
+          {sidePanel === 'diff' && session.git && (
+            <div className="w-[40rem] max-w-[55%] border-l border-gray-700 bg-gray-900 rounded-br-lg">
+              <DiffPanel sessionId={session.id} />
+            </div>
+          )}
+
+          {sidePanel === 'files' && session.workingDirectory && (
+            <div className="w-[32rem] max-w-[50%] border-l border-gray-700 bg-gray-900 rounded-br-lg">
+              <FileBrowserPanel sessionId={session.id} workingDirectory={session.workingDirectory} />
+            </div>
+          )}
         </div>
       </div>
+
+      <RecordingPlayer
+        sessionId={session.id}
+        sessionName={session.name}
+        isOpen={showRecordings}
+        onClose={() => setShowRecordings(false)}
+      />
+
+      <ShareDialog
+        sessionId={session.id}
+        sessionName={session.name}
+        isOpen={showShare}
+        onClose={() => setShowShare(false)}
+      />
     </div>
   );
 }
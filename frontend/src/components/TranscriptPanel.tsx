@@ -0,0 +1,254 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { TranscriptEntry } from '../types/Transcript';
+import { fetchTranscript } from '../services/TranscriptService';
+
+interface TranscriptPanelProps {
+  sessionId: string;
+}
+
+const PAGE_SIZE = 100;
+
+function formatTime(timestamp?: string): string {
+  return timestamp ? new Date(timestamp).toLocaleTimeString() : '';
+}
+
+/**
+ * One-line hint of what a tool call did, e.g. the command or file path
+ */
+function summarizeToolInput(input: unknown): string {
+  if (!input || typeof input !== 'object') return '';
+  const values = input as Record<string, unknown>;
+  for (const key of ['command', 'file_path', 'path', 'pattern', 'url', 'description', 'prompt']) {
+    if (typeof values[key] === 'string') {
+      return (values[key] as string).split('\n')[0].slice(0, 120);
+    }
+  }
+  return '';
+}
+
+interface ToolCallProps {
+  call?: TranscriptEntry;
+  result?: TranscriptEntry;
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+function ToolCall({ call, result, expanded, onToggle }: ToolCallProps) {
+  const summary = call ? summarizeToolInput(call.toolInput) : '';
+
+  return (
+    <div className={`rounded border ${result?.isError ? 'border-red-800' : 'border-gray-700'} bg-gray-800/60`}>
+      <button
+        onClick={onToggle}
+        className="w-full flex items-center gap-2 px-2 py-1 text-left text-xs text-gray-300 hover:bg-gray-700/50"
+      >
+        <span className="text-gray-500">{expanded ? '▾' : '▸'}</span>
+        <span className="font-mono text-amber-300">{call?.toolName ?? 'Tool result'}</span>
+        {summary && <span className="truncate text-gray-400 font-mono">{summary}</span>}
+        {result?.isError && <span className="ml-auto text-red-400">error</span>}
+      </button>
+      {expanded && (
+        <div className="px-2 pb-2 space-y-2">
+          {call?.toolInput !== undefined && (
+            <pre className="text-xs text-gray-300 font-mono whitespace-pre-wrap break-words bg-gray-900 rounded p-2 max-h-60 overflow-auto">
+              {JSON.stringify(call.toolInput, null, 2)}
+            </pre>
+          )}
+          {result && (
+            <pre className={`text-xs font-mono whitespace-pre-wrap break-words bg-gray-900 rounded p-2 max-h-60 overflow-auto ${result.isError ? 'text-red-300' : 'text-gray-400'}`}>
+              {result.text || '(no output)'}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Claude conversation of a session: messages, with tool calls collapsed
+ * into expandable rows, and a search box that filters on the server
+ */
+export function TranscriptPanel({ sessionId }: TranscriptPanelProps) {
+  const [entries, setEntries] = useState<TranscriptEntry[]>([]);
+  const [offset, setOffset] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [queryInput, setQueryInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const listRef = useRef<HTMLDivElement>(null);
+  const scrollToEndRef = useRef(false);
+
+  const loadLatest = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchTranscript(sessionId, { limit: PAGE_SIZE, query: query || undefined });
+      setEntries(page.entries);
+      setOffset(page.offset);
+      setTotal(page.total);
+      setTruncated(page.truncated);
+      setExpanded(new Set());
+      scrollToEndRef.current = true;
+    } catch (err) {
+      setEntries([]);
+      setTotal(0);
+      setError(err instanceof Error ? err.message : 'Failed to load transcript');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, query]);
+
+  useEffect(() => {
+    loadLatest();
+  }, [loadLatest]);
+
+  useEffect(() => {
+    if (scrollToEndRef.current && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+      scrollToEndRef.current = false;
+    }
+  }, [entries]);
+
+  const loadEarlier = async () => {
+    const start = Math.max(offset - PAGE_SIZE, 0);
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchTranscript(sessionId, { offset: start, limit: offset - start, query: query || undefined });
+      setEntries(prev => [...page.entries, ...prev]);
+      setOffset(page.offset);
+      setTotal(page.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transcript');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (index: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  // Show each tool result under the call that produced it when both are loaded
+  const callIds = new Set(entries.filter(e => e.kind === 'tool_use' && e.toolUseId).map(e => e.toolUseId));
+  const resultsByCall = new Map(
+    entries.filter(e => e.kind === 'tool_result' && e.toolUseId).map(e => [e.toolUseId, e])
+  );
+
+  const renderEntry = (entry: TranscriptEntry) => {
+    if (entry.kind === 'tool_use') {
+      return (
+        <ToolCall
+          key={entry.index}
+          call={entry}
+          result={entry.toolUseId ? resultsByCall.get(entry.toolUseId) : undefined}
+          expanded={expanded.has(entry.index)}
+          onToggle={() => toggle(entry.index)}
+        />
+      );
+    }
+    if (entry.kind === 'tool_result') {
+      if (entry.toolUseId && callIds.has(entry.toolUseId)) return null;
+      return (
+        <ToolCall key={entry.index} result={entry} expanded={expanded.has(entry.index)} onToggle={() => toggle(entry.index)} />
+      );
+    }
+
+    const isUser = entry.kind === 'user';
+    return (
+      <div key={entry.index} className={`rounded px-3 py-2 ${isUser ? 'bg-blue-900/40 border border-blue-800' : 'bg-gray-800'}`}>
+        <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+          <span className={isUser ? 'text-blue-300' : 'text-purple-300'}>{isUser ? 'User' : 'Claude'}</span>
+          <span>{formatTime(entry.timestamp)}</span>
+        </div>
+        <div className="text-sm text-gray-200 whitespace-pre-wrap break-words">{entry.text}</div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <form
+        className="flex items-center gap-2 p-2 border-b border-gray-700"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setQuery(queryInput.trim());
+        }}
+      >
+        <input
+          type="text"
+          value={queryInput}
+          onChange={(e) => setQueryInput(e.target.value)}
+          placeholder="Search transcript..."
+          className="flex-1 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white text-sm placeholder-gray-500 focus:outline-none focus:border-blue-500"
+        />
+        {query && (
+          <button
+            type="button"
+            onClick={() => {
+              setQueryInput('');
+              setQuery('');
+            }}
+            className="px-2 py-1 text-xs text-gray-400 hover:text-white"
+          >
+            Clear
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={loadLatest}
+          disabled={loading}
+          className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-50"
+          title="Reload the latest entries"
+        >
+          Refresh
+        </button>
+      </form>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-2 space-y-2">
+        {offset > 0 && (
+          <button
+            onClick={loadEarlier}
+            disabled={loading}
+            className="w-full py-1 text-xs text-gray-400 hover:text-white bg-gray-800 rounded disabled:opacity-50"
+          >
+            Load earlier ({offset} more)
+          </button>
+        )}
+        {truncated && offset === 0 && (
+          <div className="text-xs text-gray-500 text-center">Older entries are beyond the part of the transcript that was read.</div>
+        )}
+        {error ? (
+          <div className="text-sm text-gray-400 text-center py-4">{error}</div>
+        ) : entries.length === 0 && !loading ? (
+          <div className="text-sm text-gray-500 text-center py-4">
+            {query ? 'No entries match this search.' : 'The transcript is empty.'}
+          </div>
+        ) : (
+          entries.map(renderEntry)
+        )}
+        {loading && entries.length === 0 && (
+          <div className="text-sm text-gray-500 text-center py-4">Loading...</div>
+        )}
+      </div>
+
+      {total > 0 && (
+        <div className="px-2 py-1 border-t border-gray-700 text-xs text-gray-500">
+          {query ? `${total} matching entries` : `${total} entries`}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { TokenUsage } from '../types/Usage';
+
+interface UsageBadgeProps {
+  usage?: TokenUsage;
+  className?: string;
+}
+
+function formatTokens(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(1)}k`;
+  return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+function formatCost(usd: number): string {
+  return usd < 0.01 && usd > 0 ? '<$0.01' : `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Compact token/cost total with a per-category breakdown on hover
+ */
+export function UsageBadge({ usage, className = '' }: UsageBadgeProps) {
+  if (!usage) return null;
+
+  const tokens = usage.inputTokens + usage.outputTokens + usage.cacheCreationTokens + usage.cacheReadTokens;
+  if (tokens === 0) return null;
+
+  const title = [
+    `Input: ${usage.inputTokens.toLocaleString()}`,
+    `Output: ${usage.outputTokens.toLocaleString()}`,
+    `Cache write: ${usage.cacheCreationTokens.toLocaleString()}`,
+    `Cache read: ${usage.cacheReadTokens.toLocaleString()}`,
+    `Estimated cost: $${usage.costUsd.toFixed(4)}`,
+    ...(usage.unpricedTokens > 0
+      ? [`Not in the estimate: ${usage.unpricedTokens.toLocaleString()} tokens of models without a known price`]
+      : []),
+  ].join('\n');
+
+  return (
+    <span
+      className={`px-1 py-0.5 text-[10px] bg-amber-500/15 text-amber-300 rounded font-mono flex-shrink-0 ${className}`}
+      title={title}
+    >
+      {formatTokens(tokens)} tok · {formatCost(usage.costUsd)}{usage.unpricedTokens > 0 ? '+' : ''}
+    </span>
+  );
+}
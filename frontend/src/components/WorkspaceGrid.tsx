@@ -1,6 +1,7 @@
 import { WorkspaceWithSessions } from '../types/Workspace';
 import { Session } from '../types/Session';
 import { WorkspaceGroup } from './WorkspaceGroup';
+import { TokenUsage } from '../types/Usage';
 
 interface WorkspaceGridProps {
   workspaces: WorkspaceWithSessions[];
@@ -13,6 +14,7 @@ interface WorkspaceGridProps {
   onSessionDrop?: (sessionId: string, workspaceId: string) => void;
   dragOverWorkspaceId?: string | null;
   todoStats: Record<string, { pending: number; completed: number }>;
+  workspaceUsage?: Record<string, TokenUsage>;
   hosts: Array<{ id: string; name: string; type: string; hostname?: string }>;
   showHiddenWorkspaces?: boolean;
   onOpenTodo?: (workspaceId: string, workspaceName: string) => void;
@@ -29,6 +31,7 @@ export function WorkspaceGrid({
   onSessionDrop,
   dragOverWorkspaceId,
   todoStats,
+  workspaceUsage,
   hosts,
   showHiddenWorkspaces = false,
   onOpenTodo,
@@ -62,6 +65,7 @@ export function WorkspaceGrid({
             isDragOver={dragOverWorkspaceId === workspace.id}
             todoCount={stats.pending}
             completedTodoCount={stats.completed}
+            usage={workspaceUsage?.[workspace.id]}
             hosts={hosts}
             showHiddenWorkspaces={showHiddenWorkspaces}
             onOpenTodo={onOpenTodo}
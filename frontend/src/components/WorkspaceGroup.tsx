@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { WorkspaceWithSessions } from '../types/Workspace';
 import { Session } from '../types/Session';
 import { WorkspaceInfoButton } from './WorkspaceInfoButton';
+import { UsageBadge } from './UsageBadge';
+import { TokenUsage } from '../types/Usage';
 
 interface WorkspaceGroupProps {
   workspace: WorkspaceWithSessions;
@@ -16,6 +18,8 @@ interface WorkspaceGroupProps {
   isDragOver?: boolean;
   todoCount: number;
   completedTodoCount: number;
+  /** Claude token usage of the workspace's sessions */
+  usage?: TokenUsage;
   hosts: Array<{ id: string; name: string; type: string; hostname?: string }>;
   showHiddenWorkspaces?: boolean;
   onOpenTodo?: (workspaceId: string, workspaceName: string) => void;
@@ -34,6 +38,7 @@ export function WorkspaceGroup({
   isDragOver = false,
   todoCount,
   completedTodoCount,
+  usage,
   hosts,
   showHiddenWorkspaces = false,
   onOpenTodo,
@@ -158,6 +163,7 @@ export function WorkspaceGroup({
           <span className="px-2 py-0.5 text-xs bg-gray-700 text-gray-300 rounded-full flex-shrink-0">
             {workspace.sessions.length}
           </span>
+          <UsageBadge usage={usage} className="text-xs" />
           <WorkspaceInfoButton
             workspace={{
               id: workspace.id,
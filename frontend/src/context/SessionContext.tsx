@@ -1,9 +1,11 @@
-import { createContext, useContext, useCallback, useRef, ReactNode, useMemo } from 'react';
+import { createContext, useContext, useCallback, useEffect, useRef, useState, ReactNode, useMemo } from 'react';
 import { useSessions } from '../hooks/useSessions';
-import { useWebSocket, ConnectionStatus } from '../hooks/useWebSocket';
-import { Session, ServerMessage } from '../types/Session';
+import { useWebSocket, ConnectionStatus, getWebSocketUrl } from '../hooks/useWebSocket';
+import { Session, ServerMessage, SessionStatusMessage, SessionDiffMessage } from '../types/Session';
+import { SessionNotification } from '../types/Notification';
 import * as PersistenceService from '../services/PersistenceService';
 import { HistoryEntry } from '../services/PersistenceService';
+import { getToken, getRole, refreshToken, logout } from '../services/AuthService';
 
 interface TerminalWriter {
   write: (data: string) => void;
@@ -31,8 +33,12 @@ interface SessionContextValue {
   showHistory: boolean;
   setShowHistory: (show: boolean) => void;
   sessionHistory: HistoryEntry[];
+  // Most recent server notification (status transitions)
+  latestNotification: SessionNotification | null;
 }
 
+const AUTH_REFRESH_LEAD_MS = 60000;
+
 const SessionContext = createContext<SessionContextValue | null>(null);
 
 export function SessionProvider({ children }: { children: ReactNode }) {
@@ -41,9 +47,11 @@ export function SessionProvider({ children }: { children: ReactNode }) {
     loading,
     error,
     updateSessions,
+    applySessionDiff,
     setError,
     getClaudeSessions,
     updateClaudeStatus,
+    applyStatusUpdate,
     showHistory,
     setShowHistory,
     toggleFavorite,
@@ -52,13 +60,46 @@ export function SessionProvider({ children }: { children: ReactNode }) {
 
   const terminalWritersRef = useRef<Map<string, TerminalWriter>>(new Map());
   const selectedSessionIdRef = useRef<string | null>(null);
+  const sendRef = useRef<(data: object) => void>(() => {});
+  const authRefreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const resyncPendingRef = useRef(false);
+  const [latestNotification, setLatestNotification] = useState<SessionNotification | null>(null);
+
+  // Renew the token over HTTP and hand it to the open connection
+  const renewConnectionAuth = useCallback(async () => {
+    const token = await refreshToken();
+    if (!token) {
+      logout();
+      return;
+    }
+    sendRef.current({ type: 'auth-refresh', token });
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (authRefreshTimerRef.current) {
+        clearTimeout(authRefreshTimerRef.current);
+      }
+    };
+  }, []);
 
   const handleMessage = useCallback((data: unknown) => {
     const message = data as ServerMessage;
     switch (message.type) {
       case 'sessions':
         if ('sessions' in message) {
-          updateSessions(message.sessions);
+          resyncPendingRef.current = false;
+          updateSessions(message.sessions, message.seq);
+        }
+        break;
+
+      case 'session-added':
+      case 'session-removed':
+      case 'session-updated':
+        // A gap in the sequence means a diff was missed; fetch the full list once
+        if (!applySessionDiff(message as SessionDiffMessage) && !resyncPendingRef.current) {
+          resyncPendingRef.current = true;
+          sendRef.current({ type: 'list-sessions' });
         }
         break;
 
@@ -88,27 +129,46 @@ export function SessionProvider({ children }: { children: ReactNode }) {
         }
         break;
 
+      case 'auth-ok':
+        if ('expiresAt' in message) {
+          // Refresh a minute before the token lapses so the connection never expires
+          if (authRefreshTimerRef.current) {
+            clearTimeout(authRefreshTimerRef.current);
+          }
+          const delay = Math.max(new Date(message.expiresAt).getTime() - Date.now() - AUTH_REFRESH_LEAD_MS, 0);
+          authRefreshTimerRef.current = setTimeout(renewConnectionAuth, delay);
+        }
+        break;
+
+      case 'auth-expired':
+        renewConnectionAuth();
+        break;
+
       case 'claude-status':
         if ('sessionId' in message && 'status' in message) {
           updateClaudeStatus(message.sessionId, message.status);
         }
         break;
-    }
-  }, [updateSessions, setError, updateClaudeStatus]);
 
-  // Determine WebSocket URL
-  const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-  const hostname = window.location.hostname;
-  const isLocalhost = hostname === 'localhost' || hostname === '127.0.0.1';
-  const isDev = import.meta.env.DEV;
+      case 'session-status':
+        if ('sessionId' in message) {
+          applyStatusUpdate(message as SessionStatusMessage);
+        }
+        break;
+
+      case 'notification':
+        if ('notification' in message) {
+          setLatestNotification(message.notification);
+        }
+        break;
+    }
+  }, [updateSessions, applySessionDiff, setError, updateClaudeStatus, applyStatusUpdate, renewConnectionAuth]);
 
-  const wsHost = isDev && !isLocalhost
-    ? `${hostname}:3006`
-    : window.location.host;
-  const wsUrl = `${wsProtocol}//${wsHost}/ws`;
+  const wsUrl = getWebSocketUrl();
 
   const {
     status: connectionStatus,
+    send,
     subscribe,
     unsubscribe,
     sendInput: wsSendInput,
@@ -116,10 +176,19 @@ export function SessionProvider({ children }: { children: ReactNode }) {
   } = useWebSocket({
     url: wsUrl,
     onMessage: handleMessage,
-    onConnect: () => console.log('Connected to server'),
+    onConnect: () => {
+      console.log('Connected to server');
+      resyncPendingRef.current = false;
+      // Keep every tile's status live without attaching terminals
+      sendRef.current({ type: 'subscribe-status' });
+    },
     onDisconnect: () => console.log('Disconnected from server'),
+    onUnauthorized: logout,
+    getAuthToken: getToken,
   });
 
+  sendRef.current = send;
+
   const selectSession = useCallback((sessionId: string | null) => {
     selectedSessionIdRef.current = sessionId;
   }, []);
@@ -133,6 +202,8 @@ export function SessionProvider({ children }: { children: ReactNode }) {
   }, [unsubscribe]);
 
   const sendInput = useCallback((sessionId: string, data: string) => {
+    // Viewers are read-only; the server would reject the input anyway
+    if (getRole() === 'viewer') return;
     wsSendInput(sessionId, data);
   }, [wsSendInput]);
 
@@ -169,6 +240,7 @@ export function SessionProvider({ children }: { children: ReactNode }) {
     showHistory,
     setShowHistory,
     sessionHistory,
+    latestNotification,
   };
 
   return (
@@ -1,5 +1,5 @@
-import { useState, useCallback } from 'react';
-import { Session, ClaudeOperationStatus } from '../types/Session';
+import { useState, useCallback, useRef } from 'react';
+import { Session, ClaudeOperationStatus, SessionStatusMessage, SessionDiffMessage } from '../types/Session';
 import * as PersistenceService from '../services/PersistenceService';
 
 export function useSessions() {
@@ -11,18 +11,59 @@ export function useSessions() {
     new Set(PersistenceService.getFavorites())
   );
 
-  const updateSessions = useCallback((newSessions: Session[]) => {
+  // Sequence number of the last session list or diff applied
+  const seqRef = useRef<number | null>(null);
+
+  const updateSessions = useCallback((newSessions: Session[], seq?: number) => {
     // Save terminated sessions to history
     for (const session of newSessions) {
       if (session.status === 'terminated') {
         PersistenceService.addToHistory(session);
       }
     }
+    seqRef.current = seq ?? null;
     setSessions(newSessions);
     setLoading(false);
     setError(null);
   }, []);
 
+  /**
+   * Apply an incremental diff. Returns false when a diff was missed and the
+   * full list needs to be requested again.
+   */
+  const applySessionDiff = useCallback((message: SessionDiffMessage): boolean => {
+    if (seqRef.current === null || message.seq !== seqRef.current + 1) {
+      seqRef.current = null;
+      return false;
+    }
+    seqRef.current = message.seq;
+
+    switch (message.type) {
+      case 'session-added':
+        setSessions(prev => [...prev.filter(s => s.id !== message.session.id), message.session]);
+        break;
+
+      case 'session-removed':
+        setSessions(prev => prev.filter(s => s.id !== message.sessionId));
+        break;
+
+      case 'session-updated':
+        setSessions(prev => prev.map(s => {
+          if (s.id !== message.sessionId) return s;
+          const updated = { ...s, ...message.changes };
+          for (const key of message.cleared ?? []) {
+            delete updated[key];
+          }
+          if (message.changes.status === 'terminated') {
+            PersistenceService.addToHistory(updated);
+          }
+          return updated;
+        }));
+        break;
+    }
+    return true;
+  }, []);
+
   const addSession = useCallback((session: Session) => {
     setSessions(prev => {
       const exists = prev.some(s => s.id === session.id);
@@ -47,6 +88,19 @@ export function useSessions() {
     ));
   }, []);
 
+  const applyStatusUpdate = useCallback((update: SessionStatusMessage) => {
+    const { sessionId, claudeStatus, lastOutput, userLastInput } = update;
+    setSessions(prev => prev.map(s => {
+      if (s.id !== sessionId) return s;
+      return {
+        ...s,
+        ...(claudeStatus !== undefined && { claudeStatus }),
+        ...(lastOutput !== undefined && { lastOutput }),
+        ...(userLastInput !== undefined && { userLastInput }),
+      };
+    }));
+  }, []);
+
   const getClaudeSessions = useCallback(() => {
     return sessions.filter(s => s.isClaudeSession && s.status !== 'terminated');
   }, [sessions]);
@@ -89,10 +143,12 @@ export function useSessions() {
     toggleFavorite,
     isFavorite,
     updateSessions,
+    applySessionDiff,
     addSession,
     removeSession,
     updateSession,
     updateClaudeStatus,
+    applyStatusUpdate,
     getClaudeSessions,
     setLoading: setLoadingState,
     setError: setErrorState,
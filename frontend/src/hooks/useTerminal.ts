@@ -188,6 +188,28 @@ export function useTerminal({ onData, onResize }: UseTerminalOptions = {}) {
     };
   }, []);
 
+  /**
+   * Scroll to the most recent buffer line containing the text and select the match.
+   * Returns false when the text is not in the buffer (yet).
+   */
+  const scrollToText = useCallback((text: string): boolean => {
+    const terminal = terminalRef.current;
+    if (!terminal || !text) return false;
+
+    const needle = text.toLowerCase();
+    const buffer = terminal.buffer.active;
+    for (let i = buffer.length - 1; i >= 0; i--) {
+      const line = buffer.getLine(i)?.translateToString(true);
+      const column = line ? line.toLowerCase().indexOf(needle) : -1;
+      if (column !== -1) {
+        terminal.scrollToLine(Math.max(0, i - Math.floor(terminal.rows / 2)));
+        terminal.select(column, i, text.length);
+        return true;
+      }
+    }
+    return false;
+  }, []);
+
   return {
     initTerminal,
     write,
@@ -196,6 +218,7 @@ export function useTerminal({ onData, onResize }: UseTerminalOptions = {}) {
     fit,
     focus,
     getDimensions,
+    scrollToText,
     terminalRef,
   };
 }
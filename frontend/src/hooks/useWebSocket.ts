@@ -7,10 +7,41 @@ interface UseWebSocketOptions {
   onMessage: (data: unknown) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
+  /** Called when the server closes the connection for failed or expired authentication */
+  onUnauthorized?: () => void;
+  /** Token sent in the first `auth` message of every connection */
+  getAuthToken?: () => string | null;
   reconnect?: boolean;
 }
 
-export function useWebSocket({ url, onMessage, onConnect, onDisconnect, reconnect = true }: UseWebSocketOptions) {
+// Close code the server uses for authentication failures
+const CLOSE_UNAUTHORIZED = 4401;
+
+/**
+ * WebSocket endpoint of the backend. In dev mode on a remote host the Vite
+ * proxy is bypassed and the backend port is used directly.
+ */
+export function getWebSocketUrl(): string {
+  const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const hostname = window.location.hostname;
+  const isLocalhost = hostname === 'localhost' || hostname === '127.0.0.1';
+  const isDev = import.meta.env.DEV;
+
+  const wsHost = isDev && !isLocalhost
+    ? `${hostname}:3006`
+    : window.location.host;
+  return `${wsProtocol}//${wsHost}/ws`;
+}
+
+export function useWebSocket({
+  url,
+  onMessage,
+  onConnect,
+  onDisconnect,
+  onUnauthorized,
+  getAuthToken,
+  reconnect = true,
+}: UseWebSocketOptions) {
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectAttemptRef = useRef(0);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -22,12 +53,16 @@ export function useWebSocket({ url, onMessage, onConnect, onDisconnect, reconnec
   const onMessageRef = useRef(onMessage);
   const onConnectRef = useRef(onConnect);
   const onDisconnectRef = useRef(onDisconnect);
+  const onUnauthorizedRef = useRef(onUnauthorized);
+  const getAuthTokenRef = useRef(getAuthToken);
 
   useEffect(() => {
     onMessageRef.current = onMessage;
     onConnectRef.current = onConnect;
     onDisconnectRef.current = onDisconnect;
-  }, [onMessage, onConnect, onDisconnect]);
+    onUnauthorizedRef.current = onUnauthorized;
+    getAuthTokenRef.current = getAuthToken;
+  }, [onMessage, onConnect, onDisconnect, onUnauthorized, getAuthToken]);
 
   const getReconnectDelay = useCallback(() => {
     const baseDelay = 1000;
@@ -51,6 +86,12 @@ export function useWebSocket({ url, onMessage, onConnect, onDisconnect, reconnec
       setStatus('connected');
       reconnectAttemptRef.current = 0;
 
+      // Authenticate before anything else is sent
+      const token = getAuthTokenRef.current?.();
+      if (token) {
+        ws.send(JSON.stringify({ type: 'auth', token }));
+      }
+
       // Send any pending messages
       while (pendingMessagesRef.current.length > 0) {
         const msg = pendingMessagesRef.current.shift();
@@ -76,11 +117,16 @@ export function useWebSocket({ url, onMessage, onConnect, onDisconnect, reconnec
       }
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
       setStatus('disconnected');
       onDisconnectRef.current?.();
       wsRef.current = null;
 
+      if (event.code === CLOSE_UNAUTHORIZED) {
+        onUnauthorizedRef.current?.();
+        return;
+      }
+
       if (reconnect) {
         const delay = getReconnectDelay();
         console.log(`Reconnecting in ${delay}ms...`);
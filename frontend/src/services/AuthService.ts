@@ -27,6 +27,44 @@ export function isAuthenticated(): boolean {
   }
 }
 
+export type UserRole = 'admin' | 'operator' | 'viewer';
+
+/**
+ * Role claim of the current token (decoded without verification; the server enforces it)
+ */
+export function getRole(): UserRole | null {
+  const token = getToken();
+  if (!token) return null;
+
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1]));
+    return payload.role ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Exchange the current token for a fresh one. Returns null if the server refuses.
+ */
+export async function refreshToken(): Promise<string | null> {
+  const token = getToken();
+  if (!token) return null;
+
+  try {
+    const response = await fetch('/api/auth/refresh', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    setToken(data.token);
+    return data.token;
+  } catch {
+    return null;
+  }
+}
+
 export async function checkAuthEnabled(): Promise<boolean> {
   try {
     const response = await fetch('/api/auth/status');
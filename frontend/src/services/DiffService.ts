@@ -0,0 +1,29 @@
+import { SessionDiff } from '../types/Diff';
+
+const API_BASE = '/api';
+
+function getAuthHeaders(): HeadersInit {
+  const token = localStorage.getItem('session-manager-token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+/**
+ * Fetch the working-tree diff of a session's directory, optionally including
+ * commits made since the session was created
+ */
+export async function fetchSessionDiff(sessionId: string, options: { sinceCreated?: boolean } = {}): Promise<SessionDiff> {
+  const params = new URLSearchParams();
+  if (options.sinceCreated) params.append('since', 'created');
+
+  const response = await fetch(`${API_BASE}/sessions/${encodeURIComponent(sessionId)}/diff?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load diff');
+  }
+  return response.json();
+}
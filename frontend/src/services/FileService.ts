@@ -0,0 +1,94 @@
+import { DirectoryListing, FileContent, FileEntry } from '../types/File';
+
+const API_BASE = '/api';
+
+function getAuthHeaders(): HeadersInit {
+  const token = localStorage.getItem('session-manager-token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+function filesUrl(sessionId: string, action: string, params: Record<string, string>): string {
+  const query = new URLSearchParams(params);
+  return `${API_BASE}/sessions/${encodeURIComponent(sessionId)}/files${action}?${query}`;
+}
+
+/** Thrown by uploadSessionFile when the file exists and overwrite was not set */
+export class FileExistsError extends Error {}
+
+/**
+ * List a directory under a session's working directory; paths are relative to it
+ */
+export async function fetchDirectory(sessionId: string, path = ''): Promise<DirectoryListing> {
+  const response = await fetch(filesUrl(sessionId, '', { path }), {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to list directory');
+  }
+  return response.json();
+}
+
+/**
+ * Read a file as text; large files are cut off by the server
+ */
+export async function fetchFileContent(sessionId: string, path: string): Promise<FileContent> {
+  const response = await fetch(filesUrl(sessionId, '/content', { path }), {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to read file');
+  }
+  return response.json();
+}
+
+/**
+ * Download a file through the browser's save dialog
+ */
+export async function downloadFile(sessionId: string, path: string): Promise<void> {
+  const response = await fetch(filesUrl(sessionId, '/download', { path }), {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to download file');
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = path.split('/').pop() || 'download';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Upload a file to a path under a session's working directory
+ */
+export async function uploadSessionFile(
+  sessionId: string,
+  path: string,
+  file: Blob,
+  overwrite = false
+): Promise<FileEntry> {
+  const params: Record<string, string> = { path };
+  if (overwrite) params.overwrite = 'true';
+
+  const response = await fetch(filesUrl(sessionId, '/upload', params), {
+    method: 'POST',
+    headers: { ...getAuthHeaders(), 'Content-Type': 'application/octet-stream' },
+    body: file,
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    if (response.status === 409) {
+      throw new FileExistsError(error.error || 'File already exists');
+    }
+    throw new Error(error.error || 'Failed to upload file');
+  }
+  return (await response.json()).entry;
+}
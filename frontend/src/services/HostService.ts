@@ -1,4 +1,5 @@
 import { getToken } from './AuthService';
+import { DirectorySuggestion, HostHealth, HostKeyEndpoint, HostKeyRecord, SshConfigImportEntry } from '../types/Host';
 
 const API_BASE = '/api';
 
@@ -28,3 +29,134 @@ export async function fetchHosts(): Promise<Host[]> {
   const data = await response.json();
   return data.hosts;
 }
+
+/**
+ * Fetch latency, channel usage and errors of an SSH host; measures latency when stale
+ */
+export async function fetchHostHealth(hostId: string): Promise<HostHealth> {
+  const response = await fetch(`${API_BASE}/hosts/${encodeURIComponent(hostId)}/health`, {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch host health');
+  }
+  const data = await response.json();
+  return data.health;
+}
+
+/**
+ * Directories on a host that a working directory prefix could complete to,
+ * led by those of its sessions and Claude projects
+ */
+export async function fetchDirectorySuggestions(hostId: string, prefix: string): Promise<DirectorySuggestion[]> {
+  const params = new URLSearchParams({ prefix });
+  const response = await fetch(`${API_BASE}/hosts/${encodeURIComponent(hostId)}/dirs?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to list directories');
+  }
+  const data = await response.json();
+  return data.directories;
+}
+
+/**
+ * Preview the hosts of the server's ~/.ssh/config
+ */
+export async function previewSshConfigImport(): Promise<SshConfigImportEntry[]> {
+  const response = await fetch(`${API_BASE}/hosts/import/ssh-config`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({}),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to read SSH config');
+  }
+  const data = await response.json();
+  return data.entries;
+}
+
+/**
+ * Add the given aliases of the server's ~/.ssh/config as hosts
+ */
+export async function importSshConfigHosts(
+  aliases: string[]
+): Promise<{ imported: string[]; failed: { alias: string; error: string }[] }> {
+  const response = await fetch(`${API_BASE}/hosts/import/ssh-config`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ aliases }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to import hosts');
+  }
+  return response.json();
+}
+
+/**
+ * Fetch trusted and pending host keys of a host and its jump hosts
+ */
+export async function fetchHostKeys(hostId: string): Promise<HostKeyEndpoint[]> {
+  const response = await fetch(`${API_BASE}/hosts/${encodeURIComponent(hostId)}/host-keys`, {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch host keys');
+  }
+  const data = await response.json();
+  return data.endpoints;
+}
+
+/**
+ * Trust the changed key a hop of the host presented
+ */
+export async function acceptHostKey(hostId: string, hostname: string, port: number): Promise<HostKeyRecord | null> {
+  const response = await fetch(`${API_BASE}/hosts/${encodeURIComponent(hostId)}/host-keys/accept`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ hostname, port }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to accept host key');
+  }
+  const data = await response.json();
+  return data.record;
+}
+
+/**
+ * Forget a hop's keys so the next connection records its new key
+ */
+export async function rotateHostKey(hostId: string, hostname: string, port: number): Promise<void> {
+  const response = await fetch(`${API_BASE}/hosts/${encodeURIComponent(hostId)}/host-keys/rotate`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ hostname, port }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to rotate host key');
+  }
+}
+
+/**
+ * Trust the keys the server's ~/.ssh/known_hosts lists for configured hosts
+ */
+export async function importKnownHosts(): Promise<{ hostname: string; port: number }[]> {
+  const response = await fetch(`${API_BASE}/hosts/known-hosts/import`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({}),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to import known_hosts');
+  }
+  const data = await response.json();
+  return data.imported;
+}
@@ -0,0 +1,113 @@
+import {
+  NotificationChannel,
+  NotificationRule,
+  NotificationSettings,
+  SessionNotification,
+} from '../types/Notification';
+
+const API_BASE = '/api';
+
+function getAuthHeaders(): HeadersInit {
+  const token = localStorage.getItem('session-manager-token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+export async function fetchNotificationSettings(): Promise<NotificationSettings> {
+  const response = await fetch(`${API_BASE}/notifications/settings`, {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to fetch notification settings');
+  }
+  const data = await response.json();
+  return data.settings;
+}
+
+export async function updateNotificationSettings(
+  updates: { webhookUrl?: string | null; defaultRule?: NotificationRule }
+): Promise<NotificationSettings> {
+  const response = await fetch(`${API_BASE}/notifications/settings`, {
+    method: 'PUT',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(updates),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to update notification settings');
+  }
+  const data = await response.json();
+  return data.settings;
+}
+
+export async function setWorkspaceRule(workspaceId: string, rule: NotificationRule): Promise<NotificationSettings> {
+  const response = await fetch(`${API_BASE}/notifications/rules/${encodeURIComponent(workspaceId)}`, {
+    method: 'PUT',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(rule),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to update workspace rule');
+  }
+  const data = await response.json();
+  return data.settings;
+}
+
+export async function deleteWorkspaceRule(workspaceId: string): Promise<void> {
+  const token = localStorage.getItem('session-manager-token');
+  const response = await fetch(`${API_BASE}/notifications/rules/${encodeURIComponent(workspaceId)}`, {
+    method: 'DELETE',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    if (text) {
+      const error = JSON.parse(text);
+      throw new Error(error.error || 'Failed to remove workspace rule');
+    }
+    throw new Error('Failed to remove workspace rule');
+  }
+}
+
+export async function sendTestNotification(channels: NotificationChannel[]): Promise<void> {
+  const response = await fetch(`${API_BASE}/notifications/test`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ channels }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to send test notification');
+  }
+}
+
+export function isBrowserNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+export async function requestBrowserPermission(): Promise<NotificationPermission> {
+  if (!isBrowserNotificationSupported()) return 'denied';
+  return Notification.requestPermission();
+}
+
+/**
+ * Show a server notification through the browser Notification API.
+ * Does nothing until the user has granted permission.
+ */
+export function showBrowserNotification(notification: SessionNotification, onClick?: () => void): void {
+  if (!isBrowserNotificationSupported() || Notification.permission !== 'granted') return;
+
+  const browserNotification = new Notification(notification.title, {
+    body: notification.message,
+    // Replaces an unread notification for the same session
+    tag: notification.sessionId || notification.id,
+  });
+  browserNotification.onclick = () => {
+    window.focus();
+    onClick?.();
+    browserNotification.close();
+  };
+}
@@ -0,0 +1,49 @@
+import { RecordingInfo, RecordingReplay } from '../types/Recording';
+
+const API_BASE = '/api';
+
+function getAuthHeaders(): HeadersInit {
+  const token = localStorage.getItem('session-manager-token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+export async function fetchRecordings(sessionId: string): Promise<RecordingInfo[]> {
+  const response = await fetch(`${API_BASE}/sessions/${encodeURIComponent(sessionId)}/recordings`, {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to fetch recordings');
+  }
+  const data = await response.json();
+  return data.recordings;
+}
+
+export async function fetchRecording(sessionId: string, recordingId: string): Promise<RecordingReplay> {
+  const response = await fetch(
+    `${API_BASE}/sessions/${encodeURIComponent(sessionId)}/recordings/${encodeURIComponent(recordingId)}`,
+    { headers: getAuthHeaders() }
+  );
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load recording');
+  }
+  return response.json();
+}
+
+export async function deleteRecording(sessionId: string, recordingId: string): Promise<void> {
+  const token = localStorage.getItem('session-manager-token');
+  const response = await fetch(
+    `${API_BASE}/sessions/${encodeURIComponent(sessionId)}/recordings/${encodeURIComponent(recordingId)}`,
+    {
+      method: 'DELETE',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    }
+  );
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to delete recording');
+  }
+}
@@ -0,0 +1,26 @@
+import { SearchResponse } from '../types/Search';
+
+const API_BASE = '/api';
+
+function getAuthHeaders(): HeadersInit {
+  const token = localStorage.getItem('session-manager-token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+export async function searchOutput(query: string, options: { sessionId?: string; limit?: number } = {}): Promise<SearchResponse> {
+  const params = new URLSearchParams({ q: query });
+  if (options.sessionId) params.append('sessionId', options.sessionId);
+  if (options.limit) params.append('limit', String(options.limit));
+
+  const response = await fetch(`${API_BASE}/search?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Search failed');
+  }
+  return response.json();
+}
@@ -0,0 +1,60 @@
+import { ShareLink, CreateShareLinkResponse, SharedSessionInfo } from '../types/ShareLink';
+
+const API_BASE = '/api';
+
+function getAuthHeaders(): HeadersInit {
+  const token = localStorage.getItem('session-manager-token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+export function getShareUrl(token: string): string {
+  return `${window.location.origin}/share/${encodeURIComponent(token)}`;
+}
+
+export async function createShareLink(sessionId: string, expiresInMinutes: number): Promise<CreateShareLinkResponse> {
+  const response = await fetch(`${API_BASE}/sessions/${encodeURIComponent(sessionId)}/share-links`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ expiresInMinutes }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to create share link');
+  }
+  return response.json();
+}
+
+export async function fetchShareLinks(sessionId: string): Promise<ShareLink[]> {
+  const response = await fetch(`${API_BASE}/sessions/${encodeURIComponent(sessionId)}/share-links`, {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to fetch share links');
+  }
+  const data = await response.json();
+  return data.links;
+}
+
+export async function revokeShareLink(linkId: string): Promise<void> {
+  const token = localStorage.getItem('session-manager-token');
+  const response = await fetch(`${API_BASE}/share-links/${encodeURIComponent(linkId)}`, {
+    method: 'DELETE',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to revoke share link');
+  }
+}
+
+export async function fetchSharedSession(shareToken: string): Promise<SharedSessionInfo> {
+  const response = await fetch(`${API_BASE}/share/${encodeURIComponent(shareToken)}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to open share link');
+  }
+  return response.json();
+}
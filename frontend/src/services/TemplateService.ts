@@ -0,0 +1,64 @@
+import { SessionTemplate, CreateTemplateRequest, CreateFromTemplateRequest } from '../types/Template';
+
+const API_BASE = '/api';
+
+function getAuthHeaders(): HeadersInit {
+  const token = localStorage.getItem('session-manager-token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+export async function fetchTemplates(): Promise<SessionTemplate[]> {
+  const response = await fetch(`${API_BASE}/templates`, {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to fetch templates');
+  }
+  const data = await response.json();
+  return data.templates;
+}
+
+export async function createTemplate(request: CreateTemplateRequest): Promise<SessionTemplate> {
+  const response = await fetch(`${API_BASE}/templates`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to create template');
+  }
+  const data = await response.json();
+  return data.template;
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  const token = localStorage.getItem('session-manager-token');
+  const response = await fetch(`${API_BASE}/templates/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    if (text) {
+      const error = JSON.parse(text);
+      throw new Error(error.error || 'Failed to delete template');
+    }
+    throw new Error('Failed to delete template');
+  }
+}
+
+export async function createSessionFromTemplate(id: string, request: CreateFromTemplateRequest = {}): Promise<void> {
+  const response = await fetch(`${API_BASE}/sessions/from-template/${encodeURIComponent(id)}`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to create session from template');
+  }
+}
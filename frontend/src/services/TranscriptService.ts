@@ -0,0 +1,33 @@
+import { TranscriptPage } from '../types/Transcript';
+
+const API_BASE = '/api';
+
+function getAuthHeaders(): HeadersInit {
+  const token = localStorage.getItem('session-manager-token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+/**
+ * Fetch a page of a session's Claude transcript; without an offset the last page is returned
+ */
+export async function fetchTranscript(
+  sessionId: string,
+  options: { offset?: number; limit?: number; query?: string } = {}
+): Promise<TranscriptPage> {
+  const params = new URLSearchParams();
+  if (options.offset !== undefined) params.append('offset', String(options.offset));
+  if (options.limit) params.append('limit', String(options.limit));
+  if (options.query) params.append('q', options.query);
+
+  const response = await fetch(`${API_BASE}/sessions/${encodeURIComponent(sessionId)}/transcript?${params}`, {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load transcript');
+  }
+  return response.json();
+}
@@ -0,0 +1,22 @@
+import { UsageReport } from '../types/Usage';
+
+const API_BASE = '/api';
+
+function getAuthHeaders(): HeadersInit {
+  const token = localStorage.getItem('session-manager-token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+export async function fetchUsage(days?: number): Promise<UsageReport> {
+  const params = days ? `?days=${days}` : '';
+  const response = await fetch(`${API_BASE}/usage${params}`, {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to fetch usage');
+  }
+  return response.json();
+}
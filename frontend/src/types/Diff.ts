@@ -0,0 +1,33 @@
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed';
+
+/** One `@@` section of a file diff */
+export interface DiffHunk {
+  /** The `@@ -a,b +c,d @@ context` line */
+  header: string;
+  /** Lines with their leading ' ', '+', '-' or '\' */
+  lines: string[];
+}
+
+export interface DiffFile {
+  path: string;
+  /** Previous path of renamed files */
+  oldPath?: string;
+  status: DiffFileStatus;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+/** Working-tree changes of a session's directory */
+export interface SessionDiff {
+  sessionId: string;
+  workingDirectory: string;
+  /** Revision the diff is taken against */
+  base: string;
+  /** Set when the diff covers changes since the session was created */
+  since?: string;
+  files: DiffFile[];
+  /** The diff was cut off at the size limit */
+  truncated: boolean;
+}
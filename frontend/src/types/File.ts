@@ -0,0 +1,32 @@
+export type FileEntryType = 'file' | 'directory' | 'other';
+
+/** One entry of a directory under a session's working directory */
+export interface FileEntry {
+  name: string;
+  /** Relative to the working directory, `/`-separated */
+  path: string;
+  /** What a symlink points to, or 'other' when it is broken */
+  type: FileEntryType;
+  symlink: boolean;
+  size: number;
+  modifiedAt: string;
+}
+
+/** Contents of a directory under a session's working directory */
+export interface DirectoryListing {
+  sessionId: string;
+  workingDirectory: string;
+  /** Relative to the working directory; empty for the directory itself */
+  path: string;
+  entries: FileEntry[];
+}
+
+/** Text of a file, cut off at the read limit */
+export interface FileContent {
+  path: string;
+  size: number;
+  /** Empty for binary files */
+  content: string;
+  binary: boolean;
+  truncated: boolean;
+}
@@ -24,3 +24,116 @@ export function toHostInfo(host: Host): HostInfo {
     type: host.type,
   };
 }
+
+// One bastion of an SSH host's jump chain
+export interface JumpHostConfig {
+  hostname: string;
+  port: number;
+  username: string;
+  privateKeyPath?: string;
+  password?: string;
+  passwordEnvVar?: string;
+  passphraseEnvVar?: string;
+  // Vault secrets; the server never returns secret values
+  passwordSecretId?: string;
+  passphraseSecretId?: string;
+  useAgent?: boolean;
+}
+
+// Hosts store a single bastion as an object and longer chains as an array
+export function toJumpChain(jumpHost?: JumpHostConfig | JumpHostConfig[]): JumpHostConfig[] {
+  if (!jumpHost) return [];
+  return Array.isArray(jumpHost) ? jumpHost : [jumpHost];
+}
+
+// Inverse of toJumpChain, dropping hops without a hostname and empty fields
+export function fromJumpChain(hops: JumpHostConfig[]): JumpHostConfig | JumpHostConfig[] | undefined {
+  const filled = hops
+    .filter(hop => hop.hostname)
+    .map(hop => Object.fromEntries(Object.entries(hop).filter(([, value]) => value !== '')) as unknown as JumpHostConfig);
+  if (filled.length === 0) return undefined;
+  return filled.length === 1 ? filled[0] : filled;
+}
+
+// Connection health of an SSH host
+export interface HostHealth {
+  hostId: string;
+  connected: boolean;
+  latencyMs: number | null;
+  latencyMeasuredAt?: string;
+  openChannels: number;
+  maxChannels: number;
+  queuedCommands: number;
+  reconnectAttempts: number;
+  lastError?: string;
+  lastDisconnectAt?: string;
+}
+
+// A jump host of an imported SSH config entry
+export interface SshConfigJumpHost {
+  hostname: string;
+  port: number;
+  username: string;
+  privateKeyPath?: string;
+}
+
+// A Host entry of an OpenSSH config, as it would be imported
+export interface SshConfigImportEntry {
+  alias: string;
+  host: {
+    id: string;
+    name: string;
+    hostname: string;
+    port: number;
+    username: string;
+    privateKeyPath?: string;
+    jumpHost?: SshConfigJumpHost | SshConfigJumpHost[];
+  };
+  jumpChain: SshConfigJumpHost[];
+  warnings: string[];
+  exists: boolean;
+}
+
+// A public host key as stored in known_hosts
+export interface HostKey {
+  keyType: string;
+  key: string;
+  fingerprint: string;
+}
+
+// A key a host presented that differs from the trusted ones
+export interface HostKeyMismatch {
+  keyType?: string;
+  key?: string;
+  fingerprint?: string;
+  seenAt: string;
+}
+
+export interface HostKeyRecord {
+  hostname: string;
+  port: number;
+  keys: HostKey[];
+  source: 'first-use' | 'known_hosts' | 'accepted';
+  updatedAt: string;
+  mismatch?: HostKeyMismatch;
+}
+
+// Host key state of one hop of a configured host
+export interface HostKeyEndpoint {
+  hostname: string;
+  port: number;
+  role: 'host' | 'jump';
+  record: HostKeyRecord | null;
+}
+
+// Error code of connection tests refused because a host key changed
+export const HOST_KEY_MISMATCH = 'HOST_KEY_MISMATCH';
+
+// Where a working directory suggestion came from
+export type DirectorySuggestionSource = 'session' | 'claude' | 'filesystem';
+
+// A working directory offered while one is being typed
+export interface DirectorySuggestion {
+  path: string;
+  source: DirectorySuggestionSource;
+}
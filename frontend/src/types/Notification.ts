@@ -0,0 +1,27 @@
+export type NotificationEvent = 'waiting_for_input' | 'error';
+
+export type NotificationChannel = 'browser' | 'webhook' | 'desktop';
+
+export interface NotificationRule {
+  enabled: boolean;
+  events: NotificationEvent[];
+  channels: NotificationChannel[];
+}
+
+export interface NotificationSettings {
+  webhookUrl: string | null;
+  defaultRule: NotificationRule;
+  workspaceRules: Record<string, NotificationRule>;
+}
+
+export interface SessionNotification {
+  id: string;
+  sessionId: string;
+  sessionName: string;
+  hostId: string;
+  workspaceId: string | null;
+  event: NotificationEvent;
+  title: string;
+  message: string;
+  timestamp: string;
+}
@@ -0,0 +1,28 @@
+export interface AsciicastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp: number;
+  title?: string;
+  env?: Record<string, string>;
+}
+
+/** [elapsed seconds, event type, data] */
+export type AsciicastEvent = [number, 'o' | 'i' | 'r', string];
+
+export interface RecordingInfo {
+  id: string;
+  sessionId: string;
+  startedAt: string;
+  duration: number;
+  size: number;
+  cols: number;
+  rows: number;
+  active: boolean;
+}
+
+export interface RecordingReplay {
+  recording: RecordingInfo;
+  header: AsciicastHeader;
+  events: AsciicastEvent[];
+}
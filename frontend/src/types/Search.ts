@@ -0,0 +1,20 @@
+import { SessionHost } from './Session';
+
+export type SearchSource = 'bridge' | 'tmux';
+
+export interface SearchResult {
+  sessionId: string;
+  sessionName: string;
+  host: SessionHost;
+  timestamp: string;
+  line: string;
+  contextBefore: string[];
+  contextAfter: string[];
+  source: SearchSource;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+  truncated: boolean;
+}
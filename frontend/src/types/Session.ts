@@ -1,3 +1,5 @@
+import { SessionNotification } from './Notification';
+
 export type SessionStatus = 'active' | 'idle' | 'disconnected' | 'terminated';
 export type ClaudeOperationStatus =
   | 'thinking'
@@ -30,6 +32,32 @@ export interface Dimensions {
   rows: number;
 }
 
+/** Git state of a session's working directory */
+export interface GitStatus {
+  /** Null when HEAD is detached */
+  branch: string | null;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  /** Modified, staged and untracked files */
+  dirtyFiles: number;
+  lastCommit?: {
+    hash: string;
+    subject: string;
+    date: string;
+  };
+}
+
+/** git worktree a session was started in */
+export interface SessionWorktree {
+  repoRoot: string;
+  path: string;
+  branch: string;
+}
+
+/** What to do with a session's worktree when the session is killed */
+export type WorktreeCleanup = 'keep' | 'remove' | 'merge';
+
 export interface Session {
   id: string;
   name: string;
@@ -53,14 +81,41 @@ export interface Session {
   userLastInput?: string;
   /** Claude's current operation status */
   claudeStatus?: ClaudeOperationStatus;
+  /** Git state of the working directory, absent outside a repository */
+  git?: GitStatus;
+  /** Set for sessions started in their own worktree */
+  worktree?: SessionWorktree;
 }
 
 // Protocol types
 export interface SessionsMessage {
   type: 'sessions';
   sessions: Session[];
+  seq: number;
+}
+
+export interface SessionAddedMessage {
+  type: 'session-added';
+  seq: number;
+  session: Session;
+}
+
+export interface SessionRemovedMessage {
+  type: 'session-removed';
+  seq: number;
+  sessionId: string;
+}
+
+export interface SessionUpdatedMessage {
+  type: 'session-updated';
+  seq: number;
+  sessionId: string;
+  changes: Partial<Session>;
+  cleared?: (keyof Session)[];
 }
 
+export type SessionDiffMessage = SessionAddedMessage | SessionRemovedMessage | SessionUpdatedMessage;
+
 export interface OutputMessage {
   type: 'output';
   sessionId: string;
@@ -85,4 +140,28 @@ export interface ClaudeStatusMessage {
   status: ClaudeOperationStatus;
 }
 
-export type ServerMessage = SessionsMessage | OutputMessage | BufferMessage | ErrorMessage | ClaudeStatusMessage | { type: string };
+export interface SessionStatusMessage {
+  type: 'session-status';
+  sessionId: string;
+  claudeStatus?: ClaudeOperationStatus;
+  lastOutput?: string;
+  userLastInput?: string;
+}
+
+export interface AuthOkMessage {
+  type: 'auth-ok';
+  user: string;
+  role: 'admin' | 'operator' | 'viewer';
+  expiresAt: string;
+}
+
+export interface AuthExpiredMessage {
+  type: 'auth-expired';
+}
+
+export interface NotificationMessage {
+  type: 'notification';
+  notification: SessionNotification;
+}
+
+export type ServerMessage = SessionsMessage | SessionDiffMessage | OutputMessage | BufferMessage | ErrorMessage | ClaudeStatusMessage | SessionStatusMessage | AuthOkMessage | AuthExpiredMessage | NotificationMessage | { type: string };
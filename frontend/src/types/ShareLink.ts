@@ -0,0 +1,20 @@
+export interface ShareLink {
+  id: string;
+  sessionId: string;
+  sessionName: string;
+  createdBy: string | null;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+}
+
+export interface CreateShareLinkResponse {
+  link: ShareLink;
+  token: string;
+}
+
+export interface SharedSessionInfo {
+  sessionId: string;
+  sessionName: string;
+  expiresAt: string;
+}
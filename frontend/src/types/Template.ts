@@ -0,0 +1,31 @@
+export interface SessionTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  hostId: string;
+  workingDirectory: string;
+  sessionName?: string;
+  claudeArgs: string[];
+  env: Record<string, string>;
+  initialPrompt?: string;
+  workspaceId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTemplateRequest {
+  name: string;
+  description?: string;
+  hostId: string;
+  workingDirectory: string;
+  sessionName?: string;
+  claudeArgs?: string[];
+  env?: Record<string, string>;
+  initialPrompt?: string;
+  workspaceId?: string;
+}
+
+export interface CreateFromTemplateRequest {
+  sessionName?: string;
+  workspaceId?: string;
+}
@@ -0,0 +1,20 @@
+export type TranscriptEntryKind = 'user' | 'assistant' | 'tool_use' | 'tool_result';
+
+export interface TranscriptEntry {
+  index: number;
+  kind: TranscriptEntryKind;
+  timestamp?: string;
+  text: string;
+  toolName?: string;
+  toolInput?: unknown;
+  toolUseId?: string;
+  isError?: boolean;
+}
+
+export interface TranscriptPage {
+  sessionId: string;
+  total: number;
+  offset: number;
+  entries: TranscriptEntry[];
+  truncated: boolean;
+}
@@ -0,0 +1,21 @@
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+  unpricedTokens: number;
+}
+
+export interface DailyUsage {
+  date: string;
+  usage: TokenUsage;
+}
+
+export interface UsageReport {
+  total: TokenUsage;
+  sessions: Record<string, TokenUsage>;
+  workspaces: Record<string, TokenUsage>;
+  days: DailyUsage[];
+  updatedAt: string;
+}
@@ -1,11 +1,16 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { authService } from '../services/AuthService.js';
+import { userService } from '../services/UserService.js';
 
 interface LoginBody {
   username: string;
   password: string;
 }
 
+interface SetupBody extends LoginBody {
+  setupToken: string;
+}
+
 export async function authRoutes(app: FastifyInstance) {
   // Login endpoint
   app.post<{ Body: LoginBody }>('/api/auth/login', {
@@ -22,15 +27,47 @@ export async function authRoutes(app: FastifyInstance) {
   }, async (request, reply) => {
     const { username, password } = request.body;
 
-    const valid = await authService.validateCredentials(username, password);
+    const role = await authService.validateCredentials(username, password);
 
-    if (!valid) {
+    if (!role) {
       reply.status(401);
       return { error: 'Invalid credentials' };
     }
 
-    const response = authService.generateToken(username);
-    return response;
+    const response = authService.generateToken(username, role);
+    return { ...response, role };
+  });
+
+  // First admin account, while auth is disabled. The setup token is printed
+  // in the server log at startup.
+  app.post<{ Body: SetupBody }>('/api/auth/setup', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['setupToken', 'username', 'password'],
+        properties: {
+          setupToken: { type: 'string', minLength: 1 },
+          username: { type: 'string', minLength: 1 },
+          password: { type: 'string', minLength: 8 },
+        }
+      }
+    }
+  }, async (request, reply) => {
+    const { setupToken, username, password } = request.body;
+
+    if (authService.isEnabled()) {
+      reply.status(409);
+      return { error: 'Auth is already set up' };
+    }
+    if (!authService.isValidSetupToken(setupToken)) {
+      reply.status(403);
+      return { error: 'Invalid setup token' };
+    }
+
+    const user = await userService.create({ username, password, role: 'admin' });
+    reply.status(201);
+    const response = authService.generateToken(user.username, user.role);
+    return { ...response, role: user.role };
   });
 
   // Token refresh endpoint
@@ -46,7 +83,7 @@ export async function authRoutes(app: FastifyInstance) {
 
     try {
       const payload = authService.verifyToken(token);
-      const response = authService.generateToken(payload.sub);
+      const response = authService.refreshToken(payload);
       return response;
     } catch (err) {
       reply.status(401);
@@ -59,6 +96,7 @@ export async function authRoutes(app: FastifyInstance) {
     return {
       enabled: authService.isEnabled(),
       user: (request as any).user?.sub || null,
+      role: (request as any).user?.role || null,
     };
   });
 }
@@ -0,0 +1,44 @@
+import { FastifyInstance } from 'fastify';
+import { diffService } from '../services/DiffService.js';
+import { sessionDiscoveryService } from '../services/SessionDiscoveryService.js';
+
+interface DiffQuery {
+  /** `created` for changes since the session was created */
+  since?: string;
+}
+
+export async function diffRoutes(app: FastifyInstance) {
+  // GET /api/sessions/:id/diff - Uncommitted changes in the session's working directory
+  // With ?since=created, committed changes since the session was created are included
+  app.get<{ Params: { id: string }; Querystring: DiffQuery }>('/api/sessions/:id/diff', async (request, reply) => {
+    const session = sessionDiscoveryService.getSession(request.params.id);
+
+    if (!session) {
+      reply.status(404);
+      return { error: 'Session not found' };
+    }
+
+    if (request.query.since !== undefined && request.query.since !== 'created') {
+      reply.status(400);
+      return { error: "since must be 'created'" };
+    }
+
+    try {
+      const diff = await diffService.getSessionDiff(session, {
+        sinceCreated: request.query.since === 'created',
+      });
+
+      if (!diff) {
+        reply.status(404);
+        return { error: 'Session directory is not a git repository' };
+      }
+
+      return diff;
+    } catch (err) {
+      reply.status(500);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to load diff'
+      };
+    }
+  });
+}
@@ -0,0 +1,115 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { fileBrowserService, FileBrowserError, MAX_UPLOAD_BYTES } from '../services/FileBrowserService.js';
+import { sessionDiscoveryService } from '../services/SessionDiscoveryService.js';
+
+interface FileQuery {
+  /** Relative to the session's working directory */
+  path?: string;
+}
+
+interface UploadQuery extends FileQuery {
+  overwrite?: string;
+}
+
+function sendError(reply: FastifyReply, err: unknown, fallback: string) {
+  reply.status(err instanceof FileBrowserError ? err.statusCode : 500);
+  return { error: err instanceof Error ? err.message : fallback };
+}
+
+export async function fileRoutes(app: FastifyInstance) {
+  // Uploads are sent as the raw file body
+  app.addContentTypeParser('application/octet-stream', { parseAs: 'buffer', bodyLimit: MAX_UPLOAD_BYTES }, (_request, body, done) => {
+    done(null, body);
+  });
+
+  // GET /api/sessions/:id/files - List a directory under the session's working directory
+  app.get<{ Params: { id: string }; Querystring: FileQuery }>('/api/sessions/:id/files', async (request, reply) => {
+    const session = sessionDiscoveryService.getSession(request.params.id);
+    if (!session) {
+      reply.status(404);
+      return { error: 'Session not found' };
+    }
+
+    try {
+      return await fileBrowserService.list(session, request.query.path ?? '');
+    } catch (err) {
+      return sendError(reply, err, 'Failed to list directory');
+    }
+  });
+
+  // GET /api/sessions/:id/files/content - Read a text file, cut off at the read limit
+  app.get<{ Params: { id: string }; Querystring: FileQuery }>('/api/sessions/:id/files/content', async (request, reply) => {
+    const session = sessionDiscoveryService.getSession(request.params.id);
+    if (!session) {
+      reply.status(404);
+      return { error: 'Session not found' };
+    }
+    if (!request.query.path) {
+      reply.status(400);
+      return { error: 'path is required' };
+    }
+
+    try {
+      return await fileBrowserService.read(session, request.query.path);
+    } catch (err) {
+      return sendError(reply, err, 'Failed to read file');
+    }
+  });
+
+  // GET /api/sessions/:id/files/download - Download a whole file
+  app.get<{ Params: { id: string }; Querystring: FileQuery }>('/api/sessions/:id/files/download', async (request, reply) => {
+    const session = sessionDiscoveryService.getSession(request.params.id);
+    if (!session) {
+      reply.status(404);
+      return { error: 'Session not found' };
+    }
+    if (!request.query.path) {
+      reply.status(400);
+      return { error: 'path is required' };
+    }
+
+    try {
+      const { name, size, stream } = await fileBrowserService.download(session, request.query.path);
+      reply
+        .header('Content-Type', 'application/octet-stream')
+        .header('Content-Length', size)
+        .header('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(name)}`);
+      return reply.send(stream);
+    } catch (err) {
+      return sendError(reply, err, 'Failed to download file');
+    }
+  });
+
+  // POST /api/sessions/:id/files/upload - Write the request body to a file
+  // Refuses to replace an existing file unless ?overwrite=true
+  app.post<{ Params: { id: string }; Querystring: UploadQuery; Body: Buffer }>('/api/sessions/:id/files/upload', {
+    bodyLimit: MAX_UPLOAD_BYTES,
+  }, async (request, reply) => {
+    const session = sessionDiscoveryService.getSession(request.params.id);
+    if (!session) {
+      reply.status(404);
+      return { error: 'Session not found' };
+    }
+    if (!request.query.path) {
+      reply.status(400);
+      return { error: 'path is required' };
+    }
+    if (!Buffer.isBuffer(request.body)) {
+      reply.status(415);
+      return { error: 'Upload the file as application/octet-stream' };
+    }
+
+    try {
+      const entry = await fileBrowserService.upload(
+        session,
+        request.query.path,
+        request.body,
+        request.query.overwrite === 'true'
+      );
+      reply.status(201);
+      return { entry };
+    } catch (err) {
+      return sendError(reply, err, 'Failed to upload file');
+    }
+  });
+}
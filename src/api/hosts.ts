@@ -1,8 +1,40 @@
 import { FastifyInstance } from 'fastify';
-import { getAllHosts, SSHHostConfig } from '../config/hosts.js';
+import { getAllHosts, getJumpChain, SSHHostConfig } from '../config/hosts.js';
 import { hostConfigService } from '../services/HostConfigService.js';
+import { hostKeyService } from '../services/HostKeyService.js';
+import { directorySuggestionService } from '../services/DirectorySuggestionService.js';
+import { sessionDiscoveryService } from '../services/SessionDiscoveryService.js';
+import { sshConnectionManager } from '../services/SSHConnectionManager.js';
+import { HostKeyEndpoint } from '../types/Host.js';
+import { requireRole } from '../middleware/auth.js';
+
+const hostKeyBodySchema = {
+  type: 'object',
+  required: ['hostname', 'port'],
+  properties: {
+    hostname: { type: 'string', minLength: 1 },
+    port: { type: 'integer', minimum: 1, maximum: 65535 }
+  }
+};
+
+/**
+ * Host key state of every hop of a host, in connection order
+ */
+function hostKeyEndpoints(host: SSHHostConfig): HostKeyEndpoint[] {
+  return [
+    ...getJumpChain(host).map(hop => ({ hostname: hop.hostname, port: hop.port, role: 'jump' as const })),
+    { hostname: host.hostname, port: host.port, role: 'host' as const },
+  ].map(endpoint => ({ ...endpoint, record: hostKeyService.get(endpoint.hostname, endpoint.port) }));
+}
+
+function findEndpoint(host: SSHHostConfig, hostname: string, port: number): HostKeyEndpoint | undefined {
+  return hostKeyEndpoints(host).find(e => e.hostname === hostname && e.port === port);
+}
 
 export async function hostRoutes(app: FastifyInstance) {
+  // Trusting host keys decides which servers get credentials
+  const adminOnly = { preHandler: requireRole('admin') };
+
   // List all configured hosts (including local)
   app.get('/api/hosts', async () => {
     const sshHosts = getAllHosts();
@@ -15,7 +47,8 @@ export async function hostRoutes(app: FastifyInstance) {
         type: 'local',
         connected: true,
       },
-      ...sshHosts.map(h => ({
+      // Secret values never leave the server; hosts carry vault secret ids
+      ...sshHosts.map(h => hostConfigService.toPublicHost(h)).map(h => ({
         id: h.id,
         name: h.name,
         type: 'ssh',
@@ -23,7 +56,8 @@ export async function hostRoutes(app: FastifyInstance) {
         port: h.port,
         username: h.username,
         privateKeyPath: h.privateKeyPath,
-        password: h.password,
+        passwordSecretId: h.passwordSecretId,
+        passphraseSecretId: h.passphraseSecretId,
         useAgent: h.useAgent,
         passphraseEnvVar: h.passphraseEnvVar,
         jumpHost: h.jumpHost,
@@ -33,6 +67,103 @@ export async function hostRoutes(app: FastifyInstance) {
     return { hosts };
   });
 
+  // How long the last discovery pass took on each host
+  app.get('/api/hosts/discovery-timings', async () => {
+    return { timings: sessionDiscoveryService.getDiscoveryTimings() };
+  });
+
+  // GET /api/hosts/:id/health - Latency, channel usage and errors of an SSH host
+  app.get<{ Params: { id: string } }>('/api/hosts/:id/health', async (request, reply) => {
+    const hostId = request.params.id;
+    if (!getAllHosts().some(h => h.id === hostId)) {
+      reply.status(404);
+      return { error: 'SSH host not found' };
+    }
+
+    return { health: await sshConnectionManager.getHealth(hostId) };
+  });
+
+  // GET /api/hosts/:id/dirs - Working directory completions for a prefix
+  // Relative prefixes and `~` complete from the home directory of the host
+  app.get<{ Params: { id: string }; Querystring: { prefix?: string } }>('/api/hosts/:id/dirs', async (request, reply) => {
+    const hostId = request.params.id;
+    if (hostId !== 'local' && !getAllHosts().some(h => h.id === hostId)) {
+      reply.status(404);
+      return { error: 'Host not found' };
+    }
+
+    try {
+      return { directories: await directorySuggestionService.suggest(hostId, request.query.prefix ?? '') };
+    } catch (err) {
+      reply.status(500);
+      return { error: err instanceof Error ? err.message : 'Failed to list directories' };
+    }
+  });
+
+  // POST /api/hosts/known-hosts/import - Trust keys of configured hosts from the server's ~/.ssh/known_hosts
+  app.post('/api/hosts/known-hosts/import', adminOnly, async (_request, reply) => {
+    try {
+      const endpoints = getAllHosts().flatMap(hostKeyEndpoints);
+      return { imported: hostKeyService.importKnownHosts(endpoints) };
+    } catch (err) {
+      reply.code(400);
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to import known_hosts',
+      };
+    }
+  });
+
+  // GET /api/hosts/:id/host-keys - Trusted and pending host keys of a host and its jump hosts
+  app.get<{ Params: { id: string } }>('/api/hosts/:id/host-keys', async (request, reply) => {
+    const host = getAllHosts().find(h => h.id === request.params.id);
+    if (!host) {
+      reply.status(404);
+      return { error: 'SSH host not found' };
+    }
+
+    return { endpoints: hostKeyEndpoints(host) };
+  });
+
+  // POST /api/hosts/:id/host-keys/accept - Trust the changed key a hop presented
+  app.post<{ Params: { id: string }; Body: { hostname: string; port: number } }>('/api/hosts/:id/host-keys/accept', {
+    ...adminOnly,
+    schema: { body: hostKeyBodySchema }
+  }, async (request, reply) => {
+    const host = getAllHosts().find(h => h.id === request.params.id);
+    const { hostname, port } = request.body;
+    if (!host || !findEndpoint(host, hostname, port)) {
+      reply.status(404);
+      return { error: 'SSH host not found' };
+    }
+
+    try {
+      const record = hostKeyService.accept(hostname, port);
+      sshConnectionManager.disconnect(host.id);
+      return { record };
+    } catch (err) {
+      reply.status(409);
+      return { error: err instanceof Error ? err.message : 'Failed to accept host key' };
+    }
+  });
+
+  // POST /api/hosts/:id/host-keys/rotate - Forget a hop's keys so the next connection records its new one
+  app.post<{ Params: { id: string }; Body: { hostname: string; port: number } }>('/api/hosts/:id/host-keys/rotate', {
+    ...adminOnly,
+    schema: { body: hostKeyBodySchema }
+  }, async (request, reply) => {
+    const host = getAllHosts().find(h => h.id === request.params.id);
+    const { hostname, port } = request.body;
+    if (!host || !findEndpoint(host, hostname, port)) {
+      reply.status(404);
+      return { error: 'SSH host not found' };
+    }
+
+    hostKeyService.rotate(hostname, port);
+    sshConnectionManager.disconnect(host.id);
+    return { success: true };
+  });
+
   // Add a new SSH host
   app.post<{ Body: SSHHostConfig }>('/api/hosts', async (request, reply) => {
     try {
@@ -47,6 +178,34 @@ export async function hostRoutes(app: FastifyInstance) {
     }
   });
 
+  // POST /api/hosts/import/ssh-config - Preview or import hosts from an OpenSSH config
+  // Reads the server's ~/.ssh/config unless content is given; without aliases only previews
+  app.post<{ Body: { content?: string; aliases?: string[] } }>('/api/hosts/import/ssh-config', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          content: { type: 'string' },
+          aliases: { type: 'array', items: { type: 'string', minLength: 1 } }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    const { content, aliases } = request.body ?? {};
+    try {
+      if (!aliases) {
+        return { entries: hostConfigService.previewSshConfigImport(content) };
+      }
+      return await hostConfigService.importFromSshConfig(aliases, content);
+    } catch (err) {
+      reply.code(400);
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to read SSH config',
+      };
+    }
+  });
+
   // Update an existing SSH host
   app.put<{ Params: { id: string }; Body: Partial<SSHHostConfig> }>(
     '/api/hosts/:id',
@@ -0,0 +1,98 @@
+import { FastifyInstance } from 'fastify';
+import { notificationService } from '../services/NotificationService.js';
+import { authService } from '../services/AuthService.js';
+import { requireRole, getRequestUser } from '../middleware/auth.js';
+import {
+  NotificationChannel,
+  NotificationRule,
+  UpdateNotificationSettingsRequest,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENTS,
+} from '../types/Notification.js';
+
+const ruleSchema = {
+  type: 'object',
+  required: ['enabled', 'events', 'channels'],
+  properties: {
+    enabled: { type: 'boolean' },
+    events: { type: 'array', items: { type: 'string', enum: NOTIFICATION_EVENTS }, uniqueItems: true },
+    channels: { type: 'array', items: { type: 'string', enum: NOTIFICATION_CHANNELS }, uniqueItems: true },
+  },
+};
+
+/**
+ * Webhook URLs embed their secret in the path, so non-admins only see the origin
+ */
+function maskWebhookUrl(webhookUrl: string): string {
+  try {
+    return `${new URL(webhookUrl).origin}/…`;
+  } catch {
+    return '…';
+  }
+}
+
+export async function notificationRoutes(app: FastifyInstance) {
+  const adminOnly = { preHandler: requireRole('admin') };
+
+  // GET /api/notifications/settings - Get notification settings and rules
+  app.get('/api/notifications/settings', async (request) => {
+    const settings = notificationService.getSettings();
+    if (settings.webhookUrl && !authService.hasRole(getRequestUser(request)?.role, 'admin')) {
+      return { settings: { ...settings, webhookUrl: maskWebhookUrl(settings.webhookUrl) } };
+    }
+    return { settings };
+  });
+
+  // PUT /api/notifications/settings - Update the webhook URL and default rule
+  app.put<{ Body: UpdateNotificationSettingsRequest }>('/api/notifications/settings', {
+    ...adminOnly,
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          webhookUrl: { type: ['string', 'null'], pattern: '^(https?://.+)?$' },
+          defaultRule: ruleSchema,
+        }
+      }
+    }
+  }, async (request) => {
+    return { settings: notificationService.updateSettings(request.body) };
+  });
+
+  // PUT /api/notifications/rules/:workspaceId - Set a workspace's rule
+  app.put<{ Params: { workspaceId: string }; Body: NotificationRule }>('/api/notifications/rules/:workspaceId', {
+    ...adminOnly,
+    schema: { body: ruleSchema }
+  }, async (request) => {
+    const { enabled, events, channels } = request.body;
+    return {
+      settings: notificationService.setWorkspaceRule(request.params.workspaceId, { enabled, events, channels }),
+    };
+  });
+
+  // DELETE /api/notifications/rules/:workspaceId - Fall back to the default rule
+  app.delete<{ Params: { workspaceId: string } }>('/api/notifications/rules/:workspaceId', adminOnly, async (request, reply) => {
+    if (!notificationService.deleteWorkspaceRule(request.params.workspaceId)) {
+      reply.status(404);
+      return { error: 'No rule for this workspace' };
+    }
+    reply.status(204);
+    return;
+  });
+
+  // POST /api/notifications/test - Send a test notification
+  app.post<{ Body: { channels?: NotificationChannel[] } }>('/api/notifications/test', {
+    ...adminOnly,
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          channels: { type: 'array', items: { type: 'string', enum: NOTIFICATION_CHANNELS }, uniqueItems: true },
+        }
+      }
+    }
+  }, async (request) => {
+    const channels = request.body?.channels ?? NOTIFICATION_CHANNELS;
+    return { notification: notificationService.sendTest(channels) };
+  });
+}
@@ -0,0 +1,56 @@
+import { FastifyInstance } from 'fastify';
+import { recordingService } from '../services/RecordingService.js';
+
+export async function recordingRoutes(app: FastifyInstance) {
+  // GET /api/sessions/:id/recordings - List recordings for a session
+  // Works for terminated sessions too, so output can be reviewed after the pane is gone
+  app.get<{ Params: { id: string } }>('/api/sessions/:id/recordings', async (request, reply) => {
+    try {
+      const recordings = recordingService.listRecordings(request.params.id);
+      return { recordings };
+    } catch (err) {
+      reply.status(500);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to list recordings'
+      };
+    }
+  });
+
+  // GET /api/sessions/:id/recordings/:recordingId - Recording events for replay
+  app.get<{ Params: { id: string; recordingId: string } }>('/api/sessions/:id/recordings/:recordingId', async (request, reply) => {
+    try {
+      const replay = recordingService.getRecording(request.params.id, request.params.recordingId);
+
+      if (!replay) {
+        reply.status(404);
+        return { error: 'Recording not found' };
+      }
+
+      return replay;
+    } catch (err) {
+      reply.status(400);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to load recording'
+      };
+    }
+  });
+
+  // DELETE /api/sessions/:id/recordings/:recordingId - Delete a recording
+  app.delete<{ Params: { id: string; recordingId: string } }>('/api/sessions/:id/recordings/:recordingId', async (request, reply) => {
+    try {
+      const deleted = recordingService.deleteRecording(request.params.id, request.params.recordingId);
+
+      if (!deleted) {
+        reply.status(404);
+        return { error: 'Recording not found' };
+      }
+
+      return { success: true };
+    } catch (err) {
+      reply.status(400);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to delete recording'
+      };
+    }
+  });
+}
@@ -0,0 +1,33 @@
+import { FastifyInstance } from 'fastify';
+import { searchService } from '../services/SearchService.js';
+
+interface SearchQuery {
+  q?: string;
+  sessionId?: string;
+  limit?: string;
+}
+
+export async function searchRoutes(app: FastifyInstance) {
+  // GET /api/search?q= - Search terminal output of managed sessions
+  app.get<{ Querystring: SearchQuery }>('/api/search', async (request, reply) => {
+    const query = request.query.q?.trim();
+
+    if (!query) {
+      reply.status(400);
+      return { error: 'Query parameter q is required' };
+    }
+
+    try {
+      const limit = request.query.limit ? parseInt(request.query.limit, 10) : undefined;
+      return await searchService.search(query, {
+        sessionId: request.query.sessionId,
+        limit: Number.isNaN(limit) ? undefined : limit,
+      });
+    } catch (err) {
+      reply.status(500);
+      return {
+        error: err instanceof Error ? err.message : 'Search failed'
+      };
+    }
+  });
+}
@@ -0,0 +1,84 @@
+import { FastifyInstance } from 'fastify';
+import { secretVaultService } from '../services/SecretVaultService.js';
+import { hostConfigService } from '../services/HostConfigService.js';
+import { requireRole } from '../middleware/auth.js';
+
+export async function secretRoutes(app: FastifyInstance) {
+  const adminOnly = { preHandler: requireRole('admin') };
+
+  // GET /api/secrets - List vault secrets (metadata only, never values)
+  app.get('/api/secrets', adminOnly, async (_request, reply) => {
+    try {
+      const protectedAtRest = secretVaultService.isProtectedAtRest();
+      return {
+        secrets: secretVaultService.list(),
+        protectedAtRest,
+        ...(protectedAtRest ? {} : {
+          warning: 'VAULT_MASTER_KEY is not set: the vault key is stored next to the vault, so the vault is not protected at rest',
+        }),
+      };
+    } catch (err) {
+      reply.status(500);
+      return { error: err instanceof Error ? err.message : 'Failed to read the secret vault' };
+    }
+  });
+
+  // POST /api/secrets - Store a new secret
+  app.post<{ Body: { label: string; value: string } }>('/api/secrets', {
+    ...adminOnly,
+    schema: {
+      body: {
+        type: 'object',
+        required: ['label', 'value'],
+        properties: {
+          label: { type: 'string', minLength: 1 },
+          value: { type: 'string', minLength: 1 },
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      reply.status(201);
+      return { secret: secretVaultService.create(request.body.label, request.body.value) };
+    } catch (err) {
+      reply.status(500);
+      return { error: err instanceof Error ? err.message : 'Failed to store secret' };
+    }
+  });
+
+  // PUT /api/secrets/:id - Rename a secret or replace its value
+  app.put<{ Params: { id: string }; Body: { label?: string; value?: string } }>('/api/secrets/:id', {
+    ...adminOnly,
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          label: { type: 'string', minLength: 1 },
+          value: { type: 'string', minLength: 1 },
+        }
+      }
+    }
+  }, async (request, reply) => {
+    if (!secretVaultService.has(request.params.id)) {
+      reply.status(404);
+      return { error: 'Secret not found' };
+    }
+    return { secret: secretVaultService.update(request.params.id, request.body) };
+  });
+
+  // DELETE /api/secrets/:id - Delete a secret no host references
+  app.delete<{ Params: { id: string } }>('/api/secrets/:id', adminOnly, async (request, reply) => {
+    const hostIds = hostConfigService.getHostsUsingSecret(request.params.id);
+    if (hostIds.length > 0) {
+      reply.status(409);
+      return { error: `Secret is used by ${hostIds.join(', ')}` };
+    }
+
+    if (!secretVaultService.delete(request.params.id)) {
+      reply.status(404);
+      return { error: 'Secret not found' };
+    }
+    reply.status(204);
+    return;
+  });
+}
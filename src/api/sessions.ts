@@ -1,5 +1,5 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { CreateSessionRequest, AttachSessionRequest } from '../types/Session.js';
+import { CreateSessionRequest, AttachSessionRequest, WorktreeCleanup } from '../types/Session.js';
 import { sessionManager } from '../services/SessionManager.js';
 import { sessionDiscoveryService } from '../services/SessionDiscoveryService.js';
 
@@ -53,7 +53,21 @@ export async function sessionRoutes(app: FastifyInstance) {
           hostId: { type: 'string', minLength: 1 },
           sessionName: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' },
           claudeArgs: { type: 'array', items: { type: 'string' } },
-          workspaceId: { type: 'string' }
+          workspaceId: { type: 'string' },
+          env: {
+            type: 'object',
+            propertyNames: { pattern: '^[A-Za-z_][A-Za-z0-9_]*$' },
+            additionalProperties: { type: 'string' }
+          },
+          initialPrompt: { type: 'string' },
+          followUpInputs: { type: 'array', items: { type: 'string' } },
+          worktree: {
+            type: 'object',
+            properties: {
+              branch: { type: 'string', minLength: 1 },
+              baseRef: { type: 'string', minLength: 1 }
+            }
+          }
         }
       }
     }
@@ -99,14 +113,27 @@ export async function sessionRoutes(app: FastifyInstance) {
   });
 
   // Delete session
-  app.delete<{ Params: { id: string } }>('/api/sessions/:id', async (request, reply) => {
+  // ?worktree=keep|remove|merge decides what happens to a worktree session's worktree (default keep)
+  app.delete<{ Params: { id: string }; Querystring: { worktree?: WorktreeCleanup } }>('/api/sessions/:id', {
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          worktree: { type: 'string', enum: ['keep', 'remove', 'merge'] }
+        }
+      }
+    }
+  }, async (request, reply) => {
     try {
-      await sessionManager.killSession(request.params.id);
+      await sessionManager.killSession(request.params.id, { worktree: request.query.worktree });
       reply.status(204);
       return;
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
-      if (message.includes('not found')) {
+      if (/^Session killed, but failed to (remove|merge) worktree/.test(message)) {
+        // Refused merge or removal; the worktree is left for manual cleanup
+        reply.status(409);
+      } else if (message.includes('not found')) {
         reply.status(404);
       } else {
         reply.status(500);
@@ -0,0 +1,80 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { shareLinkService } from '../services/ShareLinkService.js';
+import { sessionDiscoveryService } from '../services/SessionDiscoveryService.js';
+import { authService } from '../services/AuthService.js';
+import { getRequestUser } from '../middleware/auth.js';
+import { CreateShareLinkRequest, ShareLink, SharedSessionInfo } from '../types/ShareLink.js';
+
+/**
+ * Share links are listed and revoked by their creator or an admin
+ */
+function canManage(request: FastifyRequest, link: ShareLink): boolean {
+  const user = getRequestUser(request);
+  return authService.hasRole(user?.role, 'admin') || (!!user && link.createdBy === user.sub);
+}
+
+export async function shareRoutes(app: FastifyInstance) {
+  // POST /api/sessions/:id/share-links - Create a read-only share link
+  app.post<{ Params: { id: string }; Body: CreateShareLinkRequest }>('/api/sessions/:id/share-links', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          expiresInMinutes: { type: 'integer', minimum: 1 },
+        }
+      }
+    }
+  }, async (request, reply) => {
+    const session = sessionDiscoveryService.getSession(request.params.id);
+    if (!session) {
+      reply.status(404);
+      return { error: 'Session not found' };
+    }
+
+    const created = shareLinkService.create(
+      session.id,
+      session.name,
+      getRequestUser(request)?.sub ?? null,
+      request.body?.expiresInMinutes
+    );
+    reply.status(201);
+    return created;
+  });
+
+  // GET /api/sessions/:id/share-links - Active share links of a session the caller may manage
+  app.get<{ Params: { id: string } }>('/api/sessions/:id/share-links', async (request) => {
+    return { links: shareLinkService.getActive(request.params.id).filter(link => canManage(request, link)) };
+  });
+
+  // GET /api/share-links - All active share links the caller may manage
+  app.get('/api/share-links', async (request) => {
+    return { links: shareLinkService.getActive().filter(link => canManage(request, link)) };
+  });
+
+  // DELETE /api/share-links/:id - Revoke a share link and disconnect its viewers
+  app.delete<{ Params: { id: string } }>('/api/share-links/:id', async (request, reply) => {
+    // Links of other users are reported as missing rather than forbidden
+    const link = shareLinkService.getActive().find(l => l.id === request.params.id);
+    if (!link || !canManage(request, link) || !shareLinkService.revoke(link.id)) {
+      reply.status(404);
+      return { error: 'Share link not found' };
+    }
+    return { success: true };
+  });
+
+  // GET /api/share/:token - Public: describe the session behind a share token
+  app.get<{ Params: { token: string } }>('/api/share/:token', async (request, reply) => {
+    const link = shareLinkService.resolve(request.params.token);
+    if (!link) {
+      reply.status(410);
+      return { error: 'This share link has expired or was revoked' };
+    }
+
+    const info: SharedSessionInfo = {
+      sessionId: link.sessionId,
+      sessionName: link.sessionName,
+      expiresAt: link.expiresAt,
+    };
+    return info;
+  });
+}
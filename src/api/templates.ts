@@ -0,0 +1,157 @@
+import { FastifyInstance } from 'fastify';
+import { TemplateStorage } from '../services/TemplateStorage.js';
+import { sessionManager } from '../services/SessionManager.js';
+import type {
+  CreateTemplateRequest,
+  UpdateTemplateRequest,
+  CreateFromTemplateRequest,
+} from '../types/Template.js';
+
+const templateStorage = new TemplateStorage();
+
+const templateProperties = {
+  name: { type: 'string', minLength: 1 },
+  description: { type: 'string' },
+  hostId: { type: 'string', minLength: 1 },
+  workingDirectory: { type: 'string', minLength: 1 },
+  sessionName: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' },
+  claudeArgs: { type: 'array', items: { type: 'string' } },
+  env: {
+    type: 'object',
+    propertyNames: { pattern: '^[A-Za-z_][A-Za-z0-9_]*$' },
+    additionalProperties: { type: 'string' },
+  },
+  initialPrompt: { type: 'string' },
+  workspaceId: { type: 'string' },
+};
+
+export async function templateRoutes(app: FastifyInstance) {
+  // GET /api/templates - List session templates
+  app.get('/api/templates', async (request, reply) => {
+    try {
+      const templates = await templateStorage.getAll();
+      return { templates };
+    } catch (err) {
+      reply.status(500);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to retrieve templates'
+      };
+    }
+  });
+
+  // GET /api/templates/:id - Get a single template
+  app.get<{ Params: { id: string } }>('/api/templates/:id', async (request, reply) => {
+    const template = await templateStorage.getById(request.params.id);
+    if (!template) {
+      reply.status(404);
+      return { error: 'Template not found' };
+    }
+    return { template };
+  });
+
+  // POST /api/templates - Create a template
+  app.post<{ Body: CreateTemplateRequest }>('/api/templates', {
+    schema: {
+      body: {
+        type: 'object',
+        required: ['name', 'hostId', 'workingDirectory'],
+        properties: templateProperties,
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const template = await templateStorage.create(request.body);
+      reply.status(201);
+      return { template };
+    } catch (err) {
+      reply.status(400);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to create template'
+      };
+    }
+  });
+
+  // PUT /api/templates/:id - Update a template
+  app.put<{ Params: { id: string }; Body: UpdateTemplateRequest }>('/api/templates/:id', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: templateProperties,
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const template = await templateStorage.update(request.params.id, request.body);
+      if (!template) {
+        reply.status(404);
+        return { error: 'Template not found' };
+      }
+      return { template };
+    } catch (err) {
+      reply.status(400);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to update template'
+      };
+    }
+  });
+
+  // DELETE /api/templates/:id - Delete a template
+  app.delete<{ Params: { id: string } }>('/api/templates/:id', async (request, reply) => {
+    try {
+      const deleted = await templateStorage.delete(request.params.id);
+      if (!deleted) {
+        reply.status(404);
+        return { error: 'Template not found' };
+      }
+      reply.status(204);
+      return;
+    } catch (err) {
+      reply.status(500);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to delete template'
+      };
+    }
+  });
+
+  // POST /api/sessions/from-template/:id - Create a session from a template
+  app.post<{ Params: { id: string }; Body: CreateFromTemplateRequest }>('/api/sessions/from-template/:id', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          sessionName: { type: 'string', pattern: '^[a-zA-Z0-9_-]+$' },
+          workspaceId: { type: 'string' },
+        }
+      }
+    }
+  }, async (request, reply) => {
+    const template = await templateStorage.getById(request.params.id);
+    if (!template) {
+      reply.status(404);
+      return { error: 'Template not found' };
+    }
+
+    const overrides = request.body ?? {};
+    // The template's session name is a prefix so it can be used more than once
+    const sessionName = overrides.sessionName
+      ?? (template.sessionName ? `${template.sessionName}-${Date.now().toString(36)}` : undefined);
+
+    try {
+      const session = await sessionManager.createSession({
+        workingDirectory: template.workingDirectory,
+        hostId: template.hostId,
+        sessionName,
+        claudeArgs: template.claudeArgs,
+        env: template.env,
+        workspaceId: overrides.workspaceId ?? template.workspaceId,
+        initialPrompt: template.initialPrompt,
+      });
+
+      reply.status(201);
+      return { session };
+    } catch (err) {
+      reply.status(400);
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+}
@@ -0,0 +1,48 @@
+import { FastifyInstance } from 'fastify';
+import { transcriptService } from '../services/TranscriptService.js';
+import { sessionDiscoveryService } from '../services/SessionDiscoveryService.js';
+
+interface TranscriptQuery {
+  offset?: string;
+  limit?: string;
+  q?: string;
+}
+
+function parseOptionalInt(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+export async function transcriptRoutes(app: FastifyInstance) {
+  // GET /api/sessions/:id/transcript - Claude conversation of a session, paginated
+  // Without an offset the last page is returned
+  app.get<{ Params: { id: string }; Querystring: TranscriptQuery }>('/api/sessions/:id/transcript', async (request, reply) => {
+    const session = sessionDiscoveryService.getSession(request.params.id);
+
+    if (!session) {
+      reply.status(404);
+      return { error: 'Session not found' };
+    }
+
+    try {
+      const page = await transcriptService.getTranscript(session, {
+        offset: parseOptionalInt(request.query.offset),
+        limit: parseOptionalInt(request.query.limit),
+        query: request.query.q,
+      });
+
+      if (!page) {
+        reply.status(404);
+        return { error: 'No Claude transcript found for this session' };
+      }
+
+      return page;
+    } catch (err) {
+      reply.status(500);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to load transcript'
+      };
+    }
+  });
+}
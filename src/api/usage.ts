@@ -0,0 +1,19 @@
+import { FastifyInstance } from 'fastify';
+import { usageService } from '../services/UsageService.js';
+
+export async function usageRoutes(app: FastifyInstance) {
+  // GET /api/usage?days= - Claude token usage and estimated cost per session, workspace and day
+  app.get<{ Querystring: { days?: string } }>('/api/usage', async (request, reply) => {
+    try {
+      const days = request.query.days ? parseInt(request.query.days, 10) : undefined;
+      return await usageService.getReport({
+        days: days === undefined || Number.isNaN(days) ? undefined : Math.max(days, 1),
+      });
+    } catch (err) {
+      reply.status(500);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to compute usage'
+      };
+    }
+  });
+}
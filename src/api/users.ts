@@ -0,0 +1,99 @@
+import { FastifyInstance } from 'fastify';
+import { userService } from '../services/UserService.js';
+import { authService } from '../services/AuthService.js';
+import { requireRole, getRequestUser } from '../middleware/auth.js';
+import { CreateUserRequest, UpdateUserRequest, USER_ROLES } from '../types/User.js';
+
+export async function userRoutes(app: FastifyInstance) {
+  const adminOnly = { preHandler: requireRole('admin') };
+
+  // GET /api/users - List user accounts
+  app.get('/api/users', adminOnly, async () => {
+    return { users: userService.getAll() };
+  });
+
+  // POST /api/users - Create a user account
+  app.post<{ Body: CreateUserRequest }>('/api/users', {
+    ...adminOnly,
+    schema: {
+      body: {
+        type: 'object',
+        required: ['username', 'password', 'role'],
+        properties: {
+          username: { type: 'string', minLength: 1 },
+          password: { type: 'string', minLength: 8 },
+          role: { type: 'string', enum: USER_ROLES },
+        }
+      }
+    }
+  }, async (request, reply) => {
+    // Every request is admin while auth is disabled
+    if (!authService.isEnabled()) {
+      reply.status(403);
+      return { error: 'Auth is disabled; create the first admin through /api/auth/setup' };
+    }
+
+    try {
+      const user = await userService.create(request.body);
+      reply.status(201);
+      return user;
+    } catch (err) {
+      reply.status(409);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to create user'
+      };
+    }
+  });
+
+  // PUT /api/users/:id - Change a user's role or password
+  app.put<{ Params: { id: string }; Body: UpdateUserRequest }>('/api/users/:id', {
+    ...adminOnly,
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          password: { type: 'string', minLength: 8 },
+          role: { type: 'string', enum: USER_ROLES },
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const user = await userService.update(request.params.id, request.body);
+      if (!user) {
+        reply.status(404);
+        return { error: 'User not found' };
+      }
+      return user;
+    } catch (err) {
+      reply.status(400);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to update user'
+      };
+    }
+  });
+
+  // DELETE /api/users/:id - Delete a user account
+  app.delete<{ Params: { id: string } }>('/api/users/:id', adminOnly, async (request, reply) => {
+    const user = userService.getById(request.params.id);
+    if (!user) {
+      reply.status(404);
+      return { error: 'User not found' };
+    }
+
+    if (user.username === getRequestUser(request)?.sub) {
+      reply.status(400);
+      return { error: 'Cannot delete your own account' };
+    }
+
+    try {
+      userService.delete(user.id);
+      return { success: true };
+    } catch (err) {
+      reply.status(400);
+      return {
+        error: err instanceof Error ? err.message : 'Failed to delete user'
+      };
+    }
+  });
+}
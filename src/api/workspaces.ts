@@ -1,6 +1,7 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { WorkspaceStorage } from '../services/WorkspaceStorage.js';
 import { sessionDiscoveryService } from '../services/SessionDiscoveryService.js';
+import { notificationService } from '../services/NotificationService.js';
 import type { CreateWorkspaceRequest, UpdateWorkspaceRequest } from '../types/Workspace.js';
 
 const workspaceStorage = new WorkspaceStorage();
@@ -131,6 +132,8 @@ export async function workspaceRoutes(app: FastifyInstance) {
         return { error: 'Workspace not found' };
       }
 
+      notificationService.deleteWorkspaceRule(id);
+
       return { success: true, movedSessions: sessionIds.length };
     } catch (err) {
       reply.status(500);
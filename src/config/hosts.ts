@@ -8,8 +8,15 @@ export interface JumpHostConfig {
   username: string;
   privateKeyPath?: string;
   password?: string;
+  passwordEnvVar?: string;
+  /** Vault secret holding the password */
+  passwordSecretId?: string;
   passphrase?: string;
   passphraseEnvVar?: string;
+  /** Vault secret holding the key passphrase */
+  passphraseSecretId?: string;
+  /** Offer ssh-agent keys to this hop; on unless set to false */
+  useAgent?: boolean;
 }
 
 export interface SSHHostConfig {
@@ -21,12 +28,25 @@ export interface SSHHostConfig {
   privateKeyPath?: string;
   password?: string;
   passwordEnvVar?: string;
+  /** Vault secret holding the password */
+  passwordSecretId?: string;
   passphrase?: string;
   passphraseEnvVar?: string;
+  /** Vault secret holding the key passphrase */
+  passphraseSecretId?: string;
   useAgent?: boolean;
-  jumpHost?: JumpHostConfig;
+  /** A single bastion, or bastions in connection order */
+  jumpHost?: JumpHostConfig | JumpHostConfig[];
 }
 
+/** Jump host as returned by the API (never includes secret values) */
+export type PublicJumpHostConfig = Omit<JumpHostConfig, 'password' | 'passphrase'>;
+
+/** Host as returned by the API (never includes secret values) */
+export type PublicSSHHostConfig = Omit<SSHHostConfig, 'password' | 'passphrase' | 'jumpHost'> & {
+  jumpHost?: PublicJumpHostConfig | PublicJumpHostConfig[];
+};
+
 export interface HostsConfig {
   hosts: SSHHostConfig[];
 }
@@ -36,6 +56,13 @@ const CONFIG_PATHS = [
   join(homedir(), '.config', 'session-manager', 'hosts.json'),
 ];
 
+/**
+ * The hosts.json that loadHostsConfig reads, if any
+ */
+export function findHostsConfigPath(): string | undefined {
+  return CONFIG_PATHS.find(configPath => existsSync(configPath));
+}
+
 export function loadHostsConfig(): HostsConfig {
   for (const configPath of CONFIG_PATHS) {
     if (existsSync(configPath)) {
@@ -48,8 +75,10 @@ export function loadHostsConfig(): HostsConfig {
           if (host.privateKeyPath) {
             host.privateKeyPath = resolvePath(host.privateKeyPath);
           }
-          if (host.jumpHost?.privateKeyPath) {
-            host.jumpHost.privateKeyPath = resolvePath(host.jumpHost.privateKeyPath);
+          for (const hop of getJumpChain(host)) {
+            if (hop.privateKeyPath) {
+              hop.privateKeyPath = resolvePath(hop.privateKeyPath);
+            }
           }
         }
 
@@ -71,6 +100,14 @@ function resolvePath(path: string): string {
   return path;
 }
 
+/**
+ * Jump hosts of a host in connection order; empty for direct connections
+ */
+export function getJumpChain(config: SSHHostConfig): JumpHostConfig[] {
+  if (!config.jumpHost) return [];
+  return Array.isArray(config.jumpHost) ? config.jumpHost : [config.jumpHost];
+}
+
 export function getHostConfig(hostId: string): SSHHostConfig | undefined {
   const config = loadHostsConfig();
   return config.hosts.find(h => h.id === hostId);
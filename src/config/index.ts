@@ -14,6 +14,12 @@ export interface WebSocketConfig {
 
 export interface DiscoveryConfig {
   pollInterval: number;
+  /** Status-only refresh interval while clients hold status subscriptions */
+  statusPollInterval: number;
+  /** Watch hosts with persistent `tmux -C` clients instead of polling them */
+  controlMode: boolean;
+  /** Full rediscovery interval for hosts watched in control mode */
+  reconcileInterval: number;
   includeNonClaude: boolean;
 }
 
@@ -25,11 +31,40 @@ export interface AuthConfig {
   passwordHash: string;
 }
 
+export interface RecordingConfig {
+  enabled: boolean;
+  maxFileBytes: number;
+  maxRecordingsPerSession: number;
+}
+
+export interface WorktreeConfig {
+  /**
+   * Where isolated sessions get their git worktrees, as
+   * `<directory>/<repository>/<session>` on the session's host. Relative
+   * paths are resolved against the repository root; `~/` is the host's home.
+   */
+  directory: string;
+}
+
+export interface VaultConfig {
+  /**
+   * Master secret the host secret vault is encrypted with. When empty, a
+   * random key is generated into ~/.session-manager/vault.key, next to the
+   * vault: the vault is then NOT protected at rest, since anyone who can
+   * copy ~/.session-manager can decrypt it. Set VAULT_MASTER_KEY to keep
+   * the key out of that directory.
+   */
+  masterKey: string;
+}
+
 export interface AppConfig {
   server: ServerConfig;
   websocket: WebSocketConfig;
   discovery: DiscoveryConfig;
   auth: AuthConfig;
+  recording: RecordingConfig;
+  worktree: WorktreeConfig;
+  vault: VaultConfig;
 }
 
 const DEFAULT_CONFIG: AppConfig = {
@@ -43,6 +78,9 @@ const DEFAULT_CONFIG: AppConfig = {
   },
   discovery: {
     pollInterval: 2000,
+    statusPollInterval: 1000,
+    controlMode: true,
+    reconcileInterval: 30000,
     includeNonClaude: false,
   },
   auth: {
@@ -52,6 +90,17 @@ const DEFAULT_CONFIG: AppConfig = {
     username: 'admin',
     passwordHash: '',
   },
+  recording: {
+    enabled: true,
+    maxFileBytes: 10 * 1024 * 1024,
+    maxRecordingsPerSession: 20,
+  },
+  worktree: {
+    directory: '~/.session-manager/worktrees',
+  },
+  vault: {
+    masterKey: '',
+  },
 };
 
 const CONFIG_PATHS = [
@@ -74,13 +123,25 @@ function loadConfigFile(): Partial<AppConfig> {
   return {};
 }
 
+/**
+ * Integer value of an environment variable; anything else is a config error
+ * rather than NaN, which would slip past the range checks in validateConfig
+ */
+function parseIntegerEnv(name: string): number {
+  const value = process.env[name]!.trim();
+  if (!/^-?\d+$/.test(value)) {
+    throw new Error(`${name} must be an integer, got '${value}'`);
+  }
+  return parseInt(value, 10);
+}
+
 function loadEnvConfig(): Partial<AppConfig> {
   const config: Partial<AppConfig> = {};
 
   // Server config
   if (process.env.PORT) {
     config.server = config.server || {} as ServerConfig;
-    config.server.port = parseInt(process.env.PORT, 10);
+    config.server.port = parseIntegerEnv('PORT');
   }
   if (process.env.HOST) {
     config.server = config.server || {} as ServerConfig;
@@ -90,7 +151,19 @@ function loadEnvConfig(): Partial<AppConfig> {
   // Discovery config
   if (process.env.DISCOVERY_INTERVAL) {
     config.discovery = config.discovery || {} as DiscoveryConfig;
-    config.discovery.pollInterval = parseInt(process.env.DISCOVERY_INTERVAL, 10);
+    config.discovery.pollInterval = parseIntegerEnv('DISCOVERY_INTERVAL');
+  }
+  if (process.env.STATUS_POLL_INTERVAL) {
+    config.discovery = config.discovery || {} as DiscoveryConfig;
+    config.discovery.statusPollInterval = parseIntegerEnv('STATUS_POLL_INTERVAL');
+  }
+  if (process.env.TMUX_CONTROL_MODE) {
+    config.discovery = config.discovery || {} as DiscoveryConfig;
+    config.discovery.controlMode = process.env.TMUX_CONTROL_MODE === 'true';
+  }
+  if (process.env.DISCOVERY_RECONCILE_INTERVAL) {
+    config.discovery = config.discovery || {} as DiscoveryConfig;
+    config.discovery.reconcileInterval = parseIntegerEnv('DISCOVERY_RECONCILE_INTERVAL');
   }
 
   // Auth config
@@ -104,7 +177,7 @@ function loadEnvConfig(): Partial<AppConfig> {
   }
   if (process.env.AUTH_TOKEN_EXPIRY) {
     config.auth = config.auth || {} as AuthConfig;
-    config.auth.tokenExpiry = parseInt(process.env.AUTH_TOKEN_EXPIRY, 10);
+    config.auth.tokenExpiry = parseIntegerEnv('AUTH_TOKEN_EXPIRY');
   }
   if (process.env.AUTH_USERNAME) {
     config.auth = config.auth || {} as AuthConfig;
@@ -116,6 +189,28 @@ function loadEnvConfig(): Partial<AppConfig> {
     config.auth.enabled = true;
   }
 
+  // Recording config
+  if (process.env.RECORDING_ENABLED) {
+    config.recording = config.recording || {} as RecordingConfig;
+    config.recording.enabled = process.env.RECORDING_ENABLED === 'true';
+  }
+  if (process.env.RECORDING_MAX_FILE_BYTES) {
+    config.recording = config.recording || {} as RecordingConfig;
+    config.recording.maxFileBytes = parseIntegerEnv('RECORDING_MAX_FILE_BYTES');
+  }
+
+  // Worktree config
+  if (process.env.WORKTREE_DIR) {
+    config.worktree = config.worktree || {} as WorktreeConfig;
+    config.worktree.directory = process.env.WORKTREE_DIR;
+  }
+
+  // Vault config
+  if (process.env.VAULT_MASTER_KEY) {
+    config.vault = config.vault || {} as VaultConfig;
+    config.vault.masterKey = process.env.VAULT_MASTER_KEY;
+  }
+
   return config;
 }
 
@@ -139,18 +234,49 @@ function deepMerge<T extends object>(target: T, source: Partial<T>): T {
 }
 
 function validateConfig(config: AppConfig): void {
+  // NaN fails no comparison, so check the numbers are numbers first
+  const numbers: [string, unknown][] = [
+    ['server.port', config.server.port],
+    ['discovery.pollInterval', config.discovery.pollInterval],
+    ['discovery.statusPollInterval', config.discovery.statusPollInterval],
+    ['discovery.reconcileInterval', config.discovery.reconcileInterval],
+    ['auth.tokenExpiry', config.auth.tokenExpiry],
+    ['recording.maxFileBytes', config.recording.maxFileBytes],
+    ['recording.maxRecordingsPerSession', config.recording.maxRecordingsPerSession],
+  ];
+  for (const [name, value] of numbers) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`${name} must be a number`);
+    }
+  }
+
   if (config.server.port < 1 || config.server.port > 65535) {
     throw new Error('Invalid port number');
   }
   if (config.discovery.pollInterval < 500) {
     throw new Error('Discovery poll interval must be at least 500ms');
   }
+  if (config.discovery.statusPollInterval < 250) {
+    throw new Error('Status poll interval must be at least 250ms');
+  }
+  if (config.discovery.reconcileInterval < config.discovery.pollInterval) {
+    throw new Error('Discovery reconcile interval must not be shorter than the poll interval');
+  }
   if (config.auth.enabled && !config.auth.secret) {
     throw new Error('Auth secret is required when auth is enabled');
   }
   if (config.auth.enabled && !config.auth.passwordHash) {
     throw new Error('Auth password hash is required when auth is enabled');
   }
+  if (config.recording.maxFileBytes < 64 * 1024) {
+    throw new Error('Recording max file size must be at least 64KB');
+  }
+  if (config.recording.maxRecordingsPerSession < 1) {
+    throw new Error('Recording retention must keep at least one recording per session');
+  }
+  if (!config.worktree.directory.trim()) {
+    throw new Error('Worktree directory must not be empty');
+  }
 }
 
 let cachedConfig: AppConfig | null = null;
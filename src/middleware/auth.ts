@@ -1,5 +1,9 @@
 import { FastifyRequest, FastifyReply, HookHandlerDoneFunction } from 'fastify';
-import { authService } from '../services/AuthService.js';
+import { authService, JWTPayload } from '../services/AuthService.js';
+import { UserRole } from '../types/User.js';
+
+// Methods that never change state, allowed for every role
+const READ_ONLY_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
 
 export async function authMiddleware(
   request: FastifyRequest,
@@ -20,6 +24,11 @@ export async function authMiddleware(
     return;
   }
 
+  // Share links carry their own signed token
+  if (request.url.startsWith('/api/share/')) {
+    return;
+  }
+
   const authHeader = request.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -29,12 +38,38 @@ export async function authMiddleware(
 
   const token = authHeader.substring(7);
 
+  let payload: JWTPayload;
   try {
-    const payload = authService.verifyToken(token);
+    payload = authService.verifyToken(token);
     (request as any).user = payload;
   } catch (err) {
     reply.status(401).send({ error: 'Invalid or expired token' });
+    return;
   }
+
+  // Viewers are read-only; token refresh is the one write they need
+  if (
+    !READ_ONLY_METHODS.has(request.method) &&
+    request.url !== '/api/auth/refresh' &&
+    !authService.hasRole(payload.role, 'operator')
+  ) {
+    reply.status(403).send({ error: 'Insufficient permissions' });
+  }
+}
+
+export function getRequestUser(request: FastifyRequest): JWTPayload | undefined {
+  return (request as any).user;
+}
+
+/**
+ * Route-level preHandler that requires at least the given role
+ */
+export function requireRole(role: UserRole) {
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    if (!authService.hasRole(getRequestUser(request)?.role, role)) {
+      reply.status(403).send({ error: 'Insufficient permissions' });
+    }
+  };
 }
 
 export function extractTokenFromUrl(url: string): string | null {
@@ -45,3 +80,12 @@ export function extractTokenFromUrl(url: string): string | null {
     return null;
   }
 }
+
+export function extractShareTokenFromUrl(url: string): string | null {
+  try {
+    const urlObj = new URL(url, 'http://localhost');
+    return urlObj.searchParams.get('share');
+  } catch {
+    return null;
+  }
+}
@@ -2,9 +2,38 @@ import { WebSocket } from 'ws';
 import { ClientMessage, ServerMessage } from '../types/Protocol.js';
 import { sessionDiscoveryService } from '../services/SessionDiscoveryService.js';
 import { terminalBridgeManager } from '../services/TerminalBridge.js';
+import { authService, JWTPayload } from '../services/AuthService.js';
+import { shareLinkService } from '../services/ShareLinkService.js';
+import { notificationService } from '../services/NotificationService.js';
+import { UserRole } from '../types/User.js';
+import { Session } from '../types/Session.js';
+import { getConfig } from '../config/index.js';
+
+interface ClientAuth {
+  state: 'pending' | 'authenticated' | 'expired';
+  user: string | null;
+  role: UserRole | null;
+  /** Token expiry in epoch ms (null when auth is disabled) */
+  expiresAt: number | null;
+  /** Auth deadline while pending, expiry while authenticated, close deadline while expired */
+  timer: NodeJS.Timeout | null;
+  /** Set for read-only viewers connected through a share link */
+  share: { linkId: string; sessionId: string } | null;
+}
+
+// Time a new connection gets to send its `auth` message
+const AUTH_TIMEOUT_MS = 10000;
+// Time an expired connection gets to send `auth-refresh` before it is closed
+const AUTH_EXPIRED_GRACE_MS = 60000;
+// Application close code for authentication failures
+const CLOSE_UNAUTHORIZED = 4401;
+// setTimeout overflows beyond this delay
+const MAX_TIMER_MS = 2 ** 31 - 1;
 
 export class MessageHandler {
   private clientSubscriptions: Map<WebSocket, Set<string>> = new Map();
+  private clientAuth: Map<WebSocket, ClientAuth> = new Map();
+  private statusSubscribers: Set<WebSocket> = new Set();
 
   constructor() {
     // Set up terminal bridge output handler
@@ -16,12 +45,23 @@ export class MessageHandler {
       });
     });
 
-    // Set up session discovery change handler
-    sessionDiscoveryService.onSessionsChange((sessions) => {
-      this.broadcastToAll({
-        type: 'sessions',
-        sessions,
-      });
+    // Forward per-session diffs instead of re-sending the whole list every poll
+    sessionDiscoveryService.onSessionsDiff((message) => {
+      const sessionId = message.type === 'session-added' ? message.session.id : message.sessionId;
+      for (const [ws, auth] of this.clientAuth) {
+        if (auth.state !== 'authenticated') continue;
+        if (auth.share && auth.share.sessionId !== sessionId) continue;
+        this.send(ws, message);
+      }
+    });
+
+    // Disconnect viewers of a revoked share link
+    shareLinkService.onRevoke((link) => {
+      for (const [ws, auth] of this.clientAuth) {
+        if (auth.share?.linkId === link.id) {
+          ws.close(CLOSE_UNAUTHORIZED, 'Share link revoked');
+        }
+      }
     });
 
     // Set up Claude status change handler for real-time updates
@@ -31,15 +71,67 @@ export class MessageHandler {
         sessionId,
         status,
       });
+      sessionDiscoveryService.updateClaudeStatus(sessionId, status);
+    });
+
+    // Forward status-only changes to status subscribers
+    sessionDiscoveryService.onStatusChange((update) => {
+      for (const ws of this.statusSubscribers) {
+        const auth = this.clientAuth.get(ws);
+        if (auth?.state !== 'authenticated') continue;
+        if (auth.share && auth.share.sessionId !== update.sessionId) continue;
+        this.send(ws, { type: 'session-status', ...update });
+      }
+    });
+
+    // Deliver browser notifications to signed-in users (not share link viewers)
+    notificationService.onNotification((notification) => {
+      for (const [ws, auth] of this.clientAuth) {
+        if (auth.state === 'authenticated' && !auth.share) {
+          this.send(ws, { type: 'notification', notification });
+        }
+      }
     });
   }
 
-  handleConnection(ws: WebSocket, clientId: string): void {
+  handleConnection(ws: WebSocket, clientId: string, token: string | null, shareToken: string | null = null): void {
     this.clientSubscriptions.set(ws, new Set());
 
-    // Send initial sessions list (only managed sessions)
-    const sessions = sessionDiscoveryService.getManagedSessions();
-    this.send(ws, { type: 'sessions', sessions });
+    const auth: ClientAuth = { state: 'pending', user: null, role: null, expiresAt: null, timer: null, share: null };
+    this.clientAuth.set(ws, auth);
+
+    // Share links are read-only regardless of whether auth is enabled
+    if (shareToken) {
+      const link = shareLinkService.resolve(shareToken);
+      if (!link) {
+        ws.close(CLOSE_UNAUTHORIZED, 'Invalid share link');
+        return;
+      }
+
+      auth.state = 'authenticated';
+      auth.user = `share:${link.id}`;
+      auth.role = 'viewer';
+      auth.expiresAt = new Date(link.expiresAt).getTime();
+      auth.share = { linkId: link.id, sessionId: link.sessionId };
+      this.scheduleExpiry(ws, auth);
+      this.sendInitialSessions(ws);
+      return;
+    }
+
+    if (!authService.isEnabled()) {
+      auth.state = 'authenticated';
+      auth.role = 'admin';
+      this.sendInitialSessions(ws);
+      return;
+    }
+
+    if (token && this.authenticate(ws, token)) {
+      return;
+    }
+
+    auth.timer = setTimeout(() => {
+      ws.close(CLOSE_UNAUTHORIZED, 'Authentication required');
+    }, AUTH_TIMEOUT_MS);
   }
 
   handleDisconnection(ws: WebSocket, clientId: string): void {
@@ -50,13 +142,147 @@ export class MessageHandler {
       }
     }
     this.clientSubscriptions.delete(ws);
+    this.handleUnsubscribeStatus(ws);
+
+    const auth = this.clientAuth.get(ws);
+    if (auth?.timer) {
+      clearTimeout(auth.timer);
+    }
+    this.clientAuth.delete(ws);
+  }
+
+  /**
+   * Verify a token for a connection. Used for the first `auth` message and for
+   * `auth-refresh`, which keeps the connection's subscriptions intact.
+   */
+  private authenticate(ws: WebSocket, token: string): boolean {
+    const auth = this.clientAuth.get(ws);
+    if (!auth) return false;
+
+    let payload: JWTPayload;
+    try {
+      payload = authService.verifyToken(token);
+    } catch {
+      this.send(ws, { type: 'error', message: 'Invalid or expired token', code: 'AUTH_FAILED' });
+      return false;
+    }
+
+    const wasPending = auth.state === 'pending';
+    if (auth.timer) {
+      clearTimeout(auth.timer);
+    }
+
+    auth.state = 'authenticated';
+    auth.user = payload.sub;
+    auth.role = payload.role;
+    auth.expiresAt = payload.exp * 1000;
+    this.scheduleExpiry(ws, auth);
+
+    this.send(ws, {
+      type: 'auth-ok',
+      user: payload.sub,
+      role: payload.role,
+      expiresAt: new Date(auth.expiresAt).toISOString(),
+    });
+
+    if (wasPending) {
+      this.sendInitialSessions(ws);
+    }
+    return true;
+  }
+
+  /**
+   * Whether a connection may write to terminals. The role is looked up again
+   * each time, so demoted and deleted users lose access without reconnecting.
+   */
+  private canOperate(auth: ClientAuth): boolean {
+    if (auth.share) return false;
+    if (!authService.isEnabled()) return true;
+    auth.role = auth.user ? authService.getCurrentRole(auth.user) : null;
+    return authService.hasRole(auth.role ?? undefined, 'operator');
+  }
+
+  private scheduleExpiry(ws: WebSocket, auth: ClientAuth): void {
+    const remaining = Math.max(0, (auth.expiresAt ?? 0) - Date.now());
+    auth.timer = setTimeout(() => this.expire(ws), Math.min(remaining, MAX_TIMER_MS));
+  }
+
+  /**
+   * The connection's token lapsed: stop delivering data and wait for a refresh
+   */
+  private expire(ws: WebSocket): void {
+    const auth = this.clientAuth.get(ws);
+    if (!auth) return;
+
+    // Long-lived tokens outlast a single timer
+    if (auth.expiresAt && auth.expiresAt > Date.now()) {
+      this.scheduleExpiry(ws, auth);
+      return;
+    }
+
+    // Share links cannot be refreshed
+    if (auth.share) {
+      ws.close(CLOSE_UNAUTHORIZED, 'Share link expired');
+      return;
+    }
+
+    auth.state = 'expired';
+    this.send(ws, { type: 'auth-expired' });
+
+    auth.timer = setTimeout(() => {
+      ws.close(CLOSE_UNAUTHORIZED, 'Authentication expired');
+    }, AUTH_EXPIRED_GRACE_MS);
+  }
+
+  private isAuthenticated(ws: WebSocket): boolean {
+    return this.clientAuth.get(ws)?.state === 'authenticated';
+  }
+
+  private sendInitialSessions(ws: WebSocket): void {
+    // Send initial sessions list (only managed sessions)
+    this.sendSessions(ws, sessionDiscoveryService.getManagedSessions());
+  }
+
+  /**
+   * Send a sessions list, narrowed to the shared session for share link viewers
+   */
+  private sendSessions(ws: WebSocket, sessions: Session[]): void {
+    const share = this.clientAuth.get(ws)?.share;
+    this.send(ws, {
+      type: 'sessions',
+      sessions: share ? sessions.filter(s => s.id === share.sessionId) : sessions,
+      seq: sessionDiscoveryService.getDiffSeq(),
+    });
   }
 
   async handleMessage(ws: WebSocket, clientId: string, message: ClientMessage): Promise<void> {
     try {
+      if (message.type === 'auth' || message.type === 'auth-refresh') {
+        // Connections are trusted from the start while auth is disabled,
+        // and share link viewers stay bound to their link
+        if (authService.isEnabled() && !this.clientAuth.get(ws)?.share) {
+          this.authenticate(ws, message.token);
+        }
+        return;
+      }
+
+      const auth = this.clientAuth.get(ws);
+      if (auth?.state !== 'authenticated') {
+        this.send(ws, {
+          type: 'error',
+          message: auth?.state === 'expired' ? 'Authentication expired' : 'Authentication required',
+          code: auth?.state === 'expired' ? 'AUTH_EXPIRED' : 'AUTH_REQUIRED',
+        });
+        return;
+      }
+
       switch (message.type) {
         case 'subscribe':
-          await this.handleSubscribe(ws, clientId, message.sessionId);
+          if (auth.share && auth.share.sessionId !== message.sessionId) {
+            this.send(ws, { type: 'error', message: 'Share link does not cover this session', code: 'FORBIDDEN' });
+            break;
+          }
+          await this.handleSubscribe(ws, clientId, message.sessionId, !!auth.share);
           break;
 
         case 'unsubscribe':
@@ -64,17 +290,34 @@ export class MessageHandler {
           break;
 
         case 'input':
-          this.handleInput(message.sessionId, message.data);
+          // Share links are read-only, whichever session they name
+          if (!this.canOperate(auth)) {
+            this.send(ws, { type: 'error', message: 'Viewers cannot send input', code: 'FORBIDDEN' });
+            break;
+          }
+          this.handleInput(clientId, message.sessionId, message.data);
           break;
 
         case 'resize':
-          this.handleResize(message.sessionId, message.cols, message.rows);
+          if (!this.canOperate(auth)) {
+            this.send(ws, { type: 'error', message: 'Viewers cannot resize terminals', code: 'FORBIDDEN' });
+            break;
+          }
+          this.handleResize(clientId, message.sessionId, message.cols, message.rows);
           break;
 
         case 'list-sessions':
           this.handleListSessions(ws);
           break;
 
+        case 'subscribe-status':
+          this.handleSubscribeStatus(ws);
+          break;
+
+        case 'unsubscribe-status':
+          this.handleUnsubscribeStatus(ws);
+          break;
+
         default:
           this.send(ws, { type: 'error', message: 'Unknown message type' });
       }
@@ -84,7 +327,7 @@ export class MessageHandler {
     }
   }
 
-  private async handleSubscribe(ws: WebSocket, clientId: string, sessionId: string): Promise<void> {
+  private async handleSubscribe(ws: WebSocket, clientId: string, sessionId: string, readOnly: boolean): Promise<void> {
     const session = sessionDiscoveryService.getSession(sessionId);
     if (!session) {
       this.send(ws, { type: 'error', message: `Session not found: ${sessionId}`, code: 'SESSION_NOT_FOUND' });
@@ -98,6 +341,7 @@ export class MessageHandler {
       tmuxTarget: session.tmux.sessionName, // Attach to session, not specific pane
       cols: session.dimensions.cols,
       rows: session.dimensions.rows,
+      readOnly,
     }, clientId);
 
     // Track subscription
@@ -117,17 +361,29 @@ export class MessageHandler {
     subscriptions?.delete(sessionId);
   }
 
-  private handleInput(sessionId: string, data: string): void {
-    terminalBridgeManager.sendInput(sessionId, data);
+  private handleInput(clientId: string, sessionId: string, data: string): void {
+    terminalBridgeManager.sendInput(sessionId, data, clientId);
   }
 
-  private handleResize(sessionId: string, cols: number, rows: number): void {
-    terminalBridgeManager.resize(sessionId, cols, rows);
+  private handleResize(clientId: string, sessionId: string, cols: number, rows: number): void {
+    terminalBridgeManager.resize(sessionId, cols, rows, clientId);
+  }
+
+  private handleSubscribeStatus(ws: WebSocket): void {
+    this.statusSubscribers.add(ws);
+    sessionDiscoveryService.startStatusPolling(getConfig().discovery.statusPollInterval);
+  }
+
+  private handleUnsubscribeStatus(ws: WebSocket): void {
+    this.statusSubscribers.delete(ws);
+    // Nobody is watching; leave status to the regular discovery poll
+    if (this.statusSubscribers.size === 0) {
+      sessionDiscoveryService.stopStatusPolling();
+    }
   }
 
   private handleListSessions(ws: WebSocket): void {
-    const sessions = sessionDiscoveryService.getManagedSessions();
-    this.send(ws, { type: 'sessions', sessions });
+    this.sendSessions(ws, sessionDiscoveryService.getManagedSessions());
   }
 
   private send(ws: WebSocket, message: ServerMessage): void {
@@ -138,7 +394,7 @@ export class MessageHandler {
 
   private broadcastToSubscribers(sessionId: string, message: ServerMessage): void {
     for (const [ws, subscriptions] of this.clientSubscriptions) {
-      if (subscriptions.has(sessionId)) {
+      if (subscriptions.has(sessionId) && this.isAuthenticated(ws)) {
         this.send(ws, message);
       }
     }
@@ -146,7 +402,9 @@ export class MessageHandler {
 
   broadcastToAll(message: ServerMessage): void {
     for (const [ws] of this.clientSubscriptions) {
-      this.send(ws, message);
+      if (this.isAuthenticated(ws)) {
+        this.send(ws, message);
+      }
     }
   }
 }
@@ -3,6 +3,7 @@ import { IncomingMessage, Server } from 'http';
 import { messageHandler } from './MessageHandler.js';
 import { ClientMessage } from '../types/Protocol.js';
 import { randomUUID } from 'crypto';
+import { extractTokenFromUrl, extractShareTokenFromUrl } from '../middleware/auth.js';
 
 interface ExtendedWebSocket extends WebSocket {
   clientId: string;
@@ -23,7 +24,14 @@ export class WebSocketServerManager {
 
       console.log(`Client connected: ${extWs.clientId}`);
 
-      messageHandler.handleConnection(ws, extWs.clientId);
+      // The token may come with the upgrade request or in a first `auth` message;
+      // share link viewers connect with `?share=<token>` instead
+      messageHandler.handleConnection(
+        ws,
+        extWs.clientId,
+        extractTokenFromUrl(req.url || ''),
+        extractShareTokenFromUrl(req.url || '')
+      );
 
       extWs.on('pong', () => {
         extWs.isAlive = true;
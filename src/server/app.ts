@@ -5,11 +5,24 @@ import { webSocketServer } from './WebSocketServer.js';
 import { sessionDiscoveryService } from '../services/SessionDiscoveryService.js';
 import { sessionRoutes } from '../api/sessions.js';
 import { authRoutes } from '../api/auth.js';
+import { userRoutes } from '../api/users.js';
 import { hostRoutes } from '../api/hosts.js';
 import { workspaceRoutes } from '../api/workspaces.js';
 import { todoRoutes } from '../api/todos.js';
 import { backlogRoutes } from '../api/backlog.js';
+import { recordingRoutes } from '../api/recordings.js';
+import { searchRoutes } from '../api/search.js';
+import { transcriptRoutes } from '../api/transcripts.js';
+import { usageRoutes } from '../api/usage.js';
+import { diffRoutes } from '../api/diffs.js';
+import { shareRoutes } from '../api/share.js';
+import { templateRoutes } from '../api/templates.js';
+import { notificationRoutes } from '../api/notifications.js';
+import { secretRoutes } from '../api/secrets.js';
+import { fileRoutes } from '../api/files.js';
+import { MigrationService } from '../services/MigrationService.js';
 import { authMiddleware } from '../middleware/auth.js';
+import { authService } from '../services/AuthService.js';
 import { getConfig } from '../config/index.js';
 
 export async function createApp() {
@@ -32,8 +45,9 @@ export async function createApp() {
     credentials: true,
   });
 
-  // Auth middleware (skips if auth disabled)
-  app.addHook('preHandler', authMiddleware);
+  // Auth middleware (skips if auth disabled). Runs before body parsing, so
+  // unauthenticated uploads are refused without being buffered.
+  app.addHook('onRequest', authMiddleware);
 
   // Root endpoint
   app.get('/', async () => ({
@@ -53,11 +67,22 @@ export async function createApp() {
 
   // Register routes
   await authRoutes(app);
+  await userRoutes(app);
   await workspaceRoutes(app);
   await sessionRoutes(app);
+  await templateRoutes(app);
   await hostRoutes(app);
   await todoRoutes(app);
   await backlogRoutes(app);
+  await recordingRoutes(app);
+  await searchRoutes(app);
+  await transcriptRoutes(app);
+  await usageRoutes(app);
+  await diffRoutes(app);
+  await shareRoutes(app);
+  await notificationRoutes(app);
+  await secretRoutes(app);
+  await fileRoutes(app);
 
   // Global error handler
   app.setErrorHandler((error, request, reply) => {
@@ -75,6 +100,12 @@ export async function startServer(port: number = 3000) {
   const app = await createApp();
   const config = getConfig();
 
+  try {
+    await new MigrationService().runMigrations();
+  } catch (err) {
+    console.error('[Migration] Failed:', err);
+  }
+
   await app.ready();
   const httpServer = createServer((req, res) => {
     app.routing(req, res);
@@ -84,12 +115,19 @@ export async function startServer(port: number = 3000) {
   webSocketServer.initialize(httpServer);
 
   // Enable polling to refresh sessions with status bar and last output
-  sessionDiscoveryService.startPolling(config.discovery.pollInterval);
+  sessionDiscoveryService.startPolling(config.discovery.pollInterval, {
+    controlMode: config.discovery.controlMode,
+    reconcileInterval: config.discovery.reconcileInterval,
+  });
 
   return new Promise<void>((resolve, reject) => {
     httpServer.listen(port, config.server.host, () => {
       console.log(`Server running on http://${config.server.host}:${port}`);
       console.log(`WebSocket server running on ws://${config.server.host}:${port}/ws`);
+      const setupToken = authService.getSetupToken();
+      if (setupToken) {
+        console.log(`Auth is disabled. Create the first admin with POST /api/auth/setup, setup token: ${setupToken}`);
+      }
       resolve();
     });
     httpServer.on('error', reject);
@@ -1,5 +1,8 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
+import { UserRole } from '../types/User.js';
+import { userService } from './UserService.js';
 
 export interface AuthConfig {
   secret: string;
@@ -10,6 +13,16 @@ export interface AuthConfig {
 
 export interface JWTPayload {
   sub: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+/** Claims of a session share link token */
+export interface ShareTokenPayload {
+  sub: string; // share link id
+  sid: string; // session id
+  scope: 'share';
   iat: number;
   exp: number;
 }
@@ -23,38 +36,76 @@ const DEFAULT_CONFIG: AuthConfig = {
   secret: process.env.AUTH_SECRET || 'change-this-secret-in-production',
   tokenExpiry: parseInt(process.env.AUTH_TOKEN_EXPIRY || '86400', 10),
   username: process.env.AUTH_USERNAME || 'admin',
-  passwordHash: process.env.AUTH_PASSWORD_HASH || '', // Empty means auth disabled
+  passwordHash: process.env.AUTH_PASSWORD_HASH || '', // Empty means auth disabled (unless users exist)
+};
+
+// Higher rank includes every permission of the lower ones
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
 };
 
 export class AuthService {
   private config: AuthConfig;
+  // Proves access to the server log when creating the first admin
+  private setupToken = crypto.randomBytes(24).toString('hex');
 
   constructor(config: Partial<AuthConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    // The configured single user becomes the first admin of the user store
+    userService.ensureBootstrapAdmin(this.config.username, this.config.passwordHash);
   }
 
   isEnabled(): boolean {
-    return this.config.passwordHash !== '';
+    return this.config.passwordHash !== '' || userService.hasUsers();
   }
 
-  async validateCredentials(username: string, password: string): Promise<boolean> {
+  /**
+   * Validate credentials and return the user's role, or null if invalid
+   */
+  async validateCredentials(username: string, password: string): Promise<UserRole | null> {
     if (!this.isEnabled()) {
-      return true; // Auth disabled
+      return 'admin'; // Auth disabled
     }
 
-    if (username !== this.config.username) {
-      return false;
+    const user = await userService.verifyPassword(username, password);
+    return user ? user.role : null;
+  }
+
+  /**
+   * Issue a fresh token for an existing token holder, picking up role changes.
+   * Fails if the user has been deleted since the token was issued.
+   */
+  refreshToken(payload: JWTPayload): LoginResponse {
+    if (!this.isEnabled()) {
+      return this.generateToken(payload.sub, payload.role);
+    }
+
+    const user = userService.getByUsername(payload.sub);
+    if (!user) {
+      throw new Error(`User no longer exists: ${payload.sub}`);
     }
+    return this.generateToken(user.username, user.role);
+  }
 
-    return bcrypt.compare(password, this.config.passwordHash);
+  /**
+   * Check whether a role grants at least the required role's permissions.
+   * Everything is allowed while auth is disabled.
+   */
+  hasRole(role: UserRole | undefined, required: UserRole): boolean {
+    if (!this.isEnabled()) return true;
+    if (!role) return false;
+    return ROLE_RANK[role] >= ROLE_RANK[required];
   }
 
-  generateToken(username: string): LoginResponse {
+  generateToken(username: string, role: UserRole): LoginResponse {
     const now = Math.floor(Date.now() / 1000);
     const exp = now + this.config.tokenExpiry;
 
     const payload: JWTPayload = {
       sub: username,
+      role,
       iat: now,
       exp,
     };
@@ -65,8 +116,68 @@ export class AuthService {
     return { token, expiresAt };
   }
 
+  /**
+   * Verify a login token. The role comes from the user store, not the token,
+   * so role changes and deleted users take effect before the token expires.
+   */
   verifyToken(token: string): JWTPayload {
-    return jwt.verify(token, this.config.secret) as JWTPayload;
+    const payload = jwt.verify(token, this.config.secret) as JWTPayload;
+    // Tokens issued before roles existed must be renewed by logging in again
+    if (!payload.role || !(payload.role in ROLE_RANK)) {
+      throw new Error('Token has no valid role claim');
+    }
+    if (!this.isEnabled()) {
+      return payload;
+    }
+
+    const user = userService.getByUsername(payload.sub);
+    if (!user) {
+      throw new Error(`User no longer exists: ${payload.sub}`);
+    }
+    return { ...payload, role: user.role };
+  }
+
+  /**
+   * A user's role as stored now, or null if the user no longer exists
+   */
+  getCurrentRole(username: string): UserRole | null {
+    return userService.getByUsername(username)?.role ?? null;
+  }
+
+  /**
+   * Token required to create the first admin, or null once auth is enabled
+   */
+  getSetupToken(): string | null {
+    return this.isEnabled() ? null : this.setupToken;
+  }
+
+  isValidSetupToken(token: string): boolean {
+    const expected = Buffer.from(this.setupToken);
+    const given = Buffer.from(token);
+    return !this.isEnabled() && given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+
+  /**
+   * Sign a share link token. Share tokens carry no role claim, so verifyToken
+   * never accepts them as login tokens.
+   */
+  generateShareToken(linkId: string, sessionId: string, expiresAt: Date): string {
+    const payload: ShareTokenPayload = {
+      sub: linkId,
+      sid: sessionId,
+      scope: 'share',
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    };
+    return jwt.sign(payload, this.config.secret);
+  }
+
+  verifyShareToken(token: string): ShareTokenPayload {
+    const payload = jwt.verify(token, this.config.secret) as ShareTokenPayload;
+    if (payload.scope !== 'share') {
+      throw new Error('Not a share token');
+    }
+    return payload;
   }
 
   async hashPassword(password: string): Promise<string> {
@@ -0,0 +1,54 @@
+import { exec as execCallback } from 'child_process';
+import { promisify } from 'util';
+import { Session } from '../types/Session.js';
+import { SessionDiff } from '../types/Diff.js';
+import { sshConnectionManager } from './SSHConnectionManager.js';
+import { buildDiffCommand, DIFF_BASE_MARKER, ERROR_MARKER } from '../utils/git.js';
+import { parseUnifiedDiff } from '../utils/diff.js';
+
+const exec = promisify(execCallback);
+
+// Larger diffs are cut off; the viewer is for reviewing, not for transferring trees
+const MAX_DIFF_BYTES = 5 * 1024 * 1024;
+
+export interface DiffOptions {
+  /** Diff against the last commit before the session was created instead of HEAD */
+  sinceCreated?: boolean;
+}
+
+/**
+ * Working-tree diff of a session's directory, including untracked files,
+ * on whichever host the session runs
+ */
+export class DiffService {
+  /**
+   * Returns null when the session has no working directory or it is not
+   * inside a git repository
+   */
+  async getSessionDiff(session: Session, options: DiffOptions = {}): Promise<SessionDiff | null> {
+    if (!session.workingDirectory) return null;
+
+    const since = options.sinceCreated ? session.createdAt : undefined;
+    const command = buildDiffCommand(session.workingDirectory, since, MAX_DIFF_BYTES);
+    const output = session.host.type === 'local'
+      ? (await exec(command, { maxBuffer: MAX_DIFF_BYTES * 2 })).stdout
+      : await sshConnectionManager.exec(session.host.id, command);
+
+    if (output.startsWith(ERROR_MARKER) || !output.startsWith(DIFF_BASE_MARKER)) return null;
+
+    const newline = output.indexOf('\n');
+    const base = output.slice(DIFF_BASE_MARKER.length, newline);
+    const diff = output.slice(newline + 1);
+
+    return {
+      sessionId: session.id,
+      workingDirectory: session.workingDirectory,
+      base,
+      since,
+      files: parseUnifiedDiff(diff),
+      truncated: Buffer.byteLength(diff) >= MAX_DIFF_BYTES,
+    };
+  }
+}
+
+export const diffService = new DiffService();
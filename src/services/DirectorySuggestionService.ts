@@ -0,0 +1,86 @@
+import { exec as execCallback } from 'child_process';
+import { promisify } from 'util';
+import { DirectorySuggestion, DirectorySuggestionSource } from '../types/Host.js';
+import { sshConnectionManager } from './SSHConnectionManager.js';
+import { sessionDiscoveryService } from './SessionDiscoveryService.js';
+import {
+  buildDirListCommand,
+  normalizeDirPrefix,
+  parseDirList,
+  parseClaudeProjectDirs,
+  CLAUDE_PROJECT_DIRS_COMMAND,
+} from '../utils/dirs.js';
+
+const exec = promisify(execCallback);
+
+// Claude project folders change rarely; autocomplete asks on every keystroke
+const CLAUDE_DIRS_TTL_MS = 60 * 1000;
+const MAX_SUGGESTIONS = 50;
+
+/**
+ * Working directory completions for a host: directories of its current
+ * sessions and Claude projects that match the prefix, then the directories
+ * that exist under it, listed locally or over SSH
+ */
+export class DirectorySuggestionService {
+  private claudeDirs: Map<string, { dirs: string[]; fetchedAt: number }> = new Map();
+
+  private run(hostId: string, command: string): Promise<string> {
+    return hostId === 'local'
+      ? exec(command).then(result => result.stdout)
+      : sshConnectionManager.exec(hostId, command);
+  }
+
+  private async getClaudeProjectDirs(hostId: string): Promise<string[]> {
+    const cached = this.claudeDirs.get(hostId);
+    if (cached && Date.now() - cached.fetchedAt < CLAUDE_DIRS_TTL_MS) {
+      return cached.dirs;
+    }
+
+    const dirs = parseClaudeProjectDirs(await this.run(hostId, CLAUDE_PROJECT_DIRS_COMMAND));
+    this.claudeDirs.set(hostId, { dirs, fetchedAt: Date.now() });
+    return dirs;
+  }
+
+  /**
+   * Working directories of the host's sessions, most recently active first
+   */
+  private getSessionDirs(hostId: string): string[] {
+    return sessionDiscoveryService.getSessionsByHost(hostId)
+      .filter(session => session.workingDirectory)
+      .sort((a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt))
+      .map(session => session.workingDirectory!);
+  }
+
+  async suggest(hostId: string, prefix: string): Promise<DirectorySuggestion[]> {
+    const normalized = normalizeDirPrefix(prefix);
+    const [listing, claudeDirs] = await Promise.all([
+      this.run(hostId, buildDirListCommand(normalized)).then(parseDirList),
+      this.getClaudeProjectDirs(hostId).catch(() => [] as string[]),
+    ]);
+
+    const { home } = listing;
+    const useTilde = normalized.startsWith('~') && home !== null;
+    const absolutePrefix = useTilde ? home + normalized.slice(1) : normalized;
+    const display = (dir: string) =>
+      useTilde && (dir === home || dir.startsWith(`${home}/`)) ? `~${dir.slice(home!.length)}` : dir;
+
+    const suggestions: DirectorySuggestion[] = [];
+    const add = (dirs: string[], source: DirectorySuggestionSource) => {
+      for (const dir of dirs) {
+        if (!dir.startsWith(absolutePrefix)) continue;
+        const path = display(dir);
+        if (!suggestions.some(s => s.path === path)) {
+          suggestions.push({ path, source });
+        }
+      }
+    };
+
+    add(this.getSessionDirs(hostId), 'session');
+    add(claudeDirs, 'claude');
+    add(listing.dirs, 'filesystem');
+    return suggestions.slice(0, MAX_SUGGESTIONS);
+  }
+}
+
+export const directorySuggestionService = new DirectorySuggestionService();
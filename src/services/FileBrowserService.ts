@@ -0,0 +1,308 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { FileEntryWithStats, SFTPWrapper, Stats as SftpStats } from 'ssh2';
+import { Session } from '../types/Session.js';
+import { DirectoryListing, FileContent, FileEntry, FileEntryType } from '../types/File.js';
+import { sshConnectionManager } from './SSHConnectionManager.js';
+
+// Reads beyond this are cut off; the panel previews files, downloads fetch them whole
+const MAX_READ_BYTES = 1024 * 1024;
+// Uploads are buffered in memory before they are written
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+/**
+ * A file request that is refused or cannot be served; carries the HTTP
+ * status to answer with
+ */
+export class FileBrowserError extends Error {
+  constructor(message: string, readonly statusCode: number) {
+    super(message);
+    this.name = 'FileBrowserError';
+  }
+}
+
+interface EntryStats {
+  type: FileEntryType;
+  symlink: boolean;
+  size: number;
+  modifiedAt: Date;
+}
+
+/**
+ * File operations on the host a session runs on; remote hosts go through
+ * one SFTP session that close ends
+ */
+interface FileSystem {
+  realpath(target: string): Promise<string>;
+  /** Does not follow symlinks */
+  lstat(target: string): Promise<EntryStats>;
+  stat(target: string): Promise<EntryStats>;
+  readdir(dir: string): Promise<string[]>;
+  createReadStream(target: string, options?: { start: number; end: number }): Readable;
+  writeFile(target: string, data: Buffer): Promise<void>;
+  close(): void;
+}
+
+function toEntryStats(stats: fs.Stats | SftpStats): EntryStats {
+  const type: FileEntryType = stats.isDirectory() ? 'directory' : stats.isFile() ? 'file' : 'other';
+  return {
+    type,
+    symlink: stats.isSymbolicLink(),
+    size: stats.size,
+    // SFTP reports seconds
+    modifiedAt: typeof stats.mtime === 'number' ? new Date(stats.mtime * 1000) : stats.mtime,
+  };
+}
+
+const localFileSystem: FileSystem = {
+  realpath: target => fs.promises.realpath(target),
+  lstat: async target => toEntryStats(await fs.promises.lstat(target)),
+  stat: async target => toEntryStats(await fs.promises.stat(target)),
+  readdir: dir => fs.promises.readdir(dir),
+  createReadStream: (target, options) => fs.createReadStream(target, options),
+  writeFile: (target, data) => fs.promises.writeFile(target, data),
+  close: () => {},
+};
+
+function sftpFileSystem({ sftp, release }: { sftp: SFTPWrapper; release: () => void }): FileSystem {
+  const call = <T>(fn: (callback: (err: Error | undefined, result: T) => void) => void) =>
+    new Promise<T>((resolve, reject) => fn((err, result) => (err ? reject(err) : resolve(result))));
+  let closed = false;
+
+  return {
+    realpath: target => call<string>(callback => sftp.realpath(target, callback)),
+    lstat: async target => toEntryStats(await call<SftpStats>(callback => sftp.lstat(target, callback))),
+    stat: async target => toEntryStats(await call<SftpStats>(callback => sftp.stat(target, callback))),
+    readdir: async dir =>
+      (await call<FileEntryWithStats[]>(callback => sftp.readdir(dir, callback))).map(entry => entry.filename),
+    createReadStream: (target, options) => sftp.createReadStream(target, options),
+    writeFile: (target, data) =>
+      new Promise((resolve, reject) => sftp.writeFile(target, data, err => (err ? reject(err) : resolve()))),
+    close: () => {
+      if (closed) return;
+      closed = true;
+      // Free the pool slot now rather than when the server acknowledges the end
+      release();
+      sftp.end();
+    },
+  };
+}
+
+/**
+ * Map fs errno codes and SFTP status codes to HTTP-ready errors
+ */
+function toFileBrowserError(err: unknown): Error {
+  if (err instanceof FileBrowserError) return err;
+  const code = (err as { code?: string | number } | null)?.code;
+  if (code === 'ENOENT' || code === 'ENOTDIR' || code === 2) {
+    return new FileBrowserError('No such file or directory', 404);
+  }
+  if (code === 'EACCES' || code === 'EPERM' || code === 3) {
+    return new FileBrowserError('Permission denied', 403);
+  }
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+function isUnder(root: string, target: string): boolean {
+  return target === root || target.startsWith(root.endsWith('/') ? root : `${root}/`);
+}
+
+/**
+ * Absolute path of a path relative to root; a leading `/` is taken as root
+ */
+function resolveUnder(root: string, relativePath: string): string {
+  const target = path.posix.resolve(root, relativePath.replace(/^\/+/, ''));
+  if (!isUnder(root, target)) {
+    throw new FileBrowserError('Path is outside the working directory', 403);
+  }
+  return target;
+}
+
+function compareEntries(a: FileEntry, b: FileEntry): number {
+  if ((a.type === 'directory') !== (b.type === 'directory')) {
+    return a.type === 'directory' ? -1 : 1;
+  }
+  return a.name.localeCompare(b.name);
+}
+
+function readAll(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.once('end', () => resolve(Buffer.concat(chunks)));
+    stream.once('error', reject);
+  });
+}
+
+/**
+ * Files under a session's working directory, on whichever host the session
+ * runs: the local filesystem, or SFTP over the host's SSH connection. Paths
+ * are relative to the working directory and may not leave it, including
+ * through symlinks.
+ */
+export class FileBrowserService {
+  private async open(session: Session): Promise<{ fileSystem: FileSystem; root: string }> {
+    if (!session.workingDirectory) {
+      throw new FileBrowserError('Session has no working directory', 404);
+    }
+
+    const fileSystem = session.host.type === 'local'
+      ? localFileSystem
+      : sftpFileSystem(await sshConnectionManager.sftp(session.host.id));
+    try {
+      return { fileSystem, root: await fileSystem.realpath(session.workingDirectory) };
+    } catch (err) {
+      fileSystem.close();
+      throw toFileBrowserError(err);
+    }
+  }
+
+  private async withFileSystem<T>(session: Session, fn: (fileSystem: FileSystem, root: string) => Promise<T>): Promise<T> {
+    const { fileSystem, root } = await this.open(session);
+    try {
+      return await fn(fileSystem, root);
+    } catch (err) {
+      throw toFileBrowserError(err);
+    } finally {
+      fileSystem.close();
+    }
+  }
+
+  /**
+   * Resolve symlinks in a relative path and refuse it if it ends up outside root
+   */
+  private async resolveReal(fileSystem: FileSystem, root: string, relativePath: string): Promise<string> {
+    const real = await fileSystem.realpath(resolveUnder(root, relativePath));
+    if (!isUnder(root, real)) {
+      throw new FileBrowserError('Path is outside the working directory', 403);
+    }
+    return real;
+  }
+
+  async list(session: Session, relativePath = ''): Promise<DirectoryListing> {
+    return this.withFileSystem(session, async (fileSystem, root) => {
+      const dir = await this.resolveReal(fileSystem, root, relativePath);
+      if ((await fileSystem.stat(dir)).type !== 'directory') {
+        throw new FileBrowserError('Not a directory', 400);
+      }
+
+      const entries: FileEntry[] = [];
+      for (const name of await fileSystem.readdir(dir)) {
+        if (name === '.' || name === '..') continue;
+        const entryPath = path.posix.join(dir, name);
+        try {
+          const stats = await fileSystem.lstat(entryPath);
+          // Symlinks are listed as what they point to
+          const target = stats.symlink ? await fileSystem.stat(entryPath).catch(() => null) : stats;
+          entries.push({
+            name,
+            path: path.posix.relative(root, entryPath),
+            type: target?.type ?? 'other',
+            symlink: stats.symlink,
+            size: (target ?? stats).size,
+            modifiedAt: (target ?? stats).modifiedAt.toISOString(),
+          });
+        } catch {
+          // Removed while listing
+        }
+      }
+
+      return {
+        sessionId: session.id,
+        workingDirectory: session.workingDirectory!,
+        path: path.posix.relative(root, dir),
+        entries: entries.sort(compareEntries),
+      };
+    });
+  }
+
+  /**
+   * Text of a file up to the read limit
+   */
+  async read(session: Session, relativePath: string): Promise<FileContent> {
+    return this.withFileSystem(session, async (fileSystem, root) => {
+      const file = await this.resolveReal(fileSystem, root, relativePath);
+      const stats = await fileSystem.stat(file);
+      if (stats.type !== 'file') {
+        throw new FileBrowserError('Not a file', 400);
+      }
+
+      const length = Math.min(stats.size, MAX_READ_BYTES);
+      const data = length > 0
+        ? await readAll(fileSystem.createReadStream(file, { start: 0, end: length - 1 }))
+        : Buffer.alloc(0);
+      const binary = data.includes(0);
+
+      return {
+        path: path.posix.relative(root, resolveUnder(root, relativePath)),
+        size: stats.size,
+        content: binary ? '' : data.toString('utf-8'),
+        binary,
+        truncated: stats.size > MAX_READ_BYTES,
+      };
+    });
+  }
+
+  /**
+   * Stream a whole file; the SFTP session stays open until the stream closes
+   */
+  async download(session: Session, relativePath: string): Promise<{ name: string; size: number; stream: Readable }> {
+    const { fileSystem, root } = await this.open(session);
+    try {
+      const file = await this.resolveReal(fileSystem, root, relativePath);
+      const stats = await fileSystem.stat(file);
+      if (stats.type !== 'file') {
+        throw new FileBrowserError('Not a file', 400);
+      }
+
+      const stream = fileSystem.createReadStream(file);
+      stream.once('close', () => fileSystem.close());
+      stream.once('error', () => fileSystem.close());
+      return { name: path.posix.basename(resolveUnder(root, relativePath)), size: stats.size, stream };
+    } catch (err) {
+      fileSystem.close();
+      throw toFileBrowserError(err);
+    }
+  }
+
+  /**
+   * Write a file into an existing directory. An existing file is only
+   * replaced with overwrite, and never through a symlink leading outside.
+   */
+  async upload(session: Session, relativePath: string, data: Buffer, overwrite = false): Promise<FileEntry> {
+    return this.withFileSystem(session, async (fileSystem, root) => {
+      const requested = resolveUnder(root, relativePath);
+      if (requested === root) {
+        throw new FileBrowserError('A file name is required', 400);
+      }
+
+      const dir = await this.resolveReal(fileSystem, root, path.posix.dirname(path.posix.relative(root, requested)));
+      let target = path.posix.join(dir, path.posix.basename(requested));
+
+      const existing = await fileSystem.lstat(target).catch(() => null);
+      if (existing) {
+        if (!overwrite) {
+          throw new FileBrowserError('File already exists', 409);
+        }
+        target = await this.resolveReal(fileSystem, root, path.posix.relative(root, target));
+        if ((await fileSystem.stat(target)).type !== 'file') {
+          throw new FileBrowserError('Not a file', 400);
+        }
+      }
+
+      await fileSystem.writeFile(target, data);
+      const stats = await fileSystem.stat(target);
+      return {
+        name: path.posix.basename(requested),
+        path: path.posix.relative(root, requested),
+        type: stats.type,
+        symlink: existing?.symlink ?? false,
+        size: stats.size,
+        modifiedAt: stats.modifiedAt.toISOString(),
+      };
+    });
+  }
+}
+
+export const fileBrowserService = new FileBrowserService();
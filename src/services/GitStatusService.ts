@@ -0,0 +1,84 @@
+import { exec as execCallback } from 'child_process';
+import { promisify } from 'util';
+import { GitStatus } from '../types/Session.js';
+import { sshConnectionManager } from './SSHConnectionManager.js';
+import { buildGitStatusCommand, parseGitStatusOutput } from '../utils/git.js';
+
+const exec = promisify(execCallback);
+
+// Discovery runs every few seconds; git state is probed at most this often per directory
+const CACHE_TTL_MS = 10 * 1000;
+
+interface CachedGitStatus {
+  status: GitStatus | null;
+  probedAt: number;
+}
+
+/**
+ * Git branch, ahead/behind, dirty file count and last commit of session
+ * working directories. Each host is probed with one command for all of its
+ * stale directories, and results are cached between discovery polls.
+ */
+export class GitStatusService {
+  /** Keyed by `${hostId}:${workingDirectory}` */
+  private cache: Map<string, CachedGitStatus> = new Map();
+  /** Probe in flight per host, shared by overlapping discoveries */
+  private probes: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Git state of each directory on a host, null outside a repository.
+   * Directories whose probe failed are left out.
+   */
+  async getStatuses(hostId: string, workingDirectories: string[]): Promise<Map<string, GitStatus | null>> {
+    const now = Date.now();
+    const stale = [...new Set(workingDirectories)].filter(dir => {
+      const cached = this.cache.get(`${hostId}:${dir}`);
+      return !cached || now - cached.probedAt >= CACHE_TTL_MS;
+    });
+
+    if (stale.length > 0) {
+      await this.probe(hostId, stale);
+    }
+
+    const result = new Map<string, GitStatus | null>();
+    for (const dir of workingDirectories) {
+      const cached = this.cache.get(`${hostId}:${dir}`);
+      if (cached) {
+        result.set(dir, cached.status);
+      }
+    }
+    return result;
+  }
+
+  private async probe(hostId: string, workingDirectories: string[]): Promise<void> {
+    const inFlight = this.probes.get(hostId);
+    if (inFlight) {
+      await inFlight;
+      return;
+    }
+
+    const probe = this.runProbe(hostId, workingDirectories).finally(() => {
+      this.probes.delete(hostId);
+    });
+    this.probes.set(hostId, probe);
+    await probe;
+  }
+
+  private async runProbe(hostId: string, workingDirectories: string[]): Promise<void> {
+    const command = buildGitStatusCommand(workingDirectories);
+    try {
+      const output = hostId === 'local'
+        ? (await exec(command, { maxBuffer: 1024 * 1024 })).stdout
+        : await sshConnectionManager.exec(hostId, command);
+
+      const probedAt = Date.now();
+      for (const [dir, status] of parseGitStatusOutput(output)) {
+        this.cache.set(`${hostId}:${dir}`, { status, probedAt });
+      }
+    } catch (err) {
+      console.warn(`[Git] Failed to probe ${hostId}:`, err instanceof Error ? err.message : err);
+    }
+  }
+}
+
+export const gitStatusService = new GitStatusService();
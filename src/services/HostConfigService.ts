@@ -1,10 +1,38 @@
 import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
-import { SSHHostConfig, HostsConfig, loadHostsConfig } from '../config/hosts.js';
+import {
+  SSHHostConfig,
+  JumpHostConfig,
+  HostsConfig,
+  PublicSSHHostConfig,
+  loadHostsConfig,
+  getJumpChain,
+  findHostsConfigPath,
+} from '../config/hosts.js';
 import { sshConnectionManager } from './SSHConnectionManager.js';
+import { secretVaultService } from './SecretVaultService.js';
+import { SshConfigEntry, parseSshConfig, readUserSshConfig } from '../utils/sshConfig.js';
+
+export interface SshConfigImportEntry extends SshConfigEntry {
+  /** A host with the same id is already configured */
+  exists: boolean;
+}
 
 const CONFIG_PATH = process.cwd() + '/config/hosts.json';
 
+/**
+ * The host and its jump hosts, each of which can hold a password and passphrase
+ */
+function secretHolders(config: SSHHostConfig): (SSHHostConfig | JumpHostConfig)[] {
+  return [config, ...getJumpChain(config)];
+}
+
+function secretIdsOf(config: SSHHostConfig): string[] {
+  return secretHolders(config)
+    .flatMap(holder => [holder.passwordSecretId, holder.passphraseSecretId])
+    .filter((id): id is string => !!id);
+}
+
 export class HostConfigService {
   /**
    * Add a new SSH host configuration
@@ -20,6 +48,7 @@ export class HostConfigService {
     // Validate required fields
     this.validateHostConfig(config);
 
+    this.sealSecrets(config);
     hostsConfig.hosts.push(config);
     this.saveConfig(hostsConfig);
   }
@@ -40,11 +69,14 @@ export class HostConfigService {
       throw new Error('Cannot change host ID');
     }
 
+    const previousSecretIds = secretIdsOf(hostsConfig.hosts[hostIndex]);
     const updatedHost = { ...hostsConfig.hosts[hostIndex], ...updates };
     this.validateHostConfig(updatedHost);
 
+    this.sealSecrets(updatedHost);
     hostsConfig.hosts[hostIndex] = updatedHost;
     this.saveConfig(hostsConfig);
+    this.releaseSecrets(previousSecretIds, hostsConfig);
 
     // Disconnect existing connection to force reconnect with new config
     if (sshConnectionManager.isConnected(id)) {
@@ -63,8 +95,9 @@ export class HostConfigService {
       throw new Error(`Host with ID '${id}' not found`);
     }
 
-    hostsConfig.hosts.splice(hostIndex, 1);
+    const [deleted] = hostsConfig.hosts.splice(hostIndex, 1);
     this.saveConfig(hostsConfig);
+    this.releaseSecrets(secretIdsOf(deleted), hostsConfig);
 
     // Disconnect if connected
     if (sshConnectionManager.isConnected(id)) {
@@ -72,10 +105,163 @@ export class HostConfigService {
     }
   }
 
+  /**
+   * A host without secret values, for API responses
+   */
+  toPublicHost(config: SSHHostConfig): PublicSSHHostConfig {
+    const { password: _password, passphrase: _passphrase, jumpHost, ...host } = config;
+    const hops = getJumpChain(config).map(({ password: _hopPassword, passphrase: _hopPassphrase, ...hop }) => hop);
+    if (!jumpHost) return host;
+    return { ...host, jumpHost: Array.isArray(jumpHost) ? hops : hops[0] };
+  }
+
+  /**
+   * Ids of the hosts that reference a vault secret
+   */
+  getHostsUsingSecret(secretId: string): string[] {
+    return loadHostsConfig().hosts.filter(host => secretIdsOf(host).includes(secretId)).map(host => host.id);
+  }
+
+  /**
+   * Move plaintext passwords and passphrases of every configured host into
+   * the vault. Returns the ids of the hosts that had any.
+   */
+  migrateSecretsToVault(): string[] {
+    const hostsConfig = loadHostsConfig();
+    const migrated = hostsConfig.hosts.filter(host => this.sealSecrets(host)).map(host => host.id);
+    if (migrated.length > 0) {
+      // Rewrite the file the plaintext came from
+      this.saveConfig(hostsConfig, findHostsConfigPath());
+    }
+    return migrated;
+  }
+
+  /**
+   * Replace plaintext passwords and passphrases of a host with vault
+   * secrets. Returns whether anything was moved.
+   */
+  private sealSecrets(config: SSHHostConfig): boolean {
+    let sealed = false;
+
+    for (const holder of secretHolders(config)) {
+      const label = holder === config ? config.name : `${config.name} via ${holder.hostname}`;
+
+      if (holder.password !== undefined) {
+        if (holder.password) {
+          holder.passwordSecretId = secretVaultService.create(`${label} password`, holder.password).id;
+          sealed = true;
+        }
+        delete holder.password;
+      }
+
+      if (holder.passphrase !== undefined) {
+        if (holder.passphrase) {
+          holder.passphraseSecretId = secretVaultService.create(`${label} passphrase`, holder.passphrase).id;
+          sealed = true;
+        }
+        delete holder.passphrase;
+      }
+    }
+
+    return sealed;
+  }
+
+  /**
+   * Secrets a config may not use. A secret is only handed to the endpoint
+   * (user, hostname and port) of a stored host that already uses it, so a
+   * config cannot send a stored password to a server of its choosing. The
+   * config's id is not trusted: moving a host to another endpoint needs its
+   * secrets entered again.
+   */
+  private checkSecretReferences(config: SSHHostConfig): string[] {
+    const endpointOf = (holder: SSHHostConfig | JumpHostConfig) =>
+      `${holder.username}@${holder.hostname}:${holder.port ?? 22}`;
+
+    const ownerEndpoints = new Map<string, Set<string>>();
+    for (const host of loadHostsConfig().hosts) {
+      for (const holder of secretHolders(host)) {
+        for (const id of [holder.passwordSecretId, holder.passphraseSecretId]) {
+          if (!id) continue;
+          const endpoints = ownerEndpoints.get(id) ?? new Set<string>();
+          endpoints.add(endpointOf(holder));
+          ownerEndpoints.set(id, endpoints);
+        }
+      }
+    }
+
+    const errors: string[] = [];
+    for (const holder of secretHolders(config)) {
+      for (const id of [holder.passwordSecretId, holder.passphraseSecretId]) {
+        if (!id) continue;
+        if (!secretVaultService.has(id)) {
+          errors.push(`Unknown secret: ${id}`);
+        } else if (!ownerEndpoints.get(id)?.has(endpointOf(holder))) {
+          errors.push(`Secret ${id} is not stored for ${endpointOf(holder)}; enter it again`);
+        }
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Delete vault secrets that no configured host references any more
+   */
+  private releaseSecrets(secretIds: string[], hostsConfig: HostsConfig): void {
+    const inUse = new Set(hostsConfig.hosts.flatMap(secretIdsOf));
+    for (const id of secretIds) {
+      if (!inUse.has(id)) {
+        secretVaultService.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Hosts found in an OpenSSH config (the server user's ~/.ssh/config
+   * unless content is given), marked when they are already configured
+   */
+  previewSshConfigImport(content?: string): SshConfigImportEntry[] {
+    const existingIds = new Set(loadHostsConfig().hosts.map(h => h.id));
+    const entries = content !== undefined ? parseSshConfig(content) : readUserSshConfig();
+    return entries.map(entry => ({ ...entry, exists: existingIds.has(entry.host.id) }));
+  }
+
+  /**
+   * Add the selected aliases of an OpenSSH config as hosts
+   */
+  async importFromSshConfig(
+    aliases: string[],
+    content?: string
+  ): Promise<{ imported: string[]; failed: { alias: string; error: string }[] }> {
+    const entries = new Map(this.previewSshConfigImport(content).map(entry => [entry.alias, entry]));
+    const imported: string[] = [];
+    const failed: { alias: string; error: string }[] = [];
+
+    for (const alias of aliases) {
+      const entry = entries.get(alias);
+      if (!entry) {
+        failed.push({ alias, error: 'Not found in SSH config' });
+        continue;
+      }
+      try {
+        await this.addHost(entry.host);
+        imported.push(entry.host.id);
+      } catch (err) {
+        failed.push({ alias, error: err instanceof Error ? err.message : 'Failed to add host' });
+      }
+    }
+
+    return { imported, failed };
+  }
+
   /**
    * Test SSH connection to a host
    */
   async testConnection(config: SSHHostConfig): Promise<{ success: boolean; error?: string }> {
+    const secretErrors = this.checkSecretReferences(config);
+    if (secretErrors.length > 0) {
+      return { success: false, error: secretErrors.join(', ') };
+    }
+
     // Use the direct connection test method that doesn't require saving to disk
     return await sshConnectionManager.testConnectionDirect(config);
   }
@@ -106,6 +292,8 @@ export class HostConfigService {
       errors.push('Port must be between 1 and 65535');
     }
 
+    errors.push(...this.checkSecretReferences(config));
+
     // Ensure port has a default value
     if (!config.port) {
       config.port = 22;
@@ -119,16 +307,16 @@ export class HostConfigService {
   /**
    * Save configuration to disk
    */
-  private saveConfig(config: HostsConfig): void {
+  private saveConfig(config: HostsConfig, configPath: string = CONFIG_PATH): void {
     try {
       // Ensure config directory exists
-      const configDir = dirname(CONFIG_PATH);
+      const configDir = dirname(configPath);
       if (!existsSync(configDir)) {
         mkdirSync(configDir, { recursive: true });
       }
 
       // Write config file with formatting
-      writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2), 'utf-8');
+      writeFileSync(configPath, JSON.stringify(config, null, 2), 'utf-8');
     } catch (err) {
       throw new Error(`Failed to save configuration: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
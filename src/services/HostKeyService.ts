@@ -0,0 +1,260 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { HostKeyRecord } from '../types/Host.js';
+import { findKnownHostKeys, formatKnownHostsLine, knownHostsName, toHostKey } from '../utils/knownHosts.js';
+
+export const HOST_KEY_MISMATCH = 'HOST_KEY_MISMATCH';
+
+/**
+ * A host presented a key other than the trusted ones; carries
+ * HOST_KEY_MISMATCH as its code so callers can tell it from other failures
+ */
+export class HostKeyMismatchError extends Error {
+  readonly code = HOST_KEY_MISMATCH;
+
+  constructor(readonly hostname: string, readonly port: number, presentedFingerprint?: string) {
+    super(
+      `Host key for ${knownHostsName(hostname, port)} has changed` +
+      (presentedFingerprint ? ` (presented ${presentedFingerprint})` : '') +
+      '; review it in host management before connecting'
+    );
+    this.name = 'HostKeyMismatchError';
+  }
+}
+
+interface Endpoint {
+  hostname: string;
+  port: number;
+}
+
+/**
+ * Trusted SSH host keys. The first key a host presents is recorded and later
+ * connections must present one of the recorded keys; a different key is kept
+ * as a pending mismatch until it is accepted or the record is rotated.
+ */
+export class HostKeyService {
+  private storePath: string;
+  /** known_hosts export for the system ssh binary, rewritten on every save */
+  private knownHostsPath: string;
+  private records: Record<string, HostKeyRecord> = {};
+
+  constructor() {
+    const dir = path.join(os.homedir(), '.session-manager');
+    this.storePath = path.join(dir, 'host-keys.json');
+    this.knownHostsPath = path.join(dir, 'known_hosts');
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.storePath)) {
+        this.records = JSON.parse(fs.readFileSync(this.storePath, 'utf-8'));
+      }
+    } catch (err) {
+      console.error('Failed to load host keys:', err);
+      this.records = {};
+    }
+  }
+
+  private save(): void {
+    try {
+      const dir = path.dirname(this.storePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      const tempPath = `${this.storePath}.tmp`;
+      // Owner-only, like users.json: the records decide which servers are trusted
+      fs.writeFileSync(tempPath, JSON.stringify(this.records, null, 2), { encoding: 'utf-8', mode: 0o600 });
+      fs.renameSync(tempPath, this.storePath);
+
+      const lines = Object.values(this.records).flatMap(record =>
+        record.keys.map(key => formatKnownHostsLine(record.hostname, record.port, key))
+      );
+      fs.writeFileSync(this.knownHostsPath, lines.length > 0 ? `${lines.join('\n')}\n` : '', 'utf-8');
+    } catch (err) {
+      console.error('Failed to save host keys:', err);
+    }
+  }
+
+  private recordId(hostname: string, port: number): string {
+    return knownHostsName(hostname.toLowerCase(), port);
+  }
+
+  get(hostname: string, port: number): HostKeyRecord | null {
+    return this.records[this.recordId(hostname, port)] ?? null;
+  }
+
+  /**
+   * Check a presented key, trusting it on first use
+   */
+  verify(hostname: string, port: number, blob: Buffer): boolean {
+    const id = this.recordId(hostname, port);
+    const presented = toHostKey(blob);
+    const record = this.records[id];
+    const now = new Date().toISOString();
+
+    if (!record) {
+      this.records[id] = { hostname, port, keys: [presented], source: 'first-use', updatedAt: now };
+      this.save();
+      console.log(`Recorded host key for ${id}: ${presented.fingerprint}`);
+      return true;
+    }
+
+    if (record.keys.some(key => key.key === presented.key)) {
+      return true;
+    }
+
+    record.mismatch = { ...presented, seenAt: now };
+    this.save();
+    console.warn(`Host key mismatch for ${id}: presented ${presented.fingerprint}`);
+    return false;
+  }
+
+  /**
+   * A hostVerifier for ssh2 connect options
+   */
+  hostVerifier(hostname: string, port: number): (key: Buffer) => boolean {
+    return (key: Buffer) => this.verify(hostname, port, key);
+  }
+
+  /**
+   * Replace ssh2's generic verification failure with a HostKeyMismatchError
+   */
+  explainError(err: Error, hostname: string, port: number): Error {
+    if (!/^Host denied/.test(err.message)) return err;
+    const mismatch = this.get(hostname, port)?.mismatch;
+    return mismatch ? new HostKeyMismatchError(hostname, port, mismatch.fingerprint) : err;
+  }
+
+  /**
+   * Trust the key behind a pending mismatch in place of the recorded ones.
+   * When only the system ssh binary saw it, the key is unknown and the next
+   * connection records whatever the host presents.
+   */
+  accept(hostname: string, port: number): HostKeyRecord | null {
+    const id = this.recordId(hostname, port);
+    const mismatch = this.records[id]?.mismatch;
+    if (!mismatch) {
+      throw new Error(`No changed host key pending for ${id}`);
+    }
+
+    if (mismatch.keyType && mismatch.key && mismatch.fingerprint) {
+      this.records[id] = {
+        hostname,
+        port,
+        keys: [{ keyType: mismatch.keyType, key: mismatch.key, fingerprint: mismatch.fingerprint }],
+        source: 'accepted',
+        updatedAt: new Date().toISOString(),
+      };
+    } else {
+      delete this.records[id];
+    }
+    this.save();
+    return this.records[id] ?? null;
+  }
+
+  /**
+   * Drop the trusted keys of a host so the next connection records its new key
+   */
+  rotate(hostname: string, port: number): void {
+    delete this.records[this.recordId(hostname, port)];
+    this.save();
+  }
+
+  /**
+   * Trust the keys the server user's ~/.ssh/known_hosts lists for the given
+   * hosts. Returns the hosts that gained keys.
+   */
+  importKnownHosts(endpoints: Endpoint[]): Endpoint[] {
+    const userKnownHosts = path.join(os.homedir(), '.ssh', 'known_hosts');
+    if (!fs.existsSync(userKnownHosts)) return [];
+    const content = fs.readFileSync(userKnownHosts, 'utf-8');
+
+    const imported: Endpoint[] = [];
+    for (const { hostname, port } of endpoints) {
+      if (this.mergeKeys(hostname, port, content, 'known_hosts')) {
+        imported.push({ hostname, port });
+      }
+    }
+    if (imported.length > 0) {
+      this.save();
+    }
+    return imported;
+  }
+
+  private mergeKeys(hostname: string, port: number, content: string, source: HostKeyRecord['source']): boolean {
+    const keys = findKnownHostKeys(content, hostname, port);
+    const id = this.recordId(hostname, port);
+    const record = this.records[id];
+    const now = new Date().toISOString();
+
+    if (!record) {
+      if (keys.length === 0) return false;
+      this.records[id] = { hostname, port, keys, source, updatedAt: now };
+      return true;
+    }
+
+    // A pending mismatch is only resolved by accept or rotate
+    if (record.mismatch) return false;
+
+    const added = keys.filter(key => !record.keys.some(existing => existing.key === key.key));
+    if (added.length === 0) return false;
+    record.keys.push(...added);
+    record.updatedAt = now;
+    return true;
+  }
+
+  /**
+   * Options that make the system ssh binary check keys against this store;
+   * unknown hosts are added to the export and picked up by syncNativeKeys
+   */
+  nativeSshOptions(): string[] {
+    return [
+      '-o', `UserKnownHostsFile=${this.knownHostsPath}`,
+      '-o', 'StrictHostKeyChecking=accept-new',
+      '-o', 'HashKnownHosts=no',
+      '-o', 'UpdateHostKeys=no',
+    ];
+  }
+
+  /**
+   * Record keys the system ssh binary accepted on first use
+   */
+  syncNativeKeys(endpoints: Endpoint[]): void {
+    if (!fs.existsSync(this.knownHostsPath)) return;
+    const content = fs.readFileSync(this.knownHostsPath, 'utf-8');
+
+    let changed = false;
+    for (const { hostname, port } of endpoints) {
+      if (!this.get(hostname, port)) {
+        changed = this.mergeKeys(hostname, port, content, 'first-use') || changed;
+      }
+    }
+    if (changed) {
+      this.save();
+    }
+  }
+
+  /**
+   * Recognise ssh's changed-host-key refusal in its output and record the
+   * mismatch against the host it names
+   */
+  detectNativeMismatch(output: string, endpoints: Endpoint[]): HostKeyMismatchError | null {
+    const match = output.match(/Host key for (\S+) has changed/);
+    if (!match) return null;
+
+    const endpoint = endpoints.find(e => knownHostsName(e.hostname, e.port).toLowerCase() === match[1].toLowerCase());
+    if (!endpoint) return null;
+
+    const fingerprint = output.match(/(SHA256:[A-Za-z0-9+/]+)/)?.[1];
+    const record = this.get(endpoint.hostname, endpoint.port);
+    if (record) {
+      record.mismatch = { fingerprint, seenAt: new Date().toISOString() };
+      this.save();
+    }
+    return new HostKeyMismatchError(endpoint.hostname, endpoint.port, fingerprint);
+  }
+}
+
+export const hostKeyService = new HostKeyService();
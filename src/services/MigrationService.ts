@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { WorkspaceStorage } from './WorkspaceStorage.js';
+import { hostConfigService } from './HostConfigService.js';
 
 export class MigrationService {
   private readonly migrationPath: string;
@@ -20,6 +21,12 @@ export class MigrationService {
       state.v1_default_workspace = true;
       this.saveMigrationState(state);
     }
+
+    if (!state.v2_host_secrets_vault) {
+      this.migrateV2HostSecretsVault();
+      state.v2_host_secrets_vault = true;
+      this.saveMigrationState(state);
+    }
   }
 
   private async migrateV1DefaultWorkspace(): Promise<void> {
@@ -35,6 +42,14 @@ export class MigrationService {
     }
   }
 
+  private migrateV2HostSecretsVault(): void {
+    // Move plaintext host passwords and passphrases into the encrypted vault
+    const migrated = hostConfigService.migrateSecretsToVault();
+    if (migrated.length > 0) {
+      console.log(`[Migration] Moved secrets of ${migrated.length} host(s) into the vault: ${migrated.join(', ')}`);
+    }
+  }
+
   private loadMigrationState(): Record<string, boolean> {
     try {
       if (fs.existsSync(this.migrationPath)) {
@@ -0,0 +1,252 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFile } from 'child_process';
+import { ClaudeOperationStatus, Session } from '../types/Session.js';
+import {
+  NotificationChannel,
+  NotificationEvent,
+  NotificationRule,
+  NotificationSettings,
+  SessionNotification,
+  UpdateNotificationSettingsRequest,
+} from '../types/Notification.js';
+import { sessionDiscoveryService } from './SessionDiscoveryService.js';
+
+// Status can be reported by discovery polling, status polling and a live terminal bridge;
+// suppress repeats of the same event for a session within this window
+const REPEAT_COOLDOWN_MS = 30000;
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+const EVENT_TITLES: Record<NotificationEvent, string> = {
+  waiting_for_input: 'Claude is waiting for input',
+  error: 'Claude hit an error',
+};
+
+const DEFAULT_SETTINGS: NotificationSettings = {
+  webhookUrl: null,
+  defaultRule: {
+    enabled: true,
+    events: ['waiting_for_input', 'error'],
+    channels: ['browser'],
+  },
+  workspaceRules: {},
+};
+
+type NotificationListener = (notification: SessionNotification) => void;
+
+/**
+ * Watches Claude status transitions of managed sessions and delivers
+ * notifications according to the per-workspace rules.
+ */
+export class NotificationService {
+  private settingsPath: string;
+  private settings: NotificationSettings = structuredClone(DEFAULT_SETTINGS);
+  private lastStatus: Map<string, ClaudeOperationStatus> = new Map();
+  private lastNotifiedAt: Map<string, number> = new Map();
+  private listeners: Set<NotificationListener> = new Set();
+  private notifySendMissing = false;
+
+  constructor() {
+    this.settingsPath = path.join(os.homedir(), '.session-manager', 'notifications.json');
+    this.load();
+
+    sessionDiscoveryService.onSessionsChange((sessions) => {
+      this.handleSessions(sessions);
+    });
+
+    // Status subscriptions and terminal bridges report transitions between polls
+    sessionDiscoveryService.onStatusChange((update) => {
+      const session = sessionDiscoveryService.getSession(update.sessionId);
+      if (session && update.claudeStatus) {
+        this.handleStatus(session, update.claudeStatus);
+      }
+    });
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.settingsPath)) {
+        const data = fs.readFileSync(this.settingsPath, 'utf-8');
+        this.settings = { ...structuredClone(DEFAULT_SETTINGS), ...JSON.parse(data) };
+      }
+    } catch (err) {
+      console.error('Failed to load notification settings:', err);
+      this.settings = structuredClone(DEFAULT_SETTINGS);
+    }
+  }
+
+  private save(): void {
+    try {
+      const dir = path.dirname(this.settingsPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      const tempPath = `${this.settingsPath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.settings, null, 2), 'utf-8');
+      fs.renameSync(tempPath, this.settingsPath);
+    } catch (err) {
+      console.error('Failed to save notification settings:', err);
+    }
+  }
+
+  private generateId(): string {
+    return `nt_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  getSettings(): NotificationSettings {
+    return structuredClone(this.settings);
+  }
+
+  updateSettings(request: UpdateNotificationSettingsRequest): NotificationSettings {
+    if (request.webhookUrl !== undefined) {
+      this.settings.webhookUrl = request.webhookUrl || null;
+    }
+    if (request.defaultRule) {
+      this.settings.defaultRule = request.defaultRule;
+    }
+    this.save();
+    return this.getSettings();
+  }
+
+  setWorkspaceRule(workspaceId: string, rule: NotificationRule): NotificationSettings {
+    this.settings.workspaceRules[workspaceId] = rule;
+    this.save();
+    return this.getSettings();
+  }
+
+  /**
+   * Remove a workspace's rule so it falls back to the default rule
+   */
+  deleteWorkspaceRule(workspaceId: string): boolean {
+    if (!this.settings.workspaceRules[workspaceId]) return false;
+    delete this.settings.workspaceRules[workspaceId];
+    this.save();
+    return true;
+  }
+
+  onNotification(listener: NotificationListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private handleSessions(sessions: Session[]): void {
+    const seen = new Set<string>();
+    for (const session of sessions) {
+      seen.add(session.id);
+      if (session.isClaudeSession && session.claudeStatus) {
+        this.handleStatus(session, session.claudeStatus);
+      }
+    }
+
+    for (const sessionId of this.lastStatus.keys()) {
+      if (!seen.has(sessionId)) {
+        this.lastStatus.delete(sessionId);
+      }
+    }
+  }
+
+  private handleStatus(session: Session, status: ClaudeOperationStatus): void {
+    const previous = this.lastStatus.get(session.id);
+    this.lastStatus.set(session.id, status);
+
+    // The first status seen for a session is its starting point, not a transition
+    if (previous === undefined || previous === status) return;
+    if (status !== 'waiting_for_input' && status !== 'error') return;
+
+    const rule = this.getRule(session.workspaceId);
+    if (!rule.enabled || !rule.events.includes(status)) return;
+
+    const cooldownKey = `${session.id}:${status}`;
+    const now = Date.now();
+    if (now - (this.lastNotifiedAt.get(cooldownKey) ?? 0) < REPEAT_COOLDOWN_MS) return;
+    this.lastNotifiedAt.set(cooldownKey, now);
+
+    this.deliver(this.buildNotification(session, status), rule.channels);
+  }
+
+  private getRule(workspaceId: string | null): NotificationRule {
+    return (workspaceId && this.settings.workspaceRules[workspaceId]) || this.settings.defaultRule;
+  }
+
+  private buildNotification(session: Session, event: NotificationEvent): SessionNotification {
+    return {
+      id: this.generateId(),
+      sessionId: session.id,
+      sessionName: session.name,
+      hostId: session.host.id,
+      workspaceId: session.workspaceId,
+      event,
+      title: EVENT_TITLES[event],
+      message: `${session.name} on ${session.host.displayName}`,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Send a sample notification through the given channels
+   */
+  sendTest(channels: NotificationChannel[]): SessionNotification {
+    const notification: SessionNotification = {
+      id: this.generateId(),
+      sessionId: '',
+      sessionName: 'test',
+      hostId: 'local',
+      workspaceId: null,
+      event: 'waiting_for_input',
+      title: 'Test notification',
+      message: 'Notifications are working',
+      timestamp: new Date().toISOString(),
+    };
+    this.deliver(notification, channels);
+    return notification;
+  }
+
+  private deliver(notification: SessionNotification, channels: NotificationChannel[]): void {
+    if (channels.includes('browser')) {
+      for (const listener of this.listeners) {
+        listener(notification);
+      }
+    }
+    if (channels.includes('webhook') && this.settings.webhookUrl) {
+      this.sendWebhook(this.settings.webhookUrl, notification);
+    }
+    if (channels.includes('desktop')) {
+      this.sendDesktop(notification);
+    }
+  }
+
+  private sendWebhook(url: string, notification: SessionNotification): void {
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(notification),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    })
+      .then((response) => {
+        if (!response.ok) {
+          console.warn(`[NotificationService] Webhook responded with ${response.status}`);
+        }
+      })
+      .catch((err) => {
+        console.warn('[NotificationService] Webhook delivery failed:', err instanceof Error ? err.message : err);
+      });
+  }
+
+  private sendDesktop(notification: SessionNotification): void {
+    if (this.notifySendMissing) return;
+
+    execFile('notify-send', ['--app-name=session-manager', notification.title, notification.message], (err) => {
+      if (!err) return;
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        // Headless hosts usually lack notify-send; warn once instead of on every event
+        this.notifySendMissing = true;
+        console.warn('[NotificationService] notify-send not found, desktop notifications disabled');
+      } else {
+        console.warn('[NotificationService] notify-send failed:', err.message);
+      }
+    });
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,215 @@
+import { exec as execCallback } from 'child_process';
+import { promisify } from 'util';
+import { Session, ClaudeOperationStatus } from '../types/Session.js';
+import { sshConnectionManager } from './SSHConnectionManager.js';
+import { ClaudeStatusDetector } from '../utils/ClaudeStatusDetector.js';
+import { shellQuote } from '../utils/tmux.js';
+
+const exec = promisify(execCallback);
+
+const POLL_INTERVAL_MS = 1000;
+// Consecutive waiting_for_input polls before an input is typed
+const READY_POLLS = 2;
+// After typing, assume the turn already finished if Claude never looked busy
+const TURN_START_TIMEOUT_MS = 30 * 1000;
+// Give up on a script if Claude has not asked for the next input by then
+const STEP_TIMEOUT_MS = 60 * 60 * 1000;
+// Consecutive failed polls (SSH hiccups, slow tmux) before a script is dropped
+const MAX_POLL_FAILURES = 5;
+// tmux errors meaning the pane is gone, so retrying cannot help
+const SESSION_GONE_PATTERN = /can't find (pane|window|session)|no server running|Host not found/i;
+
+interface PromptScript {
+  session: Session;
+  inputs: string[];
+  detector: ClaudeStatusDetector;
+  timer: NodeJS.Timeout | null;
+  readyPolls: number;
+  /** The next input's text is in the pane but Enter has not gone out yet */
+  typed: boolean;
+  /** Set after an input is sent until Claude is seen working on it */
+  sentAt: number | null;
+  stepStartedAt: number;
+  /** Polls failed in a row */
+  failures: number;
+}
+
+/**
+ * Types a queue of inputs into a Claude session, one per turn. Each input is
+ * sent once ClaudeStatusDetector reports the pane is waiting for input, so a
+ * session can be given a task without anyone attaching to it.
+ */
+export class PromptScheduler {
+  private scripts: Map<string, PromptScript> = new Map();
+
+  /**
+   * Start feeding inputs to a session, replacing any script already running for it
+   */
+  start(session: Session, inputs: string[]): void {
+    this.cancel(session.id);
+
+    const queue = inputs.filter(input => input.trim());
+    if (queue.length === 0) return;
+
+    const script: PromptScript = {
+      session,
+      inputs: queue,
+      detector: new ClaudeStatusDetector(),
+      timer: null,
+      readyPolls: 0,
+      typed: false,
+      sentAt: null,
+      stepStartedAt: Date.now(),
+      failures: 0,
+    };
+    this.scripts.set(session.id, script);
+    this.schedule(script);
+  }
+
+  cancel(sessionId: string): void {
+    const script = this.scripts.get(sessionId);
+    if (!script) return;
+
+    if (script.timer) {
+      clearTimeout(script.timer);
+    }
+    this.scripts.delete(sessionId);
+  }
+
+  /**
+   * Number of inputs still queued for a session
+   */
+  getPendingCount(sessionId: string): number {
+    return this.scripts.get(sessionId)?.inputs.length ?? 0;
+  }
+
+  private schedule(script: PromptScript): void {
+    script.timer = setTimeout(() => {
+      this.poll(script).catch(err => {
+        // Cancelled or replaced while the poll was running
+        if (this.scripts.get(script.session.id) !== script) return;
+
+        script.failures++;
+        const message = err instanceof Error ? err.message : String(err);
+        if (SESSION_GONE_PATTERN.test(message) || script.failures >= MAX_POLL_FAILURES) {
+          console.error(`[PromptScheduler] Stopping script for ${script.session.id}:`, err);
+          this.cancel(script.session.id);
+          return;
+        }
+        console.warn(`[PromptScheduler] Poll ${script.failures}/${MAX_POLL_FAILURES} failed for ${script.session.id}: ${message}`);
+        this.schedule(script);
+      });
+    }, POLL_INTERVAL_MS);
+  }
+
+  private async poll(script: PromptScript): Promise<void> {
+    // Cancelled or replaced while the timer was pending
+    if (this.scripts.get(script.session.id) !== script) return;
+
+    // A failed Enter is retried on its own; the text is never typed twice
+    if (script.typed) {
+      await this.pressEnter(script.session);
+      this.finishInput(script);
+      return;
+    }
+
+    const status = await this.detectStatus(script);
+    const now = Date.now();
+    script.failures = 0;
+
+    if (script.sentAt !== null) {
+      // Wait for Claude to pick up the last input before looking for the next prompt
+      if (status !== 'waiting_for_input' || now - script.sentAt > TURN_START_TIMEOUT_MS) {
+        script.sentAt = null;
+        script.readyPolls = 0;
+      }
+    } else if (status === 'waiting_for_input') {
+      script.readyPolls++;
+    } else {
+      script.readyPolls = 0;
+    }
+
+    if (script.sentAt === null && script.readyPolls >= READY_POLLS) {
+      // Text and Enter are separate steps, so a failure after the text went
+      // out only retries the Enter
+      await this.typeText(script.session, script.inputs[0]);
+      script.typed = true;
+      await this.pressEnter(script.session);
+      this.finishInput(script);
+      return;
+    } else if (now - script.stepStartedAt > STEP_TIMEOUT_MS) {
+      console.warn(
+        `[PromptScheduler] ${script.session.id} did not ask for input in time, dropping ${script.inputs.length} queued input(s)`
+      );
+      this.scripts.delete(script.session.id);
+      return;
+    }
+
+    this.schedule(script);
+  }
+
+  /**
+   * The current input has been sent: dequeue it and wait for Claude's turn
+   */
+  private finishInput(script: PromptScript): void {
+    // Cancelled or replaced while the keys were being sent
+    if (this.scripts.get(script.session.id) !== script) return;
+
+    const now = Date.now();
+    script.inputs.shift();
+    script.typed = false;
+    script.sentAt = now;
+    script.readyPolls = 0;
+    script.stepStartedAt = now;
+
+    if (script.inputs.length === 0) {
+      this.scripts.delete(script.session.id);
+      return;
+    }
+    this.schedule(script);
+  }
+
+  /**
+   * Run the visible pane contents through a fresh detection pass
+   */
+  private async detectStatus(script: PromptScript): Promise<ClaudeOperationStatus> {
+    const cmd = `tmux capture-pane -t "${script.session.tmux.paneId}" -p`;
+
+    let output: string;
+    if (script.session.host.id === 'local') {
+      output = (await exec(cmd)).stdout;
+    } else {
+      output = await sshConnectionManager.exec(script.session.host.id, cmd);
+    }
+
+    // The detector looks at the last few lines; skip the blank rows below the prompt
+    const screen = output.replace(/\s+$/, '');
+    script.detector.reset();
+    return script.detector.processOutput(screen) ?? script.detector.getCurrentStatus();
+  }
+
+  /**
+   * Type text into a session's pane without submitting it
+   */
+  private async typeText(session: Session, text: string): Promise<void> {
+    // -l sends the text literally so words like "Enter" are not treated as key names
+    await this.tmuxSendKeys(session, `-l ${shellQuote(text)}`);
+  }
+
+  private async pressEnter(session: Session): Promise<void> {
+    await this.tmuxSendKeys(session, 'Enter');
+  }
+
+  private async tmuxSendKeys(session: Session, keys: string): Promise<void> {
+    // Pane IDs (%N) are unique per tmux server
+    const cmd = `tmux send-keys -t "${session.tmux.paneId}" ${keys}`;
+
+    if (session.host.id === 'local') {
+      await exec(cmd);
+    } else {
+      await sshConnectionManager.exec(session.host.id, cmd);
+    }
+  }
+}
+
+export const promptScheduler = new PromptScheduler();
@@ -0,0 +1,299 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { getConfig } from '../config/index.js';
+import { AsciicastEvent, AsciicastHeader, RecordingInfo, RecordingReplay } from '../types/Recording.js';
+
+interface ActiveRecording {
+  id: string;
+  sessionId: string;
+  filePath: string;
+  stream: fs.WriteStream;
+  startedAtMs: number;
+  bytesWritten: number;
+  eventCount: number;
+  cols: number;
+  rows: number;
+}
+
+const TAIL_READ_BYTES = 64 * 1024;
+
+/**
+ * Records terminal bridge output to disk in asciicast v2 format.
+ * Each recording file is size-capped: when the cap is reached the recording
+ * rotates into a new file, and the oldest files of a session are pruned.
+ */
+export class RecordingService {
+  private readonly recordingsDir: string;
+  private active: Map<string, ActiveRecording> = new Map(); // sessionId -> recording
+
+  constructor() {
+    this.recordingsDir = path.join(os.homedir(), '.session-manager', 'recordings');
+  }
+
+  isEnabled(): boolean {
+    return getConfig().recording.enabled;
+  }
+
+  /**
+   * Start a new recording for a session. Any recording already running for
+   * the session is finished first.
+   */
+  startRecording(sessionId: string, cols: number, rows: number): string | null {
+    if (!this.isEnabled()) return null;
+
+    this.stopRecording(sessionId);
+
+    try {
+      const dir = this.getSessionDir(sessionId);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      const id = this.generateId();
+      const filePath = path.join(dir, `${id}.cast`);
+      const startedAtMs = Date.now();
+      const header: AsciicastHeader = {
+        version: 2,
+        width: cols,
+        height: rows,
+        timestamp: Math.floor(startedAtMs / 1000),
+        title: sessionId,
+        env: { TERM: 'xterm-256color' },
+      };
+      const headerLine = JSON.stringify(header) + '\n';
+
+      const stream = fs.createWriteStream(filePath, { flags: 'a' });
+      stream.on('error', (err) => {
+        console.error(`[Recording] Write failed for ${sessionId}:`, err.message);
+      });
+      stream.write(headerLine);
+
+      this.active.set(sessionId, {
+        id,
+        sessionId,
+        filePath,
+        stream,
+        startedAtMs,
+        bytesWritten: Buffer.byteLength(headerLine),
+        eventCount: 0,
+        cols,
+        rows,
+      });
+
+      this.pruneRecordings(sessionId);
+      return id;
+    } catch (err) {
+      console.error(`[Recording] Failed to start recording for ${sessionId}:`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Append terminal output to the active recording of a session
+   */
+  appendOutput(sessionId: string, data: string): void {
+    this.writeEvent(sessionId, 'o', data);
+  }
+
+  /**
+   * Record a terminal resize
+   */
+  recordResize(sessionId: string, cols: number, rows: number): void {
+    const recording = this.active.get(sessionId);
+    if (!recording) return;
+
+    recording.cols = cols;
+    recording.rows = rows;
+    this.writeEvent(sessionId, 'r', `${cols}x${rows}`);
+  }
+
+  stopRecording(sessionId: string): void {
+    const recording = this.active.get(sessionId);
+    if (!recording) return;
+
+    recording.stream.end();
+    this.active.delete(sessionId);
+  }
+
+  stopAll(): void {
+    for (const sessionId of Array.from(this.active.keys())) {
+      this.stopRecording(sessionId);
+    }
+  }
+
+  /**
+   * List recordings for a session, newest first
+   */
+  listRecordings(sessionId: string): RecordingInfo[] {
+    const dir = this.getSessionDir(sessionId);
+    if (!fs.existsSync(dir)) return [];
+
+    const recordings: RecordingInfo[] = [];
+    for (const file of fs.readdirSync(dir)) {
+      if (!/^[a-zA-Z0-9_-]+\.cast$/.test(file)) continue;
+      const info = this.readRecordingInfo(sessionId, file.slice(0, -'.cast'.length));
+      if (info) {
+        recordings.push(info);
+      }
+    }
+
+    return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * Load a recording with all of its events for replay
+   */
+  getRecording(sessionId: string, recordingId: string): RecordingReplay | null {
+    const info = this.readRecordingInfo(sessionId, recordingId);
+    if (!info) return null;
+
+    const content = fs.readFileSync(this.getRecordingPath(sessionId, recordingId), 'utf-8');
+    const lines = content.split('\n');
+    const header = JSON.parse(lines[0]) as AsciicastHeader;
+
+    const events: AsciicastEvent[] = [];
+    for (const line of lines.slice(1)) {
+      if (!line) continue;
+      try {
+        events.push(JSON.parse(line) as AsciicastEvent);
+      } catch {
+        // Skip a partially written trailing line
+      }
+    }
+
+    return { recording: info, header, events };
+  }
+
+  deleteRecording(sessionId: string, recordingId: string): boolean {
+    if (this.active.get(sessionId)?.id === recordingId) {
+      this.stopRecording(sessionId);
+    }
+
+    const filePath = this.getRecordingPath(sessionId, recordingId);
+    if (!fs.existsSync(filePath)) return false;
+
+    fs.unlinkSync(filePath);
+    return true;
+  }
+
+  private writeEvent(sessionId: string, type: AsciicastEvent[1], data: string): void {
+    const recording = this.active.get(sessionId);
+    if (!recording) return;
+
+    const elapsed = Math.round(Date.now() - recording.startedAtMs) / 1000;
+    const event: AsciicastEvent = [elapsed, type, data];
+    const line = JSON.stringify(event) + '\n';
+    const lineBytes = Buffer.byteLength(line);
+
+    // Rotate into a fresh file once the size cap is reached (an oversized
+    // single event still goes into an empty file rather than looping)
+    const maxFileBytes = getConfig().recording.maxFileBytes;
+    if (recording.eventCount > 0 && recording.bytesWritten + lineBytes > maxFileBytes) {
+      this.startRecording(sessionId, recording.cols, recording.rows);
+      this.writeEvent(sessionId, type, data);
+      return;
+    }
+
+    recording.stream.write(line);
+    recording.bytesWritten += lineBytes;
+    recording.eventCount++;
+  }
+
+  private readRecordingInfo(sessionId: string, recordingId: string): RecordingInfo | null {
+    const filePath = this.getRecordingPath(sessionId, recordingId);
+    if (!fs.existsSync(filePath)) return null;
+
+    try {
+      const stats = fs.statSync(filePath);
+      const fd = fs.openSync(filePath, 'r');
+      try {
+        // Header is the first line
+        const headBuffer = Buffer.alloc(Math.min(stats.size, 4096));
+        fs.readSync(fd, headBuffer, 0, headBuffer.length, 0);
+        const header = JSON.parse(headBuffer.toString('utf-8').split('\n')[0]) as AsciicastHeader;
+
+        // Duration comes from the last complete event line
+        const tailLength = Math.min(stats.size, TAIL_READ_BYTES);
+        const tailBuffer = Buffer.alloc(tailLength);
+        fs.readSync(fd, tailBuffer, 0, tailLength, stats.size - tailLength);
+        const tailLines = tailBuffer.toString('utf-8').split('\n').filter(Boolean);
+
+        let duration = 0;
+        for (let i = tailLines.length - 1; i >= 0; i--) {
+          try {
+            const event = JSON.parse(tailLines[i]);
+            if (Array.isArray(event) && typeof event[0] === 'number') {
+              duration = event[0];
+              break;
+            }
+          } catch {
+            // Partial line at the start of the tail window
+          }
+        }
+
+        return {
+          id: recordingId,
+          sessionId,
+          startedAt: new Date(header.timestamp * 1000).toISOString(),
+          duration,
+          size: stats.size,
+          cols: header.width,
+          rows: header.height,
+          active: this.active.get(sessionId)?.id === recordingId,
+        };
+      } finally {
+        fs.closeSync(fd);
+      }
+    } catch (err) {
+      console.error(`[Recording] Failed to read ${filePath}:`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Remove the oldest recordings beyond the per-session retention limit
+   */
+  private pruneRecordings(sessionId: string): void {
+    const maxRecordings = getConfig().recording.maxRecordingsPerSession;
+    const dir = this.getSessionDir(sessionId);
+    const activeId = this.active.get(sessionId)?.id;
+
+    const files = fs.readdirSync(dir)
+      .filter(f => f.endsWith('.cast') && f !== `${activeId}.cast`)
+      .sort(); // IDs start with a timestamp, so lexical order is chronological
+
+    const excess = files.length + (activeId ? 1 : 0) - maxRecordings;
+    for (const file of files.slice(0, Math.max(0, excess))) {
+      try {
+        fs.unlinkSync(path.join(dir, file));
+      } catch (err) {
+        console.error(`[Recording] Failed to prune ${file}:`, err);
+      }
+    }
+  }
+
+  private getSessionDir(sessionId: string): string {
+    // Session IDs contain ':', '$' and '%', so encode them into a safe directory name.
+    // Encoding leaves '.' alone, so '.' and '..' would still leave the directory.
+    const name = encodeURIComponent(sessionId);
+    const dir = path.join(this.recordingsDir, name);
+    if (name === '' || name === '.' || name === '..' || path.dirname(dir) !== this.recordingsDir) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return dir;
+  }
+
+  private getRecordingPath(sessionId: string, recordingId: string): string {
+    if (!/^[a-zA-Z0-9_-]+$/.test(recordingId)) {
+      throw new Error(`Invalid recording ID: ${recordingId}`);
+    }
+    return path.join(this.getSessionDir(sessionId), `${recordingId}.cast`);
+  }
+
+  private generateId(): string {
+    return `rec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
+
+export const recordingService = new RecordingService();
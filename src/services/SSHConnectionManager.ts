@@ -1,25 +1,66 @@
-import { Client, ConnectConfig, ClientChannel } from 'ssh2';
+import { Client, ConnectConfig, ClientChannel, SFTPWrapper } from 'ssh2';
 import { readFileSync, existsSync } from 'fs';
-import { SSHHostConfig, getHostConfig, getAllHosts, JumpHostConfig } from '../config/hosts.js';
+import { SSHHostConfig, getHostConfig, getAllHosts, getJumpChain, JumpHostConfig } from '../config/hosts.js';
+import { HostHealth } from '../types/Host.js';
+import { hostKeyService, HostKeyMismatchError } from './HostKeyService.js';
+import { secretVaultService } from './SecretVaultService.js';
+import { shellQuote } from '../utils/tmux.js';
 import * as pty from 'node-pty';
 
+// OpenSSH's default MaxSessions; servers refuse channels beyond it
+const MAX_CHANNELS_PER_HOST = 10;
+// Commands beyond this many waiting for a channel fail instead of piling up
+const MAX_QUEUED_COMMANDS = 100;
+// Health requests reuse a latency measurement this recent
+const LATENCY_TTL_MS = 10 * 1000;
+// Time allowed for each jump host to authenticate and forward
+const JUMP_HOP_TIMEOUT_MS = 30000;
+// A command still running after this long is abandoned and its channel closed
+const EXEC_TIMEOUT_MS = 2 * 60 * 1000;
+// Printed by the remote side before a native command runs; what comes before
+// it is ssh's own output (password prompts, banners), what follows is the command's
+const NATIVE_OUTPUT_MARKER = '\x1eO';
+// The latency probe is a no-op, so anything slower is reported as an error
+const LATENCY_PROBE_TIMEOUT_MS = 10 * 1000;
+
 interface SSHConnection {
   client: Client;
   hostId: string;
   connected: boolean;
   lastError?: string;
   reconnectTimeout?: NodeJS.Timeout;
-  jumpClient?: Client;
+  /** Clients of the jump chain, first hop first */
+  jumpClients?: Client[];
   reconnectAttempts?: number;
   lastDisconnectTime?: number;
   nativeSshProcess?: pty.IPty;
   useNativeSsh?: boolean;
 }
 
+/**
+ * Channels of one host. Commands share a bounded number of exec channels on
+ * the host's single connection and wait in a FIFO queue when all are busy;
+ * long-lived channels (terminals, control clients) count against the bound
+ * but never wait, and one exec is always allowed so they cannot starve commands.
+ */
+interface ChannelPool {
+  /** Exec channels in use */
+  active: number;
+  /** Open shell and stream channels */
+  longLived: number;
+  /** Waiters, each handed a slot as an exec finishes */
+  queue: (() => void)[];
+  latencyMs: number | null;
+  latencyMeasuredAt?: number;
+  /** Failure of the last latency probe, kept for hosts that never connected */
+  probeError?: string;
+}
+
 type ConnectionCallback = (hostId: string, connected: boolean, error?: string) => void;
 
 export class SSHConnectionManager {
   private connections: Map<string, SSHConnection> = new Map();
+  private channelPools: Map<string, ChannelPool> = new Map();
   private connectionListeners: Set<ConnectionCallback> = new Set();
   private useNativeSshForJumpHosts: boolean = false; // Toggle to use native SSH instead of ssh2 forwardOut (not fully implemented, kept for future use)
 
@@ -39,16 +80,21 @@ export class SSHConnectionManager {
     return new Promise((resolve, reject) => {
       client.on('ready', () => {
         console.log(`SSH connected to ${hostId}`);
+        // Keep the error history for health reporting
+        const previous = this.connections.get(hostId);
         this.connections.set(hostId, {
           client,
           hostId,
           connected: true,
+          lastError: previous?.lastError,
+          lastDisconnectTime: previous?.lastDisconnectTime,
         });
         this.notifyListeners(hostId, true);
         resolve(client);
       });
 
-      client.on('error', (err) => {
+      client.on('error', (sshError) => {
+        const err = hostKeyService.explainError(sshError, hostConfig.hostname, hostConfig.port);
         console.error(`SSH error for ${hostId}:`, err.message);
         const conn = this.connections.get(hostId);
         if (conn) {
@@ -72,12 +118,7 @@ export class SSHConnectionManager {
             conn.nativeSshProcess = undefined;
           }
 
-          // Clean up jump client if exists
-          if (conn.jumpClient) {
-            conn.jumpClient.removeAllListeners();
-            conn.jumpClient.end();
-            conn.jumpClient = undefined;
-          }
+          this.closeJumpClients(conn);
 
           this.scheduleReconnect(hostId);
         }
@@ -86,7 +127,7 @@ export class SSHConnectionManager {
 
       const connectConfig = this.buildConnectConfig(hostConfig);
 
-      if (hostConfig.jumpHost) {
+      if (getJumpChain(hostConfig).length > 0) {
         this.connectViaJumpHost(client, hostConfig, connectConfig, resolve, reject);
       } else {
         client.connect(connectConfig);
@@ -99,6 +140,8 @@ export class SSHConnectionManager {
       host: hostConfig.hostname,
       port: hostConfig.port,
       username: hostConfig.username,
+      // Trust on first use, then refuse changed keys
+      hostVerifier: hostKeyService.hostVerifier(hostConfig.hostname, hostConfig.port),
     };
 
     // Password authentication
@@ -126,7 +169,46 @@ export class SSHConnectionManager {
     return config;
   }
 
-  private resolvePassword(config: SSHHostConfig): string | undefined {
+  /**
+   * Connect options of one jump host; each hop authenticates on its own
+   */
+  private buildJumpConnectConfig(hop: JumpHostConfig): ConnectConfig {
+    const config: ConnectConfig = {
+      host: hop.hostname,
+      port: hop.port,
+      username: hop.username,
+      readyTimeout: JUMP_HOP_TIMEOUT_MS,
+      hostVerifier: hostKeyService.hostVerifier(hop.hostname, hop.port),
+    };
+
+    const password = this.resolvePassword(hop);
+    if (password) {
+      config.password = password;
+    }
+
+    if (hop.privateKeyPath && existsSync(hop.privateKeyPath)) {
+      config.privateKey = readFileSync(hop.privateKeyPath);
+    }
+
+    const passphrase = this.resolvePassphrase(hop);
+    if (passphrase) {
+      config.passphrase = passphrase;
+    }
+
+    // Include ssh-agent when available unless the hop opts out
+    if (hop.useAgent !== false && process.env.SSH_AUTH_SOCK) {
+      config.agent = process.env.SSH_AUTH_SOCK;
+    }
+
+    return config;
+  }
+
+  private resolvePassword(config: SSHHostConfig | JumpHostConfig): string | undefined {
+    // Priority: vault secret > env var > direct password
+    if (config.passwordSecretId) {
+      const secret = secretVaultService.reveal(config.passwordSecretId);
+      if (secret) return secret;
+    }
     if (config.passwordEnvVar) {
       const envValue = process.env[config.passwordEnvVar];
       if (envValue) return envValue;
@@ -135,7 +217,11 @@ export class SSHConnectionManager {
   }
 
   private resolvePassphrase(config: SSHHostConfig | JumpHostConfig): string | undefined {
-    // Priority: env var > direct passphrase
+    // Priority: vault secret > env var > direct passphrase
+    if (config.passphraseSecretId) {
+      const secret = secretVaultService.reveal(config.passphraseSecretId);
+      if (secret) return secret;
+    }
     if (config.passphraseEnvVar) {
       const envValue = process.env[config.passphraseEnvVar];
       if (envValue) return envValue;
@@ -161,10 +247,11 @@ export class SSHConnectionManager {
       }
     }
 
-    // Original ssh2 forwardOut method (fallback)
-    const jumpConfig = hostConfig.jumpHost!;
-    const jumpClient = new Client();
-    let jumpConnected = false;
+    // Original ssh2 forwardOut method (fallback): each hop's client
+    // connects over a channel forwarded by the previous one
+    const chain = getJumpChain(hostConfig);
+    const jumpClients: Client[] = [];
+    let failed = false;
     let timeoutHandle: NodeJS.Timeout | undefined;
 
     const cleanup = () => {
@@ -172,108 +259,178 @@ export class SSHConnectionManager {
         clearTimeout(timeoutHandle);
         timeoutHandle = undefined;
       }
-      if (jumpClient) {
+      for (const jumpClient of jumpClients) {
         jumpClient.removeAllListeners();
         jumpClient.end();
       }
     };
 
-    const jumpConnectConfig: ConnectConfig = {
-      host: jumpConfig.hostname,
-      port: jumpConfig.port,
-      username: jumpConfig.username,
-      readyTimeout: 30000,
+    const fail = (err: Error) => {
+      if (failed) return;
+      failed = true;
+      cleanup();
+      reject(err);
     };
 
-    // Add password authentication for jump host
-    if (jumpConfig.password) {
-      jumpConnectConfig.password = jumpConfig.password;
-    }
+    // Set overall timeout for the jump chain
+    timeoutHandle = setTimeout(() => {
+      fail(new Error(`Jump host connection timeout: ${chain.map(hop => hop.hostname).join(' -> ')}`));
+    }, JUMP_HOP_TIMEOUT_MS * chain.length);
+
+    let sock: ClientChannel | undefined;
+    try {
+      for (let i = 0; i < chain.length; i++) {
+        const hop = chain[i];
+        const jumpClient = await this.connectJumpHop(hop, sock);
+        jumpClients.push(jumpClient);
+        if (failed) {
+          cleanup();
+          return;
+        }
+
+        jumpClient.on('error', (err) => {
+          console.error(`Jump host error for ${hop.hostname}:`, err.message);
+        });
 
-    if (jumpConfig.privateKeyPath && existsSync(jumpConfig.privateKeyPath)) {
-      jumpConnectConfig.privateKey = readFileSync(jumpConfig.privateKeyPath);
+        jumpClient.on('close', () => {
+          console.log(`Jump host connection closed: ${hop.hostname}`);
+          // If a jump host closes, the target connection should also close
+          const conn = this.connections.get(hostConfig.id);
+          if (conn?.client === targetClient && conn.connected) {
+            conn.connected = false;
+            conn.lastError = 'Jump host connection lost';
+            this.notifyListeners(hostConfig.id, false, 'Jump host connection lost');
+          }
+        });
+
+        const next = i + 1 < chain.length ? chain[i + 1] : hostConfig;
+        sock = await this.forwardThrough(jumpClient, next.hostname, next.port);
+      }
+    } catch (err) {
+      fail(err instanceof Error ? err : new Error(String(err)));
+      return;
     }
 
-    const jumpPassphrase = this.resolvePassphrase(jumpConfig);
-    if (jumpPassphrase) {
-      jumpConnectConfig.passphrase = jumpPassphrase;
+    if (failed) {
+      cleanup();
+      return;
     }
 
-    // Always include ssh-agent when available
-    if (process.env.SSH_AUTH_SOCK) {
-      jumpConnectConfig.agent = process.env.SSH_AUTH_SOCK;
+    // Clear timeout once forwarding is established
+    if (timeoutHandle) {
+      clearTimeout(timeoutHandle);
+      timeoutHandle = undefined;
     }
 
-    // Set overall timeout for jump host connection
-    timeoutHandle = setTimeout(() => {
-      if (!jumpConnected) {
-        cleanup();
-        reject(new Error(`Jump host connection timeout: ${jumpConfig.hostname}`));
+    // Store jump clients for cleanup once the target is up
+    targetClient.once('ready', () => {
+      const conn = this.connections.get(hostConfig.id);
+      if (conn?.client === targetClient) {
+        conn.jumpClients = jumpClients;
       }
-    }, 30000);
-
-    jumpClient.on('ready', () => {
-      jumpConnected = true;
-      console.log(`Jump host connected: ${jumpConfig.hostname}`);
-
-      jumpClient.forwardOut(
-        '127.0.0.1',
-        0,
-        hostConfig.hostname,
-        hostConfig.port,
-        (err, stream) => {
-          if (err) {
-            console.error(`Jump host forward failed: ${err.message}`);
-            cleanup();
-            reject(new Error(`Jump host forward error: ${err.message}`));
-            return;
-          }
+    });
+    targetClient.once('close', cleanup);
 
-          // Store jump client reference for cleanup
-          const conn = this.connections.get(hostConfig.id);
-          if (conn) {
-            conn.jumpClient = jumpClient;
-          }
+    targetClient.connect({
+      ...targetConfig,
+      sock,
+    });
+  }
 
-          // Clear timeout once forwarding is established
-          if (timeoutHandle) {
-            clearTimeout(timeoutHandle);
-            timeoutHandle = undefined;
-          }
+  /**
+   * Connect to a jump host, directly or over a channel forwarded by the previous hop
+   */
+  private connectJumpHop(hop: JumpHostConfig, sock?: ClientChannel): Promise<Client> {
+    const jumpClient = new Client();
 
-          targetClient.connect({
-            ...targetConfig,
-            sock: stream,
-          });
-        }
-      );
-    });
+    return new Promise((resolve, reject) => {
+      jumpClient.once('ready', () => {
+        console.log(`Jump host connected: ${hop.hostname}`);
+        jumpClient.removeAllListeners('error');
+        resolve(jumpClient);
+      });
 
-    jumpClient.on('error', (err) => {
-      console.error(`Jump host error for ${jumpConfig.hostname}:`, err.message);
-      cleanup();
-      reject(new Error(`Jump host error: ${err.message}`));
+      jumpClient.on('error', (sshError) => {
+        const err = hostKeyService.explainError(sshError, hop.hostname, hop.port);
+        console.error(`Jump host error for ${hop.hostname}:`, err.message);
+        jumpClient.removeAllListeners();
+        jumpClient.end();
+        reject(err instanceof HostKeyMismatchError ? err : new Error(`Jump host error (${hop.hostname}): ${err.message}`));
+      });
+
+      try {
+        jumpClient.connect({
+          ...this.buildJumpConnectConfig(hop),
+          ...(sock ? { sock } : {}),
+        });
+      } catch (err) {
+        jumpClient.removeAllListeners();
+        reject(new Error(`Failed to connect to jump host ${hop.hostname}: ${err instanceof Error ? err.message : 'Unknown error'}`));
+      }
     });
+  }
 
-    jumpClient.on('close', () => {
-      console.log(`Jump host connection closed: ${jumpConfig.hostname}`);
-      if (jumpConnected) {
-        // If jump host closes, the target connection should also close
-        const conn = this.connections.get(hostConfig.id);
-        if (conn) {
-          conn.connected = false;
-          conn.lastError = 'Jump host connection lost';
-          this.notifyListeners(hostConfig.id, false, 'Jump host connection lost');
+  /**
+   * Open a TCP channel from a jump host to the next hop
+   */
+  private forwardThrough(jumpClient: Client, hostname: string, port: number): Promise<ClientChannel> {
+    return new Promise((resolve, reject) => {
+      jumpClient.forwardOut('127.0.0.1', 0, hostname, port, (err, stream) => {
+        if (err) {
+          console.error(`Jump host forward failed: ${err.message}`);
+          reject(new Error(`Jump host forward error (${hostname}:${port}): ${err.message}`));
+          return;
         }
-      }
+        resolve(stream);
+      });
     });
+  }
 
-    try {
-      jumpClient.connect(jumpConnectConfig);
-    } catch (err) {
-      cleanup();
-      reject(new Error(`Failed to connect to jump host: ${err instanceof Error ? err.message : 'Unknown error'}`));
+  private closeJumpClients(conn: SSHConnection): void {
+    for (const jumpClient of conn.jumpClients ?? []) {
+      jumpClient.removeAllListeners();
+      jumpClient.end();
     }
+    conn.jumpClients = undefined;
+  }
+
+  /**
+   * Arguments that route the system ssh binary through a jump chain. Each hop
+   * is a nested ProxyCommand rather than -J so it keeps its own key and agent
+   * setting; hosts are literal because ssh expands %h in nested commands too.
+   */
+  private buildNativeJumpArgs(chain: JumpHostConfig[]): string[] {
+    let proxyCommand: string | undefined;
+
+    chain.forEach((hop, i) => {
+      const next = chain[i + 1];
+      const hopArgs = ['ssh', '-p', String(hop.port), '-l', hop.username];
+      hopArgs.push(...hostKeyService.nativeSshOptions());
+      if (hop.privateKeyPath && existsSync(hop.privateKeyPath)) {
+        hopArgs.push('-i', hop.privateKeyPath);
+      }
+      if (hop.useAgent === false) {
+        hopArgs.push('-o', 'IdentityAgent=none');
+      }
+      if (proxyCommand) {
+        hopArgs.push('-o', `ProxyCommand=${proxyCommand}`);
+      }
+      // The last hop forwards to the target, which the outer ssh fills in
+      hopArgs.push('-W', next ? `${next.hostname}:${next.port}` : '%h:%p', hop.hostname);
+      proxyCommand = hopArgs.map(shellQuote).join(' ');
+    });
+
+    return proxyCommand ? ['-o', `ProxyCommand=${proxyCommand}`] : [];
+  }
+
+  /**
+   * Passwords the system ssh binary prompts for, in prompt order: jump
+   * hosts first, then the target
+   */
+  private nativePasswords(config: SSHHostConfig): string[] {
+    return [...getJumpChain(config), config]
+      .map(hop => this.resolvePassword(hop))
+      .filter((password): password is string => !!password);
   }
 
   private async connectViaJumpHostNative(
@@ -334,13 +491,70 @@ export class SSHConnectionManager {
     }, delay);
   }
 
+  private getPool(hostId: string): ChannelPool {
+    let pool = this.channelPools.get(hostId);
+    if (!pool) {
+      pool = { active: 0, longLived: 0, queue: [], latencyMs: null };
+      this.channelPools.set(hostId, pool);
+    }
+    return pool;
+  }
+
+  /**
+   * Wait for a free exec channel; the returned function gives it back
+   */
+  private async acquireChannel(hostId: string): Promise<() => void> {
+    const pool = this.getPool(hostId);
+
+    if (pool.active > 0 && pool.active + pool.longLived >= MAX_CHANNELS_PER_HOST) {
+      if (pool.queue.length >= MAX_QUEUED_COMMANDS) {
+        throw new Error(`Too many commands queued for ${hostId}`);
+      }
+      // The releasing command hands its slot over, so active stays counted
+      await new Promise<void>(resolve => pool.queue.push(resolve));
+    } else {
+      pool.active++;
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = pool.queue.shift();
+      if (next) {
+        next();
+      } else {
+        pool.active--;
+      }
+    };
+  }
+
+  /**
+   * Count a long-lived channel for as long as it stays open
+   */
+  private trackLongLivedChannel(hostId: string, channel: ClientChannel): void {
+    const pool = this.getPool(hostId);
+    pool.longLived++;
+    channel.once('close', () => {
+      pool.longLived--;
+    });
+  }
+
   async exec(hostId: string, command: string): Promise<string> {
-    // Use native SSH for jump host connections (supports password auth)
-    const hostConfig = getHostConfig(hostId);
-    if (hostConfig?.jumpHost) {
-      return this.execNative(hostId, command);
+    const release = await this.acquireChannel(hostId);
+    try {
+      // Use native SSH for jump host connections (supports password auth)
+      const hostConfig = getHostConfig(hostId);
+      if (hostConfig && getJumpChain(hostConfig).length > 0) {
+        return await this.execNative(hostId, command);
+      }
+      return await this.execChannel(hostId, command);
+    } finally {
+      release();
     }
+  }
 
+  private async execChannel(hostId: string, command: string, timeoutMs = EXEC_TIMEOUT_MS): Promise<string> {
     const client = await this.connect(hostId);
 
     return new Promise((resolve, reject) => {
@@ -352,6 +566,14 @@ export class SSHConnectionManager {
 
         let stdout = '';
         let stderr = '';
+        let timedOut = false;
+
+        // Rejecting lets exec release the slot; closing frees the server's channel
+        const timeoutHandle = setTimeout(() => {
+          timedOut = true;
+          stream.close();
+          reject(new Error(`Command timeout after ${timeoutMs / 1000} seconds`));
+        }, timeoutMs);
 
         stream.on('data', (data: Buffer) => {
           stdout += data.toString();
@@ -362,6 +584,8 @@ export class SSHConnectionManager {
         });
 
         stream.on('close', (code: number) => {
+          clearTimeout(timeoutHandle);
+          if (timedOut) return;
           if (code !== 0 && stderr) {
             reject(new Error(stderr));
           } else {
@@ -385,17 +609,14 @@ export class SSHConnectionManager {
       try {
         const args: string[] = [];
 
-        // Add jump host if configured
-        if (hostConfig.jumpHost) {
-          const jumpConfig = hostConfig.jumpHost;
-          args.push('-J', `${jumpConfig.username}@${jumpConfig.hostname}:${jumpConfig.port}`);
-        }
+        // Route through the jump chain if configured
+        const chain = getJumpChain(hostConfig);
+        args.push(...this.buildNativeJumpArgs(chain));
 
         // Target host connection
         args.push(`${hostConfig.username}@${hostConfig.hostname}`);
         args.push('-p', String(hostConfig.port));
-        args.push('-o', 'StrictHostKeyChecking=no');
-        args.push('-o', 'UserKnownHostsFile=/dev/null');
+        args.push(...hostKeyService.nativeSshOptions());
         args.push('-o', 'ConnectTimeout=10');
         // Batch mode off to allow password prompts
         args.push('-o', 'BatchMode=no');
@@ -405,17 +626,12 @@ export class SSHConnectionManager {
           args.push('-i', hostConfig.privateKeyPath);
         }
 
-        // Add jump host private key
-        if (hostConfig.jumpHost?.privateKeyPath && existsSync(hostConfig.jumpHost.privateKeyPath)) {
-          args.push('-i', hostConfig.jumpHost.privateKeyPath);
-        }
-
         // Add the command to execute
-        args.push(command);
+        args.push(`printf '\\036O'; ${command}`);
 
         console.log(`[execNative] Executing: ssh ${args.join(' ')}`);
 
-        const timeout = hostConfig.jumpHost ? 30000 : 10000;
+        const timeout = chain.length > 0 ? JUMP_HOP_TIMEOUT_MS * chain.length : 10000;
         let timeoutHandle: NodeJS.Timeout | undefined;
         let completed = false;
 
@@ -438,30 +654,30 @@ export class SSHConnectionManager {
         }, timeout);
 
         // Handle password authentication
-        const password = this.resolvePassword(hostConfig);
-        const jumpPassword = hostConfig.jumpHost?.password;
+        const passwords = this.nativePasswords(hostConfig);
 
-        if (password || jumpPassword) {
+        if (passwords.length > 0) {
           let passwordsSent = 0;
-          const maxPasswords = (jumpPassword ? 1 : 0) + (password ? 1 : 0);
           let lastPasswordTime = 0;
+          let commandStarted = false;
 
           const handleData = (data: string) => {
             output += data;
 
+            // Prompts only come before the command starts; its output is left alone
+            commandStarted ||= output.includes(NATIVE_OUTPUT_MARKER);
+            if (commandStarted) return;
+
             // Check for password prompt with debounce
             const now = Date.now();
             const hasPasswordPrompt = data.toLowerCase().includes('password:') || data.includes('Password:');
-            if (hasPasswordPrompt && passwordsSent < maxPasswords && (now - lastPasswordTime) > 500) {
+            if (hasPasswordPrompt && passwordsSent < passwords.length && (now - lastPasswordTime) > 500) {
+              const nextPassword = passwords[passwordsSent];
               passwordsSent++;
               lastPasswordTime = now;
 
               setTimeout(() => {
-                if (passwordsSent === 1 && jumpPassword) {
-                  sshProcess.write(jumpPassword + '\n');
-                } else if (password) {
-                  sshProcess.write(password + '\n');
-                }
+                sshProcess.write(nextPassword + '\n');
               }, 150);
             }
           };
@@ -474,20 +690,27 @@ export class SSHConnectionManager {
         }
 
         sshProcess.onExit(({ exitCode }) => {
+          const endpoints = [...chain, hostConfig];
+          hostKeyService.syncNativeKeys(endpoints);
+
           if (!completed) {
             completed = true;
             if (timeoutHandle) clearTimeout(timeoutHandle);
 
             if (exitCode === 0) {
-              // Clean output: remove ANSI codes and password prompts
+              // Clean output: drop ssh's prompts before the marker, then ANSI codes
+              const markerIndex = output.indexOf(NATIVE_OUTPUT_MARKER);
               const cleanOutput = output
+                .slice(markerIndex === -1 ? 0 : markerIndex + NATIVE_OUTPUT_MARKER.length)
                 .replace(/\x1b\[[0-9;]*m/g, '') // Remove ANSI color codes
-                .replace(/.*[Pp]assword:.*\n?/g, '') // Remove password prompts
                 .trim();
 
               resolve(cleanOutput);
             } else {
-              reject(new Error(`SSH command failed with exit code ${exitCode}: ${output.slice(-200)}`));
+              reject(
+                hostKeyService.detectNativeMismatch(output, endpoints) ??
+                new Error(`SSH command failed with exit code ${exitCode}: ${output.slice(-200)}`)
+              );
             }
           }
         });
@@ -502,12 +725,60 @@ export class SSHConnectionManager {
 
     return new Promise((resolve, reject) => {
       client.shell({ term: 'xterm-256color' }, (err, stream) => {
-        if (err) reject(err);
-        else resolve(stream);
+        if (err) {
+          reject(err);
+          return;
+        }
+        this.trackLongLivedChannel(hostId, stream);
+        resolve(stream);
+      });
+    });
+  }
+
+  /**
+   * Start a long-running command and return its channel, e.g. a tmux control
+   * client. Unlike exec, it does not wait for a free channel.
+   */
+  async execStream(hostId: string, command: string): Promise<ClientChannel> {
+    const client = await this.connect(hostId);
+
+    return new Promise((resolve, reject) => {
+      client.exec(command, (err, stream) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        this.trackLongLivedChannel(hostId, stream);
+        resolve(stream);
       });
     });
   }
 
+  /**
+   * Open an SFTP session. It holds an exec channel until the caller calls
+   * release once its transfer is done, so file transfers queue behind
+   * commands like any other exec. The session closing releases it too.
+   */
+  async sftp(hostId: string): Promise<{ sftp: SFTPWrapper; release: () => void }> {
+    const release = await this.acquireChannel(hostId);
+    try {
+      const client = await this.connect(hostId);
+      return await new Promise((resolve, reject) => {
+        client.sftp((err, sftp) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          sftp.once('close', release);
+          resolve({ sftp, release });
+        });
+      });
+    } catch (err) {
+      release();
+      throw err;
+    }
+  }
+
   /**
    * Create a native SSH shell using pty (for terminal connections with jump hosts)
    * Returns a pty.IPty instead of ClientChannel
@@ -520,22 +791,13 @@ export class SSHConnectionManager {
 
     const args: string[] = [];
 
-    // Add jump host if configured
-    if (hostConfig.jumpHost) {
-      const jumpConfig = hostConfig.jumpHost;
-      args.push('-J', `${jumpConfig.username}@${jumpConfig.hostname}:${jumpConfig.port}`);
-
-      // Add jump host private key
-      if (jumpConfig.privateKeyPath && existsSync(jumpConfig.privateKeyPath)) {
-        args.push('-i', jumpConfig.privateKeyPath);
-      }
-    }
+    // Route through the jump chain if configured
+    args.push(...this.buildNativeJumpArgs(getJumpChain(hostConfig)));
 
     // Target host connection
     args.push(`${hostConfig.username}@${hostConfig.hostname}`);
     args.push('-p', String(hostConfig.port));
-    args.push('-o', 'StrictHostKeyChecking=no');
-    args.push('-o', 'UserKnownHostsFile=/dev/null');
+    args.push(...hostKeyService.nativeSshOptions());
 
     // Add target host private key
     if (hostConfig.privateKeyPath && existsSync(hostConfig.privateKeyPath)) {
@@ -553,29 +815,26 @@ export class SSHConnectionManager {
     });
 
     // Handle password authentication
-    const password = this.resolvePassword(hostConfig);
-    const jumpPassword = hostConfig.jumpHost?.password;
+    const passwords = this.nativePasswords(hostConfig);
 
-    if (password || jumpPassword) {
+    if (passwords.length > 0) {
       let passwordsSent = 0;
-      const maxPasswords = (jumpPassword ? 1 : 0) + (password ? 1 : 0);
 
       const passwordHandler = (data: string) => {
-        if (data.includes('password:') && passwordsSent < maxPasswords) {
+        if (data.includes('password:') && passwordsSent < passwords.length) {
+          console.log(`Sending password ${passwordsSent + 1} of ${passwords.length}...`);
+          sshProcess.write(passwords[passwordsSent] + '\n');
           passwordsSent++;
-          if (passwordsSent === 1 && jumpPassword) {
-            console.log('Sending jump host password...');
-            sshProcess.write(jumpPassword + '\n');
-          } else if (password) {
-            console.log('Sending target host password...');
-            sshProcess.write(password + '\n');
-          }
         }
       };
 
       sshProcess.onData(passwordHandler);
     }
 
+    sshProcess.onExit(() => {
+      hostKeyService.syncNativeKeys([...getJumpChain(hostConfig), hostConfig]);
+    });
+
     return sshProcess;
   }
 
@@ -593,12 +852,7 @@ export class SSHConnectionManager {
         conn.nativeSshProcess = undefined;
       }
 
-      // Clean up jump client if exists
-      if (conn.jumpClient) {
-        conn.jumpClient.removeAllListeners();
-        conn.jumpClient.end();
-        conn.jumpClient = undefined;
-      }
+      this.closeJumpClients(conn);
 
       conn.client.removeAllListeners();
       conn.client.end();
@@ -630,6 +884,63 @@ export class SSHConnectionManager {
     return status;
   }
 
+  /**
+   * Round trip of a no-op command. Timing starts once a channel slot is
+   * free and the connection is up, so queued commands don't inflate it.
+   * Jump host commands spawn ssh each time, which the timing includes.
+   */
+  private async measureLatency(hostId: string): Promise<number> {
+    const release = await this.acquireChannel(hostId);
+    try {
+      const hostConfig = getHostConfig(hostId);
+      if (hostConfig && getJumpChain(hostConfig).length > 0) {
+        const startedAt = Date.now();
+        await this.execNative(hostId, 'true');
+        return Date.now() - startedAt;
+      }
+
+      await this.connect(hostId);
+      const startedAt = Date.now();
+      await this.execChannel(hostId, 'true', LATENCY_PROBE_TIMEOUT_MS);
+      return Date.now() - startedAt;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Connection state, channel usage and latency of a host. The latency is
+   * measured with a no-op command when the last measurement is stale.
+   */
+  async getHealth(hostId: string): Promise<HostHealth> {
+    const pool = this.getPool(hostId);
+
+    if (!pool.latencyMeasuredAt || Date.now() - pool.latencyMeasuredAt >= LATENCY_TTL_MS) {
+      try {
+        pool.latencyMs = await this.measureLatency(hostId);
+        pool.probeError = undefined;
+      } catch (err) {
+        pool.latencyMs = null;
+        pool.probeError = err instanceof Error ? err.message : String(err);
+      }
+      pool.latencyMeasuredAt = Date.now();
+    }
+
+    const conn = this.connections.get(hostId);
+    return {
+      hostId,
+      connected: conn?.connected ?? false,
+      latencyMs: pool.latencyMs,
+      latencyMeasuredAt: pool.latencyMeasuredAt ? new Date(pool.latencyMeasuredAt).toISOString() : undefined,
+      openChannels: pool.active + pool.longLived,
+      maxChannels: MAX_CHANNELS_PER_HOST,
+      queuedCommands: pool.queue.length,
+      reconnectAttempts: conn?.reconnectAttempts ?? 0,
+      lastError: pool.probeError ?? conn?.lastError,
+      lastDisconnectAt: conn?.lastDisconnectTime ? new Date(conn.lastDisconnectTime).toISOString() : undefined,
+    };
+  }
+
   onConnectionChange(callback: ConnectionCallback): () => void {
     this.connectionListeners.add(callback);
     return () => this.connectionListeners.delete(callback);
@@ -665,9 +976,10 @@ export class SSHConnectionManager {
   /**
    * Test connection directly with a host config (without saving to disk)
    */
-  async testConnectionDirect(config: SSHHostConfig): Promise<{ success: boolean; error?: string; message?: string }> {
+  async testConnectionDirect(config: SSHHostConfig): Promise<{ success: boolean; error?: string; code?: string; message?: string }> {
     // For jump host connections, prefer native SSH which uses system ssh-agent
-    if (config.jumpHost) {
+    const chain = getJumpChain(config);
+    if (chain.length > 0) {
       try {
         const nativeResult = await this.testConnectionNative(config);
         if (nativeResult.success) {
@@ -682,7 +994,7 @@ export class SSHConnectionManager {
     const client = new Client();
 
     return new Promise((resolve) => {
-      const timeoutDuration = config.jumpHost ? 30000 : 10000;
+      const timeoutDuration = chain.length > 0 ? JUMP_HOP_TIMEOUT_MS * chain.length : 10000;
       const timeout = setTimeout(() => {
         client.end();
         resolve({
@@ -700,19 +1012,21 @@ export class SSHConnectionManager {
         });
       });
 
-      client.on('error', (err) => {
+      client.on('error', (sshError) => {
+        const err = hostKeyService.explainError(sshError, config.hostname, config.port);
         clearTimeout(timeout);
         client.end();
         resolve({
           success: false,
           error: err.message,
+          code: err instanceof HostKeyMismatchError ? err.code : undefined,
         });
       });
 
       try {
         const connectConfig = this.buildConnectConfig(config);
 
-        if (config.jumpHost) {
+        if (chain.length > 0) {
           this.connectViaJumpHost(
             client,
             config,
@@ -731,6 +1045,7 @@ export class SSHConnectionManager {
               resolve({
                 success: false,
                 error: err.message,
+                code: err instanceof HostKeyMismatchError ? err.code : undefined,
               });
             }
           );
@@ -751,23 +1066,20 @@ export class SSHConnectionManager {
   /**
    * Test connection using native SSH command (supports system ssh-agent and config)
    */
-  async testConnectionNative(config: SSHHostConfig): Promise<{ success: boolean; error?: string; message?: string }> {
+  async testConnectionNative(config: SSHHostConfig): Promise<{ success: boolean; error?: string; code?: string; message?: string }> {
     console.log('[testConnectionNative] Starting native SSH test for:', config.hostname);
     return new Promise((resolve) => {
       try {
         const args: string[] = [];
 
-      // Add jump host if configured
-      if (config.jumpHost) {
-        const jumpConfig = config.jumpHost;
-        args.push('-J', `${jumpConfig.username}@${jumpConfig.hostname}:${jumpConfig.port}`);
-      }
+      // Route through the jump chain if configured
+      const chain = getJumpChain(config);
+      args.push(...this.buildNativeJumpArgs(chain));
 
       // Target host connection
       args.push(`${config.username}@${config.hostname}`);
       args.push('-p', String(config.port));
-      args.push('-o', 'StrictHostKeyChecking=no');
-      args.push('-o', 'UserKnownHostsFile=/dev/null');
+      args.push(...hostKeyService.nativeSshOptions());
       args.push('-o', 'ConnectTimeout=10');
 
       // Add target host private key
@@ -775,17 +1087,12 @@ export class SSHConnectionManager {
         args.push('-i', config.privateKeyPath);
       }
 
-      // Add jump host private key
-      if (config.jumpHost?.privateKeyPath && existsSync(config.jumpHost.privateKeyPath)) {
-        args.push('-i', config.jumpHost.privateKeyPath);
-      }
-
       // Just run 'echo ok' to test connection
       args.push('echo', 'connection_test_ok');
 
       console.log(`Testing native SSH: ssh ${args.join(' ')}`);
 
-      const timeout = config.jumpHost ? 30000 : 10000;
+      const timeout = chain.length > 0 ? JUMP_HOP_TIMEOUT_MS * chain.length : 10000;
       let timeoutHandle: NodeJS.Timeout | undefined;
       let completed = false;
 
@@ -811,12 +1118,10 @@ export class SSHConnectionManager {
       }, timeout);
 
       // Handle password authentication
-      const password = this.resolvePassword(config);
-      const jumpPassword = config.jumpHost?.password;
+      const passwords = this.nativePasswords(config);
 
-      if (password || jumpPassword) {
+      if (passwords.length > 0) {
         let passwordsSent = 0;
-        const maxPasswords = (jumpPassword ? 1 : 0) + (password ? 1 : 0);
 
         let lastPasswordTime = 0;
 
@@ -831,20 +1136,16 @@ export class SSHConnectionManager {
           // Check for password prompt with debounce (wait 500ms between password sends)
           const now = Date.now();
           if ((data.toLowerCase().includes('password:') || data.includes('Password:')) &&
-              passwordsSent < maxPasswords &&
+              passwordsSent < passwords.length &&
               (now - lastPasswordTime) > 500) {
+            const nextPassword = passwords[passwordsSent];
             passwordsSent++;
             lastPasswordTime = now;
 
             // Add small delay before sending password to ensure SSH is ready
             setTimeout(() => {
-              if (passwordsSent === 1 && jumpPassword) {
-                console.log('Sending jump host password...');
-                sshProcess.write(jumpPassword + '\n');
-              } else if (password) {
-                console.log('Sending target host password...');
-                sshProcess.write(password + '\n');
-              }
+              console.log(`Sending password ${passwordsSent} of ${passwords.length}...`);
+              sshProcess.write(nextPassword + '\n');
             }, 100);
           }
 
@@ -882,14 +1183,24 @@ export class SSHConnectionManager {
       }
 
       sshProcess.onExit(({ exitCode }) => {
+        const endpoints = [...chain, config];
+        hostKeyService.syncNativeKeys(endpoints);
+
         if (!completed) {
           completed = true;
           if (timeoutHandle) clearTimeout(timeoutHandle);
+          const mismatch = hostKeyService.detectNativeMismatch(output, endpoints);
           if (exitCode === 0) {
             resolve({
               success: true,
               message: 'Connection successful',
             });
+          } else if (mismatch) {
+            resolve({
+              success: false,
+              error: mismatch.message,
+              code: mismatch.code,
+            });
           } else {
             resolve({
               success: false,
@@ -0,0 +1,165 @@
+import { exec as execCallback } from 'child_process';
+import { promisify } from 'util';
+import { Session } from '../types/Session.js';
+import { SearchResponse, SearchResult } from '../types/Search.js';
+import { sessionDiscoveryService } from './SessionDiscoveryService.js';
+import { sshConnectionManager } from './SSHConnectionManager.js';
+import { toPlainLines } from '../utils/ansi.js';
+
+const exec = promisify(execCallback);
+
+interface IndexedLine {
+  text: string;
+  timestamp: number;
+}
+
+interface SessionIndex {
+  lines: IndexedLine[];
+  /** Output after the last newline, completed by the next chunk */
+  partial: string;
+}
+
+const MAX_INDEXED_LINES = 5000;
+const MAX_PARTIAL_LENGTH = 4096;
+const HISTORY_LINES = 2000;
+const CONTEXT_LINES = 2;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export interface SearchOptions {
+  sessionId?: string;
+  limit?: number;
+}
+
+/**
+ * Full-text search over terminal output.
+ * Sessions with an open terminal bridge are searched through an in-memory
+ * line index fed by the bridge; all other managed sessions are searched
+ * through their tmux scrollback on demand.
+ */
+export class SearchService {
+  private indexes: Map<string, SessionIndex> = new Map(); // sessionId -> index
+
+  startIndexing(sessionId: string): void {
+    if (!this.indexes.has(sessionId)) {
+      this.indexes.set(sessionId, { lines: [], partial: '' });
+    }
+  }
+
+  /**
+   * Drop the index once the bridge closes; tmux history covers the session from then on
+   */
+  stopIndexing(sessionId: string): void {
+    this.indexes.delete(sessionId);
+  }
+
+  indexOutput(sessionId: string, data: string): void {
+    const index = this.indexes.get(sessionId);
+    if (!index) return;
+
+    const chunks = (index.partial + data).split('\n');
+    index.partial = chunks.pop()!.slice(-MAX_PARTIAL_LENGTH);
+    if (chunks.length === 0) return;
+
+    const timestamp = Date.now();
+    for (const text of toPlainLines(chunks.join('\n'))) {
+      if (!text.trim()) continue;
+      // TUIs redraw the same line repeatedly; keep one copy
+      if (index.lines.length > 0 && index.lines[index.lines.length - 1].text === text) continue;
+      index.lines.push({ text, timestamp });
+    }
+
+    if (index.lines.length > MAX_INDEXED_LINES) {
+      index.lines.splice(0, index.lines.length - MAX_INDEXED_LINES);
+    }
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
+    const limit = Math.min(Math.max(options.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const needle = query.toLowerCase();
+
+    const sessions = sessionDiscoveryService.getManagedSessions()
+      .filter(s => !options.sessionId || s.id === options.sessionId);
+
+    const perSession = await Promise.allSettled(
+      sessions.map(session => this.searchSession(session, needle))
+    );
+
+    const results: SearchResult[] = [];
+    for (const outcome of perSession) {
+      if (outcome.status === 'fulfilled') {
+        results.push(...outcome.value);
+      }
+    }
+
+    // Most recent hits first
+    results.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    return {
+      query,
+      results: results.slice(0, limit),
+      truncated: results.length > limit,
+    };
+  }
+
+  private async searchSession(session: Session, needle: string): Promise<SearchResult[]> {
+    const index = this.indexes.get(session.id);
+    if (index) {
+      const lines = index.partial
+        ? [...index.lines, { text: toPlainLines(index.partial).join(''), timestamp: Date.now() }]
+        : index.lines;
+      return this.matchLines(session, lines, needle, 'bridge');
+    }
+
+    const history = await this.captureHistory(session);
+    const capturedAt = Date.now();
+    const lines = history.map(text => ({ text, timestamp: capturedAt }));
+    return this.matchLines(session, lines, needle, 'tmux');
+  }
+
+  private matchLines(
+    session: Session,
+    lines: IndexedLine[],
+    needle: string,
+    source: SearchResult['source']
+  ): SearchResult[] {
+    const results: SearchResult[] = [];
+
+    lines.forEach((line, i) => {
+      if (!line.text.toLowerCase().includes(needle)) return;
+
+      results.push({
+        sessionId: session.id,
+        sessionName: session.name,
+        host: session.host,
+        timestamp: new Date(line.timestamp).toISOString(),
+        line: line.text,
+        contextBefore: lines.slice(Math.max(0, i - CONTEXT_LINES), i).map(l => l.text),
+        contextAfter: lines.slice(i + 1, i + 1 + CONTEXT_LINES).map(l => l.text),
+        source,
+      });
+    });
+
+    return results;
+  }
+
+  /**
+   * Read the pane's scrollback (joined wrapped lines, blank lines dropped)
+   */
+  private async captureHistory(session: Session): Promise<string[]> {
+    const tmuxTarget = `${session.tmux.sessionName}.${session.tmux.paneId}`;
+    const cmd = `tmux capture-pane -t '${tmuxTarget}' -p -J -S -${HISTORY_LINES} 2>/dev/null`;
+
+    let output: string;
+    if (session.host.type === 'remote') {
+      output = await sshConnectionManager.exec(session.host.id, cmd);
+    } else {
+      const result = await exec(cmd, { maxBuffer: 10 * 1024 * 1024 });
+      output = result.stdout;
+    }
+
+    return toPlainLines(output).filter(line => line.trim());
+  }
+}
+
+export const searchService = new SearchService();
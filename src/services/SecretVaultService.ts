@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { getConfig } from '../config/index.js';
+import { SecretMetadata } from '../types/Secret.js';
+
+const VAULT_VERSION = 1;
+const KEY_LENGTH = 32;
+
+interface StoredSecret extends SecretMetadata {
+  value: string;
+}
+
+/** On-disk vault: the secrets JSON encrypted with AES-256-GCM */
+interface VaultFile {
+  version: number;
+  /** scrypt salt for deriving the key from the master secret */
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Host passwords and key passphrases, encrypted at rest with a key derived
+ * from the configured master secret. Hosts reference secrets by id; values
+ * only leave the vault to open SSH connections.
+ */
+export class SecretVaultService {
+  private vaultPath: string;
+  private keyPath: string;
+  private secrets: StoredSecret[] | null = null;
+  private salt: Buffer | null = null;
+  private warnedUnprotected = false;
+
+  constructor() {
+    const dir = path.join(os.homedir(), '.session-manager');
+    this.vaultPath = path.join(dir, 'vault.enc');
+    this.keyPath = path.join(dir, 'vault.key');
+  }
+
+  /**
+   * Whether the vault key lives outside the vault's directory. A generated
+   * key sits next to the vault, so copying the directory exposes the secrets.
+   */
+  isProtectedAtRest(): boolean {
+    return !!getConfig().vault.masterKey;
+  }
+
+  /**
+   * The configured master secret, or a generated one kept next to the vault
+   */
+  private getMasterKey(): string {
+    const configured = getConfig().vault.masterKey;
+    if (configured) return configured;
+
+    if (!fs.existsSync(this.keyPath)) {
+      fs.mkdirSync(path.dirname(this.keyPath), { recursive: true });
+      fs.writeFileSync(this.keyPath, crypto.randomBytes(KEY_LENGTH).toString('base64'), { mode: 0o600 });
+    }
+    if (!this.warnedUnprotected) {
+      this.warnedUnprotected = true;
+      console.warn(
+        `VAULT_MASTER_KEY is not set, so the vault key is stored at ${this.keyPath} next to the vault. ` +
+        'The vault is NOT protected at rest: anyone who can copy that directory can decrypt host passwords.'
+      );
+    }
+    return fs.readFileSync(this.keyPath, 'utf-8').trim();
+  }
+
+  private deriveKey(salt: Buffer): Buffer {
+    return crypto.scryptSync(this.getMasterKey(), salt, KEY_LENGTH);
+  }
+
+  private load(): StoredSecret[] {
+    if (this.secrets) return this.secrets;
+
+    if (!fs.existsSync(this.vaultPath)) {
+      this.salt = crypto.randomBytes(16);
+      this.secrets = [];
+      return this.secrets;
+    }
+
+    const file = JSON.parse(fs.readFileSync(this.vaultPath, 'utf-8')) as VaultFile;
+    if (file.version !== VAULT_VERSION) {
+      throw new Error(`Unsupported secret vault version: ${file.version}`);
+    }
+
+    const salt = Buffer.from(file.salt, 'base64');
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.deriveKey(salt), Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      this.secrets = JSON.parse(plaintext.toString('utf-8')) as StoredSecret[];
+      this.salt = salt;
+    } catch {
+      throw new Error('Cannot unlock the secret vault; check VAULT_MASTER_KEY');
+    }
+    return this.secrets;
+  }
+
+  private save(): void {
+    const secrets = this.load();
+    const salt = this.salt ?? crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.deriveKey(salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()]);
+
+    const file: VaultFile = {
+      version: VAULT_VERSION,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    const dir = path.dirname(this.vaultPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const tempPath = `${this.vaultPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    fs.renameSync(tempPath, this.vaultPath);
+  }
+
+  private generateId(): string {
+    return `sec_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private toMetadata({ value: _value, ...metadata }: StoredSecret): SecretMetadata {
+    return metadata;
+  }
+
+  list(): SecretMetadata[] {
+    return this.load().map(secret => this.toMetadata(secret));
+  }
+
+  create(label: string, value: string): SecretMetadata {
+    const now = new Date().toISOString();
+    const secret: StoredSecret = { id: this.generateId(), label, value, createdAt: now, updatedAt: now };
+    this.load().push(secret);
+    this.save();
+    return this.toMetadata(secret);
+  }
+
+  update(id: string, updates: { label?: string; value?: string }): SecretMetadata {
+    const secret = this.load().find(s => s.id === id);
+    if (!secret) {
+      throw new Error(`Secret not found: ${id}`);
+    }
+
+    if (updates.label !== undefined) secret.label = updates.label;
+    if (updates.value !== undefined) secret.value = updates.value;
+    secret.updatedAt = new Date().toISOString();
+    this.save();
+    return this.toMetadata(secret);
+  }
+
+  delete(id: string): boolean {
+    const secrets = this.load();
+    const index = secrets.findIndex(s => s.id === id);
+    if (index === -1) return false;
+
+    secrets.splice(index, 1);
+    this.save();
+    return true;
+  }
+
+  has(id: string): boolean {
+    return this.load().some(s => s.id === id);
+  }
+
+  /**
+   * Value of a secret, for opening connections only
+   */
+  reveal(id: string): string | undefined {
+    return this.load().find(s => s.id === id)?.value;
+  }
+}
+
+export const secretVaultService = new SecretVaultService();
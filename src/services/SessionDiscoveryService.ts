@@ -1,23 +1,101 @@
 import { exec as execCallback } from 'child_process';
 import { promisify } from 'util';
-import { Session, SessionStatus, ClaudeOperationStatus } from '../types/Session.js';
-import { listTmuxSessions, listTmuxPanes, isClaudeSessionFast, isClaudeSessionDeep, TmuxPane, TmuxSession, DELIMITER } from '../utils/tmux.js';
+import { Session, SessionStatus, ClaudeOperationStatus, SessionStatusUpdate, HostDiscoveryTiming, SessionWorktree } from '../types/Session.js';
+import {
+  listTmuxSessions,
+  listTmuxPanes,
+  isClaudeSessionFast,
+  isClaudeSessionDeep,
+  TmuxPane,
+  TmuxSession,
+  DELIMITER,
+  DISCOVERY_SCRIPT,
+  DISCOVERY_SESSION_MARKER,
+  DISCOVERY_PANE_MARKER,
+  STATUS_CAPTURE_SCRIPT,
+  STATUS_PANE_MARKER,
+  shellQuote,
+} from '../utils/tmux.js';
+import {
+  ClaudeProjectFiles,
+  readLocalClaudeProjectFiles,
+  buildClaudeProjectCommand,
+  parseClaudeProjectOutput,
+  getConversationSummary,
+} from '../utils/claudeProject.js';
 import { sshConnectionManager } from './SSHConnectionManager.js';
-import { getAllHosts, SSHHostConfig } from '../config/hosts.js';
+import { tmuxControlService } from './TmuxControlService.js';
+import { gitStatusService } from './GitStatusService.js';
+import { getAllHosts, getHostConfig, SSHHostConfig } from '../config/hosts.js';
+import { SessionDiffMessage } from '../types/Protocol.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
 const exec = promisify(execCallback);
 
+// Stamped with the poll time on every refresh, so not worth a diff on its own
+const DIFF_IGNORED_FIELDS: ReadonlySet<keyof Session> = new Set(['lastActivityAt']);
+
+// A new session produces several control-mode notifications; rediscover once
+const TOPOLOGY_DEBOUNCE_MS = 150;
+// Minimum gap between status refreshes triggered by %output from one pane
+const ACTIVITY_THROTTLE_MS = 1000;
+// Remote discoveries slower than this are logged; all timings are in the API
+const SLOW_DISCOVERY_MS = 5000;
+
+/**
+ * Fields of `next` that differ from `prev`, and optional fields `next` no longer has
+ */
+function diffSession(prev: Session, next: Session): { changes: Partial<Session>; cleared: (keyof Session)[] } | null {
+  const changes: Partial<Session> = {};
+  const cleared: (keyof Session)[] = [];
+  let changed = false;
+
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)] as (keyof Session)[]);
+  for (const key of keys) {
+    if (DIFF_IGNORED_FIELDS.has(key)) continue;
+    if (JSON.stringify(prev[key]) === JSON.stringify(next[key])) continue;
+
+    changed = true;
+    if (next[key] === undefined) {
+      cleared.push(key);
+    } else {
+      (changes as Record<string, unknown>)[key] = next[key];
+    }
+  }
+
+  if (!changed) return null;
+  // Let the client's copy catch up on the ignored fields too
+  for (const key of DIFF_IGNORED_FIELDS) {
+    (changes as Record<string, unknown>)[key] = next[key];
+  }
+  return { changes, cleared };
+}
+
 export class SessionDiscoveryService {
   private sessions: Map<string, Session> = new Map();
   private sessionWorkspaceMap: Map<string, string | null> = new Map(); // sessionId -> workspaceId
   private hiddenSessions: Set<string> = new Set(); // sessionIds that are hidden from workspace
+  private sessionWorktreeMap: Map<string, SessionWorktree> = new Map(); // sessionId -> worktree, owned by SessionManager
   private readonly sessionWorkspacesPath: string;
   private readonly hiddenSessionsPath: string;
   private pollInterval: NodeJS.Timeout | null = null;
   private listeners: Set<(sessions: Session[]) => void> = new Set();
+  private statusListeners: Set<(update: SessionStatusUpdate) => void> = new Set();
+  private statusPollInterval: NodeJS.Timeout | null = null;
+  private statusRefreshInFlight = false;
+  private diffListeners: Set<(message: SessionDiffMessage) => void> = new Set();
+  /** Managed sessions as last reported to diff listeners */
+  private diffSnapshot: Map<string, Session> = new Map();
+  private diffSeq = 0;
+  private discoveryTimings: Map<string, HostDiscoveryTiming> = new Map();
+  private controlMode = false;
+  private reconcileIntervalMs = 0;
+  private lastReconcileAt = 0;
+  private controlUnsubscribers: (() => void)[] = [];
+  private hostRefreshTimers: Map<string, NodeJS.Timeout> = new Map();
+  private activityTimers: Map<string, NodeJS.Timeout> = new Map();
 
   constructor() {
     this.sessionWorkspacesPath = path.join(os.homedir(), '.session-manager', 'session-workspaces.json');
@@ -93,6 +171,22 @@ export class SessionDiscoveryService {
     this.notifyListeners();
   }
 
+  /**
+   * Attach the worktree a session was started in, or detach it with null
+   */
+  setSessionWorktree(sessionId: string, worktree: SessionWorktree | null): void {
+    if (worktree) {
+      this.sessionWorktreeMap.set(sessionId, worktree);
+    } else {
+      this.sessionWorktreeMap.delete(sessionId);
+    }
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.worktree = worktree ?? undefined;
+    }
+    this.notifyListeners();
+  }
+
   getSessionWorkspace(sessionId: string): string | null {
     return this.sessionWorkspaceMap.get(sessionId) ?? null;
   }
@@ -125,22 +219,30 @@ export class SessionDiscoveryService {
         output = result.stdout;
       }
 
-      const lastLine = output.trim();
-      if (lastLine) {
-        // Clean up ANSI escape codes and limit length
-        const cleaned = lastLine
-          .replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '')  // Remove ANSI codes
-          .replace(/[\x00-\x1f]/g, '')  // Remove control characters
-          .trim()
-          .slice(0, 100);  // Limit to 100 chars
-        return cleaned || undefined;
-      }
+      return this.extractLastOutput(output);
     } catch {
       // Silently fail - preview is optional
     }
     return undefined;
   }
 
+  /**
+   * Last non-empty line of captured pane text, cleaned up for previews
+   */
+  private extractLastOutput(output: string): string | undefined {
+    const lastLine = output.split('\n').filter(l => l.trim()).pop()?.trim();
+    if (lastLine) {
+      // Clean up ANSI escape codes and limit length
+      const cleaned = lastLine
+        .replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '')  // Remove ANSI codes
+        .replace(/[\x00-\x1f]/g, '')  // Remove control characters
+        .trim()
+        .slice(0, 100);  // Limit to 100 chars
+      return cleaned || undefined;
+    }
+    return undefined;
+  }
+
   private async captureStatusBar(sessionName: string, isRemote: boolean = false, hostId?: string): Promise<string | undefined> {
     try {
       // Capture the tmux status-right content using format expansion
@@ -155,23 +257,28 @@ export class SessionDiscoveryService {
         output = result.stdout;
       }
 
-      const statusBar = output.trim();
-      if (statusBar) {
-        // Clean up ANSI escape codes and special characters
-        const cleaned = statusBar
-          .replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '')  // Remove ANSI codes
-          .replace(/#\[[^\]]*\]/g, '')  // Remove tmux style tags like #[fg=color]
-          .replace(/[\x00-\x1f]/g, '')  // Remove control characters
-          .trim()
-          .slice(0, 150);  // Limit to 150 chars
-        return cleaned || undefined;
-      }
+      return this.cleanStatusBar(output);
     } catch {
       // Silently fail - status bar is optional
     }
     return undefined;
   }
 
+  private cleanStatusBar(output: string): string | undefined {
+    const statusBar = output.trim();
+    if (statusBar) {
+      // Clean up ANSI escape codes and special characters
+      const cleaned = statusBar
+        .replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '')  // Remove ANSI codes
+        .replace(/#\[[^\]]*\]/g, '')  // Remove tmux style tags like #[fg=color]
+        .replace(/[\x00-\x1f]/g, '')  // Remove control characters
+        .trim()
+        .slice(0, 150);  // Limit to 150 chars
+      return cleaned || undefined;
+    }
+    return undefined;
+  }
+
   private async captureUserLastInput(sessionName: string, paneId: string, isRemote: boolean = false, hostId?: string): Promise<string | undefined> {
     try {
       // Capture more lines from the pane to find user input
@@ -187,73 +294,81 @@ export class SessionDiscoveryService {
         output = result.stdout;
       }
 
-      const lines = output.split('\n');
-
-      // Look for user input patterns from bottom to top
-      // Claude CLI uses various prompt patterns: ">", "❯", "human>", or shell prompts
-      for (let i = lines.length - 1; i >= 0; i--) {
-        const line = lines[i];
-        if (!line || line.trim().length === 0) continue;
+      return this.extractUserLastInput(output);
+    } catch {
+      // Silently fail - user input is optional
+    }
+    return undefined;
+  }
 
-        // Clean ANSI codes and control characters more thoroughly
-        const cleanLine = line
-          .replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '')  // Remove ANSI escape sequences
-          .replace(/\x1b\][0-9;]*\x07/g, '')      // Remove OSC sequences
-          .replace(/\x1b\][0-9;]*;[^\x07]*\x07/g, '')  // Remove OSC with params
-          .replace(/[\x00-\x08\x0B-\x1F\x7F]/g, '')  // Remove control chars except \t and \n
-          .trim();
+  /**
+   * Most recent prompt the user typed, found by scanning pane text bottom-up
+   */
+  private extractUserLastInput(output: string): string | undefined {
+    const lines = output.split('\n');
+
+    // Look for user input patterns from bottom to top
+    // Claude CLI uses various prompt patterns: ">", "❯", "human>", or shell prompts
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const line = lines[i];
+      if (!line || line.trim().length === 0) continue;
+
+      // Clean ANSI codes and control characters more thoroughly
+      const cleanLine = line
+        .replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '')  // Remove ANSI escape sequences
+        .replace(/\x1b\][0-9;]*\x07/g, '')      // Remove OSC sequences
+        .replace(/\x1b\][0-9;]*;[^\x07]*\x07/g, '')  // Remove OSC with params
+        .replace(/[\x00-\x08\x0B-\x1F\x7F]/g, '')  // Remove control chars except \t and \n
+        .trim();
 
-        if (!cleanLine || cleanLine.length === 0) continue;
+      if (!cleanLine || cleanLine.length === 0) continue;
 
-        // Skip system messages and status lines
-        if (this.isSystemMessage(cleanLine)) continue;
+      // Skip system messages and status lines
+      if (this.isSystemMessage(cleanLine)) continue;
 
-        // Pattern 1: Lines starting with ">" (common Claude prompt)
-        if (cleanLine.startsWith('>') && cleanLine.length > 1) {
-          const userInput = cleanLine.slice(1).trim();
-          if (this.isValidUserInput(userInput)) {
-            return userInput.slice(0, 100);
-          }
+      // Pattern 1: Lines starting with ">" (common Claude prompt)
+      if (cleanLine.startsWith('>') && cleanLine.length > 1) {
+        const userInput = cleanLine.slice(1).trim();
+        if (this.isValidUserInput(userInput)) {
+          return userInput.slice(0, 100);
         }
+      }
 
-        // Pattern 2: Lines starting with "❯" (modern shell/Claude prompt)
-        if (cleanLine.startsWith('❯') && cleanLine.length > 1) {
-          const userInput = cleanLine.slice(1).trim();
-          if (this.isValidUserInput(userInput)) {
-            return userInput.slice(0, 100);
-          }
+      // Pattern 2: Lines starting with "❯" (modern shell/Claude prompt)
+      if (cleanLine.startsWith('❯') && cleanLine.length > 1) {
+        const userInput = cleanLine.slice(1).trim();
+        if (this.isValidUserInput(userInput)) {
+          return userInput.slice(0, 100);
         }
+      }
 
-        // Pattern 3: Lines starting with "human>" or "Human>"
-        const humanMatch = cleanLine.match(/^human>\s*(.+)$/i);
-        if (humanMatch && humanMatch[1]) {
-          const userInput = humanMatch[1].trim();
-          if (this.isValidUserInput(userInput)) {
-            return userInput.slice(0, 100);
-          }
+      // Pattern 3: Lines starting with "human>" or "Human>"
+      const humanMatch = cleanLine.match(/^human>\s*(.+)$/i);
+      if (humanMatch && humanMatch[1]) {
+        const userInput = humanMatch[1].trim();
+        if (this.isValidUserInput(userInput)) {
+          return userInput.slice(0, 100);
         }
+      }
 
-        // Pattern 4: Shell prompts "$ command" or "% command"
-        const shellMatch = cleanLine.match(/^[$%]\s+(.+)$/);
-        if (shellMatch && shellMatch[1]) {
-          const userInput = shellMatch[1].trim();
-          if (this.isValidUserInput(userInput)) {
-            return userInput.slice(0, 100);
-          }
+      // Pattern 4: Shell prompts "$ command" or "% command"
+      const shellMatch = cleanLine.match(/^[$%]\s+(.+)$/);
+      if (shellMatch && shellMatch[1]) {
+        const userInput = shellMatch[1].trim();
+        if (this.isValidUserInput(userInput)) {
+          return userInput.slice(0, 100);
         }
+      }
 
-        // Pattern 5: Lines containing "> " with text after (multi-line Claude prompts)
-        const multiLineMatch = cleanLine.match(/>\s+(.+)$/);
-        if (multiLineMatch && multiLineMatch[1]) {
-          const userInput = multiLineMatch[1].trim();
-          if (this.isValidUserInput(userInput) && userInput.length > 10) {
-            // Only accept if substantial (likely real input, not prompt artifact)
-            return userInput.slice(0, 100);
-          }
+      // Pattern 5: Lines containing "> " with text after (multi-line Claude prompts)
+      const multiLineMatch = cleanLine.match(/>\s+(.+)$/);
+      if (multiLineMatch && multiLineMatch[1]) {
+        const userInput = multiLineMatch[1].trim();
+        if (this.isValidUserInput(userInput) && userInput.length > 10) {
+          // Only accept if substantial (likely real input, not prompt artifact)
+          return userInput.slice(0, 100);
         }
       }
-    } catch {
-      // Silently fail - user input is optional
     }
     return undefined;
   }
@@ -294,89 +409,68 @@ export class SessionDiscoveryService {
     return !invalidPatterns.some(pattern => pattern.test(input));
   }
 
-  private async captureConversationSummary(workingDirectory: string | null): Promise<string | undefined> {
-    if (!workingDirectory) return undefined;
-
-    try {
-      // Convert working directory to Claude project path format
-      // e.g., /home/devswha/workspace/quant-magi -> -home-devswha-workspace-quant-magi
-      const projectPath = workingDirectory.replace(/^\//g, '').replace(/\//g, '-');
-      const claudeProjectsDir = path.join(os.homedir(), '.claude', 'projects');
-
-      // Find matching project directory (could have suffix like -shellspace)
-      const findCmd = `find "${claudeProjectsDir}" -maxdepth 1 -type d -name "*${projectPath}*" 2>/dev/null | head -1`;
-      const { stdout: projectDir } = await exec(findCmd);
-
-      if (!projectDir.trim()) return undefined;
-
-      // Try to read from sessions-index.json first (more reliable)
-      const sessionsIndexPath = path.join(projectDir.trim(), 'sessions-index.json');
-      try {
-        const indexContent = fs.readFileSync(sessionsIndexPath, 'utf-8');
-        const indexData = JSON.parse(indexContent);
-        const entries = indexData.entries || [];
-
-        // Get the most recent session's summary
-        if (entries.length > 0) {
-          const lastEntry = entries[entries.length - 1];
-          const summary = lastEntry.summary || lastEntry.title || lastEntry.prompt;
-          if (summary && typeof summary === 'string') {
-            return summary.slice(0, 100);
-          }
-        }
-      } catch {
-        // Fall through to JSONL parsing
-      }
-
-      // Fallback: Find the most recent JSONL file and look for summary
-      const findJsonlCmd = `find "${projectDir.trim()}" -maxdepth 1 -name "*.jsonl" -type f 2>/dev/null | xargs ls -t 2>/dev/null | head -1`;
-      const { stdout: jsonlFile } = await exec(findJsonlCmd);
-
-      if (!jsonlFile.trim()) return undefined;
-
-      // Read the last summary entry from the JSONL file
-      const grepCmd = `grep '"type":"summary"' "${jsonlFile.trim()}" 2>/dev/null | tail -1`;
-      const { stdout: summaryLine } = await exec(grepCmd);
+  private async detectClaudeOperationStatus(
+    sessionName: string,
+    paneId: string,
+    workingDirectory: string | null,
+    statusBar: string | undefined
+  ): Promise<ClaudeOperationStatus> {
+    const [screenTail, files] = await Promise.all([
+      this.captureScreenTail(sessionName, paneId),
+      readLocalClaudeProjectFiles(workingDirectory),
+    ]);
 
-      if (!summaryLine.trim()) return undefined;
+    return this.classifyClaudeStatus(screenTail, statusBar, files);
+  }
 
-      // Parse the JSON and extract the summary field
-      const data = JSON.parse(summaryLine.trim());
-      const summary = data.summary;
+  /**
+   * Last few lines of a pane, where Claude shows its spinner or prompt
+   */
+  private async captureScreenTail(sessionName: string, paneId: string, isRemote: boolean = false, hostId?: string): Promise<string> {
+    try {
+      const tmuxTarget = `${sessionName}.${paneId}`;
+      const cmd = `tmux capture-pane -t '${tmuxTarget}' -p -S -10 2>/dev/null | tail -5`;
 
-      if (summary && typeof summary === 'string') {
-        return summary.slice(0, 100);  // Limit to 100 chars
+      if (isRemote && hostId) {
+        return await sshConnectionManager.exec(hostId, cmd);
       }
+      const result = await exec(cmd);
+      return result.stdout;
     } catch {
-      // Silently fail - summary is optional
+      // Continue to other signals
+      return '';
     }
-    return undefined;
   }
 
-  private async detectClaudeOperationStatus(
-    sessionName: string,
-    paneId: string,
-    workingDirectory: string | null,
+  /**
+   * Claude project files of several working directories on a remote host,
+   * read with one exec against the remote home directory
+   */
+  private async readRemoteProjectFiles(hostId: string, workingDirectories: string[]): Promise<Map<string, ClaudeProjectFiles>> {
+    if (workingDirectories.length === 0) return new Map();
+
+    try {
+      const output = await sshConnectionManager.exec(hostId, buildClaudeProjectCommand(workingDirectories));
+      return parseClaudeProjectOutput(output);
+    } catch (err) {
+      console.error(`Failed to read Claude project files on ${hostId}:`, err);
+      return new Map();
+    }
+  }
+
+  /**
+   * Claude status from the last lines of a pane plus the project's files
+   */
+  private classifyClaudeStatus(
+    screenTail: string,
     statusBar: string | undefined,
-    isRemote: boolean = false,
-    hostId?: string
-  ): Promise<ClaudeOperationStatus> {
+    files: ClaudeProjectFiles | undefined
+  ): ClaudeOperationStatus {
     // ============================================
     // PRIORITY 1: Terminal buffer patterns (vanilla Claude Code - no OMC required)
     // ============================================
     try {
-      const tmuxTarget = `${sessionName}.${paneId}`;
-      const cmd = `tmux capture-pane -t '${tmuxTarget}' -p -S -10 2>/dev/null | tail -5`;
-      let output: string;
-
-      if (isRemote && hostId) {
-        output = await sshConnectionManager.exec(hostId, cmd);
-      } else {
-        const result = await exec(cmd);
-        output = result.stdout;
-      }
-
-      const lines = output.split('\n').filter(l => l.trim());
+      const lines = screenTail.split('\n').filter(l => l.trim());
       const lastLine = lines[lines.length - 1] || '';
       const cleanLine = lastLine
         .replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '')
@@ -435,38 +529,16 @@ export class SessionDiscoveryService {
     // ============================================
     // PRIORITY 2: JSONL file activity (vanilla Claude Code - no OMC required)
     // ============================================
-    if (workingDirectory) {
-      try {
-        const projectPath = workingDirectory.replace(/^\//g, '').replace(/\//g, '-');
-        const claudeProjectsDir = path.join(os.homedir(), '.claude', 'projects');
-        const findCmd = `find "${claudeProjectsDir}" -maxdepth 1 -type d -name "*${projectPath}*" 2>/dev/null | head -1`;
-        const { stdout: projectDir } = await exec(findCmd);
-
-        if (projectDir.trim()) {
-          // Find most recent JSONL file
-          const findJsonlCmd = `find "${projectDir.trim()}" -maxdepth 1 -name "*.jsonl" -type f 2>/dev/null | xargs ls -t 2>/dev/null | head -1`;
-          const { stdout: jsonlFile } = await exec(findJsonlCmd);
-
-          if (jsonlFile.trim()) {
-            const stats = fs.statSync(jsonlFile.trim());
-            const ageMs = Date.now() - stats.mtimeMs;
-
-            // If file modified in last 30 seconds, likely still processing
-            if (ageMs < 30000) {
-              return 'thinking';
-            }
-          }
-        }
-      } catch {
-        // Continue to OMC signals (if available)
-      }
+    // If the transcript was written in the last 30 seconds, likely still processing
+    if (files?.jsonlAgeMs !== undefined && files.jsonlAgeMs < 30000) {
+      return 'thinking';
     }
 
     // ============================================
     // PRIORITY 3: OMC HUD status bar (optional - only if OMC installed)
     // ============================================
     // Check if .omc directory exists before checking OMC signals
-    const omcExists = workingDirectory && fs.existsSync(path.join(workingDirectory, '.omc'));
+    const omcExists = files?.omcExists ?? false;
 
     if (omcExists && statusBar) {
       // Braille spinner patterns used by OMC HUD
@@ -479,25 +551,16 @@ export class SessionDiscoveryService {
     // ============================================
     // PRIORITY 4: OMC state files (optional - only if OMC installed)
     // ============================================
-    if (omcExists && workingDirectory) {
-      try {
-        const omcStatePath = path.join(workingDirectory, '.omc', 'state');
-        if (fs.existsSync(omcStatePath)) {
-          const stateFiles = ['autopilot-state.json', 'ultrawork-state.json', 'ralph-state.json', 'ultrapilot-state.json'];
-
-          for (const file of stateFiles) {
-            const filePath = path.join(omcStatePath, file);
-            if (fs.existsSync(filePath)) {
-              const content = fs.readFileSync(filePath, 'utf-8');
-              const state = JSON.parse(content);
-              if (state.active === true) {
-                return 'thinking';
-              }
-            }
+    if (omcExists && files) {
+      for (const content of files.omcStates) {
+        try {
+          const state = JSON.parse(content);
+          if (state.active === true) {
+            return 'thinking';
           }
+        } catch {
+          // Ignore unreadable state files
         }
-      } catch {
-        // OMC state check failed, continue to fallback
       }
     }
 
@@ -508,44 +571,74 @@ export class SessionDiscoveryService {
   }
 
   async discoverLocalSessions(): Promise<Session[]> {
+    const startedAt = Date.now();
     const tmuxSessions = await listTmuxSessions();
-    return this.processTmuxSessions(tmuxSessions, {
+    const sessions = await this.processTmuxSessions(tmuxSessions, {
       id: 'local',
       type: 'local',
       displayName: 'Local',
     });
+    await this.attachGitStatus('local', sessions);
+    this.recordDiscoveryTiming('local', startedAt, sessions.length);
+    return sessions;
   }
 
+  /**
+   * Discover every pane on a remote host with one exec for tmux and one for
+   * Claude project files, so refresh latency does not grow with the number
+   * of sessions on the host
+   */
   async discoverRemoteSessions(host: SSHHostConfig): Promise<Session[]> {
+    const startedAt = Date.now();
     try {
-      // Execute tmux list-sessions on remote
-      const sessionFormat = `#{session_id}${DELIMITER}#{session_name}${DELIMITER}#{session_windows}${DELIMITER}#{session_created}`;
-      const cmd = `tmux list-sessions -F '${sessionFormat}' 2>/dev/null || true`;
-      console.log(`[Discovery] Executing on ${host.id}: ${cmd}`);
-      const sessionsOutput = await sshConnectionManager.exec(host.id, cmd);
-      console.log(`[Discovery] ${host.id} output: "${sessionsOutput.trim()}"`);
-
-      if (!sessionsOutput.trim()) {
-        return [];
-      }
-
-      const tmuxSessions: TmuxSession[] = sessionsOutput.trim().split('\n').map(line => {
-        const [sessionId, sessionName, windowCount, createdAt] = line.split(DELIMITER);
-        return {
-          sessionId,
-          sessionName,
-          windowCount: parseInt(windowCount, 10),
-          createdAt: parseInt(createdAt, 10),
-        };
-      });
-
-      return this.processTmuxSessionsRemote(tmuxSessions, host);
+      // Run under sh whatever the remote login shell is
+      const output = await sshConnectionManager.exec(host.id, `sh -c ${shellQuote(DISCOVERY_SCRIPT)}`);
+      const sessions = await this.parseRemoteDiscovery(output, host);
+      await this.attachGitStatus(host.id, sessions);
+      this.recordDiscoveryTiming(host.id, startedAt, sessions.length);
+      return sessions;
     } catch (err) {
       console.error(`Failed to discover sessions on ${host.id}:`, err);
       return [];
     }
   }
 
+  /**
+   * Add the (cached) git state of each session's working directory
+   */
+  private async attachGitStatus(hostId: string, sessions: Session[]): Promise<void> {
+    const workingDirectories = sessions.map(s => s.workingDirectory).filter((dir): dir is string => !!dir);
+    if (workingDirectories.length === 0) return;
+
+    const statuses = await gitStatusService.getStatuses(hostId, workingDirectories);
+    for (const session of sessions) {
+      const status = session.workingDirectory ? statuses.get(session.workingDirectory) : undefined;
+      if (status) {
+        session.git = status;
+      }
+    }
+  }
+
+  /**
+   * How long the last discovery of each host took
+   */
+  getDiscoveryTimings(): HostDiscoveryTiming[] {
+    return Array.from(this.discoveryTimings.values());
+  }
+
+  private recordDiscoveryTiming(hostId: string, startedAt: number, sessionCount: number): void {
+    const durationMs = Date.now() - startedAt;
+    this.discoveryTimings.set(hostId, {
+      hostId,
+      durationMs,
+      sessionCount,
+      measuredAt: new Date().toISOString(),
+    });
+    if (hostId !== 'local' && durationMs >= SLOW_DISCOVERY_MS) {
+      console.warn(`[Discovery] ${hostId} was slow: ${sessionCount} pane(s) in ${durationMs}ms`);
+    }
+  }
+
   private async processTmuxSessions(
     tmuxSessions: TmuxSession[],
     hostInfo: { id: string; type: 'local' | 'remote'; displayName: string }
@@ -566,22 +659,21 @@ export class SessionDiscoveryService {
         const now = new Date().toISOString();
 
         // Capture last output line, status bar, conversation summary, and user input for preview
-        const [lastOutput, statusBar, conversationSummary, userLastInput] = await Promise.all([
+        const [lastOutput, statusBar, projectFiles, userLastInput] = await Promise.all([
           this.captureLastOutput(tmuxSession.sessionName, pane.paneId),
           this.captureStatusBar(tmuxSession.sessionName),
-          this.captureConversationSummary(pane.currentPath),
+          readLocalClaudeProjectFiles(pane.currentPath),
           this.captureUserLastInput(tmuxSession.sessionName, pane.paneId),
         ]);
+        const conversationSummary = getConversationSummary(projectFiles);
 
         // Detect Claude operation status for Claude sessions
         let claudeStatus: ClaudeOperationStatus | undefined;
         if (isClaudeSession) {
-          claudeStatus = await this.detectClaudeOperationStatus(
-            tmuxSession.sessionName,
-            pane.paneId,
-            pane.currentPath,
+          claudeStatus = this.classifyClaudeStatus(
+            await this.captureScreenTail(tmuxSession.sessionName, pane.paneId),
             statusBar,
-            false
+            projectFiles
           );
         }
 
@@ -627,25 +719,23 @@ export class SessionDiscoveryService {
     return discovered;
   }
 
-  private async processTmuxSessionsRemote(
-    tmuxSessions: TmuxSession[],
-    host: SSHHostConfig
-  ): Promise<Session[]> {
-    const discovered: Session[] = [];
-    const paneFormat = `#{pane_id}${DELIMITER}#{pane_pid}${DELIMITER}#{pane_current_command}${DELIMITER}#{pane_width}${DELIMITER}#{pane_height}${DELIMITER}#{window_index}${DELIMITER}#{pane_current_path}`;
-
-    for (const tmuxSession of tmuxSessions) {
-      try {
-        const panesOutput = await sshConnectionManager.exec(
-          host.id,
-          `tmux list-panes -t '${tmuxSession.sessionName}' -F '${paneFormat}' 2>/dev/null || true`
-        );
-
-        if (!panesOutput.trim()) continue;
-
-        const panes: TmuxPane[] = panesOutput.trim().split('\n').map(line => {
-          const [paneId, pid, currentCommand, width, height, windowIndex, currentPath] = line.split(DELIMITER);
-          return {
+  /**
+   * Build sessions from the output of DISCOVERY_SCRIPT
+   */
+  private async parseRemoteDiscovery(output: string, host: SSHHostConfig): Promise<Session[]> {
+    const statusBars = new Map<string, string | undefined>();
+    const panes: { pane: TmuxPane; tmuxSession: TmuxSession; capture: string[] }[] = [];
+
+    // Without the final newline, every capture ends at its last pane row
+    for (const line of output.replace(/\n$/, '').split('\n')) {
+      if (line.startsWith(DISCOVERY_SESSION_MARKER)) {
+        const [sessionId, statusRight = ''] = line.slice(DISCOVERY_SESSION_MARKER.length).split(DELIMITER);
+        statusBars.set(sessionId, this.cleanStatusBar(statusRight));
+      } else if (line.startsWith(DISCOVERY_PANE_MARKER)) {
+        const fields = line.slice(DISCOVERY_PANE_MARKER.length).split(DELIMITER);
+        const [paneId, pid, currentCommand, width, height, windowIndex, currentPath, sessionId, createdAt] = fields;
+        panes.push({
+          pane: {
             paneId,
             pid: parseInt(pid, 10),
             currentCommand,
@@ -653,74 +743,74 @@ export class SessionDiscoveryService {
             height: parseInt(height, 10),
             windowIndex: parseInt(windowIndex, 10),
             currentPath,
-          };
+          },
+          tmuxSession: {
+            sessionId,
+            // Session names may contain the delimiter; they come last
+            sessionName: fields.slice(9).join(DELIMITER),
+            windowCount: 0,
+            createdAt: parseInt(createdAt, 10),
+          },
+          capture: [],
         });
+      } else if (panes.length > 0) {
+        panes[panes.length - 1].capture.push(line);
+      }
+    }
 
-        for (const pane of panes) {
-          const isClaudeSession = isClaudeSessionFast(pane);
-          const sessionId = `${host.id}:${tmuxSession.sessionId}:${pane.paneId}`;
-          const now = new Date().toISOString();
-
-          // Skip lastOutput, statusBar, and conversationSummary capture for remote sessions to avoid SSH timeouts
-          const lastOutput = undefined;
-          const statusBar = undefined;
-          const conversationSummary = undefined;
-
-          // Detect Claude operation status for Claude sessions (remote)
-          let claudeStatus: ClaudeOperationStatus | undefined;
-          if (isClaudeSession) {
-            claudeStatus = await this.detectClaudeOperationStatus(
-              tmuxSession.sessionName,
-              pane.paneId,
-              pane.currentPath,
-              undefined,  // statusBar not captured for remote
-              true,       // isRemote = true
-              host.id     // pass the hostId
-            );
-          }
+    const workingDirectories = [...new Set(panes.map(({ pane }) => pane.currentPath).filter(Boolean))];
+    const projectFiles = await this.readRemoteProjectFiles(host.id, workingDirectories);
+    const now = new Date().toISOString();
 
-          const session: Session = {
-            id: sessionId,
-            name: tmuxSession.sessionName,
-            host: {
-              id: host.id,
-              type: 'remote',
-              displayName: host.name,
-            },
-            tmux: {
-              sessionId: tmuxSession.sessionId,
-              sessionName: tmuxSession.sessionName,
-              paneId: pane.paneId,
-              windowIndex: pane.windowIndex,
-            },
-            status: 'active' as SessionStatus,
-            isClaudeSession,
-            process: {
-              pid: pane.pid,
-              currentCommand: pane.currentCommand,
-            },
-            createdAt: new Date(tmuxSession.createdAt * 1000).toISOString(),
-            lastActivityAt: now,
-            dimensions: {
-              cols: pane.width,
-              rows: pane.height,
-            },
-            workingDirectory: pane.currentPath || null,
-            workspaceId: this.sessionWorkspaceMap.get(sessionId) ?? null,
-            lastOutput,
-            statusBar,
-            conversationSummary,
-            claudeStatus,
-          };
+    return panes.map(({ pane, tmuxSession, capture }) => {
+      const isClaudeSession = isClaudeSessionFast(pane);
+      const sessionId = `${host.id}:${tmuxSession.sessionId}:${pane.paneId}`;
+      const statusBar = statusBars.get(tmuxSession.sessionId);
+      const files = projectFiles.get(pane.currentPath);
+      const screen = capture.join('\n');
 
-          discovered.push(session);
-        }
-      } catch (err) {
-        console.error(`Failed to list panes for session ${tmuxSession.sessionName} on ${host.id}:`, err);
+      let claudeStatus: ClaudeOperationStatus | undefined;
+      if (isClaudeSession) {
+        claudeStatus = this.classifyClaudeStatus(capture.slice(-5).join('\n'), statusBar, files);
       }
-    }
 
-    return discovered;
+      const session: Session = {
+        id: sessionId,
+        name: tmuxSession.sessionName,
+        host: {
+          id: host.id,
+          type: 'remote',
+          displayName: host.name,
+        },
+        tmux: {
+          sessionId: tmuxSession.sessionId,
+          sessionName: tmuxSession.sessionName,
+          paneId: pane.paneId,
+          windowIndex: pane.windowIndex,
+        },
+        status: 'active' as SessionStatus,
+        isClaudeSession,
+        process: {
+          pid: pane.pid,
+          currentCommand: pane.currentCommand,
+        },
+        createdAt: new Date(tmuxSession.createdAt * 1000).toISOString(),
+        lastActivityAt: now,
+        dimensions: {
+          cols: pane.width,
+          rows: pane.height,
+        },
+        workingDirectory: pane.currentPath || null,
+        workspaceId: this.sessionWorkspaceMap.get(sessionId) ?? null,
+        lastOutput: this.extractLastOutput(screen),
+        statusBar,
+        conversationSummary: files ? getConversationSummary(files) : undefined,
+        userLastInput: this.extractUserLastInput(screen),
+        claudeStatus,
+      };
+
+      return session;
+    });
   }
 
   async refresh(): Promise<Session[]> {
@@ -747,11 +837,50 @@ export class SessionDiscoveryService {
       console.log('Remote sessions:', remoteSessions.map(s => `${s.host.id}:${s.name}`).join(', '));
     }
 
-    const allDiscovered = [...localSessions, ...remoteSessions];
+    this.lastReconcileAt = Date.now();
+    this.mergeDiscovered([...localSessions, ...remoteSessions], null);
+
+    // Notify listeners with only managed sessions
+    this.notifyListeners();
+
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Rediscover a single host, leaving sessions on other hosts untouched
+   */
+  async refreshHost(hostId: string): Promise<Session[]> {
+    let discovered: Session[];
+    if (hostId === 'local') {
+      discovered = await this.discoverLocalSessions();
+    } else {
+      const host = getHostConfig(hostId);
+      if (!host) return [];
+      discovered = await this.discoverRemoteSessions(host);
+    }
+
+    this.mergeDiscovered(discovered, new Set([hostId]));
+    this.notifyListeners();
+
+    return discovered;
+  }
 
-    // Update session map
+  /**
+   * Replace the sessions of the discovered hosts (all hosts when null)
+   */
+  private mergeDiscovered(discovered: Session[], hostIds: Set<string> | null): void {
     const newMap = new Map<string, Session>();
-    for (const session of allDiscovered) {
+
+    // Keep sessions of hosts that were not part of this discovery
+    if (hostIds) {
+      for (const [sessionId, session] of this.sessions) {
+        if (!hostIds.has(session.host.id)) {
+          newMap.set(sessionId, session);
+        }
+      }
+    }
+
+    for (const session of discovered) {
       const existing = this.sessions.get(session.id);
       if (existing) {
         session.createdAt = existing.createdAt;
@@ -770,24 +899,39 @@ export class SessionDiscoveryService {
       }
     }
 
-    // Enrich all sessions with workspaceId from the map
+    // Enrich all sessions with workspaceId and worktree from the maps
     for (const [sessionId, session] of newMap) {
       session.workspaceId = this.sessionWorkspaceMap.get(sessionId) ?? null;
+      session.worktree = this.sessionWorktreeMap.get(sessionId);
     }
 
     this.sessions = newMap;
-
-    // Notify listeners with only managed sessions
-    this.notifyListeners();
-
-    return Array.from(this.sessions.values());
   }
 
-  startPolling(intervalMs: number = 2000): void {
+  /**
+   * Keep sessions up to date. With control mode, hosts that have a live
+   * `tmux -C` client are rediscovered as soon as tmux reports a change, and
+   * only get a full reconciliation every `reconcileInterval`; the rest are
+   * polled every `intervalMs`.
+   */
+  startPolling(
+    intervalMs: number = 2000,
+    options: { controlMode?: boolean; reconcileInterval?: number } = {}
+  ): void {
     if (this.pollInterval) return;
 
+    this.controlMode = options.controlMode ?? false;
+    this.reconcileIntervalMs = options.reconcileInterval ?? intervalMs;
+
+    if (this.controlMode) {
+      this.controlUnsubscribers.push(
+        tmuxControlService.onTopologyChange(hostId => this.scheduleHostRefresh(hostId)),
+        tmuxControlService.onActivity((hostId, paneId) => this.handlePaneActivity(hostId, paneId))
+      );
+    }
+
     this.pollInterval = setInterval(() => {
-      this.refresh().catch(console.error);
+      this.pollTick().catch(console.error);
     }, intervalMs);
 
     // Initial refresh
@@ -799,6 +943,64 @@ export class SessionDiscoveryService {
       clearInterval(this.pollInterval);
       this.pollInterval = null;
     }
+
+    for (const unsubscribe of this.controlUnsubscribers) {
+      unsubscribe();
+    }
+    this.controlUnsubscribers = [];
+    for (const timer of [...this.hostRefreshTimers.values(), ...this.activityTimers.values()]) {
+      clearTimeout(timer);
+    }
+    this.hostRefreshTimers.clear();
+    this.activityTimers.clear();
+    tmuxControlService.stopAll();
+  }
+
+  private async pollTick(): Promise<void> {
+    if (!this.controlMode) {
+      await this.refresh();
+      return;
+    }
+
+    const hostIds = ['local', ...getAllHosts().map(host => host.id)];
+    tmuxControlService.sync(hostIds);
+
+    // Slow fallback in case a notification was missed
+    if (Date.now() - this.lastReconcileAt >= this.reconcileIntervalMs) {
+      await this.refresh();
+      return;
+    }
+
+    const polled = hostIds.filter(hostId => !tmuxControlService.isConnected(hostId));
+    await Promise.allSettled(polled.map(hostId => this.refreshHost(hostId)));
+  }
+
+  private scheduleHostRefresh(hostId: string): void {
+    const pending = this.hostRefreshTimers.get(hostId);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.hostRefreshTimers.set(hostId, setTimeout(() => {
+      this.hostRefreshTimers.delete(hostId);
+      this.refreshHost(hostId).catch(console.error);
+    }, TOPOLOGY_DEBOUNCE_MS));
+  }
+
+  /**
+   * Output in a managed pane may mean Claude changed state; refresh its
+   * status without waiting for the next status poll
+   */
+  private handlePaneActivity(hostId: string, paneId: string): void {
+    const session = this.getManagedSessions(true).find(
+      s => s.host.id === hostId && s.tmux.paneId === paneId && s.status !== 'terminated'
+    );
+    if (!session || this.activityTimers.has(session.id)) return;
+
+    this.activityTimers.set(session.id, setTimeout(() => {
+      this.activityTimers.delete(session.id);
+      this.refreshSessionStatus(session).catch(console.error);
+    }, ACTIVITY_THROTTLE_MS));
   }
 
   onSessionsChange(listener: (sessions: Session[]) => void): () => void {
@@ -806,6 +1008,192 @@ export class SessionDiscoveryService {
     return () => this.listeners.delete(listener);
   }
 
+  /**
+   * Per-session added/removed/updated events between successive managed
+   * session lists, numbered consecutively
+   */
+  onSessionsDiff(listener: (message: SessionDiffMessage) => void): () => void {
+    this.diffListeners.add(listener);
+    return () => this.diffListeners.delete(listener);
+  }
+
+  /**
+   * Sequence number of the last diff event, to send along with full lists
+   */
+  getDiffSeq(): number {
+    return this.diffSeq;
+  }
+
+  /**
+   * Status-only changes (Claude status, last output line, last user input)
+   * of managed sessions, reported between full discovery refreshes
+   */
+  onStatusChange(listener: (update: SessionStatusUpdate) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  /**
+   * Poll only the status fields of managed sessions, which is much cheaper
+   * than a full refresh. Runs while clients hold status subscriptions.
+   */
+  startStatusPolling(intervalMs: number): void {
+    if (this.statusPollInterval) return;
+
+    this.statusPollInterval = setInterval(() => {
+      this.refreshStatuses().catch(console.error);
+    }, intervalMs);
+  }
+
+  stopStatusPolling(): void {
+    if (this.statusPollInterval) {
+      clearInterval(this.statusPollInterval);
+      this.statusPollInterval = null;
+    }
+  }
+
+  async refreshStatuses(): Promise<void> {
+    // Slow hosts can take longer than the interval; never stack refreshes
+    if (this.statusRefreshInFlight) return;
+    this.statusRefreshInFlight = true;
+
+    try {
+      const sessions = this.getManagedSessions().filter(s => s.status !== 'terminated');
+
+      // Remote sessions are refreshed with one exec per host
+      const remoteByHost = new Map<string, Session[]>();
+      const refreshes: Promise<void>[] = [];
+      for (const session of sessions) {
+        if (session.host.type === 'remote') {
+          remoteByHost.set(session.host.id, [...(remoteByHost.get(session.host.id) ?? []), session]);
+        } else {
+          refreshes.push(this.refreshSessionStatus(session));
+        }
+      }
+      for (const [hostId, hostSessions] of remoteByHost) {
+        refreshes.push(this.refreshRemoteStatuses(hostId, hostSessions));
+      }
+      await Promise.allSettled(refreshes);
+    } finally {
+      this.statusRefreshInFlight = false;
+    }
+  }
+
+  private async refreshSessionStatus(session: Session): Promise<void> {
+    if (session.host.type === 'remote') {
+      return this.refreshRemoteStatuses(session.host.id, [session]);
+    }
+
+    const { sessionName, paneId } = session.tmux;
+
+    // Same fields full discovery captures
+    const [lastOutput, userLastInput, claudeStatus] = await Promise.all([
+      this.captureLastOutput(sessionName, paneId),
+      this.captureUserLastInput(sessionName, paneId),
+      session.isClaudeSession
+        ? this.detectClaudeOperationStatus(sessionName, paneId, session.workingDirectory, session.statusBar)
+        : undefined,
+    ]);
+
+    this.applyStatusUpdate(session.id, { lastOutput, userLastInput, claudeStatus });
+  }
+
+  /**
+   * Status fields of one host's remote sessions from a single exec: pane
+   * captures, like DISCOVERY_SCRIPT takes, then the Claude project files of
+   * their working directories
+   */
+  private async refreshRemoteStatuses(hostId: string, sessions: Session[]): Promise<void> {
+    const workingDirectories = [...new Set(
+      sessions.filter(s => s.isClaudeSession && s.workingDirectory).map(s => s.workingDirectory!)
+    )];
+    const paneIds = sessions.map(s => shellQuote(s.tmux.paneId)).join(' ');
+    let command = `sh -c ${shellQuote(STATUS_CAPTURE_SCRIPT)} sh ${paneIds}`;
+    if (workingDirectories.length > 0) {
+      command += `; ${buildClaudeProjectCommand(workingDirectories)}`;
+    }
+
+    let output: string;
+    try {
+      output = await sshConnectionManager.exec(hostId, command);
+    } catch (err) {
+      console.error(`Failed to refresh session statuses on ${hostId}:`, err);
+      return;
+    }
+
+    // Captured pane text never contains \x1e, so any marker line ends a capture
+    const captures = new Map<string, string[]>();
+    let current: string[] | null = null;
+    for (const line of output.replace(/\n$/, '').split('\n')) {
+      if (line.startsWith(STATUS_PANE_MARKER)) {
+        current = [];
+        captures.set(line.slice(STATUS_PANE_MARKER.length), current);
+      } else if (line.startsWith('\x1e')) {
+        current = null;
+      } else if (current) {
+        current.push(line);
+      }
+    }
+    const projectFiles = parseClaudeProjectOutput(output);
+
+    for (const session of sessions) {
+      const capture = captures.get(session.tmux.paneId);
+      // Pane gone; the next discovery marks the session
+      if (!capture || capture.length === 0) continue;
+
+      const screen = capture.join('\n');
+      const files = session.workingDirectory ? projectFiles.get(session.workingDirectory) : undefined;
+      this.applyStatusUpdate(session.id, {
+        lastOutput: this.extractLastOutput(screen),
+        userLastInput: this.extractUserLastInput(screen),
+        claudeStatus: session.isClaudeSession
+          ? this.classifyClaudeStatus(capture.slice(-5).join('\n'), session.statusBar, files)
+          : undefined,
+      });
+    }
+  }
+
+  /**
+   * Claude status reported by a terminal bridge's live detector
+   */
+  updateClaudeStatus(sessionId: string, status: ClaudeOperationStatus): void {
+    this.applyStatusUpdate(sessionId, { claudeStatus: status });
+  }
+
+  /**
+   * Store changed status fields on the session and tell status listeners
+   */
+  private applyStatusUpdate(
+    sessionId: string,
+    fields: Pick<Session, 'claudeStatus' | 'lastOutput' | 'userLastInput'>
+  ): void {
+    const session = this.sessions.get(sessionId);
+    if (!session || !this.sessionWorkspaceMap.has(sessionId)) return;
+
+    const update: SessionStatusUpdate = { sessionId };
+    if (fields.claudeStatus !== undefined && fields.claudeStatus !== session.claudeStatus) {
+      session.claudeStatus = update.claudeStatus = fields.claudeStatus;
+    }
+    if (fields.lastOutput !== undefined && fields.lastOutput !== session.lastOutput) {
+      session.lastOutput = update.lastOutput = fields.lastOutput;
+    }
+    if (fields.userLastInput !== undefined && fields.userLastInput !== session.userLastInput) {
+      session.userLastInput = update.userLastInput = fields.userLastInput;
+    }
+
+    if (Object.keys(update).length === 1) return;
+
+    // Status listeners deliver these fields; keep them out of the next diff
+    const snapshot = this.diffSnapshot.get(sessionId);
+    if (snapshot) {
+      const { sessionId: _, ...changedFields } = update;
+      Object.assign(snapshot, changedFields);
+    }
+    for (const listener of this.statusListeners) {
+      listener(update);
+    }
+  }
+
   getSessions(includeHidden: boolean = false): Session[] {
     const allSessions = Array.from(this.sessions.values());
     if (includeHidden) {
@@ -860,6 +1248,48 @@ export class SessionDiscoveryService {
     for (const listener of this.listeners) {
       listener(managedSessions);
     }
+    this.emitDiff(managedSessions);
+  }
+
+  private emitDiff(managedSessions: Session[]): void {
+    const messages: SessionDiffMessage[] = [];
+    const nextSnapshot = new Map<string, Session>();
+
+    for (const session of managedSessions) {
+      const copy = structuredClone(session);
+      nextSnapshot.set(session.id, copy);
+
+      const previous = this.diffSnapshot.get(session.id);
+      if (!previous) {
+        messages.push({ type: 'session-added', seq: ++this.diffSeq, session: copy });
+        continue;
+      }
+
+      const diff = diffSession(previous, copy);
+      if (diff) {
+        messages.push({
+          type: 'session-updated',
+          seq: ++this.diffSeq,
+          sessionId: session.id,
+          changes: diff.changes,
+          ...(diff.cleared.length > 0 && { cleared: diff.cleared }),
+        });
+      }
+    }
+
+    for (const sessionId of this.diffSnapshot.keys()) {
+      if (!nextSnapshot.has(sessionId)) {
+        messages.push({ type: 'session-removed', seq: ++this.diffSeq, sessionId });
+      }
+    }
+
+    this.diffSnapshot = nextSnapshot;
+
+    for (const message of messages) {
+      for (const listener of this.diffListeners) {
+        listener(message);
+      }
+    }
   }
 
   getSession(id: string): Session | undefined {
@@ -1,31 +1,192 @@
 import { exec as execCallback } from 'child_process';
 import { promisify } from 'util';
-import { Session, CreateSessionRequest, AttachSessionRequest } from '../types/Session.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { Session, CreateSessionRequest, AttachSessionRequest, SessionWorktree, WorktreeCleanup } from '../types/Session.js';
 import { sessionDiscoveryService } from './SessionDiscoveryService.js';
 import { sshConnectionManager } from './SSHConnectionManager.js';
+import { promptScheduler } from './PromptScheduler.js';
+import { shellQuote } from '../utils/tmux.js';
+import {
+  buildWorktreeAddCommand,
+  parseWorktreeAddOutput,
+  buildWorktreeCleanupCommand,
+  checkScriptOutput,
+} from '../utils/git.js';
+import { getConfig } from '../config/index.js';
 
 const exec = promisify(execCallback);
 
+/**
+ * Working directory as a single shell word. Directory names come from the
+ * host (autocomplete), so everything but a leading `~` is single-quoted;
+ * that `~` becomes "$HOME", since it would not expand inside quotes.
+ */
+function shellDirectory(workingDirectory: string): string {
+  if (workingDirectory === '~') return '"$HOME"';
+  if (workingDirectory.startsWith('~/')) return `"$HOME"${shellQuote(workingDirectory.slice(1))}`;
+  return shellQuote(workingDirectory);
+}
+
+/**
+ * Build the command tmux runs in the new session. The result is embedded in a
+ * double-quoted shell string, so env values are escaped for that context too.
+ */
+function buildClaudeCommand(claudeArgs: string[], env: Record<string, string>): string {
+  const assignments = Object.entries(env).map(([key, value]) =>
+    `${key}=${shellQuote(value)}`.replace(/[\\"$`]/g, '\\$&')
+  );
+  const prefix = assignments.length > 0 ? ['env', ...assignments] : [];
+  return [...prefix, 'claude', ...claudeArgs].join(' ');
+}
+
 export class SessionManager {
+  /** Worktrees created for sessions; only these are ever removed or merged */
+  private worktrees: Map<string, SessionWorktree> = new Map();
+  private readonly worktreesPath: string;
+
+  constructor() {
+    this.worktreesPath = path.join(os.homedir(), '.session-manager', 'session-worktrees.json');
+    this.loadWorktrees();
+  }
+
+  private loadWorktrees(): void {
+    try {
+      if (fs.existsSync(this.worktreesPath)) {
+        const data = fs.readFileSync(this.worktreesPath, 'utf-8');
+        this.worktrees = new Map(Object.entries(JSON.parse(data)));
+      }
+    } catch (err) {
+      console.error('Failed to load session worktrees:', err);
+      this.worktrees = new Map();
+    }
+    for (const [sessionId, worktree] of this.worktrees) {
+      sessionDiscoveryService.setSessionWorktree(sessionId, worktree);
+    }
+  }
+
+  private saveWorktrees(): void {
+    try {
+      const dir = path.dirname(this.worktreesPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      const data = Object.fromEntries(this.worktrees);
+      const tempPath = `${this.worktreesPath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+      fs.renameSync(tempPath, this.worktreesPath);
+    } catch (err) {
+      console.error('Failed to save session worktrees:', err);
+    }
+  }
+
+  private trackWorktree(sessionId: string, worktree: SessionWorktree | null): void {
+    if (worktree) {
+      this.worktrees.set(sessionId, worktree);
+    } else {
+      this.worktrees.delete(sessionId);
+    }
+    this.saveWorktrees();
+    sessionDiscoveryService.setSessionWorktree(sessionId, worktree);
+  }
+
+  private async execOnHost(hostId: string, command: string): Promise<string> {
+    if (hostId === 'local') {
+      return (await exec(command)).stdout;
+    }
+    return sshConnectionManager.exec(hostId, command);
+  }
 
   async createSession(request: CreateSessionRequest): Promise<Session> {
-    const { workingDirectory: inputWorkingDir, hostId, sessionName, claudeArgs = [], workspaceId } = request;
+    const { workingDirectory: inputWorkingDir, hostId, sessionName, claudeArgs = [], workspaceId, env = {}, initialPrompt, followUpInputs = [] } = request;
 
     // Default to home directory if not provided
-    const workingDirectory = inputWorkingDir?.trim() || '~';
+    let workingDirectory = inputWorkingDir?.trim() || '~';
 
     // Generate session name if not provided
     const tmuxSessionName = sessionName || `claude-${Date.now()}`;
 
     // Build claude command
-    const claudeCmd = ['claude', ...claudeArgs].join(' ');
+    const claudeCmd = buildClaudeCommand(claudeArgs, env);
+
+    // Isolated sessions run in a new worktree instead of the directory itself
+    let worktree: SessionWorktree | null = null;
+    if (request.worktree) {
+      if (workingDirectory === '~') {
+        throw new Error('A worktree session needs a working directory inside a git repository');
+      }
+      const branch = request.worktree.branch?.trim() || `session/${tmuxSessionName}`;
+      const output = await this.execOnHost(
+        hostId,
+        buildWorktreeAddCommand(workingDirectory, getConfig().worktree.directory, tmuxSessionName, branch, request.worktree.baseRef)
+      );
+      const { repoRoot, path: worktreePath } = parseWorktreeAddOutput(output);
+      worktree = { repoRoot, path: worktreePath, branch };
+      workingDirectory = worktreePath;
+    }
+
+    let tmuxStarted = false;
+    let newSession: Session | undefined;
+    try {
+      await this.startTmuxSession(hostId, tmuxSessionName, workingDirectory, claudeCmd);
+      tmuxStarted = true;
+
+      // Wait a moment for session to start, then refresh discovery
+      // Remote sessions may take longer to start
+      const waitTime = hostId === 'local' ? 500 : 1500;
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+      await sessionDiscoveryService.refresh();
+
+      // Find the new session
+      const sessions = sessionDiscoveryService.getSessions();
+      newSession = sessions.find(s =>
+        s.tmux.sessionName === tmuxSessionName && s.host.id === hostId
+      );
+
+      if (!newSession) {
+        throw new Error('Session created but not found in discovery');
+      }
+    } catch (err) {
+      // The session never became usable, so its worktree can go; a session
+      // that did start is stopped first so nothing runs in a removed directory
+      if (worktree) {
+        if (tmuxStarted) {
+          await this.execOnHost(hostId, `tmux kill-session -t "${tmuxSessionName}"`).catch(() => {});
+        }
+        await this.execOnHost(hostId, buildWorktreeCleanupCommand('remove', worktree)).catch(() => {});
+      }
+      throw err;
+    }
+
+    // Add to managed sessions
+    sessionDiscoveryService.addManagedSession(newSession.id);
 
+    if (worktree) {
+      this.trackWorktree(newSession.id, worktree);
+    }
+
+    // Set workspace association if provided
+    if (workspaceId) {
+      sessionDiscoveryService.setSessionWorkspace(newSession.id, workspaceId);
+    }
+
+    // Kick off the task once Claude is ready for it
+    const inputs = initialPrompt ? [initialPrompt, ...followUpInputs] : followUpInputs;
+    if (inputs.length > 0) {
+      promptScheduler.start(newSession, inputs);
+    }
+
+    return newSession;
+  }
+
+  private async startTmuxSession(hostId: string, tmuxSessionName: string, workingDirectory: string, claudeCmd: string): Promise<void> {
     if (hostId === 'local') {
       // Local session creation
       // Validate working directory (skip for home directory shortcut)
       if (workingDirectory !== '~') {
         try {
-          await exec(`test -d "${workingDirectory}"`);
+          await exec(`test -d ${shellDirectory(workingDirectory)}`);
         } catch {
           throw new Error(`Working directory does not exist: ${workingDirectory}`);
         }
@@ -34,7 +195,7 @@ export class SessionManager {
       // Create tmux session with claude
       try {
         await exec(
-          `tmux new-session -d -s "${tmuxSessionName}" -c "${workingDirectory}" "${claudeCmd}"`
+          `tmux new-session -d -s "${tmuxSessionName}" -c ${shellDirectory(workingDirectory)} "${claudeCmd}"`
         );
       } catch (err) {
         throw new Error(`Failed to create tmux session: ${err instanceof Error ? err.message : String(err)}`);
@@ -44,7 +205,7 @@ export class SessionManager {
       // Validate working directory exists remotely (skip for home directory shortcut)
       if (workingDirectory !== '~') {
         try {
-          await sshConnectionManager.exec(hostId, `test -d "${workingDirectory}"`);
+          await sshConnectionManager.exec(hostId, `test -d ${shellDirectory(workingDirectory)}`);
         } catch (err) {
           const errMsg = err instanceof Error ? err.message : String(err);
           // Check if it's an SSH error vs directory not found
@@ -75,7 +236,7 @@ export class SessionManager {
           throw new Error(`tmux not found on remote host ${hostId}. Please install tmux first.`);
         }
 
-        const createCmd = `tmux new-session -d -s "${tmuxSessionName}" -c "${workingDirectory}" "${claudeCmd}"`;
+        const createCmd = `tmux new-session -d -s "${tmuxSessionName}" -c ${shellDirectory(workingDirectory)} "${claudeCmd}"`;
         console.log(`[SessionManager] Creating remote session: ${createCmd}`);
         const createOutput = await sshConnectionManager.exec(hostId, `${createCmd} 2>&1; echo "EXIT_CODE:$?"`);
         console.log(`[SessionManager] Create output: ${createOutput.trim()}`);
@@ -92,32 +253,6 @@ export class SessionManager {
         throw new Error(`Failed to create remote tmux session: ${err instanceof Error ? err.message : String(err)}`);
       }
     }
-
-    // Wait a moment for session to start, then refresh discovery
-    // Remote sessions may take longer to start
-    const waitTime = hostId === 'local' ? 500 : 1500;
-    await new Promise(resolve => setTimeout(resolve, waitTime));
-    await sessionDiscoveryService.refresh();
-
-    // Find the new session
-    const sessions = sessionDiscoveryService.getSessions();
-    const newSession = sessions.find(s =>
-      s.tmux.sessionName === tmuxSessionName && s.host.id === hostId
-    );
-
-    if (!newSession) {
-      throw new Error('Session created but not found in discovery');
-    }
-
-    // Add to managed sessions
-    sessionDiscoveryService.addManagedSession(newSession.id);
-
-    // Set workspace association if provided
-    if (workspaceId) {
-      sessionDiscoveryService.setSessionWorkspace(newSession.id, workspaceId);
-    }
-
-    return newSession;
   }
 
   async attachSession(request: AttachSessionRequest): Promise<Session> {
@@ -159,13 +294,21 @@ export class SessionManager {
     return attachedSession;
   }
 
-  async killSession(sessionId: string): Promise<void> {
+  /**
+   * Kill a session's tmux session. Worktree sessions also keep, remove or
+   * merge their worktree once the session is gone; a refused merge
+   * (uncommitted changes, conflicts) leaves the worktree and its branch.
+   */
+  async killSession(sessionId: string, options: { worktree?: WorktreeCleanup } = {}): Promise<void> {
     const session = sessionDiscoveryService.getSession(sessionId);
 
     if (!session) {
       throw new Error(`Session not found: ${sessionId}`);
     }
 
+    const worktree = this.worktrees.get(sessionId);
+    const cleanup = options.worktree ?? 'keep';
+
     try {
       if (session.host.id === 'local') {
         await exec(`tmux kill-session -t "${session.tmux.sessionName}"`);
@@ -180,10 +323,29 @@ export class SessionManager {
     }
 
     // Remove from managed sessions
+    promptScheduler.cancel(sessionId);
     sessionDiscoveryService.removeManagedSession(sessionId);
+    if (worktree) {
+      this.trackWorktree(sessionId, null);
+    }
+
+    // Only once Claude is gone, so nothing writes to the worktree while it is
+    // merged or removed. A failure leaves the worktree on disk for manual cleanup.
+    let cleanupError: string | null = null;
+    if (worktree && cleanup !== 'keep') {
+      try {
+        checkScriptOutput(await this.execOnHost(session.host.id, buildWorktreeCleanupCommand(cleanup, worktree)));
+      } catch (err) {
+        cleanupError = err instanceof Error ? err.message : String(err);
+      }
+    }
 
     // Refresh discovery
     await sessionDiscoveryService.refresh();
+
+    if (cleanupError) {
+      throw new Error(`Session killed, but failed to ${cleanup} worktree ${worktree!.path}: ${cleanupError}`);
+    }
   }
 
   async killPane(sessionId: string): Promise<void> {
@@ -206,8 +368,12 @@ export class SessionManager {
       throw new Error(`Failed to kill pane: ${err instanceof Error ? err.message : String(err)}`);
     }
 
-    // Remove from managed sessions
+    // Remove from managed sessions; a worktree is kept like any directory
+    promptScheduler.cancel(sessionId);
     sessionDiscoveryService.removeManagedSession(sessionId);
+    if (this.worktrees.has(sessionId)) {
+      this.trackWorktree(sessionId, null);
+    }
 
     await sessionDiscoveryService.refresh();
   }
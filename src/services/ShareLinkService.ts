@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ShareLink, CreateShareLinkResponse } from '../types/ShareLink.js';
+import { authService } from './AuthService.js';
+
+const DEFAULT_EXPIRY_MINUTES = 60;
+const MAX_EXPIRY_MINUTES = 7 * 24 * 60;
+
+type RevokeListener = (link: ShareLink) => void;
+
+/**
+ * Issues and tracks signed, expiring read-only share links for sessions.
+ * A token is only honoured while its link exists, is unexpired and not revoked.
+ */
+export class ShareLinkService {
+  private linksPath: string;
+  private links: ShareLink[] = [];
+  private revokeListeners: Set<RevokeListener> = new Set();
+
+  constructor() {
+    this.linksPath = path.join(os.homedir(), '.session-manager', 'share-links.json');
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.linksPath)) {
+        const data = fs.readFileSync(this.linksPath, 'utf-8');
+        this.links = JSON.parse(data);
+      }
+    } catch (err) {
+      console.error('Failed to load share links:', err);
+      this.links = [];
+    }
+  }
+
+  private save(): void {
+    try {
+      const dir = path.dirname(this.linksPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      const tempPath = `${this.linksPath}.tmp`;
+      // Owner-only, like users.json
+      fs.writeFileSync(tempPath, JSON.stringify(this.links, null, 2), { encoding: 'utf-8', mode: 0o600 });
+      fs.renameSync(tempPath, this.linksPath);
+    } catch (err) {
+      console.error('Failed to save share links:', err);
+    }
+  }
+
+  private generateId(): string {
+    return `sh_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private isActive(link: ShareLink): boolean {
+    return !link.revokedAt && new Date(link.expiresAt).getTime() > Date.now();
+  }
+
+  /**
+   * Drop links that can no longer be used
+   */
+  private prune(): void {
+    const before = this.links.length;
+    this.links = this.links.filter(link => this.isActive(link));
+    if (this.links.length !== before) {
+      this.save();
+    }
+  }
+
+  create(sessionId: string, sessionName: string, createdBy: string | null, expiresInMinutes?: number): CreateShareLinkResponse {
+    this.prune();
+
+    const minutes = Math.min(Math.max(expiresInMinutes || DEFAULT_EXPIRY_MINUTES, 1), MAX_EXPIRY_MINUTES);
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + minutes * 60 * 1000);
+
+    const link: ShareLink = {
+      id: this.generateId(),
+      sessionId,
+      sessionName,
+      createdBy,
+      createdAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+    this.links.push(link);
+    this.save();
+
+    return { link, token: authService.generateShareToken(link.id, sessionId, expiresAt) };
+  }
+
+  /**
+   * Active links, optionally for one session, newest first
+   */
+  getActive(sessionId?: string): ShareLink[] {
+    return this.links
+      .filter(link => this.isActive(link) && (!sessionId || link.sessionId === sessionId))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  revoke(id: string): boolean {
+    const link = this.links.find(l => l.id === id);
+    if (!link || !this.isActive(link)) return false;
+
+    link.revokedAt = new Date().toISOString();
+    this.save();
+
+    for (const listener of this.revokeListeners) {
+      listener(link);
+    }
+    return true;
+  }
+
+  /**
+   * Resolve a share token to its link, or null if the token or link is no longer valid
+   */
+  resolve(token: string): ShareLink | null {
+    let linkId: string;
+    let sessionId: string;
+    try {
+      const payload = authService.verifyShareToken(token);
+      linkId = payload.sub;
+      sessionId = payload.sid;
+    } catch {
+      return null;
+    }
+
+    const link = this.links.find(l => l.id === linkId);
+    if (!link || link.sessionId !== sessionId || !this.isActive(link)) {
+      return null;
+    }
+    return link;
+  }
+
+  onRevoke(listener: RevokeListener): () => void {
+    this.revokeListeners.add(listener);
+    return () => this.revokeListeners.delete(listener);
+  }
+}
+
+export const shareLinkService = new ShareLinkService();
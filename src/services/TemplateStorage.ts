@@ -0,0 +1,148 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import type {
+  SessionTemplate,
+  CreateTemplateRequest,
+  UpdateTemplateRequest,
+} from '../types/Template.js';
+
+interface TemplateFile {
+  version: number;
+  templates: SessionTemplate[];
+}
+
+export class TemplateStorage {
+  private readonly storagePath: string;
+
+  constructor() {
+    this.storagePath = path.join(
+      os.homedir(),
+      '.session-manager',
+      'templates.json'
+    );
+  }
+
+  /**
+   * Ensure the storage directory and file exist
+   */
+  private async ensureStorage(): Promise<void> {
+    const dir = path.dirname(this.storagePath);
+    await fs.mkdir(dir, { recursive: true });
+
+    try {
+      await fs.access(this.storagePath);
+    } catch {
+      // File doesn't exist, create initial structure
+      const initial: TemplateFile = {
+        version: 1,
+        templates: [],
+      };
+      await this.writeFile(initial);
+    }
+  }
+
+  /**
+   * Read templates from file
+   */
+  private async readFile(): Promise<TemplateFile> {
+    await this.ensureStorage();
+    const content = await fs.readFile(this.storagePath, 'utf-8');
+    return JSON.parse(content);
+  }
+
+  /**
+   * Write templates to file atomically
+   */
+  private async writeFile(data: TemplateFile): Promise<void> {
+    const dir = path.dirname(this.storagePath);
+    await fs.mkdir(dir, { recursive: true });
+    const tempPath = `${this.storagePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.storagePath);
+  }
+
+  /**
+   * Get all templates, sorted by name
+   */
+  async getAll(): Promise<SessionTemplate[]> {
+    const data = await this.readFile();
+    return [...data.templates].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get template by ID
+   */
+  async getById(id: string): Promise<SessionTemplate | null> {
+    const data = await this.readFile();
+    return data.templates.find((t) => t.id === id) || null;
+  }
+
+  /**
+   * Create a new template
+   */
+  async create(request: CreateTemplateRequest): Promise<SessionTemplate> {
+    const data = await this.readFile();
+
+    const now = new Date().toISOString();
+    const template: SessionTemplate = {
+      id: crypto.randomUUID(),
+      name: request.name,
+      description: request.description,
+      hostId: request.hostId,
+      workingDirectory: request.workingDirectory,
+      sessionName: request.sessionName,
+      claudeArgs: request.claudeArgs ?? [],
+      env: request.env ?? {},
+      initialPrompt: request.initialPrompt,
+      workspaceId: request.workspaceId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    data.templates.push(template);
+    await this.writeFile(data);
+
+    return template;
+  }
+
+  /**
+   * Update an existing template
+   */
+  async update(id: string, request: UpdateTemplateRequest): Promise<SessionTemplate | null> {
+    const data = await this.readFile();
+    const index = data.templates.findIndex((t) => t.id === id);
+
+    if (index === -1) {
+      return null;
+    }
+
+    const updated: SessionTemplate = {
+      ...data.templates[index],
+      ...request,
+      updatedAt: new Date().toISOString(),
+    };
+
+    data.templates[index] = updated;
+    await this.writeFile(data);
+
+    return updated;
+  }
+
+  /**
+   * Delete a template
+   */
+  async delete(id: string): Promise<boolean> {
+    const data = await this.readFile();
+    const initialLength = data.templates.length;
+    data.templates = data.templates.filter((t) => t.id !== id);
+
+    if (data.templates.length === initialLength) {
+      return false;
+    }
+
+    await this.writeFile(data);
+    return true;
+  }
+}
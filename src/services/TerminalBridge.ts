@@ -3,9 +3,11 @@ import { ClientChannel } from 'ssh2';
 import { BridgeState, BridgeConfig, TerminalBridgeInfo } from '../types/Terminal.js';
 import { sshConnectionManager } from './SSHConnectionManager.js';
 import { sessionDiscoveryService } from './SessionDiscoveryService.js';
-import { getHostConfig } from '../config/hosts.js';
+import { getHostConfig, getJumpChain } from '../config/hosts.js';
 import { ClaudeStatusDetector } from '../utils/ClaudeStatusDetector.js';
 import { ClaudeOperationStatus } from '../types/Session.js';
+import { recordingService } from './RecordingService.js';
+import { searchService } from './SearchService.js';
 
 export interface TerminalBridge {
   id: string;
@@ -13,6 +15,8 @@ export interface TerminalBridge {
   state: BridgeState;
   dimensions: { cols: number; rows: number };
   subscriberIds: Set<string>;
+  /** Subscribers whose input and resize requests are ignored */
+  readOnlySubscriberIds: Set<string>;
   lastError?: string;
   lastActivityAt: Date;
   ptyProcess: pty.IPty | null;
@@ -58,6 +62,9 @@ export class TerminalBridgeManager {
       }
 
       bridge.subscriberIds.add(clientId);
+      if (config.readOnly) {
+        bridge.readOnlySubscriberIds.add(clientId);
+      }
 
       if (bridge.state === 'paused') {
         bridge.state = 'connected';
@@ -77,6 +84,7 @@ export class TerminalBridgeManager {
       state: 'initializing',
       dimensions: { cols: config.cols, rows: config.rows },
       subscriberIds: new Set([clientId]),
+      readOnlySubscriberIds: new Set(config.readOnly ? [clientId] : []),
       lastActivityAt: new Date(),
       ptyProcess: null,
       sshChannel: null,
@@ -93,6 +101,10 @@ export class TerminalBridgeManager {
       bridge.statusDetector = new ClaudeStatusDetector();
     }
 
+    // Persist everything the bridge outputs for later replay
+    recordingService.startRecording(config.sessionId, config.cols, config.rows);
+    searchService.startIndexing(config.sessionId);
+
     try {
       if (isRemote && session) {
         await this.createRemoteBridge(bridge, session.host.id, config.tmuxTarget);
@@ -108,6 +120,28 @@ export class TerminalBridgeManager {
     return this.getBridgeInfo(bridge);
   }
 
+  private handleOutput(bridge: TerminalBridge, data: string): void {
+    bridge.lastActivityAt = new Date();
+
+    bridge.outputBuffer.push(data);
+    if (bridge.outputBuffer.length > BUFFER_MAX_LINES) {
+      bridge.outputBuffer.shift();
+    }
+
+    recordingService.appendOutput(bridge.sessionId, data);
+    searchService.indexOutput(bridge.sessionId, data);
+
+    this.onOutput?.(bridge.sessionId, data);
+
+    // Detect Claude status changes
+    if (bridge.statusDetector) {
+      const newStatus = bridge.statusDetector.processOutput(data);
+      if (newStatus) {
+        this.onClaudeStatusChange?.(bridge.sessionId, newStatus);
+      }
+    }
+  }
+
   private createLocalBridge(bridge: TerminalBridge, tmuxTarget: string, cols: number, rows: number): void {
     const ptyProcess = pty.spawn('tmux', ['attach-session', '-t', tmuxTarget], {
       name: 'xterm-256color',
@@ -121,26 +155,13 @@ export class TerminalBridgeManager {
     bridge.state = 'connected';
 
     ptyProcess.onData((data: string) => {
-      bridge.lastActivityAt = new Date();
-
-      bridge.outputBuffer.push(data);
-      if (bridge.outputBuffer.length > BUFFER_MAX_LINES) {
-        bridge.outputBuffer.shift();
-      }
-
-      this.onOutput?.(bridge.sessionId, data);
-
-      // Detect Claude status changes
-      if (bridge.statusDetector) {
-        const newStatus = bridge.statusDetector.processOutput(data);
-        if (newStatus) {
-          this.onClaudeStatusChange?.(bridge.sessionId, newStatus);
-        }
-      }
+      this.handleOutput(bridge, data);
     });
 
     ptyProcess.onExit(() => {
       bridge.state = 'closed';
+      recordingService.stopRecording(bridge.sessionId);
+      searchService.stopIndexing(bridge.sessionId);
       this.onStateChange?.(bridge.sessionId, 'closed');
       this.bridges.delete(bridge.sessionId);
     });
@@ -150,7 +171,7 @@ export class TerminalBridgeManager {
 
   private async createRemoteBridge(bridge: TerminalBridge, hostId: string, tmuxTarget: string): Promise<void> {
     const hostConfig = getHostConfig(hostId);
-    const hasJumpHost = hostConfig?.jumpHost !== undefined;
+    const hasJumpHost = !!hostConfig && getJumpChain(hostConfig).length > 0;
 
     // Use native SSH shell if jump host is configured
     if (hasJumpHost) {
@@ -169,23 +190,7 @@ export class TerminalBridgeManager {
     bridge.state = 'connected';
 
     channel.on('data', (data: Buffer) => {
-      bridge.lastActivityAt = new Date();
-      const str = data.toString();
-
-      bridge.outputBuffer.push(str);
-      if (bridge.outputBuffer.length > BUFFER_MAX_LINES) {
-        bridge.outputBuffer.shift();
-      }
-
-      this.onOutput?.(bridge.sessionId, str);
-
-      // Detect Claude status changes
-      if (bridge.statusDetector) {
-        const newStatus = bridge.statusDetector.processOutput(str);
-        if (newStatus) {
-          this.onClaudeStatusChange?.(bridge.sessionId, newStatus);
-        }
-      }
+      this.handleOutput(bridge, data.toString());
     });
 
     channel.stderr.on('data', (data: Buffer) => {
@@ -195,6 +200,8 @@ export class TerminalBridgeManager {
 
     channel.on('close', () => {
       bridge.state = 'closed';
+      recordingService.stopRecording(bridge.sessionId);
+      searchService.stopIndexing(bridge.sessionId);
       this.onStateChange?.(bridge.sessionId, 'closed');
       this.bridges.delete(bridge.sessionId);
     });
@@ -241,26 +248,13 @@ export class TerminalBridgeManager {
 
     // Now set up the main data handler
     ptyProcess.onData((data: string) => {
-      bridge.lastActivityAt = new Date();
-
-      bridge.outputBuffer.push(data);
-      if (bridge.outputBuffer.length > BUFFER_MAX_LINES) {
-        bridge.outputBuffer.shift();
-      }
-
-      this.onOutput?.(bridge.sessionId, data);
-
-      // Detect Claude status changes
-      if (bridge.statusDetector) {
-        const newStatus = bridge.statusDetector.processOutput(data);
-        if (newStatus) {
-          this.onClaudeStatusChange?.(bridge.sessionId, newStatus);
-        }
-      }
+      this.handleOutput(bridge, data);
     });
 
     ptyProcess.onExit(() => {
       bridge.state = 'closed';
+      recordingService.stopRecording(bridge.sessionId);
+      searchService.stopIndexing(bridge.sessionId);
       this.onStateChange?.(bridge.sessionId, 'closed');
       this.bridges.delete(bridge.sessionId);
     });
@@ -276,6 +270,7 @@ export class TerminalBridgeManager {
     if (!bridge) return;
 
     bridge.subscriberIds.delete(clientId);
+    bridge.readOnlySubscriberIds.delete(clientId);
 
     if (bridge.subscriberIds.size === 0) {
       bridge.state = 'paused';
@@ -287,9 +282,10 @@ export class TerminalBridgeManager {
     }
   }
 
-  sendInput(sessionId: string, data: string): void {
+  sendInput(sessionId: string, data: string, clientId?: string): void {
     const bridge = this.bridges.get(sessionId);
     if (!bridge || bridge.state !== 'connected') return;
+    if (clientId && bridge.readOnlySubscriberIds.has(clientId)) return;
 
     bridge.lastActivityAt = new Date();
 
@@ -300,11 +296,13 @@ export class TerminalBridgeManager {
     }
   }
 
-  resize(sessionId: string, cols: number, rows: number): void {
+  resize(sessionId: string, cols: number, rows: number, clientId?: string): void {
     const bridge = this.bridges.get(sessionId);
     if (!bridge) return;
+    if (clientId && bridge.readOnlySubscriberIds.has(clientId)) return;
 
     bridge.dimensions = { cols, rows };
+    recordingService.recordResize(sessionId, cols, rows);
 
     if (bridge.isRemote && bridge.sshChannel) {
       bridge.sshChannel.setWindow(rows, cols, 0, 0);
@@ -334,6 +332,8 @@ export class TerminalBridgeManager {
     }
 
     bridge.state = 'closed';
+    recordingService.stopRecording(sessionId);
+    searchService.stopIndexing(sessionId);
     this.onStateChange?.(sessionId, 'closed');
     this.bridges.delete(sessionId);
   }
@@ -0,0 +1,236 @@
+import { spawn, exec as execCallback } from 'child_process';
+import { promisify } from 'util';
+import { sshConnectionManager } from './SSHConnectionManager.js';
+import { getHostConfig, getJumpChain } from '../config/hosts.js';
+
+const exec = promisify(execCallback);
+
+// Notifications that mean sessions, windows or panes were created, destroyed or renamed
+const TOPOLOGY_EVENTS = new Set([
+  'sessions-changed',
+  'session-renamed',
+  'session-window-changed',
+  'window-add',
+  'window-close',
+  'window-renamed',
+  'unlinked-window-add',
+  'unlinked-window-close',
+  'unlinked-window-renamed',
+  'layout-change',
+  'window-pane-changed',
+]);
+
+// Wait before reattaching a host whose control client could not start or exited
+const RETRY_DELAY_MS = 10000;
+
+// Read-only so the client never types into the session and ignore-size so it
+// never shrinks anyone's window (tmux 3.2+)
+const ATTACH_FLAGS = 'read-only,ignore-size';
+
+type TopologyListener = (hostId: string) => void;
+type ActivityListener = (hostId: string, paneId: string) => void;
+
+interface ControlTransport {
+  close(): void;
+}
+
+interface ControlClient {
+  hostId: string;
+  state: 'starting' | 'connected' | 'closed';
+  transport: ControlTransport | null;
+  /** Partial line carried over to the next chunk */
+  pending: string;
+  /** Inside a %begin/%end command reply */
+  inReply: boolean;
+  retryAt: number;
+}
+
+/**
+ * Keeps one tmux control-mode client (`tmux -C`) per host and turns its
+ * notifications into events, so discovery can react to new, killed and
+ * renamed sessions immediately instead of polling for them.
+ *
+ * Topology notifications cover the whole tmux server, but a control client
+ * only receives %output for the session it is attached to, so activity
+ * events are a hint for that session; Claude status for the rest still
+ * comes from status polling.
+ */
+export class TmuxControlService {
+  private clients: Map<string, ControlClient> = new Map();
+  private topologyListeners: Set<TopologyListener> = new Set();
+  private activityListeners: Set<ActivityListener> = new Set();
+
+  /**
+   * Start control clients for the given hosts and stop those for hosts that
+   * are gone. Hosts whose client failed are retried after a delay.
+   */
+  sync(hostIds: string[]): void {
+    const wanted = new Set(hostIds.filter(hostId => this.isSupported(hostId)));
+
+    for (const [hostId, client] of this.clients) {
+      if (!wanted.has(hostId)) {
+        this.closeClient(client);
+        this.clients.delete(hostId);
+      }
+    }
+
+    const now = Date.now();
+    for (const hostId of wanted) {
+      const client = this.clients.get(hostId);
+      if (!client || (client.state === 'closed' && now >= client.retryAt)) {
+        this.startClient(hostId);
+      }
+    }
+  }
+
+  stopAll(): void {
+    for (const client of this.clients.values()) {
+      this.closeClient(client);
+    }
+    this.clients.clear();
+  }
+
+  /**
+   * Whether topology changes on this host are currently delivered as events
+   */
+  isConnected(hostId: string): boolean {
+    return this.clients.get(hostId)?.state === 'connected';
+  }
+
+  onTopologyChange(listener: TopologyListener): () => void {
+    this.topologyListeners.add(listener);
+    return () => this.topologyListeners.delete(listener);
+  }
+
+  onActivity(listener: ActivityListener): () => void {
+    this.activityListeners.add(listener);
+    return () => this.activityListeners.delete(listener);
+  }
+
+  /**
+   * Commands on jump-host connections run through the system ssh binary one
+   * at a time, so those hosts stay on polling
+   */
+  private isSupported(hostId: string): boolean {
+    if (hostId === 'local') return true;
+    const hostConfig = getHostConfig(hostId);
+    return !!hostConfig && getJumpChain(hostConfig).length === 0;
+  }
+
+  private startClient(hostId: string): void {
+    const client: ControlClient = {
+      hostId,
+      state: 'starting',
+      transport: null,
+      pending: '',
+      inReply: false,
+      retryAt: 0,
+    };
+    this.clients.set(hostId, client);
+
+    this.openTransport(client).catch(err => {
+      console.warn(`[TmuxControl] ${hostId}: ${err instanceof Error ? err.message : err}`);
+      this.markClosed(client);
+    });
+  }
+
+  private async openTransport(client: ControlClient): Promise<void> {
+    const { hostId } = client;
+
+    // Control clients attach to a session; with none there is nothing to watch yet
+    const listCmd = `tmux list-sessions -F '#{session_id}' 2>/dev/null || true`;
+    const sessionIds = hostId === 'local'
+      ? (await exec(listCmd)).stdout
+      : await sshConnectionManager.exec(hostId, listCmd);
+    const target = sessionIds.trim().split('\n')[0];
+    if (!target) {
+      this.markClosed(client);
+      return;
+    }
+
+    const attachCmd = `tmux -C attach-session -f ${ATTACH_FLAGS} -t '${target}'`;
+
+    if (hostId === 'local') {
+      // stdin stays open; tmux -C exits as soon as it reads EOF
+      const child = spawn('sh', ['-c', attachCmd], { stdio: ['pipe', 'pipe', 'ignore'] });
+      client.transport = {
+        close: () => child.kill(),
+      };
+      child.stdout.on('data', (data: Buffer) => this.handleData(client, data.toString()));
+      child.on('exit', () => this.markClosed(client));
+      child.on('error', () => this.markClosed(client));
+      return;
+    }
+
+    const stream = await sshConnectionManager.execStream(hostId, attachCmd);
+    client.transport = {
+      close: () => stream.close(),
+    };
+    stream.on('data', (data: Buffer) => this.handleData(client, data.toString()));
+    stream.on('close', () => this.markClosed(client));
+  }
+
+  private handleData(client: ControlClient, data: string): void {
+    const lines = (client.pending + data).split('\n');
+    client.pending = lines.pop() ?? '';
+
+    for (const rawLine of lines) {
+      const line = rawLine.replace(/\r$/, '');
+      if (!line.startsWith('%')) continue;
+
+      const [name, ...args] = line.slice(1).split(' ');
+
+      // Replies to commands; the first one answers the attach itself
+      if (name === 'begin') {
+        client.inReply = true;
+        continue;
+      }
+      if (name === 'end' || name === 'error') {
+        client.inReply = false;
+        if (client.state === 'starting') {
+          client.state = 'connected';
+          // Anything may have changed while the client was down
+          this.emitTopology(client.hostId);
+        }
+        continue;
+      }
+      if (client.inReply) continue;
+
+      if (name === 'exit') {
+        this.closeClient(client);
+      } else if (TOPOLOGY_EVENTS.has(name)) {
+        this.emitTopology(client.hostId);
+      } else if ((name === 'output' || name === 'extended-output') && args[0]) {
+        for (const listener of this.activityListeners) {
+          listener(client.hostId, args[0]);
+        }
+      }
+    }
+  }
+
+  private emitTopology(hostId: string): void {
+    for (const listener of this.topologyListeners) {
+      listener(hostId);
+    }
+  }
+
+  private closeClient(client: ControlClient): void {
+    const transport = client.transport;
+    client.transport = null;
+    transport?.close();
+    this.markClosed(client);
+  }
+
+  private markClosed(client: ControlClient): void {
+    if (client.state === 'closed') return;
+    const wasConnected = client.state === 'connected';
+    client.state = 'closed';
+    client.retryAt = Date.now() + RETRY_DELAY_MS;
+    // The attached session may have been the one that went away
+    if (wasConnected) {
+      this.emitTopology(client.hostId);
+    }
+  }
+}
+
+export const tmuxControlService = new TmuxControlService();
@@ -0,0 +1,152 @@
+import { Session } from '../types/Session.js';
+import { TranscriptEntry, TranscriptPage } from '../types/Transcript.js';
+import { sshConnectionManager } from './SSHConnectionManager.js';
+import { buildTranscriptCommand, readLocalTranscript } from '../utils/claudeProject.js';
+
+// Only the end of very long transcripts is read
+const MAX_TRANSCRIPT_BYTES = 10 * 1024 * 1024;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+// Tool output can be whole files; the viewer only needs enough to follow along
+const MAX_TOOL_RESULT_LENGTH = 4000;
+
+export interface TranscriptOptions {
+  /** First entry to return; defaults to the last page */
+  offset?: number;
+  limit?: number;
+  /** Only entries whose text, tool name or tool input contain this */
+  query?: string;
+}
+
+type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: unknown; is_error?: boolean }
+  | { type: string };
+
+/**
+ * Text of a tool result, which is either a string or a list of content blocks
+ */
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map(block => (block && typeof block === 'object' && 'text' in block ? String(block.text) : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return '';
+}
+
+/**
+ * Reads the Claude Code conversation of a session from the newest JSONL
+ * file of its working directory, on whichever host the session runs.
+ */
+export class TranscriptService {
+  async getTranscript(session: Session, options: TranscriptOptions = {}): Promise<TranscriptPage | null> {
+    if (!session.workingDirectory) return null;
+
+    let content: string | null;
+    if (session.host.type === 'local') {
+      content = await readLocalTranscript(session.workingDirectory, MAX_TRANSCRIPT_BYTES);
+    } else {
+      const output = await sshConnectionManager.exec(
+        session.host.id,
+        buildTranscriptCommand(session.workingDirectory, MAX_TRANSCRIPT_BYTES)
+      );
+      content = output || null;
+    }
+    if (content === null) return null;
+
+    const truncated = Buffer.byteLength(content) >= MAX_TRANSCRIPT_BYTES;
+    let entries = this.parseTranscript(content, truncated);
+
+    const query = options.query?.trim().toLowerCase();
+    if (query) {
+      entries = entries.filter(entry =>
+        entry.text.toLowerCase().includes(query) ||
+        entry.toolName?.toLowerCase().includes(query) ||
+        (entry.toolInput !== undefined && JSON.stringify(entry.toolInput).toLowerCase().includes(query))
+      );
+    }
+
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const offset = options.offset === undefined
+      ? Math.max(entries.length - limit, 0)
+      : Math.min(Math.max(options.offset, 0), entries.length);
+
+    return {
+      sessionId: session.id,
+      total: entries.length,
+      offset,
+      entries: entries.slice(offset, offset + limit),
+      truncated,
+    };
+  }
+
+  /**
+   * Turn JSONL lines into user, assistant, tool_use and tool_result entries
+   */
+  private parseTranscript(content: string, truncated: boolean): TranscriptEntry[] {
+    const lines = content.split('\n');
+    // A tail read usually starts mid-line
+    if (truncated) {
+      lines.shift();
+    }
+
+    const entries: TranscriptEntry[] = [];
+    const push = (entry: Omit<TranscriptEntry, 'index'>) => {
+      entries.push({ index: entries.length, ...entry });
+    };
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let record: { type?: string; isMeta?: boolean; timestamp?: string; message?: { content?: unknown } };
+      try {
+        record = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      if ((record.type !== 'user' && record.type !== 'assistant') || record.isMeta || !record.message) {
+        continue;
+      }
+
+      const { timestamp } = record;
+      const messageContent = record.message.content;
+
+      if (typeof messageContent === 'string') {
+        if (messageContent.trim()) {
+          push({ kind: record.type, timestamp, text: messageContent });
+        }
+        continue;
+      }
+      if (!Array.isArray(messageContent)) continue;
+
+      for (const block of messageContent as ContentBlock[]) {
+        if (block.type === 'text' && 'text' in block) {
+          if (block.text.trim()) {
+            push({ kind: record.type, timestamp, text: block.text });
+          }
+        } else if (block.type === 'tool_use' && 'name' in block) {
+          push({ kind: 'tool_use', timestamp, text: '', toolName: block.name, toolInput: block.input, toolUseId: block.id });
+        } else if (block.type === 'tool_result' && 'tool_use_id' in block) {
+          const text = toolResultText(block.content);
+          push({
+            kind: 'tool_result',
+            timestamp,
+            text: text.length > MAX_TOOL_RESULT_LENGTH ? `${text.slice(0, MAX_TOOL_RESULT_LENGTH)}\n…` : text,
+            toolUseId: block.tool_use_id,
+            isError: block.is_error || undefined,
+          });
+        }
+        // Thinking blocks and images are not shown
+      }
+    }
+
+    return entries;
+  }
+}
+
+export const transcriptService = new TranscriptService();
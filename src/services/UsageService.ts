@@ -0,0 +1,321 @@
+import { Session } from '../types/Session.js';
+import { TokenUsage, UsageReport, DailyUsage } from '../types/Usage.js';
+import { sessionDiscoveryService } from './SessionDiscoveryService.js';
+import { sshConnectionManager } from './SSHConnectionManager.js';
+import {
+  TranscriptFile,
+  UsageLines,
+  listLocalTranscripts,
+  readLocalUsageLines,
+  buildListTranscriptsCommand,
+  parseListTranscriptsOutput,
+  buildReadUsageCommand,
+  parseReadUsageOutput,
+} from '../utils/claudeProject.js';
+
+// Reports reuse the last scan for this long
+const REFRESH_TTL_MS = 30 * 1000;
+const DEFAULT_DAYS = 30;
+
+interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+const OPUS_4_5_PRICE: ModelPrice = { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 };
+const OPUS_PRICE: ModelPrice = { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 };
+const SONNET_PRICE: ModelPrice = { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 };
+const HAIKU_4_5_PRICE: ModelPrice = { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 };
+
+// List prices in USD per million tokens by model family and version. Prices
+// change between versions of a family, so unknown versions stay unpriced.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-6': OPUS_4_5_PRICE,
+  'claude-opus-4-5': OPUS_4_5_PRICE,
+  'claude-opus-4-1': OPUS_PRICE,
+  'claude-opus-4': OPUS_PRICE,
+  'claude-3-opus': OPUS_PRICE,
+  'claude-sonnet-4-6': SONNET_PRICE,
+  'claude-sonnet-4-5': SONNET_PRICE,
+  'claude-sonnet-4': SONNET_PRICE,
+  'claude-3-7-sonnet': SONNET_PRICE,
+  'claude-3-5-sonnet': SONNET_PRICE,
+  'claude-haiku-4-5': HAIKU_4_5_PRICE,
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+};
+
+/**
+ * Price of a model id such as `claude-opus-4-5-20251101`, ignoring the
+ * snapshot date and provider prefixes and suffixes
+ */
+function priceOf(model: string): ModelPrice | undefined {
+  const family = model
+    .toLowerCase()
+    .replace(/^.*?(?=claude-)/, '') // Bedrock's `anthropic.` and similar prefixes
+    .replace(/(-v\d+(:\d+)?|@\d+|-\d{8}|-latest)+$/, '');
+  return MODEL_PRICES[family];
+}
+
+interface UsageRecord {
+  /** Resumed conversations copy earlier messages into a new transcript */
+  messageId?: string;
+  timestamp: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  /** Null when the model has no known price */
+  costUsd: number | null;
+}
+
+interface TranscriptState {
+  /** Bytes already read, always just after a newline */
+  offset: number;
+  records: UsageRecord[];
+  /** Claude writes one line per content block, each repeating the message usage */
+  messageIds: Set<string>;
+}
+
+function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, costUsd: 0, unpricedTokens: 0 };
+}
+
+function addUsage(target: TokenUsage, record: UsageRecord): void {
+  target.inputTokens += record.inputTokens;
+  target.outputTokens += record.outputTokens;
+  target.cacheCreationTokens += record.cacheCreationTokens;
+  target.cacheReadTokens += record.cacheReadTokens;
+  if (record.costUsd === null) {
+    target.unpricedTokens +=
+      record.inputTokens + record.outputTokens + record.cacheCreationTokens + record.cacheReadTokens;
+  } else {
+    target.costUsd += record.costUsd;
+  }
+}
+
+/**
+ * Aggregates Claude token usage of managed sessions from the `usage` field
+ * of assistant messages in their project JSONL files. Transcripts are read
+ * incrementally, so each refresh only transfers what was appended since.
+ *
+ * A session is charged for the messages in its working directory's project
+ * written after the session was created.
+ */
+export class UsageService {
+  /** Keyed by `${hostId}:${path}` */
+  private transcripts: Map<string, TranscriptState> = new Map();
+  /** Transcript keys per `${hostId}:${workingDirectory}` */
+  private directoryTranscripts: Map<string, string[]> = new Map();
+  private lastRefreshAt = 0;
+  private refreshing: Promise<void> | null = null;
+
+  async getReport(options: { days?: number } = {}): Promise<UsageReport> {
+    const sessions = sessionDiscoveryService.getManagedSessions(true).filter(s => s.workingDirectory);
+    await this.ensureFresh(sessions);
+
+    const report: UsageReport = {
+      total: emptyUsage(),
+      sessions: {},
+      workspaces: {},
+      days: [],
+      updatedAt: new Date(this.lastRefreshAt).toISOString(),
+    };
+
+    // Several sessions can share a directory; count its messages once for
+    // workspaces and totals, starting from the earliest of those sessions
+    const directorySince = new Map<string, number>();
+    const workspaceDirectorySince = new Map<string, Map<string, number>>();
+
+    for (const session of sessions) {
+      const directoryKey = `${session.host.id}:${session.workingDirectory}`;
+      const since = new Date(session.createdAt).getTime();
+
+      const usage = emptyUsage();
+      for (const record of this.recordsSince(directoryKey, since)) {
+        addUsage(usage, record);
+      }
+      report.sessions[session.id] = usage;
+
+      directorySince.set(directoryKey, Math.min(directorySince.get(directoryKey) ?? since, since));
+      if (session.workspaceId) {
+        const directories = workspaceDirectorySince.get(session.workspaceId) ?? new Map<string, number>();
+        directories.set(directoryKey, Math.min(directories.get(directoryKey) ?? since, since));
+        workspaceDirectorySince.set(session.workspaceId, directories);
+      }
+    }
+
+    for (const [workspaceId, directories] of workspaceDirectorySince) {
+      const usage = emptyUsage();
+      for (const [directoryKey, since] of directories) {
+        for (const record of this.recordsSince(directoryKey, since)) {
+          addUsage(usage, record);
+        }
+      }
+      report.workspaces[workspaceId] = usage;
+    }
+
+    const days = new Map<string, TokenUsage>();
+    for (const [directoryKey, since] of directorySince) {
+      for (const record of this.recordsSince(directoryKey, since)) {
+        addUsage(report.total, record);
+        const date = new Date(record.timestamp).toISOString().slice(0, 10);
+        const usage = days.get(date) ?? emptyUsage();
+        addUsage(usage, record);
+        days.set(date, usage);
+      }
+    }
+
+    report.days = Array.from(days, ([date, usage]): DailyUsage => ({ date, usage }))
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, options.days ?? DEFAULT_DAYS);
+
+    return report;
+  }
+
+  private *recordsSince(directoryKey: string, since: number): Generator<UsageRecord> {
+    // A message copied into another transcript of the project counts once
+    const seen = new Set<string>();
+    for (const transcriptKey of this.directoryTranscripts.get(directoryKey) ?? []) {
+      for (const record of this.transcripts.get(transcriptKey)?.records ?? []) {
+        if (record.timestamp < since) continue;
+        if (record.messageId) {
+          if (seen.has(record.messageId)) continue;
+          seen.add(record.messageId);
+        }
+        yield record;
+      }
+    }
+  }
+
+  private async ensureFresh(sessions: Session[]): Promise<void> {
+    if (!this.refreshing && Date.now() - this.lastRefreshAt >= REFRESH_TTL_MS) {
+      this.refreshing = this.refresh(sessions).finally(() => {
+        this.lastRefreshAt = Date.now();
+        this.refreshing = null;
+      });
+    }
+    if (this.refreshing) {
+      await this.refreshing;
+    }
+  }
+
+  private async refresh(sessions: Session[]): Promise<void> {
+    const directoriesByHost = new Map<string, Set<string>>();
+    for (const session of sessions) {
+      const directories = directoriesByHost.get(session.host.id) ?? new Set<string>();
+      directories.add(session.workingDirectory!);
+      directoriesByHost.set(session.host.id, directories);
+    }
+
+    const results = await Promise.allSettled(
+      Array.from(directoriesByHost, ([hostId, directories]) => this.refreshHost(hostId, Array.from(directories)))
+    );
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.error('[Usage] Failed to read transcripts:', result.reason);
+      }
+    }
+  }
+
+  private async refreshHost(hostId: string, workingDirectories: string[]): Promise<void> {
+    const isLocal = hostId === 'local';
+
+    let listing: Map<string, TranscriptFile[]>;
+    if (isLocal) {
+      listing = new Map();
+      for (const workingDirectory of workingDirectories) {
+        listing.set(workingDirectory, await listLocalTranscripts(workingDirectory));
+      }
+    } else {
+      listing = parseListTranscriptsOutput(
+        await sshConnectionManager.exec(hostId, buildListTranscriptsCommand(workingDirectories))
+      );
+    }
+
+    const reads: { path: string; start: number; end: number }[] = [];
+    for (const [workingDirectory, files] of listing) {
+      this.directoryTranscripts.set(`${hostId}:${workingDirectory}`, files.map(file => `${hostId}:${file.path}`));
+
+      for (const file of files) {
+        const key = `${hostId}:${file.path}`;
+        let state = this.transcripts.get(key);
+        // Shrunk files were rewritten; start over
+        if (!state || file.size < state.offset) {
+          state = { offset: 0, records: [], messageIds: new Set() };
+          this.transcripts.set(key, state);
+        }
+        if (file.size > state.offset) {
+          reads.push({ path: file.path, start: state.offset, end: file.size });
+        }
+      }
+    }
+    if (reads.length === 0) return;
+
+    let lines: Map<string, UsageLines>;
+    if (isLocal) {
+      lines = new Map();
+      for (const read of reads) {
+        lines.set(read.path, await readLocalUsageLines(read.path, read.start, read.end));
+      }
+    } else {
+      lines = parseReadUsageOutput(await sshConnectionManager.exec(hostId, buildReadUsageCommand(reads)));
+    }
+
+    // A line still being written when the size was taken is read again next time
+    for (const read of reads) {
+      const state = this.transcripts.get(`${hostId}:${read.path}`)!;
+      const usageLines = lines.get(read.path);
+      if (!usageLines || Number.isNaN(usageLines.end)) continue;
+      this.ingest(state, usageLines.lines);
+      state.offset = usageLines.end;
+    }
+  }
+
+  private ingest(state: TranscriptState, lines: string[]): void {
+    for (const line of lines) {
+      let record: { type?: string; timestamp?: string; requestId?: string; message?: { id?: string; model?: string; usage?: Record<string, number> } };
+      try {
+        record = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      const usage = record.message?.usage;
+      if (record.type !== 'assistant' || !usage || !record.timestamp) continue;
+
+      const messageId = record.message?.id ?? record.requestId;
+      if (messageId) {
+        if (state.messageIds.has(messageId)) continue;
+        state.messageIds.add(messageId);
+      }
+
+      const price = priceOf(record.message?.model ?? '');
+      const inputTokens = usage.input_tokens ?? 0;
+      const outputTokens = usage.output_tokens ?? 0;
+      const cacheCreationTokens = usage.cache_creation_input_tokens ?? 0;
+      const cacheReadTokens = usage.cache_read_input_tokens ?? 0;
+
+      state.records.push({
+        messageId,
+        timestamp: new Date(record.timestamp).getTime(),
+        inputTokens,
+        outputTokens,
+        cacheCreationTokens,
+        cacheReadTokens,
+        costUsd: price
+          ? (
+              inputTokens * price.input +
+              outputTokens * price.output +
+              cacheCreationTokens * price.cacheWrite +
+              cacheReadTokens * price.cacheRead
+            ) / 1_000_000
+          : null,
+      });
+    }
+  }
+}
+
+export const usageService = new UsageService();
@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import bcrypt from 'bcrypt';
+import { User, PublicUser, UserRole, CreateUserRequest, UpdateUserRequest } from '../types/User.js';
+
+/**
+ * Persistent store of user accounts with bcrypt password hashes and roles
+ */
+export class UserService {
+  private usersPath: string;
+  private users: User[] = [];
+
+  constructor() {
+    this.usersPath = path.join(os.homedir(), '.session-manager', 'users.json');
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.usersPath)) {
+        const data = fs.readFileSync(this.usersPath, 'utf-8');
+        this.users = JSON.parse(data);
+      }
+    } catch (err) {
+      console.error('Failed to load users:', err);
+      this.users = [];
+    }
+  }
+
+  private save(): void {
+    try {
+      const dir = path.dirname(this.usersPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      const tempPath = `${this.usersPath}.tmp`;
+      // Owner-only: the file holds password hashes
+      fs.writeFileSync(tempPath, JSON.stringify(this.users, null, 2), { encoding: 'utf-8', mode: 0o600 });
+      fs.renameSync(tempPath, this.usersPath);
+    } catch (err) {
+      console.error('Failed to save users:', err);
+    }
+  }
+
+  private generateId(): string {
+    return `usr_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private toPublic(user: User): PublicUser {
+    const { passwordHash: _passwordHash, ...rest } = user;
+    return rest;
+  }
+
+  hasUsers(): boolean {
+    return this.users.length > 0;
+  }
+
+  getAll(): PublicUser[] {
+    return this.users.map(user => this.toPublic(user));
+  }
+
+  getById(id: string): PublicUser | undefined {
+    const user = this.users.find(u => u.id === id);
+    return user ? this.toPublic(user) : undefined;
+  }
+
+  getByUsername(username: string): PublicUser | undefined {
+    const user = this.users.find(u => u.username === username);
+    return user ? this.toPublic(user) : undefined;
+  }
+
+  /**
+   * Check a username/password pair, returning the user on success
+   */
+  async verifyPassword(username: string, password: string): Promise<PublicUser | null> {
+    const user = this.users.find(u => u.username === username);
+    if (!user) return null;
+
+    const valid = await bcrypt.compare(password, user.passwordHash);
+    return valid ? this.toPublic(user) : null;
+  }
+
+  /**
+   * Seed the store with the admin from AuthConfig so single-user deployments
+   * keep working. Does nothing once any user exists.
+   */
+  ensureBootstrapAdmin(username: string, passwordHash: string): void {
+    if (this.hasUsers() || !passwordHash) return;
+
+    const now = new Date().toISOString();
+    this.users.push({
+      id: this.generateId(),
+      username,
+      passwordHash,
+      role: 'admin',
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.save();
+  }
+
+  async create(request: CreateUserRequest): Promise<PublicUser> {
+    if (this.users.some(u => u.username === request.username)) {
+      throw new Error(`User already exists: ${request.username}`);
+    }
+
+    const now = new Date().toISOString();
+    const user: User = {
+      id: this.generateId(),
+      username: request.username,
+      passwordHash: await bcrypt.hash(request.password, 10),
+      role: request.role,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.users.push(user);
+    this.save();
+    return this.toPublic(user);
+  }
+
+  async update(id: string, request: UpdateUserRequest): Promise<PublicUser | undefined> {
+    const index = this.users.findIndex(u => u.id === id);
+    if (index === -1) return undefined;
+
+    const user = this.users[index];
+    if (request.role && request.role !== 'admin' && user.role === 'admin') {
+      this.assertNotLastAdmin(user);
+    }
+
+    const updated: User = {
+      ...user,
+      role: request.role || user.role,
+      passwordHash: request.password ? await bcrypt.hash(request.password, 10) : user.passwordHash,
+      updatedAt: new Date().toISOString(),
+    };
+    this.users[index] = updated;
+    this.save();
+    return this.toPublic(updated);
+  }
+
+  delete(id: string): boolean {
+    const index = this.users.findIndex(u => u.id === id);
+    if (index === -1) return false;
+
+    if (this.users[index].role === 'admin') {
+      this.assertNotLastAdmin(this.users[index]);
+    }
+
+    this.users.splice(index, 1);
+    this.save();
+    return true;
+  }
+
+  private countByRole(role: UserRole): number {
+    return this.users.filter(u => u.role === role).length;
+  }
+
+  private assertNotLastAdmin(user: User): void {
+    if (user.role === 'admin' && this.countByRole('admin') === 1) {
+      throw new Error('Cannot remove the last admin');
+    }
+  }
+}
+
+export const userService = new UserService();
@@ -0,0 +1,67 @@
+/** Connection health of an SSH host */
+export interface HostHealth {
+  hostId: string;
+  connected: boolean;
+  /** Round trip of a no-op command, null until measured */
+  latencyMs: number | null;
+  latencyMeasuredAt?: string;
+  /** Exec channels plus long-lived shell and control-mode channels */
+  openChannels: number;
+  maxChannels: number;
+  /** Commands waiting for a free channel */
+  queuedCommands: number;
+  reconnectAttempts: number;
+  lastError?: string;
+  lastDisconnectAt?: string;
+}
+
+/** A public host key as stored in known_hosts */
+export interface HostKey {
+  /** e.g. ssh-ed25519 */
+  keyType: string;
+  /** Base64 key blob */
+  key: string;
+  /** SHA256:… as printed by ssh-keygen -l */
+  fingerprint: string;
+}
+
+/** A key a host presented that differs from the trusted ones */
+export interface HostKeyMismatch {
+  /** Missing when only the system ssh binary saw the key */
+  keyType?: string;
+  key?: string;
+  fingerprint?: string;
+  seenAt: string;
+}
+
+export type HostKeySource = 'first-use' | 'known_hosts' | 'accepted';
+
+/** Trusted keys of one hostname and port */
+export interface HostKeyRecord {
+  hostname: string;
+  port: number;
+  keys: HostKey[];
+  source: HostKeySource;
+  updatedAt: string;
+  mismatch?: HostKeyMismatch;
+}
+
+/** Host key state of one hop of a configured host */
+export interface HostKeyEndpoint {
+  hostname: string;
+  port: number;
+  /** The target itself or one of its jump hosts */
+  role: 'host' | 'jump';
+  /** Null until a key is recorded or imported */
+  record: HostKeyRecord | null;
+}
+
+/** Where a working directory suggestion came from */
+export type DirectorySuggestionSource = 'session' | 'claude' | 'filesystem';
+
+/** A working directory offered while one is being typed */
+export interface DirectorySuggestion {
+  /** In `~/` form when under the host's home directory and the prefix used `~` */
+  path: string;
+  source: DirectorySuggestionSource;
+}
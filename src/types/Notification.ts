@@ -0,0 +1,43 @@
+/** Claude status transitions that can trigger a notification */
+export type NotificationEvent = 'waiting_for_input' | 'error';
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = ['waiting_for_input', 'error'];
+
+/** Where a notification is delivered */
+export type NotificationChannel =
+  | 'browser'   // Browser Notification via the WebSocket
+  | 'webhook'   // JSON POST to the configured webhook URL
+  | 'desktop';  // notify-send on the server host
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['browser', 'webhook', 'desktop'];
+
+export interface NotificationRule {
+  enabled: boolean;
+  events: NotificationEvent[];
+  channels: NotificationChannel[];
+}
+
+export interface NotificationSettings {
+  webhookUrl: string | null;
+  /** Applies to sessions outside a workspace and to workspaces without their own rule */
+  defaultRule: NotificationRule;
+  /** Rules keyed by workspace ID */
+  workspaceRules: Record<string, NotificationRule>;
+}
+
+export interface UpdateNotificationSettingsRequest {
+  webhookUrl?: string | null;
+  defaultRule?: NotificationRule;
+}
+
+export interface SessionNotification {
+  id: string;
+  sessionId: string;
+  sessionName: string;
+  hostId: string;
+  workspaceId: string | null;
+  event: NotificationEvent;
+  title: string;
+  message: string;
+  timestamp: string;
+}
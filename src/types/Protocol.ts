@@ -1,4 +1,6 @@
-import { Session, ClaudeOperationStatus } from './Session.js';
+import { Session, ClaudeOperationStatus, SessionStatusUpdate } from './Session.js';
+import { UserRole } from './User.js';
+import { SessionNotification } from './Notification.js';
 
 // Client -> Server messages
 export interface SubscribeMessage {
@@ -24,10 +26,24 @@ export interface ResizeMessage {
   rows: number;
 }
 
+/** Real-time status of every managed session, without attaching terminals */
+export interface SubscribeStatusMessage {
+  type: 'subscribe-status';
+}
+
+export interface UnsubscribeStatusMessage {
+  type: 'unsubscribe-status';
+}
+
 export interface ListSessionsMessage {
   type: 'list-sessions';
 }
 
+export interface AuthMessage {
+  type: 'auth';
+  token: string;
+}
+
 export interface AuthRefreshMessage {
   type: 'auth-refresh';
   token: string;
@@ -39,12 +55,17 @@ export type ClientMessage =
   | InputMessage
   | ResizeMessage
   | ListSessionsMessage
+  | SubscribeStatusMessage
+  | UnsubscribeStatusMessage
+  | AuthMessage
   | AuthRefreshMessage;
 
 // Server -> Client messages
 export interface SessionsMessage {
   type: 'sessions';
   sessions: Session[];
+  /** Sequence number of the last diff reflected in this list */
+  seq: number;
 }
 
 export interface OutputMessage {
@@ -53,19 +74,34 @@ export interface OutputMessage {
   data: string;
 }
 
+// Session diffs carry consecutive sequence numbers; a gap means the client
+// missed one and should resync with `list-sessions`
 export interface SessionAddedMessage {
   type: 'session-added';
+  seq: number;
   session: Session;
 }
 
 export interface SessionRemovedMessage {
   type: 'session-removed';
+  seq: number;
   sessionId: string;
 }
 
 export interface SessionUpdatedMessage {
   type: 'session-updated';
-  session: Session;
+  seq: number;
+  sessionId: string;
+  /** Only the fields that changed */
+  changes: Partial<Session>;
+  /** Optional fields that are no longer set */
+  cleared?: (keyof Session)[];
+}
+
+export type SessionDiffMessage = SessionAddedMessage | SessionRemovedMessage | SessionUpdatedMessage;
+
+export interface SessionStatusMessage extends SessionStatusUpdate {
+  type: 'session-status';
 }
 
 export interface ClaudeStatusMessage {
@@ -74,12 +110,24 @@ export interface ClaudeStatusMessage {
   status: ClaudeOperationStatus;
 }
 
+export interface NotificationMessage {
+  type: 'notification';
+  notification: SessionNotification;
+}
+
 export interface ErrorMessage {
   type: 'error';
   message: string;
   code?: string;
 }
 
+export interface AuthOkMessage {
+  type: 'auth-ok';
+  user: string;
+  role: UserRole;
+  expiresAt: string;
+}
+
 export interface AuthExpiredMessage {
   type: 'auth-expired';
 }
@@ -97,6 +145,9 @@ export type ServerMessage =
   | SessionRemovedMessage
   | SessionUpdatedMessage
   | ClaudeStatusMessage
+  | SessionStatusMessage
+  | NotificationMessage
   | ErrorMessage
+  | AuthOkMessage
   | AuthExpiredMessage
   | BufferMessage;
@@ -0,0 +1,33 @@
+/** asciicast v2 header (first line of a .cast file) */
+export interface AsciicastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp: number;
+  title?: string;
+  env?: Record<string, string>;
+}
+
+/** asciicast v2 event: [elapsed seconds, event type, data] */
+export type AsciicastEvent = [number, 'o' | 'i' | 'r', string];
+
+/** Metadata for a single recording file */
+export interface RecordingInfo {
+  id: string;
+  sessionId: string;
+  startedAt: string;
+  /** Seconds between the first and last recorded event */
+  duration: number;
+  size: number;
+  cols: number;
+  rows: number;
+  /** True while the bridge is still writing to this recording */
+  active: boolean;
+}
+
+/** Full recording payload for replay */
+export interface RecordingReplay {
+  recording: RecordingInfo;
+  header: AsciicastHeader;
+  events: AsciicastEvent[];
+}
@@ -0,0 +1,22 @@
+import { SessionHost } from './Session.js';
+
+/** Where a search hit was found */
+export type SearchSource = 'bridge' | 'tmux';
+
+export interface SearchResult {
+  sessionId: string;
+  sessionName: string;
+  host: SessionHost;
+  /** When the matching line was output (capture time for tmux history) */
+  timestamp: string;
+  line: string;
+  contextBefore: string[];
+  contextAfter: string[];
+  source: SearchSource;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+  truncated: boolean;
+}
@@ -0,0 +1,7 @@
+/** A vault secret as listed by the API; values are never returned */
+export interface SecretMetadata {
+  id: string;
+  label: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -43,6 +43,33 @@ export interface Dimensions {
   rows: number;
 }
 
+/** Git state of a session's working directory */
+export interface GitStatus {
+  /** Null when HEAD is detached */
+  branch: string | null;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  /** Modified, staged and untracked files */
+  dirtyFiles: number;
+  lastCommit?: {
+    hash: string;
+    subject: string;
+    date: string;
+  };
+}
+
+/** git worktree a session was started in, created by the session manager */
+export interface SessionWorktree {
+  /** Main working tree of the repository */
+  repoRoot: string;
+  path: string;
+  branch: string;
+}
+
+/** What to do with a session's worktree when the session is killed */
+export type WorktreeCleanup = 'keep' | 'remove' | 'merge';
+
 /** Complete Session interface */
 export interface Session {
   id: string;
@@ -67,6 +94,27 @@ export interface Session {
   userLastInput?: string;
   /** Claude operation status (only for Claude sessions) */
   claudeStatus?: ClaudeOperationStatus;
+  /** Git state of the working directory, absent outside a repository */
+  git?: GitStatus;
+  /** Set for sessions started in their own worktree */
+  worktree?: SessionWorktree;
+}
+
+/** Changed status fields of a session; omitted fields are unchanged */
+export interface SessionStatusUpdate {
+  sessionId: string;
+  claudeStatus?: ClaudeOperationStatus;
+  lastOutput?: string;
+  userLastInput?: string;
+}
+
+/** Duration of the last discovery pass over one host */
+export interface HostDiscoveryTiming {
+  hostId: string;
+  durationMs: number;
+  /** Panes found on the host */
+  sessionCount: number;
+  measuredAt: string;
 }
 
 /** Session creation request */
@@ -76,6 +124,20 @@ export interface CreateSessionRequest {
   sessionName?: string;
   claudeArgs?: string[];
   workspaceId?: string;
+  /** Environment variables for the claude process */
+  env?: Record<string, string>;
+  /** Typed into Claude once it is waiting for input */
+  initialPrompt?: string;
+  /** Typed in order, each after Claude finishes the previous turn */
+  followUpInputs?: string[];
+  /**
+   * Start in a new git worktree of workingDirectory's repository instead,
+   * on a new branch (default `session/<sessionName>`) from baseRef (default HEAD)
+   */
+  worktree?: {
+    branch?: string;
+    baseRef?: string;
+  };
 }
 
 /** Session attach request */
@@ -0,0 +1,28 @@
+/** A read-only link that lets someone watch a single session */
+export interface ShareLink {
+  id: string;
+  sessionId: string;
+  sessionName: string;
+  createdBy: string | null;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+}
+
+export interface CreateShareLinkRequest {
+  /** Lifetime of the link, defaults to one hour */
+  expiresInMinutes?: number;
+}
+
+export interface CreateShareLinkResponse {
+  link: ShareLink;
+  /** Signed token for the viewer URL; only returned on creation */
+  token: string;
+}
+
+/** What an anonymous viewer learns about the shared session */
+export interface SharedSessionInfo {
+  sessionId: string;
+  sessionName: string;
+  expiresAt: string;
+}
@@ -0,0 +1,38 @@
+/** Preconfigured recipe for creating a Claude session */
+export interface SessionTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  hostId: string;
+  workingDirectory: string;
+  /** Prefix for generated tmux session names */
+  sessionName?: string;
+  claudeArgs: string[];
+  env: Record<string, string>;
+  /** Prompt typed into Claude once it has started */
+  initialPrompt?: string;
+  /** Workspace new sessions are added to */
+  workspaceId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTemplateRequest {
+  name: string;
+  description?: string;
+  hostId: string;
+  workingDirectory: string;
+  sessionName?: string;
+  claudeArgs?: string[];
+  env?: Record<string, string>;
+  initialPrompt?: string;
+  workspaceId?: string;
+}
+
+export type UpdateTemplateRequest = Partial<CreateTemplateRequest>;
+
+/** Per-creation overrides for POST /api/sessions/from-template/:id */
+export interface CreateFromTemplateRequest {
+  sessionName?: string;
+  workspaceId?: string;
+}
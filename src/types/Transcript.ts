@@ -0,0 +1,31 @@
+/** Kind of entry in a Claude conversation transcript */
+export type TranscriptEntryKind = 'user' | 'assistant' | 'tool_use' | 'tool_result';
+
+/** One message or tool call from a Claude project JSONL file */
+export interface TranscriptEntry {
+  /** Position in the transcript, stable across pages */
+  index: number;
+  kind: TranscriptEntryKind;
+  timestamp?: string;
+  /** Message text, or the tool output for tool results */
+  text: string;
+  /** Tool name for tool_use entries */
+  toolName?: string;
+  /** Tool arguments for tool_use entries */
+  toolInput?: unknown;
+  /** Links a tool_use to its tool_result */
+  toolUseId?: string;
+  /** Set on tool results that reported an error */
+  isError?: boolean;
+}
+
+/** A page of transcript entries */
+export interface TranscriptPage {
+  sessionId: string;
+  /** Entries matching the query, before pagination */
+  total: number;
+  offset: number;
+  entries: TranscriptEntry[];
+  /** True when the transcript file was larger than the part that was read */
+  truncated: boolean;
+}
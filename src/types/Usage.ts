@@ -0,0 +1,29 @@
+/** Token counts summed over Claude API responses */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  /** Estimated from list prices per model, leaving out unpricedTokens */
+  costUsd: number;
+  /** Tokens of models without a known price */
+  unpricedTokens: number;
+}
+
+export interface DailyUsage {
+  /** UTC date, YYYY-MM-DD */
+  date: string;
+  usage: TokenUsage;
+}
+
+/** Usage of managed sessions, read from their Claude project JSONL files */
+export interface UsageReport {
+  total: TokenUsage;
+  /** Keyed by session ID */
+  sessions: Record<string, TokenUsage>;
+  /** Keyed by workspace ID */
+  workspaces: Record<string, TokenUsage>;
+  /** Most recent first */
+  days: DailyUsage[];
+  updatedAt: string;
+}
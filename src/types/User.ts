@@ -0,0 +1,26 @@
+export type UserRole = 'admin' | 'operator' | 'viewer';
+
+export const USER_ROLES: UserRole[] = ['admin', 'operator', 'viewer'];
+
+export interface User {
+  id: string;
+  username: string;
+  passwordHash: string;
+  role: UserRole;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** User as returned by the API (never includes the password hash) */
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+export interface CreateUserRequest {
+  username: string;
+  password: string;
+  role: UserRole;
+}
+
+export interface UpdateUserRequest {
+  password?: string;
+  role?: UserRole;
+}
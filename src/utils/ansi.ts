@@ -0,0 +1,31 @@
+/**
+ * Helpers for turning raw terminal output into plain text.
+ */
+
+// CSI sequences (colors, cursor movement, erase), e.g. \x1b[1;32m, \x1b[?25l
+const CSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]/g;
+// OSC sequences (window titles, hyperlinks), terminated by BEL or ST
+const OSC_PATTERN = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+// Remaining two-character escapes (charset selection, keypad modes)
+const ESC_PATTERN = /\x1b[()#][0-9A-Za-z]|\x1b[=>78DEHMNOZc]/g;
+
+export function stripAnsi(text: string): string {
+  return text
+    .replace(OSC_PATTERN, '')
+    .replace(CSI_PATTERN, '')
+    .replace(ESC_PATTERN, '');
+}
+
+/**
+ * Split raw output into display lines. Carriage returns overwrite the line
+ * they appear on, so only the text after the last one is kept.
+ */
+export function toPlainLines(text: string): string[] {
+  return stripAnsi(text)
+    .split('\n')
+    .map(line => {
+      const segments = line.split('\r').filter(Boolean);
+      const visible = segments.length > 0 ? segments[segments.length - 1] : '';
+      return visible.replace(/[\x00-\x08\x0B-\x1F\x7F]/g, '').trimEnd();
+    });
+}
@@ -0,0 +1,380 @@
+import { exec as execCallback } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { shellQuote } from './tmux.js';
+
+const exec = promisify(execCallback);
+
+export const OMC_STATE_FILES = ['autopilot-state.json', 'ultrawork-state.json', 'ralph-state.json', 'ultrapilot-state.json'];
+
+/**
+ * Claude Code and OMC files belonging to a working directory, read either
+ * locally or on a remote host
+ */
+export interface ClaudeProjectFiles {
+  /** Contents of the project's sessions-index.json */
+  sessionsIndex?: string;
+  /** Last `"type":"summary"` line of the newest JSONL, read when there is no index */
+  summaryLine?: string;
+  /** Time since the newest JSONL transcript was written */
+  jsonlAgeMs?: number;
+  /** Whether the directory has a .omc folder */
+  omcExists: boolean;
+  /** Contents of the OMC state files that exist */
+  omcStates: string[];
+}
+
+/**
+ * ~/.claude/projects names directories after the working directory with
+ * slashes turned into dashes, e.g. /home/devswha/app -> -home-devswha-app
+ */
+function projectPathPattern(workingDirectory: string): string {
+  return workingDirectory.replace(/^\//g, '').replace(/\//g, '-');
+}
+
+/**
+ * Local Claude project directory of a working directory and its newest transcript
+ */
+async function findLocalProject(workingDirectory: string): Promise<{ projectDir: string | null; jsonlFile: string | null }> {
+  // Find matching project directory (could have suffix like -shellspace)
+  const claudeProjectsDir = path.join(os.homedir(), '.claude', 'projects');
+  const findCmd = `find "${claudeProjectsDir}" -maxdepth 1 -type d -name "*${projectPathPattern(workingDirectory)}*" 2>/dev/null | head -1`;
+  const projectDir = (await exec(findCmd)).stdout.trim();
+  if (!projectDir) {
+    return { projectDir: null, jsonlFile: null };
+  }
+
+  const findJsonlCmd = `find "${projectDir}" -maxdepth 1 -name "*.jsonl" -type f 2>/dev/null | xargs ls -t 2>/dev/null | head -1`;
+  const jsonlFile = (await exec(findJsonlCmd)).stdout.trim();
+  return { projectDir, jsonlFile: jsonlFile || null };
+}
+
+export async function readLocalClaudeProjectFiles(workingDirectory: string | null): Promise<ClaudeProjectFiles> {
+  const files: ClaudeProjectFiles = { omcExists: false, omcStates: [] };
+  if (!workingDirectory) return files;
+
+  try {
+    const { projectDir, jsonlFile } = await findLocalProject(workingDirectory);
+
+    if (projectDir) {
+      if (jsonlFile) {
+        files.jsonlAgeMs = Date.now() - fs.statSync(jsonlFile).mtimeMs;
+      }
+
+      const sessionsIndexPath = path.join(projectDir, 'sessions-index.json');
+      if (fs.existsSync(sessionsIndexPath)) {
+        files.sessionsIndex = fs.readFileSync(sessionsIndexPath, 'utf-8');
+      } else if (jsonlFile) {
+        const grepCmd = `grep '"type":"summary"' "${jsonlFile}" 2>/dev/null | tail -1`;
+        files.summaryLine = (await exec(grepCmd)).stdout.trim() || undefined;
+      }
+    }
+  } catch {
+    // Claude files are optional
+  }
+
+  files.omcExists = fs.existsSync(path.join(workingDirectory, '.omc'));
+  if (files.omcExists) {
+    for (const file of OMC_STATE_FILES) {
+      try {
+        files.omcStates.push(fs.readFileSync(path.join(workingDirectory, '.omc', 'state', file), 'utf-8'));
+      } catch {
+        // State file not present
+      }
+    }
+  }
+
+  return files;
+}
+
+// Lines starting with these separate the fields of CLAUDE_PROJECT_SCRIPT output
+const DIR_MARKER = '\x1eD ';
+const INDEX_MARKER = '\x1eI ';
+const SUMMARY_MARKER = '\x1eS ';
+const AGE_MARKER = '\x1eA ';
+const OMC_MARKER = '\x1eO';
+const STATE_MARKER = '\x1eT ';
+
+/**
+ * POSIX sh script printing the Claude project files of every working
+ * directory passed as an argument. Runs in the remote user's environment,
+ * so ~/.claude resolves against the remote $HOME; file contents are joined
+ * onto one line each and JSONL age is computed with the remote clock.
+ */
+// Sets $project and $jsonl (newest transcript) for the working directory in $wd
+const FIND_PROJECT_SNIPPET = [
+  `pattern=$(printf '%s' "$wd" | sed 's#^/##; s#/#-#g')`,
+  `project=$(find "$HOME/.claude/projects" -maxdepth 1 -type d -name "*$pattern*" 2>/dev/null | head -1)`,
+  `jsonl=''`,
+  `[ -n "$project" ] && jsonl=$(ls -t "$project"/*.jsonl 2>/dev/null | head -1)`,
+];
+
+const CLAUDE_PROJECT_SCRIPT = [
+  `for wd in "$@"; do`,
+  `  printf '\\036D %s\\n' "$wd"`,
+  ...FIND_PROJECT_SNIPPET.map(line => `  ${line}`),
+  `  if [ -n "$project" ]; then`,
+  `    if [ -n "$jsonl" ]; then`,
+  `      mtime=$(stat -c %Y "$jsonl" 2>/dev/null || stat -f %m "$jsonl" 2>/dev/null)`,
+  `      [ -n "$mtime" ] && printf '\\036A %s\\n' "$(( $(date +%s) - mtime ))"`,
+  `    fi`,
+  `    if [ -f "$project/sessions-index.json" ]; then`,
+  `      printf '\\036I '; tr -d '\\n' < "$project/sessions-index.json"; printf '\\n'`,
+  `    elif [ -n "$jsonl" ]; then`,
+  `      printf '\\036S %s\\n' "$(grep '"type":"summary"' "$jsonl" 2>/dev/null | tail -1)"`,
+  `    fi`,
+  `  fi`,
+  `  if [ -d "$wd/.omc" ]; then`,
+  `    printf '\\036O\\n'`,
+  `    for f in ${OMC_STATE_FILES.join(' ')}; do`,
+  `      [ -f "$wd/.omc/state/$f" ] && { printf '\\036T '; tr -d '\\n' < "$wd/.omc/state/$f"; printf '\\n'; }`,
+  `    done`,
+  `  fi`,
+  `done`,
+].join('\n');
+
+/**
+ * Command that reads the Claude project files of several working
+ * directories in one go
+ */
+export function buildClaudeProjectCommand(workingDirectories: string[]): string {
+  return `sh -c ${shellQuote(CLAUDE_PROJECT_SCRIPT)} sh ${workingDirectories.map(shellQuote).join(' ')}`;
+}
+
+/**
+ * Command that prints the end of the newest transcript of a working
+ * directory, or nothing when there is none
+ */
+export function buildTranscriptCommand(workingDirectory: string, maxBytes: number): string {
+  const script = [
+    `wd="$1"`,
+    ...FIND_PROJECT_SNIPPET,
+    `[ -n "$jsonl" ] && tail -c ${maxBytes} "$jsonl"`,
+    `exit 0`,
+  ].join('\n');
+  return `sh -c ${shellQuote(script)} sh ${shellQuote(workingDirectory)}`;
+}
+
+/**
+ * End of the newest local transcript of a working directory
+ */
+export async function readLocalTranscript(workingDirectory: string, maxBytes: number): Promise<string | null> {
+  const { jsonlFile } = await findLocalProject(workingDirectory);
+  if (!jsonlFile) return null;
+
+  const { size } = await fs.promises.stat(jsonlFile);
+  const start = Math.max(0, size - maxBytes);
+  const handle = await fs.promises.open(jsonlFile, 'r');
+  try {
+    const buffer = Buffer.alloc(size - start);
+    await handle.read(buffer, 0, buffer.length, start);
+    return buffer.toString('utf-8');
+  } finally {
+    await handle.close();
+  }
+}
+
+/** A transcript file and its current size in bytes */
+export interface TranscriptFile {
+  path: string;
+  size: number;
+}
+
+/**
+ * All local transcripts of a working directory's Claude project
+ */
+export async function listLocalTranscripts(workingDirectory: string): Promise<TranscriptFile[]> {
+  const { projectDir } = await findLocalProject(workingDirectory);
+  if (!projectDir) return [];
+
+  const files: TranscriptFile[] = [];
+  for (const name of await fs.promises.readdir(projectDir)) {
+    if (!name.endsWith('.jsonl')) continue;
+    const filePath = path.join(projectDir, name);
+    const { size } = await fs.promises.stat(filePath);
+    files.push({ path: filePath, size });
+  }
+  return files;
+}
+
+/**
+ * Usage lines of a byte range of a transcript. The range stops after its
+ * last newline, so a line still being written is left for the next read.
+ */
+export interface UsageLines {
+  /** Offset after the last complete line; the next read starts here */
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Complete lines containing usage data between two byte offsets of a local transcript
+ */
+export async function readLocalUsageLines(filePath: string, start: number, end: number): Promise<UsageLines> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(end - start);
+    await handle.read(buffer, 0, buffer.length, start);
+    const complete = buffer.subarray(0, buffer.lastIndexOf(0x0a) + 1);
+    return {
+      end: start + complete.length,
+      lines: complete.toString('utf-8').split('\n').filter(line => line.includes('"usage"')),
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+const FILE_MARKER = '\x1eF ';
+
+/**
+ * Command listing the transcripts of several working directories as
+ * `<marker>D <dir>` lines each followed by `<marker>F <size> <path>` lines
+ */
+export function buildListTranscriptsCommand(workingDirectories: string[]): string {
+  const script = [
+    `for wd in "$@"; do`,
+    `  printf '\\036D %s\\n' "$wd"`,
+    ...FIND_PROJECT_SNIPPET.map(line => `  ${line}`),
+    `  [ -n "$project" ] || continue`,
+    `  for f in "$project"/*.jsonl; do`,
+    `    [ -f "$f" ] && printf '\\036F %s %s\\n' "$(wc -c < "$f" | tr -d ' ')" "$f"`,
+    `  done`,
+    `done`,
+  ].join('\n');
+  return `sh -c ${shellQuote(script)} sh ${workingDirectories.map(shellQuote).join(' ')}`;
+}
+
+export function parseListTranscriptsOutput(output: string): Map<string, TranscriptFile[]> {
+  const result = new Map<string, TranscriptFile[]>();
+  let current: TranscriptFile[] | null = null;
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith(DIR_MARKER)) {
+      current = [];
+      result.set(line.slice(DIR_MARKER.length), current);
+    } else if (current && line.startsWith(FILE_MARKER)) {
+      const rest = line.slice(FILE_MARKER.length);
+      const space = rest.indexOf(' ');
+      const size = parseInt(rest.slice(0, space), 10);
+      if (!Number.isNaN(size)) {
+        current.push({ path: rest.slice(space + 1), size });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Command printing the usage lines between the given byte ranges of remote
+ * transcripts, each file introduced by a `<marker>F <end> <path>` line. A
+ * range not ending in a newline is cut back to its last complete line, and
+ * <end> is the offset it was cut at.
+ */
+export function buildReadUsageCommand(reads: { path: string; start: number; end: number }[]): string {
+  const script = [
+    `while [ $# -gt 0 ]; do`,
+    `  end=$3`,
+    `  if [ "$(tail -c +$3 "$1" 2>/dev/null | head -c 1 | od -An -tx1 | tr -d ' ')" != 0a ]; then`,
+    `    end=$(($3 - $(tail -c +$(($2 + 1)) "$1" 2>/dev/null | head -c $(($3 - $2)) | tail -n 1 | wc -c)))`,
+    `  fi`,
+    `  printf '\\036F %s %s\\n' "$end" "$1"`,
+    `  tail -c +$(($2 + 1)) "$1" 2>/dev/null | head -c $((end - $2)) | grep '"usage"'`,
+    `  shift 3`,
+    `done`,
+    `exit 0`,
+  ].join('\n');
+  const args = reads.flatMap(read => [shellQuote(read.path), String(read.start), String(read.end)]);
+  return `sh -c ${shellQuote(script)} sh ${args.join(' ')}`;
+}
+
+export function parseReadUsageOutput(output: string): Map<string, UsageLines> {
+  const result = new Map<string, UsageLines>();
+  let current: UsageLines | null = null;
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith(FILE_MARKER)) {
+      const rest = line.slice(FILE_MARKER.length);
+      const space = rest.indexOf(' ');
+      current = { end: parseInt(rest.slice(0, space), 10), lines: [] };
+      result.set(rest.slice(space + 1), current);
+    } else if (current && line) {
+      current.lines.push(line);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse the output of buildClaudeProjectCommand, keyed by working directory
+ */
+export function parseClaudeProjectOutput(output: string): Map<string, ClaudeProjectFiles> {
+  const result = new Map<string, ClaudeProjectFiles>();
+  let current: ClaudeProjectFiles | null = null;
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith(DIR_MARKER)) {
+      current = { omcExists: false, omcStates: [] };
+      result.set(line.slice(DIR_MARKER.length), current);
+    } else if (!current) {
+      continue;
+    } else if (line.startsWith(INDEX_MARKER)) {
+      current.sessionsIndex = line.slice(INDEX_MARKER.length);
+    } else if (line.startsWith(SUMMARY_MARKER)) {
+      current.summaryLine = line.slice(SUMMARY_MARKER.length).trim() || undefined;
+    } else if (line.startsWith(AGE_MARKER)) {
+      const ageSeconds = parseInt(line.slice(AGE_MARKER.length), 10);
+      if (!Number.isNaN(ageSeconds)) {
+        current.jsonlAgeMs = ageSeconds * 1000;
+      }
+    } else if (line === OMC_MARKER) {
+      current.omcExists = true;
+    } else if (line.startsWith(STATE_MARKER)) {
+      current.omcStates.push(line.slice(STATE_MARKER.length));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Conversation summary from the sessions index, falling back to the JSONL
+ * summary entry
+ */
+export function getConversationSummary(files: ClaudeProjectFiles): string | undefined {
+  // sessions-index.json is more reliable
+  if (files.sessionsIndex) {
+    try {
+      const indexData = JSON.parse(files.sessionsIndex);
+      const entries = indexData.entries || [];
+
+      // Get the most recent session's summary
+      if (entries.length > 0) {
+        const lastEntry = entries[entries.length - 1];
+        const summary = lastEntry.summary || lastEntry.title || lastEntry.prompt;
+        if (summary && typeof summary === 'string') {
+          return summary.slice(0, 100);
+        }
+      }
+    } catch {
+      // Fall through to the JSONL summary
+    }
+  }
+
+  if (files.summaryLine) {
+    try {
+      const summary = JSON.parse(files.summaryLine).summary;
+      if (summary && typeof summary === 'string') {
+        return summary.slice(0, 100);  // Limit to 100 chars
+      }
+    } catch {
+      // Summary is optional
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,94 @@
+import { DiffFile, DiffHunk } from '../types/Diff.js';
+
+/**
+ * Undo git's C-style quoting of paths with special characters
+ */
+export function unquotePath(value: string): string {
+  if (!value.startsWith('"') || !value.endsWith('"')) return value;
+
+  const bytes: number[] = [];
+  const body = value.slice(1, -1);
+  const escapes: Record<string, number> = { n: 10, t: 9, '"': 34, '\\': 92 };
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '\\' && /^[0-7]{3}$/.test(body.slice(i + 1, i + 4))) {
+      bytes.push(parseInt(body.slice(i + 1, i + 4), 8));
+      i += 3;
+    } else if (body[i] === '\\' && body[i + 1] in escapes) {
+      bytes.push(escapes[body[i + 1]]);
+      i += 1;
+    } else {
+      bytes.push(...Buffer.from(body[i]));
+    }
+  }
+  return Buffer.from(bytes).toString('utf-8');
+}
+
+/**
+ * Path from a `diff --git a/x b/x` line; only used when the file has no
+ * `---`/`+++` lines (binary, empty or mode-only changes)
+ */
+function pathFromDiffHeader(line: string): string {
+  const paths = line.slice('diff --git '.length);
+  // Both halves are equal unless the file was renamed, which has its own lines
+  const half = (paths.length - 1) / 2;
+  const newPath = Number.isInteger(half) ? paths.slice(half + 1) : paths;
+  return unquotePath(newPath).replace(/^b\//, '');
+}
+
+/**
+ * Split `git diff` output into files and hunks
+ */
+export function parseUnifiedDiff(text: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+
+  for (const line of text.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      file = {
+        path: pathFromDiffHeader(line),
+        status: 'modified',
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      };
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+    if (!file) continue;
+
+    if (line.startsWith('@@')) {
+      hunk = { header: line, lines: [] };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (hunk) {
+      // Every hunk line has a prefix; an empty line is the end of the output
+      if (line === '') continue;
+      if (line.startsWith('+')) file.additions++;
+      if (line.startsWith('-')) file.deletions++;
+      hunk.lines.push(line);
+      continue;
+    }
+
+    if (line.startsWith('new file mode')) {
+      file.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      file.status = 'renamed';
+      file.oldPath = unquotePath(line.slice('rename from '.length));
+    } else if (line.startsWith('rename to ')) {
+      file.path = unquotePath(line.slice('rename to '.length));
+    } else if (line.startsWith('Binary files ')) {
+      file.binary = true;
+    } else if (line.startsWith('+++ ') && !line.endsWith('/dev/null')) {
+      file.path = unquotePath(line.slice(4)).replace(/^b\//, '');
+    }
+  }
+
+  return files;
+}
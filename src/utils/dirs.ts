@@ -0,0 +1,81 @@
+import { shellQuote } from './tmux.js';
+
+// Prefixes the $HOME line of DIR_LIST_SCRIPT output
+const HOME_MARKER = '\x1eH ';
+// Directory listings stop here; the user is expected to keep typing
+const MAX_LISTED_DIRS = 200;
+
+/**
+ * POSIX sh script printing $HOME, then the directories in $1 whose name
+ * starts with $2. A leading `~` in $1 is expanded; $2 is matched literally.
+ */
+const DIR_LIST_SCRIPT = [
+  `printf '\\036H %s\\n' "$HOME"`,
+  `case "$1" in "~"|"~/"*) dir="$HOME\${1#\\~}" ;; *) dir="$1" ;; esac`,
+  `for d in "$dir$2"*/; do [ -d "$d" ] && printf '%s\\n' "\${d%/}"; done | head -n ${MAX_LISTED_DIRS}`,
+  `exit 0`,
+].join('\n');
+
+/**
+ * POSIX sh script printing the `"cwd":"..."` field of the newest transcript
+ * of every Claude project; project folder names are lossy, the cwd is not
+ */
+const CLAUDE_PROJECT_DIRS_SCRIPT = [
+  `for p in "$HOME"/.claude/projects/*/; do`,
+  `  f=$(ls -t "$p"*.jsonl 2>/dev/null | head -n 1)`,
+  `  [ -n "$f" ] && grep -m 1 -o '"cwd":"[^"]*"' "$f"`,
+  `done`,
+  `exit 0`,
+].join('\n');
+
+export const CLAUDE_PROJECT_DIRS_COMMAND = `sh -c ${shellQuote(CLAUDE_PROJECT_DIRS_SCRIPT)}`;
+
+/**
+ * Directories are completed relative to the home directory unless the
+ * prefix is absolute; `~` alone means the home directory itself
+ */
+export function normalizeDirPrefix(prefix: string): string {
+  if (prefix === '~') return '~/';
+  if (prefix.startsWith('/') || prefix.startsWith('~/')) return prefix;
+  return `~/${prefix}`;
+}
+
+/**
+ * Command listing the directories a normalized prefix could complete to
+ */
+export function buildDirListCommand(prefix: string): string {
+  const slash = prefix.lastIndexOf('/');
+  const parent = prefix.slice(0, slash + 1);
+  const partial = prefix.slice(slash + 1);
+  return `sh -c ${shellQuote(DIR_LIST_SCRIPT)} sh ${shellQuote(parent)} ${shellQuote(partial)}`;
+}
+
+/**
+ * Home directory and absolute directory paths from DIR_LIST_SCRIPT output
+ */
+export function parseDirList(output: string): { home: string | null; dirs: string[] } {
+  let home: string | null = null;
+  const dirs: string[] = [];
+  for (const line of output.split('\n')) {
+    if (line.startsWith(HOME_MARKER)) {
+      home = line.slice(HOME_MARKER.length) || null;
+    } else if (line) {
+      dirs.push(line);
+    }
+  }
+  return { home, dirs };
+}
+
+export function parseClaudeProjectDirs(output: string): string[] {
+  const dirs: string[] = [];
+  for (const line of output.split('\n')) {
+    if (!line.startsWith('"cwd":')) continue;
+    try {
+      const { cwd } = JSON.parse(`{${line}}`) as { cwd?: string };
+      if (cwd && !dirs.includes(cwd)) dirs.push(cwd);
+    } catch {
+      // Truncated or oddly escaped line
+    }
+  }
+  return dirs;
+}
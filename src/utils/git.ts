@@ -0,0 +1,230 @@
+import { GitStatus } from '../types/Session.js';
+import { shellQuote } from './tmux.js';
+
+// Lines starting with these separate the fields of GIT_STATUS_SCRIPT output
+const DIR_MARKER = '\x1eD ';
+const BRANCH_MARKER = '\x1eB ';
+const DIRTY_MARKER = '\x1eN ';
+const COMMIT_MARKER = '\x1eL ';
+const FIELD_SEPARATOR = '\x1f';
+// Printed instead of the regular output when a script fails
+export const ERROR_MARKER = '\x1eE ';
+
+/**
+ * POSIX sh script printing branch, upstream, ahead/behind, dirty file count
+ * and last commit for every directory passed as an argument. Directories
+ * outside a repository only get their marker line. --no-optional-locks
+ * keeps the probe from taking index.lock while an agent is committing.
+ */
+const GIT_STATUS_SCRIPT = [
+  `for wd in "$@"; do`,
+  `  printf '\\036D %s\\n' "$wd"`,
+  `  git -C "$wd" rev-parse --is-inside-work-tree >/dev/null 2>&1 || continue`,
+  `  git --no-optional-locks -C "$wd" status --porcelain=v1 --branch 2>/dev/null | awk 'NR == 1 { print "\\036B " substr($0, 4); next } { n++ } END { print "\\036N " n + 0 }'`,
+  `  git -C "$wd" log -1 --format='%x1eL %h%x1f%cI%x1f%s' 2>/dev/null`,
+  `done`,
+  `exit 0`,
+].join('\n');
+
+/**
+ * Command that probes the git state of several directories in one go
+ */
+export function buildGitStatusCommand(workingDirectories: string[]): string {
+  return `sh -c ${shellQuote(GIT_STATUS_SCRIPT)} sh ${workingDirectories.map(shellQuote).join(' ')}`;
+}
+
+/**
+ * Parse the `## ...` header of `git status --branch`, e.g.
+ * `main...origin/main [ahead 1, behind 2]` or `HEAD (no branch)`
+ */
+function parseBranchLine(line: string, status: GitStatus): void {
+  if (line.startsWith('HEAD (no branch)')) {
+    status.branch = null;
+    return;
+  }
+
+  const noCommits = line.match(/^(?:No commits yet|Initial commit) on (.+)$/);
+  if (noCommits) {
+    status.branch = noCommits[1];
+    return;
+  }
+
+  const match = line.match(/^(.+?)(?:\.\.\.(\S+))?(?: \[(.*)\])?$/);
+  if (!match) return;
+
+  status.branch = match[1];
+  status.upstream = match[2];
+  const tracking = match[3] ?? '';
+  status.ahead = parseInt(tracking.match(/ahead (\d+)/)?.[1] ?? '0', 10);
+  status.behind = parseInt(tracking.match(/behind (\d+)/)?.[1] ?? '0', 10);
+}
+
+/**
+ * Parse the output of buildGitStatusCommand, keyed by directory.
+ * Directories that are not in a repository map to null.
+ */
+export function parseGitStatusOutput(output: string): Map<string, GitStatus | null> {
+  const result = new Map<string, GitStatus | null>();
+  let currentDir: string | null = null;
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith(DIR_MARKER)) {
+      currentDir = line.slice(DIR_MARKER.length);
+      result.set(currentDir, null);
+      continue;
+    }
+    if (currentDir === null) continue;
+
+    let status = result.get(currentDir);
+    if (!status) {
+      status = { branch: null, ahead: 0, behind: 0, dirtyFiles: 0 };
+      result.set(currentDir, status);
+    }
+
+    if (line.startsWith(BRANCH_MARKER)) {
+      parseBranchLine(line.slice(BRANCH_MARKER.length), status);
+    } else if (line.startsWith(DIRTY_MARKER)) {
+      status.dirtyFiles = parseInt(line.slice(DIRTY_MARKER.length), 10) || 0;
+    } else if (line.startsWith(COMMIT_MARKER)) {
+      const [hash, date, ...subject] = line.slice(COMMIT_MARKER.length).split(FIELD_SEPARATOR);
+      status.lastCommit = { hash, date, subject: subject.join(FIELD_SEPARATOR) };
+    }
+  }
+
+  return result;
+}
+
+// First line of DIFF_SCRIPT output: the revision the diff starts from
+export const DIFF_BASE_MARKER = '\x1eR ';
+
+// Hash of the empty tree, the base for repositories without a usable commit
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * POSIX sh script printing the diff of a working tree, untracked files
+ * included, against HEAD or against the last commit before a date.
+ * Args: directory, date (may be empty), byte limit.
+ */
+const DIFF_SCRIPT = [
+  `cd "$1" 2>/dev/null && git rev-parse --is-inside-work-tree >/dev/null 2>&1 || { printf '\\036E not a git repository\\n'; exit 0; }`,
+  `base=HEAD`,
+  `git rev-parse -q --verify HEAD >/dev/null || base=${EMPTY_TREE}`,
+  `if [ -n "$2" ] && [ "$base" = HEAD ]; then`,
+  `  base=$(git rev-list -1 --before="$2" HEAD 2>/dev/null)`,
+  `  [ -n "$base" ] || base=${EMPTY_TREE}`,
+  `fi`,
+  `printf '\\036R %s\\n' "$base"`,
+  `{`,
+  `  git --no-optional-locks diff --no-color --no-ext-diff "$base" 2>/dev/null`,
+  `  git ls-files --others --exclude-standard 2>/dev/null | while IFS= read -r f; do`,
+  `    git diff --no-color --no-ext-diff --no-index -- /dev/null "$f" 2>/dev/null`,
+  `  done`,
+  `} | head -c "$3"`,
+  `exit 0`,
+].join('\n');
+
+/**
+ * Command printing the diff of a working directory, see DIFF_SCRIPT
+ */
+export function buildDiffCommand(workingDirectory: string, since: string | undefined, maxBytes: number): string {
+  return `sh -c ${shellQuote(DIFF_SCRIPT)} sh ${shellQuote(workingDirectory)} ${shellQuote(since ?? '')} ${maxBytes}`;
+}
+
+const WORKTREE_MARKER = '\x1eW ';
+
+/**
+ * POSIX sh script adding a worktree on a new branch for a session.
+ * Args: working directory (may start with `~`), worktree directory (see
+ * WorktreeConfig), session name, branch, base ref (may be empty). Prints the
+ * repository root and the worktree path.
+ */
+const WORKTREE_ADD_SCRIPT = [
+  `fail() { printf '\\036E %s\\n' "$1"; exit 0; }`,
+  `wd=$1`,
+  `case $wd in "~"|"~"/*) wd="$HOME\${wd#"~"}" ;; esac`,
+  `root=$(git -C "$wd" rev-parse --show-toplevel 2>/dev/null) || fail "Not a git repository: $1"`,
+  `dir=$2`,
+  `case $dir in`,
+  `  "~"/*) dir="$HOME/\${dir#"~/"}" ;;`,
+  `  /*) ;;`,
+  `  *) dir="$root/$dir" ;;`,
+  `esac`,
+  `path="$dir/$(basename "$root")/$3"`,
+  `[ ! -e "$path" ] || fail "Worktree path already exists: $path"`,
+  `mkdir -p "$(dirname "$path")" || fail "Cannot create $(dirname "$path")"`,
+  `out=$(git -C "$root" worktree add -q -b "$4" "$path" \${5:+"$5"} 2>&1) || fail "$out"`,
+  // Resolve symlinks so the path matches what `git worktree list` reports
+  `path=$(cd "$path" && pwd -P)`,
+  `printf '\\036W %s\\n\\036W %s\\n' "$root" "$path"`,
+].join('\n');
+
+/**
+ * Command creating a session worktree, see WORKTREE_ADD_SCRIPT
+ */
+export function buildWorktreeAddCommand(
+  workingDirectory: string,
+  directory: string,
+  sessionName: string,
+  branch: string,
+  baseRef?: string
+): string {
+  const args = [workingDirectory, directory, sessionName, branch, baseRef ?? ''].map(shellQuote).join(' ');
+  return `sh -c ${shellQuote(WORKTREE_ADD_SCRIPT)} sh ${args}`;
+}
+
+/**
+ * Parse the output of buildWorktreeAddCommand; throws the script's error
+ */
+export function parseWorktreeAddOutput(output: string): { repoRoot: string; path: string } {
+  checkScriptOutput(output);
+  const [repoRoot, path] = output
+    .split('\n')
+    .filter(line => line.startsWith(WORKTREE_MARKER))
+    .map(line => line.slice(WORKTREE_MARKER.length));
+  if (!repoRoot || !path) {
+    throw new Error('Unexpected output while creating the worktree');
+  }
+  return { repoRoot, path };
+}
+
+/**
+ * POSIX sh script removing a session worktree and its branch, after merging
+ * the branch into the repository's checked-out branch for `merge`. Refuses
+ * paths that are not registered worktrees of the repository, and merges
+ * only committed work. Args: action, repository root, worktree path, branch.
+ */
+const WORKTREE_CLEANUP_SCRIPT = [
+  `fail() { printf '\\036E %s\\n' "$1"; exit 0; }`,
+  `[ "$3" != "$2" ] || fail "Refusing to remove the main working tree: $2"`,
+  `git -C "$2" worktree list --porcelain 2>/dev/null | grep -qxF "worktree $3" || fail "Not a worktree of $2: $3"`,
+  `if [ "$1" = merge ]; then`,
+  `  [ -z "$(git -C "$3" status --porcelain 2>/dev/null)" ] || fail "Worktree has uncommitted changes: $3"`,
+  `  out=$(git -C "$2" merge --no-edit "$4" 2>&1) || { git -C "$2" merge --abort >/dev/null 2>&1; fail "Merging $4 failed: $out"; }`,
+  `  out=$(git -C "$2" worktree remove "$3" 2>&1) || fail "$out"`,
+  `  out=$(git -C "$2" branch -d "$4" 2>&1) || fail "$out"`,
+  `else`,
+  `  out=$(git -C "$2" worktree remove --force "$3" 2>&1) || fail "$out"`,
+  `  out=$(git -C "$2" branch -D "$4" 2>&1) || fail "$out"`,
+  `fi`,
+].join('\n');
+
+/**
+ * Command removing (and for `merge` first merging) a session worktree
+ */
+export function buildWorktreeCleanupCommand(
+  action: 'remove' | 'merge',
+  worktree: { repoRoot: string; path: string; branch: string }
+): string {
+  const args = [action, worktree.repoRoot, worktree.path, worktree.branch].map(shellQuote).join(' ');
+  return `sh -c ${shellQuote(WORKTREE_CLEANUP_SCRIPT)} sh ${args}`;
+}
+
+/**
+ * Throw the error a script reported with ERROR_MARKER, if any
+ */
+export function checkScriptOutput(output: string): void {
+  const index = output.indexOf(ERROR_MARKER);
+  if (index !== -1) {
+    throw new Error(output.slice(index + ERROR_MARKER.length).trim());
+  }
+}
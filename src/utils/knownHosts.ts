@@ -0,0 +1,82 @@
+import { createHash, createHmac } from 'crypto';
+import { HostKey } from '../types/Host.js';
+
+/**
+ * The name known_hosts uses for a host: bare for port 22, `[host]:port` otherwise
+ */
+export function knownHostsName(hostname: string, port: number): string {
+  return port === 22 ? hostname : `[${hostname}]:${port}`;
+}
+
+/**
+ * Key type named at the start of an SSH public key blob
+ */
+export function keyTypeOf(blob: Buffer): string {
+  if (blob.length < 4) return 'unknown';
+  const length = blob.readUInt32BE(0);
+  return blob.subarray(4, 4 + length).toString('ascii') || 'unknown';
+}
+
+/**
+ * SHA256 fingerprint in the format ssh-keygen -l prints
+ */
+export function fingerprintOf(blob: Buffer): string {
+  return `SHA256:${createHash('sha256').update(blob).digest('base64').replace(/=+$/, '')}`;
+}
+
+export function toHostKey(blob: Buffer): HostKey {
+  return { keyType: keyTypeOf(blob), key: blob.toString('base64'), fingerprint: fingerprintOf(blob) };
+}
+
+/**
+ * Whether one host pattern of a known_hosts line names the host; hashed
+ * entries (HashKnownHosts) are HMAC-SHA1 of the name keyed with their salt
+ */
+function patternMatches(pattern: string, name: string): boolean {
+  if (pattern.startsWith('|1|')) {
+    const [, , salt, hash] = pattern.split('|');
+    if (!salt || !hash) return false;
+    const digest = createHmac('sha1', Buffer.from(salt, 'base64')).update(name).digest('base64');
+    return digest === hash;
+  }
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i').test(name);
+}
+
+/**
+ * Keys a known_hosts file lists for a host. Revoked and certificate
+ * authority lines are skipped, as are negated matches.
+ */
+export function findKnownHostKeys(content: string, hostname: string, port: number): HostKey[] {
+  const name = knownHostsName(hostname, port);
+  const keys: HostKey[] = [];
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#') || line.startsWith('@')) continue;
+
+    const [patterns, keyType, key] = line.split(/\s+/);
+    if (!patterns || !keyType || !key) continue;
+
+    let matched = false;
+    let negated = false;
+    for (const pattern of patterns.split(',')) {
+      if (pattern.startsWith('!')) {
+        if (patternMatches(pattern.slice(1), name)) negated = true;
+      } else if (patternMatches(pattern, name)) {
+        matched = true;
+      }
+    }
+    if (!matched || negated) continue;
+
+    const blob = Buffer.from(key, 'base64');
+    if (blob.length === 0 || keys.some(k => k.key === key)) continue;
+    keys.push({ keyType, key, fingerprint: fingerprintOf(blob) });
+  }
+
+  return keys;
+}
+
+export function formatKnownHostsLine(hostname: string, port: number, key: HostKey): string {
+  return `${knownHostsName(hostname, port)} ${key.keyType} ${key.key}`;
+}
@@ -0,0 +1,308 @@
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { homedir, userInfo } from 'os';
+import { join, dirname, basename, isAbsolute } from 'path';
+import { SSHHostConfig, JumpHostConfig } from '../config/hosts.js';
+
+// Include can nest; OpenSSH gives up at the same depth
+const MAX_INCLUDE_DEPTH = 16;
+
+/** A host entry of an OpenSSH config, converted for hosts.json */
+export interface SshConfigEntry {
+  /** The `Host` alias */
+  alias: string;
+  host: SSHHostConfig;
+  /** Every ProxyJump hop in connection order */
+  jumpChain: JumpHostConfig[];
+  /** Options that were ignored or only partly converted */
+  warnings: string[];
+}
+
+interface ConfigLine {
+  key: string;
+  value: string;
+}
+
+interface HostBlock {
+  /** Null for Match blocks, whose conditions are not evaluated */
+  patterns: string[] | null;
+  lines: ConfigLine[];
+}
+
+interface ResolvedOptions {
+  hostname?: string;
+  user?: string;
+  port?: string;
+  identityfile?: string;
+  proxyjump?: string;
+  proxycommand?: string;
+}
+
+const RESOLVED_KEYS: (keyof ResolvedOptions)[] = ['hostname', 'user', 'port', 'identityfile', 'proxyjump', 'proxycommand'];
+
+/**
+ * Split a config line into keyword and arguments; keywords are
+ * case-insensitive and may be followed by whitespace or `=`
+ */
+function parseLine(raw: string): ConfigLine | null {
+  const line = raw.trim();
+  if (!line || line.startsWith('#')) return null;
+
+  const match = line.match(/^(\S+?)(?:\s*=\s*|\s+)(.*)$/);
+  if (!match) return null;
+  return { key: match[1].toLowerCase(), value: match[2].trim() };
+}
+
+/**
+ * Whitespace-separated arguments, honouring double quotes
+ */
+function splitArgs(value: string): string[] {
+  const args: string[] = [];
+  const regex = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(value)) !== null) {
+    args.push(match[1] ?? match[2]);
+  }
+  return args;
+}
+
+function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+}
+
+function globToRegex(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Files an Include argument refers to; relative paths are under ~/.ssh and
+ * wildcards are supported in the file name
+ */
+function resolveInclude(pattern: string): string[] {
+  const path = expandHome(pattern);
+  const absolute = isAbsolute(path) ? path : join(homedir(), '.ssh', path);
+  const name = basename(absolute);
+
+  if (!/[*?]/.test(name)) {
+    return existsSync(absolute) ? [absolute] : [];
+  }
+
+  const dir = dirname(absolute);
+  if (!existsSync(dir)) return [];
+  const regex = globToRegex(name);
+  return readdirSync(dir)
+    .filter(file => regex.test(file))
+    .sort()
+    .map(file => join(dir, file));
+}
+
+/**
+ * Config lines with Include directives replaced by the included files' lines
+ */
+function flattenLines(content: string, depth: number, warnings: string[]): ConfigLine[] {
+  const lines: ConfigLine[] = [];
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = parseLine(raw);
+    if (!line) continue;
+
+    if (line.key !== 'include') {
+      lines.push(line);
+      continue;
+    }
+
+    if (depth >= MAX_INCLUDE_DEPTH) {
+      warnings.push(`Include nested too deeply: ${line.value}`);
+      continue;
+    }
+    for (const pattern of splitArgs(line.value)) {
+      for (const file of resolveInclude(pattern)) {
+        try {
+          lines.push(...flattenLines(readFileSync(file, 'utf-8'), depth + 1, warnings));
+        } catch (err) {
+          warnings.push(`Cannot read included file ${file}: ${err instanceof Error ? err.message : err}`);
+        }
+      }
+    }
+  }
+
+  return lines;
+}
+
+function groupBlocks(lines: ConfigLine[]): HostBlock[] {
+  // Options before the first Host apply to every host
+  const blocks: HostBlock[] = [{ patterns: ['*'], lines: [] }];
+
+  for (const line of lines) {
+    if (line.key === 'host') {
+      blocks.push({ patterns: splitArgs(line.value), lines: [] });
+    } else if (line.key === 'match') {
+      blocks.push({ patterns: null, lines: [] });
+    } else {
+      blocks[blocks.length - 1].lines.push(line);
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Host pattern matching: any positive pattern must match and no negated one
+ */
+function matchesHost(patterns: string[], alias: string): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    if (pattern.startsWith('!')) {
+      if (globToRegex(pattern.slice(1)).test(alias)) return false;
+    } else if (globToRegex(pattern).test(alias)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Options for an alias; as in OpenSSH the first value obtained wins
+ */
+function resolveOptions(blocks: HostBlock[], alias: string): ResolvedOptions {
+  const options: ResolvedOptions = {};
+  for (const block of blocks) {
+    if (!block.patterns || !matchesHost(block.patterns, alias)) continue;
+    for (const { key, value } of block.lines) {
+      if ((RESOLVED_KEYS as string[]).includes(key) && options[key as keyof ResolvedOptions] === undefined) {
+        options[key as keyof ResolvedOptions] = value;
+      }
+    }
+  }
+  return options;
+}
+
+/**
+ * Expand the `%` tokens that matter for host names and identity files
+ */
+function expandTokens(value: string, tokens: { host: string; user: string }): string {
+  return expandHome(
+    value.replace(/%([%dhru])/g, (_, token: string) => {
+      switch (token) {
+        case '%': return '%';
+        case 'd': return homedir();
+        case 'h': return tokens.host;
+        case 'r': return tokens.user;
+        default: return userInfo().username;
+      }
+    })
+  );
+}
+
+function isConcreteAlias(pattern: string): boolean {
+  return !/[*?!]/.test(pattern);
+}
+
+/**
+ * Turn a Host alias into a hosts.json id
+ */
+function toHostId(alias: string): string {
+  return alias.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'host';
+}
+
+/**
+ * Resolve a host as ssh would connect to it: its own options, or the
+ * options of the alias it names
+ */
+function resolveEndpoint(
+  blocks: HostBlock[],
+  target: string,
+  defaults: { user?: string; port?: number } = {}
+): { hostname: string; port: number; username: string; privateKeyPath?: string; options: ResolvedOptions } {
+  const options = resolveOptions(blocks, target);
+  const username = defaults.user ?? (options.user ? expandTokens(options.user, { host: target, user: '' }) : userInfo().username);
+  const hostname = options.hostname ? expandTokens(options.hostname, { host: target, user: username }) : target;
+  const port = defaults.port ?? (parseInt(options.port ?? '', 10) || 22);
+  const identityFile = options.identityfile ? splitArgs(options.identityfile)[0] : undefined;
+
+  return {
+    hostname,
+    port,
+    username,
+    privateKeyPath: identityFile ? expandTokens(identityFile, { host: hostname, user: username }) : undefined,
+    options,
+  };
+}
+
+/**
+ * Parse one ProxyJump hop: `[user@]host[:port]` or `ssh://[user@]host[:port]`
+ */
+function parseJumpSpec(spec: string): { host: string; user?: string; port?: number } {
+  const match = spec.replace(/^ssh:\/\//, '').match(/^(?:([^@]+)@)?(\[[^\]]+\]|[^:]+)(?::(\d+))?$/);
+  if (!match) return { host: spec };
+  return {
+    user: match[1],
+    host: match[2].replace(/^\[|\]$/g, ''),
+    port: match[3] ? parseInt(match[3], 10) : undefined,
+  };
+}
+
+/**
+ * Convert the concrete `Host` entries of an OpenSSH config into host
+ * configs. Include is followed; Match blocks, wildcard-only entries and
+ * ProxyCommand are not converted.
+ */
+export function parseSshConfig(content: string): SshConfigEntry[] {
+  const globalWarnings: string[] = [];
+  const blocks = groupBlocks(flattenLines(content, 0, globalWarnings));
+
+  const aliases: string[] = [];
+  for (const block of blocks.slice(1)) {
+    for (const pattern of block.patterns ?? []) {
+      if (isConcreteAlias(pattern) && !aliases.includes(pattern)) {
+        aliases.push(pattern);
+      }
+    }
+  }
+
+  return aliases.map(alias => {
+    const warnings = [...globalWarnings];
+    const endpoint = resolveEndpoint(blocks, alias);
+
+    const jumpChain: JumpHostConfig[] = [];
+    const proxyJump = endpoint.options.proxyjump;
+    if (proxyJump && proxyJump.toLowerCase() !== 'none') {
+      for (const spec of proxyJump.split(',').map(s => s.trim()).filter(Boolean)) {
+        const hop = parseJumpSpec(spec);
+        const resolved = resolveEndpoint(blocks, hop.host, { user: hop.user, port: hop.port });
+        if (resolved.options.proxyjump && resolved.options.proxyjump.toLowerCase() !== 'none') {
+          warnings.push(`ProxyJump of jump host ${hop.host} is ignored`);
+        }
+        jumpChain.push({
+          hostname: resolved.hostname,
+          port: resolved.port,
+          username: resolved.username,
+          ...(resolved.privateKeyPath ? { privateKeyPath: resolved.privateKeyPath } : {}),
+        });
+      }
+    } else if (endpoint.options.proxycommand && endpoint.options.proxycommand.toLowerCase() !== 'none') {
+      warnings.push('ProxyCommand is not supported and was ignored');
+    }
+
+    const host: SSHHostConfig = {
+      id: toHostId(alias),
+      name: alias,
+      hostname: endpoint.hostname,
+      port: endpoint.port,
+      username: endpoint.username,
+      ...(endpoint.privateKeyPath ? { privateKeyPath: endpoint.privateKeyPath } : {}),
+      ...(jumpChain.length === 1 ? { jumpHost: jumpChain[0] } : {}),
+      ...(jumpChain.length > 1 ? { jumpHost: jumpChain } : {}),
+    };
+
+    return { alias, host, jumpChain, warnings };
+  });
+}
+
+/**
+ * Parse the current user's ~/.ssh/config; empty when there is none
+ */
+export function readUserSshConfig(): SshConfigEntry[] {
+  const path = join(homedir(), '.ssh', 'config');
+  return existsSync(path) ? parseSshConfig(readFileSync(path, 'utf-8')) : [];
+}
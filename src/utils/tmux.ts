@@ -7,6 +7,48 @@ const exec = promisify(execCallback);
 // Export delimiter for use in remote discovery
 export const DELIMITER = '|||';
 
+/**
+ * Quote a value as a single shell word
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Lines starting with these separate sections of the remote discovery output;
+// \x1e (record separator) never appears in captured pane text
+export const DISCOVERY_SESSION_MARKER = '\x1eS ';
+export const DISCOVERY_PANE_MARKER = '\x1eP ';
+
+/**
+ * POSIX sh script that collects everything discovery needs from a host in
+ * one round trip: each session's status-right, then a header line per pane
+ * followed by its last 50 lines of scrollback
+ */
+export const DISCOVERY_SCRIPT = [
+  `D='${DELIMITER}'`,
+  `tmux list-sessions -F '#{session_id}' 2>/dev/null | while IFS= read -r sid; do`,
+  `  printf '\\036S %s%s%s\\n' "$sid" "$D" "$(tmux display-message -t "$sid" -p '#{T:status-right}' 2>/dev/null)"`,
+  `done`,
+  `tmux list-panes -a -F "#{pane_id}$D#{pane_pid}$D#{pane_current_command}$D#{pane_width}$D#{pane_height}$D#{window_index}$D#{pane_current_path}$D#{session_id}$D#{session_created}$D#{session_name}" 2>/dev/null | while IFS= read -r line; do`,
+  `  printf '\\036P %s\\n' "$line"`,
+  `  tmux capture-pane -t "\${line%%"$D"*}" -p -S -50 2>/dev/null`,
+  `done`,
+].join('\n');
+
+// Introduces each pane's capture in the output of STATUS_CAPTURE_SCRIPT
+export const STATUS_PANE_MARKER = '\x1eC ';
+
+/**
+ * POSIX sh script capturing the last 50 lines of each pane id given as an
+ * argument, the same capture DISCOVERY_SCRIPT takes, for status polling
+ */
+export const STATUS_CAPTURE_SCRIPT = [
+  `for p in "$@"; do`,
+  `  printf '\\036C %s\\n' "$p"`,
+  `  tmux capture-pane -t "$p" -p -S -50 2>/dev/null`,
+  `done`,
+].join('\n');
+
 export interface TmuxSession {
   sessionId: string;
   sessionName: string;
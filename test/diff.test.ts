@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseUnifiedDiff, unquotePath } from '../src/utils/diff.js';
+
+test('unquotePath leaves plain paths alone', () => {
+  assert.equal(unquotePath('src/index.ts'), 'src/index.ts');
+});
+
+test('unquotePath decodes escapes and octal UTF-8 bytes', () => {
+  assert.equal(unquotePath('"tab\\there"'), 'tab\there');
+  assert.equal(unquotePath('"say \\"hi\\""'), 'say "hi"');
+  assert.equal(unquotePath('"back\\\\slash"'), 'back\\slash');
+  assert.equal(unquotePath('"caf\\303\\251.txt"'), 'café.txt');
+});
+
+test('parseUnifiedDiff counts changes of a modified file', () => {
+  const files = parseUnifiedDiff([
+    'diff --git a/src/a.ts b/src/a.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    '@@ -1,3 +1,3 @@',
+    ' keep',
+    '-old',
+    '+new',
+    '+extra',
+    '',
+  ].join('\n'));
+
+  assert.equal(files.length, 1);
+  assert.equal(files[0].path, 'src/a.ts');
+  assert.equal(files[0].status, 'modified');
+  assert.equal(files[0].additions, 2);
+  assert.equal(files[0].deletions, 1);
+  assert.deepEqual(files[0].hunks, [{ header: '@@ -1,3 +1,3 @@', lines: [' keep', '-old', '+new', '+extra'] }]);
+});
+
+test('parseUnifiedDiff detects added and deleted files', () => {
+  const files = parseUnifiedDiff([
+    'diff --git a/new.txt b/new.txt',
+    'new file mode 100644',
+    '--- /dev/null',
+    '+++ b/new.txt',
+    '@@ -0,0 +1 @@',
+    '+hello',
+    'diff --git a/gone.txt b/gone.txt',
+    'deleted file mode 100644',
+    '--- a/gone.txt',
+    '+++ /dev/null',
+    '@@ -1 +0,0 @@',
+    '-bye',
+  ].join('\n'));
+
+  assert.deepEqual(files.map(f => [f.path, f.status, f.additions, f.deletions]), [
+    ['new.txt', 'added', 1, 0],
+    ['gone.txt', 'deleted', 0, 1],
+  ]);
+});
+
+test('parseUnifiedDiff keeps both paths of a rename', () => {
+  const files = parseUnifiedDiff([
+    'diff --git a/old name.ts b/new name.ts',
+    'similarity index 100%',
+    'rename from old name.ts',
+    'rename to new name.ts',
+  ].join('\n'));
+
+  assert.equal(files.length, 1);
+  assert.equal(files[0].status, 'renamed');
+  assert.equal(files[0].oldPath, 'old name.ts');
+  assert.equal(files[0].path, 'new name.ts');
+  assert.deepEqual(files[0].hunks, []);
+});
+
+test('parseUnifiedDiff unquotes C-quoted paths', () => {
+  const files = parseUnifiedDiff([
+    'diff --git "a/caf\\303\\251.txt" "b/caf\\303\\251.txt"',
+    '--- "a/caf\\303\\251.txt"',
+    '+++ "b/caf\\303\\251.txt"',
+    '@@ -1 +1 @@',
+    '-a',
+    '+b',
+    'diff --git "a/tab\\tname" "b/tab\\tname"',
+    'Binary files "a/tab\\tname" and "b/tab\\tname" differ',
+  ].join('\n'));
+
+  assert.equal(files[0].path, 'café.txt');
+  assert.equal(files[1].path, 'tab\tname');
+  assert.equal(files[1].binary, true);
+});
+
+test('parseUnifiedDiff takes the path of binary files from the diff header', () => {
+  const files = parseUnifiedDiff([
+    'diff --git a/img/logo.png b/img/logo.png',
+    'index 1111111..2222222 100644',
+    'Binary files a/img/logo.png and b/img/logo.png differ',
+  ].join('\n'));
+
+  assert.equal(files[0].path, 'img/logo.png');
+  assert.equal(files[0].binary, true);
+  assert.equal(files[0].additions, 0);
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGitStatusOutput } from '../src/utils/git.js';
+
+const dir = (path: string) => `\x1eD ${path}`;
+const branch = (line: string) => `\x1eB ${line}`;
+const dirty = (count: number) => `\x1eN ${count}`;
+const commit = (hash: string, date: string, subject: string) => `\x1eL ${hash}\x1f${date}\x1f${subject}`;
+
+test('parseGitStatusOutput reads branch, tracking, dirty files and last commit', () => {
+  const result = parseGitStatusOutput([
+    dir('/work/app'),
+    branch('main...origin/main [ahead 1, behind 2]'),
+    dirty(3),
+    commit('abc1234', '2026-01-02T03:04:05+00:00', 'Fix parser'),
+    '',
+  ].join('\n'));
+
+  assert.deepEqual(result.get('/work/app'), {
+    branch: 'main',
+    upstream: 'origin/main',
+    ahead: 1,
+    behind: 2,
+    dirtyFiles: 3,
+    lastCommit: { hash: 'abc1234', date: '2026-01-02T03:04:05+00:00', subject: 'Fix parser' },
+  });
+});
+
+test('parseGitStatusOutput handles branches without an upstream or divergence', () => {
+  const result = parseGitStatusOutput([
+    dir('/a'),
+    branch('feature/x'),
+    dirty(0),
+    dir('/b'),
+    branch('main...origin/main'),
+    dirty(0),
+    dir('/c'),
+    branch('main...origin/main [behind 4]'),
+    dirty(0),
+  ].join('\n'));
+
+  assert.equal(result.get('/a')?.branch, 'feature/x');
+  assert.equal(result.get('/a')?.upstream, undefined);
+  assert.equal(result.get('/b')?.upstream, 'origin/main');
+  assert.equal(result.get('/b')?.ahead, 0);
+  assert.equal(result.get('/c')?.ahead, 0);
+  assert.equal(result.get('/c')?.behind, 4);
+});
+
+test('parseGitStatusOutput reports a detached HEAD as no branch', () => {
+  const result = parseGitStatusOutput([
+    dir('/work/app'),
+    branch('HEAD (no branch)'),
+    dirty(1),
+    commit('abc1234', '2026-01-02T03:04:05+00:00', 'Release'),
+  ].join('\n'));
+
+  const status = result.get('/work/app');
+  assert.equal(status?.branch, null);
+  assert.equal(status?.dirtyFiles, 1);
+  assert.equal(status?.lastCommit?.hash, 'abc1234');
+});
+
+test('parseGitStatusOutput handles repositories without commits', () => {
+  const result = parseGitStatusOutput([
+    dir('/new'),
+    branch('No commits yet on main'),
+    dirty(2),
+    dir('/old-git'),
+    branch('Initial commit on master'),
+    dirty(0),
+  ].join('\n'));
+
+  assert.deepEqual(result.get('/new'), { branch: 'main', ahead: 0, behind: 0, dirtyFiles: 2 });
+  assert.equal(result.get('/old-git')?.branch, 'master');
+  assert.equal(result.get('/old-git')?.lastCommit, undefined);
+});
+
+test('parseGitStatusOutput maps directories outside a repository to null', () => {
+  const result = parseGitStatusOutput([dir('/tmp'), dir('/work/app'), branch('main'), dirty(0)].join('\n'));
+
+  assert.equal(result.get('/tmp'), null);
+  assert.equal(result.get('/work/app')?.branch, 'main');
+});
+
+test('parseGitStatusOutput keeps field separators inside the commit subject', () => {
+  const result = parseGitStatusOutput([
+    dir('/work/app'),
+    branch('main'),
+    dirty(0),
+    commit('abc1234', '2026-01-02T03:04:05+00:00', 'odd\x1fsubject'),
+  ].join('\n'));
+
+  assert.equal(result.get('/work/app')?.lastCommit?.subject, 'odd\x1fsubject');
+});
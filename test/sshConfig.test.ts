@@ -0,0 +1,147 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseSshConfig } from '../src/utils/sshConfig.js';
+
+// Relative Include paths and ~ resolve against $HOME, so point it at a scratch directory
+let home: string;
+const originalHome = process.env.HOME;
+
+before(() => {
+  home = mkdtempSync(join(tmpdir(), 'sshconfig-test-'));
+  mkdirSync(join(home, '.ssh', 'conf.d'), { recursive: true });
+  process.env.HOME = home;
+});
+
+after(() => {
+  process.env.HOME = originalHome;
+  rmSync(home, { recursive: true, force: true });
+});
+
+test('parseSshConfig converts a plain host entry', () => {
+  const [entry, ...rest] = parseSshConfig([
+    '# comment',
+    'Host Web.Prod',
+    '  HostName 10.0.0.5',
+    '  User deploy',
+    '  Port=2222',
+    '  IdentityFile ~/.ssh/id_%r',
+  ].join('\n'));
+
+  assert.equal(rest.length, 0);
+  assert.equal(entry.alias, 'Web.Prod');
+  assert.deepEqual(entry.host, {
+    id: 'web-prod',
+    name: 'Web.Prod',
+    hostname: '10.0.0.5',
+    port: 2222,
+    username: 'deploy',
+    privateKeyPath: join(home, '.ssh', 'id_deploy'),
+  });
+  assert.deepEqual(entry.warnings, []);
+});
+
+test('parseSshConfig lets the first value win and applies wildcard blocks', () => {
+  const entries = parseSshConfig([
+    'User fallback',
+    'Host app',
+    '  HostName app.internal',
+    'Host *.internal !db.internal',
+    '  Port 2200',
+    'Host app',
+    '  HostName ignored.example',
+    'Host *',
+    '  User late',
+  ].join('\n'));
+
+  assert.deepEqual(entries.map(e => e.alias), ['app']);
+  assert.equal(entries[0].host.hostname, 'app.internal');
+  assert.equal(entries[0].host.username, 'fallback');
+  assert.equal(entries[0].host.port, 22);
+});
+
+test('parseSshConfig resolves every hop of a multi-hop ProxyJump', () => {
+  const entries = parseSshConfig([
+    'Host bastion',
+    '  HostName bastion.example.com',
+    '  User jump',
+    '  IdentityFile /keys/bastion',
+    'Host target',
+    '  HostName 192.168.1.10',
+    '  User app',
+    '  ProxyJump bastion,ops@inner.example.com:2022,ssh://[fe80::1]:2200',
+  ].join('\n'));
+
+  const target = entries.find(e => e.alias === 'target')!;
+  assert.deepEqual(target.jumpChain[0], {
+    hostname: 'bastion.example.com',
+    port: 22,
+    username: 'jump',
+    privateKeyPath: '/keys/bastion',
+  });
+  assert.deepEqual(target.jumpChain[1], { hostname: 'inner.example.com', port: 2022, username: 'ops' });
+  assert.equal(target.jumpChain[2].hostname, 'fe80::1');
+  assert.equal(target.jumpChain[2].port, 2200);
+  assert.deepEqual(target.host.jumpHost, target.jumpChain);
+});
+
+test('parseSshConfig stores a single hop as one jump host', () => {
+  const [entry] = parseSshConfig([
+    'Host target',
+    '  HostName target.example.com',
+    '  User app',
+    '  ProxyJump admin@gw.example.com',
+  ].join('\n'));
+
+  assert.equal(entry.jumpChain.length, 1);
+  assert.deepEqual(entry.host.jumpHost, { hostname: 'gw.example.com', port: 22, username: 'admin' });
+});
+
+test('parseSshConfig warns about options it does not convert', () => {
+  const entries = parseSshConfig([
+    'Host hop',
+    '  User jump',
+    '  ProxyJump other',
+    'Host target',
+    '  User app',
+    '  ProxyJump hop',
+    'Host legacy',
+    '  User app',
+    '  ProxyCommand nc %h %p',
+  ].join('\n'));
+
+  assert.deepEqual(entries.find(e => e.alias === 'target')!.warnings, ['ProxyJump of jump host hop is ignored']);
+  assert.deepEqual(entries.find(e => e.alias === 'legacy')!.warnings, ['ProxyCommand is not supported and was ignored']);
+  assert.equal(entries.find(e => e.alias === 'legacy')!.host.jumpHost, undefined);
+});
+
+test('parseSshConfig follows nested and wildcard Include directives', () => {
+  writeFileSync(join(home, '.ssh', 'conf.d', 'a.conf'), 'Host alpha\n  User a\n  Include nested.conf\n');
+  writeFileSync(join(home, '.ssh', 'conf.d', 'b.conf'), 'Host beta\n  User b\n');
+  writeFileSync(join(home, '.ssh', 'nested.conf'), 'Host gamma\n  User g\n');
+  writeFileSync(join(home, 'absolute.conf'), 'Host delta\n  User d\n');
+
+  const entries = parseSshConfig([
+    'Include conf.d/*.conf',
+    `Include ${join(home, 'absolute.conf')} missing.conf`,
+  ].join('\n'));
+
+  assert.deepEqual(entries.map(e => [e.alias, e.host.username]), [
+    ['alpha', 'a'],
+    ['gamma', 'g'],
+    ['beta', 'b'],
+    ['delta', 'd'],
+  ]);
+});
+
+test('parseSshConfig stops following Include loops', () => {
+  writeFileSync(join(home, '.ssh', 'loop.conf'), 'Host looped\n  User l\nInclude loop.conf\n');
+
+  const [entry, ...rest] = parseSshConfig('Include loop.conf');
+
+  assert.equal(rest.length, 0);
+  assert.equal(entry.alias, 'looped');
+  assert.ok(entry.warnings.includes('Include nested too deeply: loop.conf'));
+});